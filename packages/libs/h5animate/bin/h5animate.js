@@ -0,0 +1,9 @@
+#!/usr/bin/env node
+/**
+ * h5animate 命令行入口，注册 tsx 后加载 TypeScript 源码
+ */
+
+import { register } from "tsx/esm/api";
+
+register();
+await import("../lib/bin.ts");
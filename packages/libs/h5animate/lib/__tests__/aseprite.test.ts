@@ -0,0 +1,243 @@
+import { describe, test, expect } from "vitest";
+import sharp from "sharp";
+import {
+  parseAsepriteSheet,
+  asepriteFramesToSpriteInfo,
+  resolveAsepriteSequence,
+  asepriteToMeta,
+  importAseprite,
+  exportAseprite,
+  type AsepriteFrame,
+  type AsepriteSheet,
+} from "../aseprite.js";
+import { encode } from "../api.js";
+import { decodeH5Animate } from "../decoder.js";
+import { renderAllFrames } from "../exporter.js";
+import { H5AnimateErrorCode } from "../errors.js";
+
+/**
+ * 创建两帧的 Aseprite 数据：第 0 帧为 16x16 红色，第 1 帧裁剪为 8x8 绿色
+ */
+async function createSheet(): Promise<{ sheet: AsepriteSheet; image: Buffer }> {
+  const image = await sharp({ create: { width: 24, height: 16, channels: 4, background: { r: 0, g: 0, b: 0, alpha: 0 } } })
+    .composite([
+      {
+        input: { create: { width: 16, height: 16, channels: 4, background: { r: 255, g: 0, b: 0, alpha: 1 } } },
+        left: 0,
+        top: 0,
+      },
+      {
+        input: { create: { width: 8, height: 8, channels: 4, background: { r: 0, g: 255, b: 0, alpha: 1 } } },
+        left: 16,
+        top: 0,
+      },
+    ])
+    .png()
+    .toBuffer();
+
+  const sheet: AsepriteSheet = {
+    frames: {
+      "slash 0.aseprite": {
+        frame: { x: 0, y: 0, w: 16, h: 16 },
+        rotated: false,
+        trimmed: false,
+        spriteSourceSize: { x: 0, y: 0, w: 16, h: 16 },
+        sourceSize: { w: 16, h: 16 },
+        duration: 100,
+      },
+      "slash 1.aseprite": {
+        frame: { x: 16, y: 0, w: 8, h: 8 },
+        rotated: false,
+        trimmed: true,
+        spriteSourceSize: { x: 4, y: 2, w: 8, h: 8 },
+        sourceSize: { w: 16, h: 16 },
+        duration: 50,
+      },
+    },
+    meta: {
+      app: "https://www.aseprite.org/",
+      version: "1.3",
+      image: "slash.png",
+      format: "RGBA8888",
+      size: { w: 24, h: 16 },
+      scale: "1",
+      frameTags: [{ name: "all", from: 0, to: 1, direction: "pingpong" }],
+      slices: [{ name: "hand", keys: [{ frame: 0, bounds: { x: 0, y: 0, w: 16, h: 16 }, pivot: { x: 8, y: 16 } }] }],
+    },
+  };
+
+  return { sheet, image };
+}
+
+const validationError = expect.objectContaining({ code: H5AnimateErrorCode.VALIDATION_ERROR });
+
+describe("parseAsepriteSheet", () => {
+  test("应该接受哈希与数组格式", async () => {
+    const { sheet } = await createSheet();
+    const array = { ...sheet, frames: Object.entries(sheet.frames).map(([filename, frame]) => ({ filename, ...frame })) };
+
+    expect(parseAsepriteSheet(JSON.stringify(sheet)).frames).toEqual(sheet.frames);
+    expect(parseAsepriteSheet(array).frames).toEqual(array.frames);
+  });
+
+  test("无效的 JSON 或帧应该抛出错误", () => {
+    expect(() => parseAsepriteSheet("{")).toThrow(expect.objectContaining({ code: H5AnimateErrorCode.JSON_PARSE_ERROR }));
+    expect(() => parseAsepriteSheet({ meta: {} })).toThrow(validationError);
+    expect(() => parseAsepriteSheet({ frames: { a: { frame: { x: 0, y: 0 } } } })).toThrow(validationError);
+  });
+});
+
+describe("asepriteFramesToSpriteInfo", () => {
+  test("裁剪过的帧应该记录偏移与原始尺寸", async () => {
+    const { sheet } = await createSheet();
+    const info = asepriteFramesToSpriteInfo(Object.values(sheet.frames));
+
+    expect(info.count).toBe(2);
+    expect(info.dimensions).toEqual([{ width: 16, height: 16 }, { width: 16, height: 16 }]);
+    expect(info.rects).toEqual([
+      { x: 0, y: 0, width: 16, height: 16 },
+      { x: 16, y: 0, width: 8, height: 8, offsetX: 4, offsetY: 2, sourceWidth: 16, sourceHeight: 16 },
+    ]);
+  });
+
+  test("旋转存放的帧应该抛出转换错误", () => {
+    const frame: AsepriteFrame = { frame: { x: 0, y: 0, w: 4, h: 4 }, rotated: true };
+
+    expect(() => asepriteFramesToSpriteInfo([frame])).toThrow(
+      expect.objectContaining({ code: H5AnimateErrorCode.CONVERSION_FAILED }),
+    );
+  });
+});
+
+describe("resolveAsepriteSequence", () => {
+  const sheet: AsepriteSheet = {
+    frames: [],
+    meta: {
+      frameTags: [
+        { name: "forward", from: 1, to: 3 },
+        { name: "reverse", from: 1, to: 3, direction: "reverse" },
+        { name: "pingpong", from: 1, to: 3, direction: "pingpong" },
+        { name: "pingpong_reverse", from: 1, to: 3, direction: "pingpong_reverse" },
+        { name: "broken", from: 2, to: 9 },
+      ],
+    },
+  };
+
+  test("应该按标签的播放方向展开", () => {
+    expect(resolveAsepriteSequence(sheet, 5)).toEqual([0, 1, 2, 3, 4]);
+    expect(resolveAsepriteSequence(sheet, 5, "forward")).toEqual([1, 2, 3]);
+    expect(resolveAsepriteSequence(sheet, 5, "reverse")).toEqual([3, 2, 1]);
+    expect(resolveAsepriteSequence(sheet, 5, "pingpong")).toEqual([1, 2, 3, 2]);
+    expect(resolveAsepriteSequence(sheet, 5, "pingpong_reverse")).toEqual([3, 2, 1, 2]);
+  });
+
+  test("标签不存在或越界应该抛出验证错误", () => {
+    expect(() => resolveAsepriteSequence(sheet, 5, "missing")).toThrow(validationError);
+    expect(() => resolveAsepriteSequence(sheet, 5, "broken")).toThrow(validationError);
+  });
+});
+
+describe("asepriteToMeta", () => {
+  test("帧时长应该写入每帧的 duration", async () => {
+    const { sheet } = await createSheet();
+    delete (sheet.frames as Record<string, AsepriteFrame>)["slash 1.aseprite"].duration;
+    const meta = asepriteToMeta(sheet, { tag: "all" });
+
+    expect(meta.frame.map((frame) => frame.objects![0].index)).toEqual([0, 1]);
+    expect(meta.frame.map((frame) => frame.duration)).toEqual([100, 100]);
+    expect(meta).not.toHaveProperty("fps");
+  });
+
+  test("对象坐标应该为帧中心相对切片轴心的偏移", async () => {
+    const { sheet } = await createSheet();
+
+    expect(asepriteToMeta(sheet, { ratio: 2 }).frame[0].objects![0]).toMatchObject({ x: 0, y: -16 });
+    expect(() => asepriteToMeta(sheet, { anchorSlice: "missing" })).toThrow(validationError);
+  });
+
+  test("切片的 key 应该从其帧起生效", async () => {
+    const { sheet } = await createSheet();
+    sheet.meta.slices![0].keys.push({ frame: 1, bounds: { x: 0, y: 0, w: 4, h: 4 }, pivot: { x: 0, y: 0 } });
+    const meta = asepriteToMeta(sheet);
+
+    expect(meta.frame[0].objects![0]).toMatchObject({ x: 0, y: -8 });
+    expect(meta.frame[1].objects![0]).toMatchObject({ x: 8, y: 8 });
+  });
+
+  test("没有切片时锚点为帧中心", async () => {
+    const { sheet } = await createSheet();
+    delete sheet.meta.slices;
+
+    expect(asepriteToMeta(sheet).frame.every((frame) => frame.objects![0].x === 0 && frame.objects![0].y === 0))
+      .toBe(true);
+  });
+});
+
+describe("importAseprite", () => {
+  test("应该生成可编码的动画，裁剪帧渲染在原始位置", async () => {
+    const { sheet, image } = await createSheet();
+    delete sheet.meta.slices;
+
+    const animation = decodeH5Animate(encode(await importAseprite(sheet, image)));
+    const frames = await renderAllFrames(animation);
+
+    expect(animation.meta.frame.map((frame) => frame.duration)).toEqual([100, 50]);
+    expect(frames[0]).toMatchObject({ width: 16, height: 16 });
+
+    // 第 1 帧的绿色区域位于 (4, 2) 起的 8x8
+    const pixel = (x: number, y: number) => [...frames[1].data.subarray((y * 16 + x) * 4, (y * 16 + x) * 4 + 4)];
+    expect(pixel(4, 2)).toEqual([0, 255, 0, 255]);
+    expect(pixel(3, 2)[3]).toBe(0);
+  });
+});
+
+describe("exportAseprite", () => {
+  test("frames 模式导出后再导入应该渲染出相同的帧", async () => {
+    const { sheet, image } = await createSheet();
+    const original = await importAseprite(sheet, image);
+    const { json, image: png } = await exportAseprite(original, { name: "slash", format: "array" });
+
+    expect(Array.isArray(json.frames)).toBe(true);
+    expect(json.meta).toMatchObject({ app: "@motajs/h5animate", image: "slash.png", format: "RGBA8888" });
+    expect((json.frames as AsepriteFrame[]).map((frame) => frame.filename)).toEqual(["slash 0", "slash 1"]);
+    expect(json.meta.slices![0].name).toBe("anchor");
+
+    const restored = await importAseprite(JSON.stringify(json), png);
+    const before = await renderAllFrames(original);
+    const after = await renderAllFrames(restored);
+
+    expect(after.map((frame) => frame.data)).toEqual(before.map((frame) => frame.data));
+    expect(restored.meta.frame.map((frame) => frame.duration)).toEqual([100, 50]);
+  });
+
+  test("sprites 模式应该导出精灵图集与裁剪信息", async () => {
+    const { sheet, image } = await createSheet();
+    const { json, image: png } = await exportAseprite(await importAseprite(sheet, image), { mode: "sprites" });
+
+    expect(json.meta.size).toEqual({ w: 24, h: 16 });
+    expect(json.frames).toMatchObject({
+      "h5animate 0": { frame: { x: 0, y: 0, w: 16, h: 16 }, trimmed: false },
+      "h5animate 1": {
+        frame: { x: 16, y: 0, w: 8, h: 8 },
+        trimmed: true,
+        spriteSourceSize: { x: 4, y: 2, w: 8, h: 8 },
+        sourceSize: { w: 16, h: 16 },
+      },
+    });
+    expect((await sharp(png).metadata()).format).toBe("png");
+  });
+
+  test("导出的时长应该来自元数据的帧率与帧时长", async () => {
+    const { sheet, image } = await createSheet();
+    const animation = await importAseprite(sheet, image);
+    animation.meta = { ...animation.meta, fps: 40 };
+    animation.meta.frame[0] = { objects: animation.meta.frame[0].objects };
+    animation.meta.frame[1] = { ...animation.meta.frame[1], duration: 80 };
+
+    const frames = (await exportAseprite(animation, { format: "array" })).json.frames as AsepriteFrame[];
+    const sprites = (await exportAseprite(animation, { mode: "sprites", format: "array" })).json.frames as AsepriteFrame[];
+
+    expect(frames.map((frame) => frame.duration)).toEqual([25, 80]);
+    expect(sprites.every((frame) => frame.duration === 25)).toBe(true);
+  });
+});
@@ -0,0 +1,190 @@
+import { describe, test, expect, beforeEach, afterEach } from "vitest";
+import { copyFileSync, existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { createRequire } from "module";
+import { tmpdir } from "os";
+import { join } from "path";
+import { convertDirectory, formatBatchReportMarkdown, hashConvertInput, type BatchReport } from "../batch.js";
+import { decodeH5Animate } from "../decoder.js";
+import { H5AnimateErrorCode } from "../errors.js";
+import { FORMAT_VERSION_4 } from "../version.js";
+import type { ProgressInfo } from "../types.js";
+
+const sampleAnimatePath = join(__dirname, "../../sample/hand.animate");
+
+/** 工作线程需要通过 tsx 加载源码，无法解析 tsx 时跳过工作线程的测试 */
+const hasTsx = (() => {
+  try {
+    createRequire(import.meta.url).resolve("tsx/esm/api");
+    return true;
+  } catch {
+    return false;
+  }
+})();
+
+let root: string;
+let sourceDir: string;
+let outDir: string;
+
+beforeEach(() => {
+  root = mkdtempSync(join(tmpdir(), "h5animate-batch-"));
+  sourceDir = join(root, "animates");
+  outDir = join(root, "dist");
+  mkdirSync(join(sourceDir, "nested"), { recursive: true });
+  copyFileSync(sampleAnimatePath, join(sourceDir, "a.animate"));
+  copyFileSync(sampleAnimatePath, join(sourceDir, "nested/b.animate"));
+  writeFileSync(join(sourceDir, "broken.animate"), "{");
+  writeFileSync(join(sourceDir, "readme.txt"), "不是动画");
+});
+
+afterEach(() => {
+  rmSync(root, { recursive: true, force: true });
+});
+
+function statuses(report: BatchReport): Record<string, string> {
+  return Object.fromEntries(report.files.map((file) => [file.file, file.status]));
+}
+
+describe("convertDirectory", () => {
+  test("应该转换全部 .animate 并在失败后继续", async () => {
+    const events: ProgressInfo[] = [];
+    const report = await convertDirectory(sourceDir, {
+      outDir,
+      workers: 0,
+      convert: { metaEncoding: "binary" },
+      onProgress: (event) => events.push(event),
+    });
+
+    expect(statuses(report)).toEqual({
+      "a.animate": "converted",
+      "broken.animate": "failed",
+      "nested/b.animate": "converted",
+    });
+    expect(report.files[1].error?.code).toBe(H5AnimateErrorCode.CONVERSION_FAILED);
+    expect(report.failed).toBe(1);
+    expect(report.workers).toBe(0);
+    expect(report).not.toHaveProperty("workerError");
+    expect(events.map((event) => `${event.stage} ${event.current}/${event.total}`)).toEqual([
+      "file 0/3",
+      "file 1/3",
+      "file 2/3",
+      "file 3/3",
+    ]);
+
+    const output = readFileSync(join(outDir, "nested/b.h5animate"));
+    expect(decodeH5Animate(output).version).toBe(FORMAT_VERSION_4);
+    expect(report.files[2].sizeAfter).toBe(output.length);
+    expect(report.sizeAfter).toBe(report.files[0].sizeAfter! + report.files[2].sizeAfter!);
+  });
+
+  test.skipIf(!hasTsx)("应该在工作线程中转换", async () => {
+    const report = await convertDirectory(sourceDir, { outDir, workers: 2, cacheFile: false, convert: { metaEncoding: "binary" } });
+
+    expect(report.workers).toBe(2);
+    expect(report).not.toHaveProperty("workerError");
+
+    expect(statuses(report)).toEqual({
+      "a.animate": "converted",
+      "broken.animate": "failed",
+      "nested/b.animate": "converted",
+    });
+    expect(report.files[1].error?.code).toBe(H5AnimateErrorCode.CONVERSION_FAILED);
+    expect(decodeH5Animate(readFileSync(join(outDir, "a.h5animate"))).version).toBe(FORMAT_VERSION_4);
+  });
+
+  test("应该跳过未修改的文件，修改内容、选项或删除输出后重新转换", async () => {
+    await convertDirectory(sourceDir, { outDir, workers: 0 });
+    expect(existsSync(join(outDir, ".h5animate-cache.json"))).toBe(true);
+
+    const second = await convertDirectory(sourceDir, { outDir, workers: 0 });
+    expect(statuses(second)).toEqual({
+      "a.animate": "skipped",
+      "broken.animate": "failed",
+      "nested/b.animate": "skipped",
+    });
+    expect(second.files[0].sizeAfter).toBeGreaterThan(0);
+
+    const legacy = JSON.parse(readFileSync(sampleAnimatePath, "utf-8"));
+    writeFileSync(join(sourceDir, "a.animate"), JSON.stringify({ ...legacy, ratio: 3 }));
+    rmSync(join(outDir, "nested/b.h5animate"));
+
+    const third = await convertDirectory(sourceDir, { outDir, workers: 0 });
+    expect(third.converted).toBe(2);
+
+    const changedOptions = await convertDirectory(sourceDir, { outDir, workers: 0, convert: { metaEncoding: "binary" } });
+    expect(changedOptions.converted).toBe(2);
+
+    const forced = await convertDirectory(sourceDir, { outDir, workers: 0, convert: { metaEncoding: "binary" }, force: true });
+    expect(forced.converted).toBe(2);
+  });
+
+  test("应该写入 JSON 与 Markdown 报告", async () => {
+    const jsonReport = join(root, "reports/report.json");
+    const markdownReport = join(root, "reports/report.md");
+
+    const report = await convertDirectory(sourceDir, { outDir, workers: 0, cacheFile: false, jsonReport, markdownReport });
+
+    expect(JSON.parse(readFileSync(jsonReport, "utf-8")).files).toHaveLength(3);
+    expect(readFileSync(markdownReport, "utf-8")).toBe(formatBatchReportMarkdown(report));
+    expect(existsSync(join(outDir, ".h5animate-cache.json"))).toBe(false);
+  });
+
+  test("取消后应该抛出 ABORTED", async () => {
+    const controller = new AbortController();
+
+    const promise = convertDirectory(sourceDir, {
+      outDir,
+      workers: 0,
+      signal: controller.signal,
+      onProgress: ({ current }) => {
+        if (current === 1) {
+          controller.abort();
+        }
+      },
+    });
+
+    await expect(promise).rejects.toEqual(expect.objectContaining({ code: H5AnimateErrorCode.ABORTED }));
+  });
+});
+
+describe("formatBatchReportMarkdown", () => {
+  test("应该输出汇总与转义后的表格", () => {
+    const markdown = formatBatchReportMarkdown({
+      sourceDir: "/src",
+      outDir: "/dist",
+      files: [
+        { file: "a.animate", output: "/dist/a.h5animate", status: "converted", hash: "", sizeBefore: 200, sizeAfter: 50 },
+        {
+          file: "b|c.animate",
+          output: "/dist/b|c.h5animate",
+          status: "failed",
+          hash: "",
+          sizeBefore: 10,
+          error: { code: H5AnimateErrorCode.JSON_PARSE_ERROR, message: "第一行\n第二行" },
+        },
+      ],
+      converted: 1,
+      skipped: 0,
+      failed: 1,
+      sizeBefore: 200,
+      sizeAfter: 50,
+      duration: 12,
+      workers: 0,
+      workerError: "无法加载",
+    });
+
+    expect(markdown).toContain("200 → 50 字节（25.0%）");
+    expect(markdown).toContain("- 工作线程: 未使用，无法启动: 无法加载");
+    expect(markdown).toContain("| a.animate | 已转换 | 200 | 50 |  |");
+    expect(markdown).toContain(`| b\\|c.animate | 失败 | 10 | - | ${H5AnimateErrorCode.JSON_PARSE_ERROR} 第一行 第二行 |`);
+  });
+});
+
+describe("hashConvertInput", () => {
+  test("内容或选项不同时哈希应该不同", () => {
+    const source = Buffer.from("{}");
+
+    expect(hashConvertInput(source)).toBe(hashConvertInput(Buffer.from("{}"), {}));
+    expect(hashConvertInput(source)).not.toBe(hashConvertInput(Buffer.from("[]")));
+    expect(hashConvertInput(source)).not.toBe(hashConvertInput(source, { metaEncoding: "binary" }));
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, test, expect } from "vitest";
-import { BinaryParser, BinaryWriter } from "../binary";
+import { BinaryParser, BinaryWriter, getChunkSize, isValidChunkTag } from "../binary";
 import { H5AnimateError, H5AnimateErrorCode } from "../errors";
 
 describe("BinaryParser", () => {
@@ -79,6 +79,16 @@ describe("BinaryParser", () => {
 
       expect(() => parser.readBytes(5)).toThrow(H5AnimateError);
     });
+
+    test("基于 Uint8Array 时应该返回 Uint8Array 视图", () => {
+      const bytes = new Uint8Array([0x41, 0x4e, 0x49, 0x4d, 0x01]);
+      const parser = new BinaryParser(bytes);
+
+      expect(parser.readString(4)).toBe("ANIM");
+      const rest = parser.readBytes(1);
+      expect(Buffer.isBuffer(rest)).toBe(false);
+      expect(rest.buffer).toBe(bytes.buffer);
+    });
   });
 
   describe("hasMore", () => {
@@ -235,3 +245,48 @@ describe("BinaryParser 和 BinaryWriter 往返测试", () => {
     expect(parser.readUInt32LE()).toBe(42);
   });
 });
+
+describe("分块读写", () => {
+  test("写入后读取应该得到相同的分块", () => {
+    const data = Buffer.from("payload");
+    const writer = new BinaryWriter(getChunkSize(data) + 8);
+    writer.writeChunk("TEST", data);
+    writer.writeChunk("EMPT", Buffer.alloc(0));
+
+    const parser = new BinaryParser(writer.getBuffer());
+    expect(parser.readChunk()).toEqual({ tag: "TEST", data });
+    expect(parser.readChunk()).toEqual({ tag: "EMPT", data: Buffer.alloc(0) });
+    expect(parser.hasMore()).toBe(false);
+  });
+
+  test("分块头应该包含标签和小端序长度", () => {
+    const writer = new BinaryWriter(11);
+    writer.writeChunk("ABCD", Buffer.from([1, 2, 3]));
+
+    const buffer = writer.getBuffer();
+    expect(buffer.subarray(0, 4).toString("ascii")).toBe("ABCD");
+    expect(buffer.readUInt32LE(4)).toBe(3);
+  });
+
+  test("分块长度越界时应该抛出 SIZE_MISMATCH 错误", () => {
+    const buffer = Buffer.alloc(10);
+    buffer.write("ABCD", 0, "ascii");
+    buffer.writeUInt32LE(100, 4);
+
+    try {
+      new BinaryParser(buffer).readChunk();
+      expect.unreachable();
+    } catch (error) {
+      expect((error as H5AnimateError).code).toBe(H5AnimateErrorCode.SIZE_MISMATCH);
+      expect((error as H5AnimateError).position).toBe(0);
+    }
+  });
+
+  test("应该拒绝无效的分块标签", () => {
+    expect(isValidChunkTag("META")).toBe(true);
+    expect(isValidChunkTag("ab c")).toBe(true);
+    expect(isValidChunkTag("ABC")).toBe(false);
+    expect(isValidChunkTag("中文标签")).toBe(false);
+    expect(() => new BinaryWriter(16).writeChunk("TOOLONG", Buffer.alloc(0))).toThrow(H5AnimateError);
+  });
+});
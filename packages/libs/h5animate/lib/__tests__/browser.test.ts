@@ -0,0 +1,207 @@
+import { describe, test, expect, vi, afterEach } from "vitest";
+import {
+  decode,
+  toUint8Array,
+  getSprite,
+  loadSpriteSheet,
+  extractSprite,
+  extractSprites,
+} from "../browser.js";
+import { encodeH5Animate } from "../encoder.js";
+import { H5AnimateError, H5AnimateErrorCode } from "../errors.js";
+import type { H5AnimateMeta, SpriteInfo } from "../types.js";
+
+const meta: H5AnimateMeta = {
+  ratio: 1,
+  frame: [{ objects: [{ index: 0, x: 0, y: 0, scale: 100, opacity: 255, mirror: 0, rotate: 0 }] }],
+};
+
+const spriteInfo: SpriteInfo = {
+  count: 3,
+  dimensions: [{ width: 4, height: 4 }, { width: 0, height: 0 }, { width: 6, height: 6 }],
+  rects: [
+    { x: 0, y: 0, width: 4, height: 4 },
+    { x: 0, y: 0, width: 0, height: 0 },
+    { x: 4, y: 0, width: 2, height: 3, offsetX: 1, offsetY: 2, sourceWidth: 6, sourceHeight: 6 },
+  ],
+};
+
+const webpData = Buffer.from("RIFF-fake-webp-data");
+
+/**
+ * 测试用的位图，记录创建时的参数
+ */
+class FakeBitmap {
+  closed = false;
+
+  constructor(public readonly args: unknown[]) {}
+
+  close(): void {
+    this.closed = true;
+  }
+}
+
+/**
+ * 记录 drawImage 调用的离屏画布
+ */
+class FakeOffscreenCanvas {
+  static draws: unknown[][] = [];
+
+  constructor(public readonly width: number, public readonly height: number) {}
+
+  getContext() {
+    return {
+      drawImage: (...args: unknown[]) => {
+        FakeOffscreenCanvas.draws.push(args);
+      },
+    };
+  }
+}
+
+function stubImageBitmap() {
+  const createImageBitmap = vi.fn(async (...args: unknown[]) => new FakeBitmap(args));
+  vi.stubGlobal("createImageBitmap", createImageBitmap);
+  vi.stubGlobal("OffscreenCanvas", FakeOffscreenCanvas);
+  FakeOffscreenCanvas.draws = [];
+  return createImageBitmap;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("toUint8Array", () => {
+  test("应该共享 ArrayBuffer 与 DataView 的内存", () => {
+    const bytes = new Uint8Array([1, 2, 3, 4]);
+
+    expect(toUint8Array(bytes)).toBe(bytes);
+    expect(Array.from(toUint8Array(bytes.buffer))).toEqual([1, 2, 3, 4]);
+    expect(Array.from(toUint8Array(new DataView(bytes.buffer, 1, 2)))).toEqual([2, 3]);
+  });
+});
+
+describe("decode", () => {
+  const encoded = encodeH5Animate(meta, spriteInfo, webpData, { chunks: [{ tag: "THMB", data: Buffer.from([9]) }] });
+
+  test("应该解码 ArrayBuffer，字节数据为 Uint8Array", () => {
+    const result = decode(new Uint8Array(encoded).buffer);
+
+    expect(result.meta).toEqual(meta);
+    expect(result.spriteInfo).toEqual(spriteInfo);
+    expect(result.version).toBe(3);
+    expect(Buffer.isBuffer(result.webpData)).toBe(false);
+    expect(Array.from(result.webpData)).toEqual(Array.from(webpData));
+    expect(result.chunks?.map((chunk) => [chunk.tag, Array.from(chunk.data)])).toEqual([["THMB", [9]]]);
+  });
+
+  test("应该解码偏移的 DataView", () => {
+    const padded = new Uint8Array(encoded.length + 8);
+    padded.set(encoded, 4);
+    const result = decode(new DataView(padded.buffer, 4, encoded.length));
+
+    expect(result.meta).toEqual(meta);
+  });
+
+  test("应该解码旧版本文件", () => {
+    const legacy = encodeH5Animate(meta, { count: 1, dimensions: [{ width: 4, height: 4 }] }, webpData, { version: 1 });
+    const result = decode(new Uint8Array(legacy));
+
+    expect(result.version).toBe(1);
+    expect(result.spriteInfo.rects).toEqual([{ x: 0, y: 0, width: 4, height: 4 }]);
+  });
+
+  test("无效数据应该抛出 H5AnimateError", () => {
+    expect(() => decode(new TextEncoder().encode("XXXX-invalid-file"))).toThrow(H5AnimateError);
+  });
+
+  test("getSprite 应该跳过空精灵", () => {
+    const result = decode(new Uint8Array(encoded));
+
+    expect(getSprite(result, 0)).toEqual(spriteInfo.rects![0]);
+    expect(getSprite(result, 1)).toBeUndefined();
+  });
+});
+
+describe("loadSpriteSheet", () => {
+  test("应该以 image/webp Blob 调用 createImageBitmap", async () => {
+    const createImageBitmap = stubImageBitmap();
+
+    await loadSpriteSheet(new Uint8Array(webpData));
+
+    const blob = createImageBitmap.mock.calls[0][0] as Blob;
+    expect(blob).toBeInstanceOf(Blob);
+    expect(blob.type).toBe("image/webp");
+    expect(blob.size).toBe(webpData.length);
+  });
+
+  test("不支持 createImageBitmap 时应该抛出错误", async () => {
+    vi.stubGlobal("createImageBitmap", undefined);
+
+    await expect(loadSpriteSheet(new Uint8Array(webpData))).rejects.toMatchObject({
+      code: H5AnimateErrorCode.WEBP_PROCESSING_ERROR,
+    });
+  });
+
+  test("解码失败时应该包装为 H5AnimateError", async () => {
+    vi.stubGlobal("createImageBitmap", async () => {
+      throw new Error("bad image");
+    });
+
+    await expect(loadSpriteSheet(new Uint8Array(webpData))).rejects.toMatchObject({
+      code: H5AnimateErrorCode.WEBP_PROCESSING_ERROR,
+    });
+  });
+});
+
+describe("extractSprite", () => {
+  test("未裁剪的精灵应该直接截取区域", async () => {
+    const createImageBitmap = stubImageBitmap();
+    const sheet = new FakeBitmap([]) as unknown as ImageBitmap;
+
+    await extractSprite(sheet, { x: 2, y: 3, width: 4, height: 5 });
+
+    expect(createImageBitmap).toHaveBeenCalledWith(sheet, 2, 3, 4, 5);
+  });
+
+  test("裁剪过的精灵应该还原为原始尺寸", async () => {
+    stubImageBitmap();
+    const sheet = new FakeBitmap([]) as unknown as ImageBitmap;
+
+    const sprite = await extractSprite(sheet, spriteInfo.rects![2]) as unknown as FakeBitmap;
+    const canvas = sprite.args[0] as FakeOffscreenCanvas;
+
+    expect([canvas.width, canvas.height]).toEqual([6, 6]);
+    expect(FakeOffscreenCanvas.draws).toEqual([[sheet, 4, 0, 2, 3, 1, 2, 2, 3]]);
+  });
+
+  test("空精灵应该返回 null", async () => {
+    const createImageBitmap = stubImageBitmap();
+
+    expect(await extractSprite({} as ImageBitmap, { x: 0, y: 0, width: 0, height: 0 })).toBeNull();
+    expect(createImageBitmap).not.toHaveBeenCalled();
+  });
+});
+
+describe("extractSprites", () => {
+  const animation = decode(new Uint8Array(encodeH5Animate(meta, spriteInfo, webpData)));
+
+  test("应该按索引提取所有精灵并释放自行解码的精灵图", async () => {
+    const createImageBitmap = stubImageBitmap();
+
+    const sprites = await extractSprites(animation);
+
+    expect(sprites).toHaveLength(3);
+    expect(sprites[1]).toBeNull();
+    const sheet = await createImageBitmap.mock.results[0].value as FakeBitmap;
+    expect(sheet.closed).toBe(true);
+  });
+
+  test("传入的精灵图不应该被释放", async () => {
+    stubImageBitmap();
+    const sheet = new FakeBitmap([]);
+
+    await extractSprites(animation, sheet as unknown as ImageBitmap);
+
+    expect(sheet.closed).toBe(false);
+  });
+});
@@ -0,0 +1,230 @@
+import { describe, test, expect, beforeEach, afterEach } from "vitest";
+import { execFile } from "child_process";
+import { copyFileSync, existsSync, mkdirSync, mkdtempSync, readFileSync, readdirSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { promisify } from "util";
+import { runCli, globToRegExp, expandInputs, collectAnimationInfo, type CliIO } from "../cli.js";
+import { convertFromJson, encode } from "../api.js";
+import { decodeH5Animate } from "../decoder.js";
+import { FORMAT_VERSION_4 } from "../version.js";
+
+const sampleDir = join(__dirname, "../../sample");
+
+let cwd: string;
+let stdout: string[];
+let stderr: string[];
+let io: CliIO;
+
+beforeEach(() => {
+  cwd = mkdtempSync(join(tmpdir(), "h5animate-cli-"));
+  stdout = [];
+  stderr = [];
+  io = { cwd, stdout: (text) => stdout.push(text), stderr: (text) => stderr.push(text) };
+});
+
+afterEach(() => {
+  rmSync(cwd, { recursive: true, force: true });
+});
+
+/**
+ * 在临时目录中放置示例文件
+ */
+function placeSample(name: string, target: string): string {
+  const path = join(cwd, target);
+  mkdirSync(join(path, ".."), { recursive: true });
+  copyFileSync(join(sampleDir, name), path);
+  return path;
+}
+
+describe("globToRegExp", () => {
+  test("应该支持 *、? 与 **", () => {
+    expect(globToRegExp("*.animate").test("a.animate")).toBe(true);
+    expect(globToRegExp("*.animate").test("dir/a.animate")).toBe(false);
+    expect(globToRegExp("**/*.animate").test("a.animate")).toBe(true);
+    expect(globToRegExp("**/*.animate").test("x/y/a.animate")).toBe(true);
+    expect(globToRegExp("a?.animate").test("ab.animate")).toBe(true);
+    expect(globToRegExp("a.animate").test("aXanimate")).toBe(false);
+  });
+});
+
+describe("expandInputs", () => {
+  test("应该展开目录与 glob 并去重", async () => {
+    placeSample("hand.animate", "a.animate");
+    placeSample("hand.animate", "nested/b.animate");
+    placeSample("hand.h5animate", "nested/c.h5animate");
+
+    const flat = await expandInputs(["."], ".animate", false, cwd);
+    const recursive = await expandInputs([".", "nested/*.animate"], ".animate", true, cwd);
+    const glob = await expandInputs(["**/*.animate"], ".animate", false, cwd);
+
+    expect(flat.map((file) => file.path)).toEqual([join(cwd, "a.animate")]);
+    expect(recursive.map((file) => file.path)).toEqual([join(cwd, "a.animate"), join(cwd, "nested/b.animate")]);
+    expect(glob.map((file) => file.path)).toEqual(recursive.map((file) => file.path));
+  });
+
+  test("输入不存在或 glob 没有匹配时应该返回用法错误", async () => {
+    expect(await runCli(["convert", "missing.animate"], io)).toBe(2);
+    expect(await runCli(["convert", "*.animate"], io)).toBe(2);
+    expect(stderr.join("\n")).toContain("missing.animate");
+  });
+});
+
+describe("runCli", () => {
+  test("未知命令或选项应该返回 2", async () => {
+    expect(await runCli([], io)).toBe(2);
+    expect(await runCli(["unknown"], io)).toBe(2);
+    expect(await runCli(["info", "--unknown", "a"], io)).toBe(2);
+    expect(await runCli(["help"], io)).toBe(0);
+    expect(stdout.join("\n")).toContain("用法");
+  });
+
+  test("convert 应该保留相对目录结构并应用选项", async () => {
+    placeSample("hand.animate", "src/a.animate");
+    placeSample("hand.animate", "src/nested/b.animate");
+
+    const code = await runCli(["convert", "src", "-r", "-o", "dist", "--meta-encoding", "binary"], io);
+
+    expect(code).toBe(0);
+    expect(stdout.at(-1)).toContain("已转换 2 个文件");
+
+    const decoded = decodeH5Animate(readFileSync(join(cwd, "dist/nested/b.h5animate")));
+    expect(decoded.version).toBe(FORMAT_VERSION_4);
+    expect(existsSync(join(cwd, "dist/a.h5animate"))).toBe(true);
+  });
+
+  test("convert 应该报告失败的文件并继续处理", async () => {
+    placeSample("hand.animate", "a.animate");
+    writeFileSync(join(cwd, "broken.animate"), "{");
+
+    const code = await runCli(["convert", "*.animate"], io);
+
+    expect(code).toBe(1);
+    expect(existsSync(join(cwd, "a.h5animate"))).toBe(true);
+    expect(stderr.join("\n")).toContain("broken.animate");
+  });
+
+  test("convert 的无效选项应该返回 2", async () => {
+    placeSample("hand.animate", "a.animate");
+
+    expect(await runCli(["convert", "a.animate", "--quality", "0"], io)).toBe(2);
+    expect(await runCli(["convert", "a.animate", "--layout", "grid"], io)).toBe(2);
+    expect(await runCli(["convert", "a.animate", "--fps", "0"], io)).toBe(2);
+    expect(await runCli(["convert", "a.animate", "--fps", "Infinity"], io)).toBe(2);
+  });
+
+  test("convert --fps 应该写入帧率", async () => {
+    placeSample("hand.animate", "a.animate");
+
+    expect(await runCli(["convert", "a.animate", "--fps", "29.97"], io)).toBe(0);
+    expect(decodeH5Animate(readFileSync(join(cwd, "a.h5animate"))).meta.fps).toBe(29.97);
+  });
+
+  test("batch 应该转换目录并写入报告", async () => {
+    placeSample("hand.animate", "animates/a.animate");
+    writeFileSync(join(cwd, "animates/broken.animate"), "{");
+
+    const code = await runCli(["batch", "animates", "-o", "dist", "-j", "0", "--markdown-report", "report.md"], io);
+
+    expect(code).toBe(1);
+    expect(existsSync(join(cwd, "dist/a.h5animate"))).toBe(true);
+    expect(readFileSync(join(cwd, "report.md"), "utf-8")).toContain("broken.animate");
+    expect(stderr.join("\n")).toContain("broken.animate");
+    expect(await runCli(["batch", "missing"], io)).toBe(2);
+  });
+
+  test("info 应该输出文本或 JSON", async () => {
+    placeSample("hand.h5animate", "hand.h5animate");
+
+    expect(await runCli(["info", "hand.h5animate"], io)).toBe(0);
+    expect(stdout[0]).toContain("版本:");
+
+    expect(await runCli(["info", "hand.h5animate", "--json"], io)).toBe(0);
+    const info = JSON.parse(stdout[1]);
+    const decoded = decodeH5Animate(readFileSync(join(sampleDir, "hand.h5animate")));
+
+    expect(info.header.signature).toBe("ANIM");
+    expect(info.sprites.count).toBe(decoded.spriteInfo.count);
+    expect(info.frames.count).toBe(decoded.meta.frame.length);
+    expect(info.frames.fps).toBe(20);
+    expect(info.frames.duration).toBe(decoded.meta.frame.length * 50);
+  });
+
+  test("collectAnimationInfo 应该统计对象与音效", () => {
+    const buffer = readFileSync(join(sampleDir, "hand.h5animate"));
+    const { meta } = decodeH5Animate(buffer);
+    const info = collectAnimationInfo("hand.h5animate", buffer);
+
+    const counts = meta.frame.map((frame) => frame.objects?.length ?? 0);
+    expect(info.frames.objects).toBe(counts.reduce((sum, count) => sum + count, 0));
+    expect(info.frames.maxObjects).toBe(Math.max(...counts));
+    expect(info.frames.soundEvents).toBe(meta.frame.reduce((sum, frame) => sum + (frame.sound?.length ?? 0), 0));
+  });
+
+  test("extract 应该导出帧或精灵", async () => {
+    placeSample("hand.h5animate", "hand.h5animate");
+    const { meta, spriteInfo } = decodeH5Animate(readFileSync(join(sampleDir, "hand.h5animate")));
+    const nonEmpty = spriteInfo.dimensions.filter((dimension) => dimension.width > 0 && dimension.height > 0);
+
+    expect(await runCli(["extract", "hand.h5animate"], io)).toBe(0);
+    expect(await runCli(["extract", "hand.h5animate", "--sprites", "-o", "out"], io)).toBe(0);
+
+    const frames = readdirSync(join(cwd, "hand-frames"));
+    expect(frames).toHaveLength(meta.frame.length);
+    expect(frames[0]).toBe("frame-000.png");
+    expect(readdirSync(join(cwd, "out"))).toHaveLength(nonEmpty.length);
+  });
+
+  test("validate 应该报告无效文件", async () => {
+    writeFileSync(join(cwd, "good.h5animate"), await convertFromJson(readFileSync(join(sampleDir, "hand.animate"), "utf-8")));
+    writeFileSync(join(cwd, "bad.h5animate"), Buffer.from("ANIM-broken"));
+
+    expect(await runCli(["validate", "good.h5animate"], io)).toBe(0);
+    expect(await runCli(["validate", "."], io)).toBe(1);
+    expect(stdout.filter((line) => line.includes("good.h5animate"))).toHaveLength(2);
+    expect(stderr.join("\n")).toContain("bad.h5animate");
+  });
+
+  test("render 应该按扩展名选择格式，--frame 输出单帧 PNG", async () => {
+    placeSample("hand.h5animate", "hand.h5animate");
+
+    expect(await runCli(["render", "hand.h5animate", "-o", "out/hand.gif", "--delay", "80"], io)).toBe(0);
+    expect(await runCli(["render", "hand.h5animate", "-o", "frame.png", "--frame", "0"], io)).toBe(0);
+    expect(await runCli(["render", "hand.h5animate", "-o", "hand.bin"], io)).toBe(2);
+    expect(await runCli(["render", "hand.h5animate", "-o", "frame.png", "--width", "64"], io)).toBe(2);
+
+    expect(readFileSync(join(cwd, "out/hand.gif")).subarray(0, 3).toString()).toBe("GIF");
+    expect(readFileSync(join(cwd, "frame.png")).subarray(1, 4).toString()).toBe("PNG");
+  });
+
+  test("diff 应该输出差异并在有差异时返回 1", async () => {
+    placeSample("hand.h5animate", "a.h5animate");
+    const animation = decodeH5Animate(readFileSync(join(sampleDir, "hand.h5animate")));
+    animation.meta.frame.pop();
+    writeFileSync(join(cwd, "b.h5animate"), encode(animation));
+
+    expect(await runCli(["diff", "a.h5animate", "a.h5animate"], io)).toBe(0);
+    expect(stdout[0]).toBe("没有差异");
+
+    expect(await runCli(["diff", "a.h5animate", "b.h5animate", "--json", "--no-pixels"], io)).toBe(1);
+    const diff = JSON.parse(stdout[1]);
+    expect(diff.frames.count.after).toBe(diff.frames.count.before - 1);
+
+    expect(await runCli(["diff", "a.h5animate"], io)).toBe(2);
+    expect(await runCli(["diff", "a.h5animate", "b.h5animate", "--no-pixels", "--diff-image", "d.png"], io)).toBe(2);
+  });
+});
+
+describe("bin/h5animate.js", () => {
+  const bin = join(__dirname, "../../bin/h5animate.js");
+
+  test("应该通过 tsx 运行命令行并返回退出码", async () => {
+    placeSample("hand.animate", "a.animate");
+
+    const { stdout: output } = await promisify(execFile)(process.execPath, [bin, "convert", "a.animate"], { cwd });
+    expect(output).toContain("a.animate");
+    expect(decodeH5Animate(readFileSync(join(cwd, "a.h5animate"))).meta.frame.length).toBeGreaterThan(0);
+
+    await expect(promisify(execFile)(process.execPath, [bin, "unknown"], { cwd })).rejects.toMatchObject({ code: 2 });
+  }, 30000);
+});
@@ -1,18 +1,30 @@
 import { describe, test, expect } from "vitest";
-import { readFileSync } from "fs";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
 import { join } from "path";
+import sharp from "sharp";
 import {
   validateLegacyFormat,
   parseLegacyAnimateFile,
+  convertImages,
   convertSoundData,
   convertFrameLayer,
   convertMetadata,
   convertToH5Animate,
   convertFromJsonString,
+  loadSoundFiles,
+  revertFrameLayer,
+  revertSoundData,
+  revertMetadata,
+  revertImages,
+  revertToLegacy,
 } from "../converter.js";
-import { decodeH5Animate } from "../decoder.js";
+import { base64ToBuffer } from "../webp.js";
+import { decodeH5Animate, getSpriteRect } from "../decoder.js";
+import { renderH5AnimateFrame } from "../render.js";
+import { getEmbeddedSound, listEmbeddedSounds } from "../sounds.js";
 import { H5AnimateError, H5AnimateErrorCode } from "../errors.js";
-import type { LegacyAnimateFile } from "../types.js";
+import type { H5AnimateMeta, LegacyAnimateFile, WebPQualityReport } from "../types.js";
 
 // 读取真实的 .animate 测试文件
 const sampleAnimatePath = join(__dirname, "../../sample/hand.animate");
@@ -244,6 +256,14 @@ describe("convertMetadata", () => {
       rotate: 45,
     });
   });
+
+  test("只有指定 fps 时才写入帧率", () => {
+    expect(convertMetadata(sampleAnimateData)).not.toHaveProperty("fps");
+    expect(convertMetadata(sampleAnimateData, 30).fps).toBe(30);
+    expect(() => convertMetadata(sampleAnimateData, 0)).toThrow(
+      expect.objectContaining({ code: H5AnimateErrorCode.VALIDATION_ERROR }),
+    );
+  });
 });
 
 describe("convertToH5Animate", () => {
@@ -259,6 +279,69 @@ describe("convertToH5Animate", () => {
     expect(decoded.meta.frame).toHaveLength(8);
   });
 
+  test("自动选择压缩质量时应该报告选中的设置", async () => {
+    const reports: WebPQualityReport[] = [];
+
+    await convertToH5Animate(sampleAnimateData, {
+      webp: { auto: { metric: "ssim", threshold: 0.95 } },
+      onWebPQuality: (report) => reports.push(report),
+    });
+
+    expect(reports).toHaveLength(1);
+    expect(reports[0].metric).toBe("ssim");
+    expect(reports[0].savedBytes).toBe(reports[0].losslessSize - reports[0].size);
+  });
+
+  test("指定音效目录时应该嵌入引用的音效", async () => {
+    const soundsDir = mkdtempSync(join(tmpdir(), "h5animate-sounds-"));
+    try {
+      writeFileSync(join(soundsDir, "attack.mp3"), Buffer.from("mp3-data"));
+      writeFileSync(join(soundsDir, "unused.mp3"), Buffer.from("unused"));
+
+      const decoded = decodeH5Animate(await convertToH5Animate(sampleAnimateData, { soundsDir }));
+
+      expect(listEmbeddedSounds(decoded)).toEqual(["attack.mp3"]);
+      expect(getEmbeddedSound(decoded, "attack.mp3")?.toString()).toBe("mp3-data");
+    } finally {
+      rmSync(soundsDir, { recursive: true, force: true });
+    }
+  });
+
+  test("未指定音效目录时不应该嵌入音效", async () => {
+    const decoded = decodeH5Animate(await convertToH5Animate(sampleAnimateData));
+
+    expect(decoded.chunks).toBeUndefined();
+  });
+
+  test("应该报告各阶段的进度", async () => {
+    const stages = new Set<string>();
+
+    await convertToH5Animate(sampleAnimateData, {
+      onProgress: ({ stage, current, total }) => {
+        if (current === total) {
+          stages.add(`${stage} ${total}`);
+        }
+      },
+    });
+
+    expect([...stages]).toEqual([`bitmap ${sampleAnimateData.bitmaps.length}`, "encode 1"]);
+  });
+
+  test("取消后应该抛出 ABORTED", async () => {
+    const controller = new AbortController();
+
+    const promise = convertToH5Animate(sampleAnimateData, {
+      signal: controller.signal,
+      onProgress: ({ stage }) => {
+        if (stage === "encode") {
+          controller.abort();
+        }
+      },
+    });
+
+    await expect(promise).rejects.toEqual(expect.objectContaining({ code: H5AnimateErrorCode.ABORTED }));
+  });
+
   test("转换后的数据应该保持元数据一致性", async () => {
     const result = await convertToH5Animate(sampleAnimateData);
     const decoded = decodeH5Animate(result);
@@ -288,8 +371,8 @@ describe("convertToH5Animate", () => {
     const result = await convertToH5Animate(sampleAnimateData);
     const decoded = decodeH5Animate(result);
 
-    expect(decoded.spriteInfo.count).toBe(1);
-    expect(decoded.spriteInfo.dimensions).toHaveLength(1);
+    expect(decoded.spriteInfo.count).toBe(sampleAnimateData.bitmaps.length);
+    expect(decoded.spriteInfo.dimensions).toHaveLength(sampleAnimateData.bitmaps.length);
     expect(decoded.spriteInfo.dimensions[0].width).toBeGreaterThan(0);
     expect(decoded.spriteInfo.dimensions[0].height).toBeGreaterThan(0);
   });
@@ -312,6 +395,46 @@ describe("convertToH5Animate", () => {
   });
 });
 
+describe("convertImages", () => {
+  test("空图片不应该改变后续精灵的索引", async () => {
+    const result = await convertImages(sampleAnimateData.bitmaps);
+
+    expect(result.spriteInfo.count).toBe(sampleAnimateData.bitmaps.length);
+    for (let i = 0; i < sampleAnimateData.bitmaps.length; i++) {
+      const isEmpty = sampleAnimateData.bitmaps[i].length === 0;
+      expect(getSpriteRect(result.spriteInfo, i) === undefined).toBe(isEmpty);
+    }
+  });
+
+  test("前置的空图片应该保留为空精灵", async () => {
+    const validBitmap = sampleAnimateData.bitmaps[0];
+
+    const result = await convertImages(["", validBitmap]);
+
+    expect(result.spriteInfo.count).toBe(2);
+    expect(getSpriteRect(result.spriteInfo, 0)).toBeUndefined();
+    expect(getSpriteRect(result.spriteInfo, 1)).toEqual({ x: 0, y: 0, width: 96, height: 96 });
+  });
+});
+
+describe("精灵图排布选项", () => {
+  test("打包并裁剪后的渲染结果应该与垂直排布一致", async () => {
+    const vertical = decodeH5Animate(await convertToH5Animate(sampleAnimateData));
+    const packed = decodeH5Animate(await convertToH5Animate(sampleAnimateData, {
+      spriteSheet: { layout: "maxrects", padding: 2, trim: true },
+    }));
+
+    expect(packed.spriteInfo.dimensions).toEqual(vertical.spriteInfo.dimensions);
+
+    for (const frameIndex of [0, 3, 5]) {
+      const options = { width: 192, height: 192, format: "raw" as const };
+      const expected = await renderH5AnimateFrame(vertical, frameIndex, options);
+      const actual = await renderH5AnimateFrame(packed, frameIndex, options);
+      expect(actual.equals(expected)).toBe(true);
+    }
+  });
+});
+
 describe("convertFromJsonString", () => {
   test("应该成功从 JSON 字符串转换", async () => {
     const result = await convertFromJsonString(sampleAnimateContent);
@@ -326,3 +449,201 @@ describe("convertFromJsonString", () => {
     await expect(convertFromJsonString("invalid json")).rejects.toThrow(H5AnimateError);
   });
 });
+
+/**
+ * 解码 Base64 图片为 RGBA 像素
+ */
+async function readBitmapPixels(bitmap: string) {
+  return sharp(base64ToBuffer(bitmap))
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+}
+
+/**
+ * 比较还原后的图片与原图
+ *
+ * 合成精灵图时的预乘 alpha 会使半透明像素的颜色产生 ±1 的误差，完全透明的像素不比较颜色
+ */
+async function expectSameBitmap(actual: string, expected: string) {
+  expect(actual.length === 0).toBe(expected.length === 0);
+  if (expected.length === 0) {
+    return;
+  }
+
+  const a = await readBitmapPixels(actual);
+  const e = await readBitmapPixels(expected);
+  expect([a.info.width, a.info.height]).toEqual([e.info.width, e.info.height]);
+
+  let maxDiff = 0;
+  for (let i = 0; i < e.data.length; i += 4) {
+    expect(a.data[i + 3]).toBe(e.data[i + 3]);
+    if (e.data[i + 3] === 0) continue;
+    for (let c = 0; c < 3; c++) {
+      maxDiff = Math.max(maxDiff, Math.abs(a.data[i + c] - e.data[i + c]));
+    }
+  }
+  expect(maxDiff).toBeLessThanOrEqual(1);
+}
+
+describe("revertFrameLayer", () => {
+  test("应该省略末尾为 0 的 mirror 和 rotate", () => {
+    expect(revertFrameLayer(convertFrameLayer([1, 2, 3, 100, 255]))).toEqual([1, 2, 3, 100, 255]);
+    expect(revertFrameLayer(convertFrameLayer([1, 2, 3, 100, 255, 1]))).toEqual([1, 2, 3, 100, 255, 1]);
+    expect(revertFrameLayer(convertFrameLayer([1, 2, 3, 100, 255, 0, 45]))).toEqual([1, 2, 3, 100, 255, 0, 45]);
+  });
+});
+
+describe("revertSoundData", () => {
+  const frame = (sound?: H5AnimateMeta["frame"][number]["sound"]) => (sound ? { sound } : {});
+
+  test("只有第一帧有音效时应该还原为全局音效", () => {
+    const meta: H5AnimateMeta = { ratio: 1, frame: [frame([{ name: "a.mp3" }]), frame()] };
+
+    expect(revertSoundData(meta)).toEqual({ se: "a.mp3" });
+  });
+
+  test("应该还原帧音效和音调", () => {
+    const meta: H5AnimateMeta = {
+      ratio: 1,
+      frame: [frame([{ name: "a.mp3" }]), frame(), frame([{ name: "b.mp3", pitch: 120 }])],
+    };
+
+    expect(revertSoundData(meta)).toEqual({ se: { 0: "a.mp3", 2: "b.mp3" }, pitch: { 2: 120 } });
+  });
+
+  test("没有音效时应该返回空对象", () => {
+    expect(revertSoundData({ ratio: 1, frame: [frame()] })).toEqual({});
+  });
+
+  test("旧格式无法表示的音效应该抛出错误", () => {
+    const multiple: H5AnimateMeta = { ratio: 1, frame: [frame([{ name: "a.mp3" }, { name: "b.mp3" }])] };
+    const volume: H5AnimateMeta = { ratio: 1, frame: [frame([{ name: "a.mp3", volume: 0.5 }])] };
+
+    expect(() => revertSoundData(multiple)).toThrow(
+      expect.objectContaining({ code: H5AnimateErrorCode.CONVERSION_FAILED }),
+    );
+    expect(() => revertSoundData(volume)).toThrow(H5AnimateError);
+  });
+
+  test("与 convertSoundData 互逆", () => {
+    const legacy: LegacyAnimateFile = {
+      ...sampleAnimateData,
+      se: { 1: "a.mp3", 3: "b.mp3" },
+      pitch: { 3: 80 },
+    };
+
+    expect(revertSoundData(convertMetadata(legacy))).toEqual({ se: legacy.se, pitch: legacy.pitch });
+  });
+});
+
+describe("revertMetadata", () => {
+  test("应该与 convertMetadata 互逆", () => {
+    const { bitmaps: _bitmaps, ...rest } = sampleAnimateData;
+
+    expect(revertMetadata(convertMetadata(sampleAnimateData))).toEqual(rest);
+  });
+
+  test("帧时长都是 50 毫秒时应该逐帧还原", () => {
+    const meta = convertMetadata(sampleAnimateData);
+    const timed = { ...meta, fps: 20, frame: meta.frame.map((frame) => ({ ...frame, duration: 50 })) };
+
+    expect(revertMetadata(timed)).toEqual(revertMetadata(meta));
+  });
+
+  test("其他帧率应该按 20 帧每秒重复或丢弃帧，音效放在覆盖其开始时刻的帧", () => {
+    const layer = (index: number) => ({ objects: [{ index, x: 0, y: 0, scale: 100, opacity: 255 }] });
+    const indices = (legacy: ReturnType<typeof revertMetadata>) => legacy.frames.map((layers) => layers[0]?.[0]);
+
+    const slow = revertMetadata({ ratio: 1, fps: 10, frame: [layer(0), { ...layer(1), sound: [{ name: "a.mp3" }] }, layer(2)] });
+    expect(indices(slow)).toEqual([0, 0, 1, 1, 2, 2]);
+    expect(slow).toMatchObject({ frame_max: 6, se: { 2: "a.mp3" } });
+
+    const fast = revertMetadata({
+      ratio: 1,
+      fps: 40,
+      frame: [layer(0), { ...layer(1), sound: [{ name: "a.mp3" }] }, layer(2), { ...layer(3), sound: [{ name: "b.mp3" }] }],
+    });
+    expect(indices(fast)).toEqual([0, 2]);
+    expect(fast.se).toEqual({ 0: "a.mp3", 1: "b.mp3" });
+
+    const mixed = revertMetadata({ ratio: 1, frame: [{ ...layer(0), duration: 100 }, layer(1), { duration: 20 }] });
+    expect(indices(mixed)).toEqual([0, 0, 1]);
+  });
+
+  test("重采样后同一帧有多个音效时应该抛出 CONVERSION_FAILED", () => {
+    const meta: H5AnimateMeta = { ratio: 1, fps: 40, frame: [{ sound: [{ name: "a.mp3" }] }, { sound: [{ name: "b.mp3" }] }] };
+
+    expect(() => revertMetadata(meta)).toThrow(expect.objectContaining({ code: H5AnimateErrorCode.CONVERSION_FAILED }));
+  });
+});
+
+describe("revertImages", () => {
+  test("应该还原原始像素，空精灵还原为空字符串", async () => {
+    const { webpData, spriteInfo } = await convertImages(sampleAnimateData.bitmaps);
+    const bitmaps = await revertImages(webpData, spriteInfo);
+
+    expect(bitmaps).toHaveLength(sampleAnimateData.bitmaps.length);
+    for (let i = 0; i < bitmaps.length; i++) {
+      if (bitmaps[i].length > 0) {
+        expect(bitmaps[i].startsWith("data:image/png;base64,")).toBe(true);
+      }
+      await expectSameBitmap(bitmaps[i], sampleAnimateData.bitmaps[i]);
+    }
+  });
+
+  test("打包并裁剪的精灵应该还原为原始尺寸", async () => {
+    const { webpData, spriteInfo } = await convertImages(sampleAnimateData.bitmaps, {}, {
+      layout: "maxrects",
+      padding: 2,
+      trim: true,
+    });
+    const bitmaps = await revertImages(webpData, spriteInfo);
+
+    for (let i = 0; i < bitmaps.length; i++) {
+      await expectSameBitmap(bitmaps[i], sampleAnimateData.bitmaps[i]);
+    }
+  });
+});
+
+describe("revertToLegacy", () => {
+  test("往返转换应该完整保留图层数据", async () => {
+    const animation = decodeH5Animate(await convertToH5Animate(sampleAnimateData));
+    const legacy = await revertToLegacy(animation);
+
+    expect(legacy.ratio).toBe(sampleAnimateData.ratio);
+    expect(legacy.se).toBe(sampleAnimateData.se);
+    expect(legacy.frame_max).toBe(sampleAnimateData.frame_max);
+    expect(legacy.frames).toEqual(sampleAnimateData.frames);
+    expect(Object.keys(legacy)).toEqual(Object.keys(sampleAnimateData));
+
+    // 还原后的文件可以再次转换
+    const again = decodeH5Animate(await convertToH5Animate(legacy));
+    expect(again.meta).toEqual(animation.meta);
+    expect(again.spriteInfo).toEqual(animation.spriteInfo);
+  });
+});
+
+describe("loadSoundFiles", () => {
+  test("音效文件不存在时应该抛出转换错误", async () => {
+    const soundsDir = mkdtempSync(join(tmpdir(), "h5animate-sounds-"));
+    try {
+      await expect(loadSoundFiles(["attack.mp3"], soundsDir)).rejects.toEqual(
+        expect.objectContaining({ code: H5AnimateErrorCode.CONVERSION_FAILED }),
+      );
+    } finally {
+      rmSync(soundsDir, { recursive: true, force: true });
+    }
+  });
+
+  test("不应该读取音效目录之外的文件", async () => {
+    const soundsDir = mkdtempSync(join(tmpdir(), "h5animate-sounds-"));
+    try {
+      await expect(loadSoundFiles(["../attack.mp3"], soundsDir)).rejects.toEqual(
+        expect.objectContaining({ code: H5AnimateErrorCode.CONVERSION_FAILED }),
+      );
+    } finally {
+      rmSync(soundsDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,21 @@
+import { describe, test, expect } from "vitest";
+import { crc32 } from "../crc32.js";
+
+describe("crc32", () => {
+  test("应该与标准 CRC32 校验值一致", () => {
+    expect(crc32(Buffer.from("123456789", "ascii"))).toBe(0xcbf43926);
+  });
+
+  test("空数据的校验值应该为 0", () => {
+    expect(crc32(Buffer.alloc(0))).toBe(0);
+  });
+
+  test("分段计算应该与整体计算结果一致", () => {
+    const data = Buffer.from("h5animate checksum", "utf8");
+
+    const whole = crc32(data);
+    const partial = crc32(data.subarray(7), crc32(data.subarray(0, 7)));
+
+    expect(partial).toBe(whole);
+  });
+});
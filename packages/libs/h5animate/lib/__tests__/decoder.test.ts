@@ -3,11 +3,17 @@ import {
   parseHeader,
   parseSpriteInfo,
   getSpriteInfoSize,
+  getSpriteRects,
+  getSpriteRect,
+  verifyFileSize,
+  parseChunks,
   convertArraysToObjects,
   decodeH5Animate,
 } from "../decoder.js";
 import { BinaryParser, BinaryWriter } from "../binary.js";
+import { encodeH5Animate } from "../encoder.js";
 import { H5AnimateError, H5AnimateErrorCode } from "../errors.js";
+import type { H5AnimateMeta, SpriteInfo } from "../types.js";
 
 describe("parseHeader", () => {
   test("应该正确解析有效的文件头", () => {
@@ -45,6 +51,23 @@ describe("parseHeader", () => {
   });
 });
 
+describe("parseHeader 版本检查", () => {
+  test("不支持的版本应该抛出错误", () => {
+    const writer = new BinaryWriter(16);
+    writer.writeString("ANIM");
+    writer.writeUInt32LE(99);
+    writer.writeUInt32LE(0);
+    writer.writeUInt32LE(0);
+
+    try {
+      parseHeader(new BinaryParser(writer.getBuffer()));
+      expect.unreachable();
+    } catch (error) {
+      expect((error as H5AnimateError).code).toBe(H5AnimateErrorCode.INVALID_VERSION);
+    }
+  });
+});
+
 describe("parseSpriteInfo", () => {
   test("应该正确解析单个精灵图信息", () => {
     const writer = new BinaryWriter(12);
@@ -104,6 +127,50 @@ describe("getSpriteInfoSize", () => {
   });
 });
 
+describe("getSpriteRects", () => {
+  test("缺省 rects 时应该按垂直排布推导区域", () => {
+    const rects = getSpriteRects({
+      count: 3,
+      dimensions: [
+        { width: 10, height: 20 },
+        { width: 0, height: 0 },
+        { width: 30, height: 5 },
+      ],
+    });
+
+    expect(rects).toEqual([
+      { x: 0, y: 0, width: 10, height: 20 },
+      { x: 0, y: 20, width: 0, height: 0 },
+      { x: 0, y: 20, width: 30, height: 5 },
+    ]);
+  });
+
+  test("应该优先使用已记录的 rects", () => {
+    const rects = [{ x: 5, y: 6, width: 10, height: 20 }];
+
+    expect(getSpriteRects({ count: 1, dimensions: [{ width: 10, height: 20 }], rects })).toBe(rects);
+  });
+});
+
+describe("getSpriteRect", () => {
+  const spriteInfo = {
+    count: 2,
+    dimensions: [
+      { width: 0, height: 0 },
+      { width: 16, height: 8 },
+    ],
+  };
+
+  test("应该返回索引对应的区域", () => {
+    expect(getSpriteRect(spriteInfo, 1)).toEqual({ x: 0, y: 0, width: 16, height: 8 });
+  });
+
+  test("空精灵和越界索引应该返回 undefined", () => {
+    expect(getSpriteRect(spriteInfo, 0)).toBeUndefined();
+    expect(getSpriteRect(spriteInfo, 2)).toBeUndefined();
+  });
+});
+
 describe("convertArraysToObjects", () => {
   test("应该正确转换数组格式到对象格式", () => {
     const rawMeta = {
@@ -253,8 +320,12 @@ describe("decodeH5Animate", () => {
       mirror: 0,
       rotate: 0,
     });
-    expect(result.spriteInfo).toEqual(spriteInfo);
+    expect(result.spriteInfo).toEqual({
+      ...spriteInfo,
+      rects: [{ x: 0, y: 0, width: 100, height: 200 }],
+    });
     expect(result.webpData).toEqual(webpData);
+    expect(result.version).toBe(1);
   });
 
   test("应该正确解码包含音效的文件", () => {
@@ -345,3 +416,352 @@ describe("decodeH5Animate", () => {
     });
   });
 });
+
+describe("分块容器解码", () => {
+  /**
+   * 创建分块容器格式的测试文件
+   */
+  function createChunkedBuffer(chunks: Array<{ tag: string; data: Buffer }>): Buffer {
+    const chunkDataSize = chunks.reduce((sum, chunk) => sum + 8 + chunk.data.length, 0);
+    const writer = new BinaryWriter(16 + chunkDataSize);
+    writer.writeString("ANIM");
+    writer.writeUInt32LE(3);
+    writer.writeUInt32LE(chunks.length);
+    writer.writeUInt32LE(chunkDataSize);
+    for (const chunk of chunks) {
+      writer.writeChunk(chunk.tag, chunk.data);
+    }
+    return writer.getBuffer();
+  }
+
+  /**
+   * 创建单个 10x10 精灵的 SPRT 分块数据
+   */
+  function createSpriteInfoData(): Buffer {
+    const writer = new BinaryWriter(36);
+    writer.writeUInt32LE(1);
+    for (const value of [10, 10, 0, 0, 10, 10, 0, 0]) {
+      writer.writeUInt32LE(value);
+    }
+    return writer.getBuffer();
+  }
+
+  const metaData = Buffer.from(JSON.stringify({ ratio: 1, frame: [{ objects: [[0, 0, 0, 100, 255]] }] }));
+  const webpData = Buffer.from("webp");
+
+  test("parseHeader 应该读取分块数量和总大小", () => {
+    const buffer = createChunkedBuffer([{ tag: "WEBP", data: webpData }]);
+    const header = parseHeader(new BinaryParser(buffer));
+
+    expect(header).toEqual({
+      signature: "ANIM",
+      version: 3,
+      imageDataSize: 0,
+      metaDataSize: 0,
+      chunkCount: 1,
+      chunkDataSize: 12,
+    });
+  });
+
+  test("应该与分块顺序无关并保留未知分块", () => {
+    const unknown = { tag: "XTRA", data: Buffer.from("extra") };
+    const buffer = createChunkedBuffer([
+      { tag: "META", data: metaData },
+      unknown,
+      { tag: "WEBP", data: webpData },
+      { tag: "SPRT", data: createSpriteInfoData() },
+    ]);
+
+    const result = decodeH5Animate(buffer);
+
+    expect(result.version).toBe(3);
+    expect(result.webpData).toEqual(webpData);
+    expect(result.spriteInfo).toEqual({
+      count: 1,
+      dimensions: [{ width: 10, height: 10 }],
+      rects: [{ x: 0, y: 0, width: 10, height: 10 }],
+    });
+    expect(result.meta.frame[0].objects).toHaveLength(1);
+    expect(result.chunks).toEqual([unknown]);
+  });
+
+  test("没有未知分块时不应该返回 chunks", () => {
+    const buffer = createChunkedBuffer([
+      { tag: "SPRT", data: createSpriteInfoData() },
+      { tag: "WEBP", data: webpData },
+      { tag: "META", data: metaData },
+    ]);
+
+    expect(decodeH5Animate(buffer).chunks).toBeUndefined();
+  });
+
+  test("缺少必需分块时应该抛出错误", () => {
+    const buffer = createChunkedBuffer([
+      { tag: "SPRT", data: createSpriteInfoData() },
+      { tag: "META", data: metaData },
+    ]);
+
+    try {
+      decodeH5Animate(buffer);
+      expect.unreachable();
+    } catch (error) {
+      expect((error as H5AnimateError).code).toBe(H5AnimateErrorCode.INVALID_IMAGE_DATA);
+    }
+  });
+
+  test("重复的已知分块应该抛出错误", () => {
+    const buffer = createChunkedBuffer([
+      { tag: "SPRT", data: createSpriteInfoData() },
+      { tag: "WEBP", data: webpData },
+      { tag: "WEBP", data: webpData },
+      { tag: "META", data: metaData },
+    ]);
+    const parser = new BinaryParser(buffer);
+    const header = parseHeader(parser);
+
+    try {
+      parseChunks(parser, header);
+      expect.unreachable();
+    } catch (error) {
+      expect((error as H5AnimateError).code).toBe(H5AnimateErrorCode.CORRUPTED_HEADER);
+    }
+  });
+});
+
+describe("完整性校验", () => {
+  const meta: H5AnimateMeta = {
+    ratio: 1,
+    frame: [{ objects: [{ index: 0, x: 0, y: 0, scale: 100, opacity: 255, mirror: 0, rotate: 0 }] }],
+  };
+  const spriteInfo: SpriteInfo = { count: 1, dimensions: [{ width: 10, height: 10 }] };
+  const webpData = Buffer.from("fake-webp-data");
+
+  /**
+   * 断言解码时抛出指定错误码
+   */
+  function expectDecodeError(buffer: Buffer, code: H5AnimateErrorCode): void {
+    try {
+      decodeH5Animate(buffer);
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(H5AnimateError);
+      expect((error as H5AnimateError).code).toBe(code);
+    }
+  }
+
+  test("不足文件头长度时应该报告截断", () => {
+    expectDecodeError(Buffer.from("ANIM"), H5AnimateErrorCode.FILE_TRUNCATED);
+    expectDecodeError(Buffer.from("GIF8"), H5AnimateErrorCode.INVALID_SIGNATURE);
+  });
+
+  test("截断的文件应该报告 FILE_TRUNCATED", () => {
+    for (const version of [1, 3]) {
+      const encoded = encodeH5Animate(meta, spriteInfo, webpData, { version });
+
+      expectDecodeError(encoded.subarray(0, encoded.length - 5), H5AnimateErrorCode.FILE_TRUNCATED);
+    }
+  });
+
+  test("多余的尾部数据应该报告 SIZE_MISMATCH", () => {
+    for (const version of [1, 3]) {
+      const encoded = encodeH5Animate(meta, spriteInfo, webpData, { version });
+
+      expectDecodeError(Buffer.concat([encoded, Buffer.alloc(3)]), H5AnimateErrorCode.SIZE_MISMATCH);
+    }
+  });
+
+  test("图像数据大小小于精灵图信息时应该报告 INVALID_IMAGE_DATA", () => {
+    const encoded = encodeH5Animate(meta, spriteInfo, webpData, { version: 1 });
+    const imageDataSize = encoded.readUInt32LE(8);
+    const metaDataSize = encoded.readUInt32LE(12);
+
+    // 将 WebP 数据计入元信息，使图像数据只剩 4 字节
+    encoded.writeUInt32LE(4, 8);
+    encoded.writeUInt32LE(metaDataSize + imageDataSize - 4, 12);
+
+    expectDecodeError(encoded, H5AnimateErrorCode.INVALID_IMAGE_DATA);
+  });
+
+  test("数据被篡改时应该报告校验和不匹配", () => {
+    const encoded = encodeH5Animate(meta, spriteInfo, webpData);
+    const webpOffset = encoded.indexOf(webpData);
+    encoded[webpOffset] ^= 0xff;
+
+    expectDecodeError(encoded, H5AnimateErrorCode.INVALID_IMAGE_DATA);
+  });
+
+  test("分块长度超出分块表时应该报告 SIZE_MISMATCH", () => {
+    const encoded = encodeH5Animate(meta, spriteInfo, webpData, { checksum: false });
+    // 第一个分块（SPRT）的长度字段位于文件头之后 4 字节
+    encoded.writeUInt32LE(encoded.length, 20);
+
+    expectDecodeError(encoded, H5AnimateErrorCode.SIZE_MISMATCH);
+  });
+
+  test("verifyFileSize 应该按版本计算声明的大小", () => {
+    expect(() => verifyFileSize(
+      { signature: "ANIM", version: 1, imageDataSize: 10, metaDataSize: 4 },
+      30,
+    )).not.toThrow();
+    expect(() => verifyFileSize(
+      { signature: "ANIM", version: 3, imageDataSize: 0, metaDataSize: 0, chunkCount: 1, chunkDataSize: 20 },
+      36,
+    )).not.toThrow();
+  });
+});
+
+describe("严格模式", () => {
+  const spriteInfo: SpriteInfo = { count: 1, dimensions: [{ width: 4, height: 4 }] };
+
+  /**
+   * 创建 4x4 的无损 WebP 文件头
+   */
+  function createWebPHeader(): Buffer {
+    const data = Buffer.alloc(30);
+    data.write("RIFF", 0, "ascii");
+    data.write("WEBP", 8, "ascii");
+    data.write("VP8L", 12, "ascii");
+    data[20] = 0x2f;
+    data.writeUInt32LE(3 | (3 << 14), 21);
+    return data;
+  }
+
+  const invalidMeta: H5AnimateMeta = {
+    ratio: 1,
+    frame: [
+      { objects: [{ index: 0, x: 0, y: 0, scale: 100, opacity: 999 }] },
+      { objects: [{ index: 5, x: 0, y: 0, scale: 100, opacity: 255 }] },
+    ],
+  };
+
+  test("默认的宽松模式不验证数据", () => {
+    const encoded = encodeH5Animate(invalidMeta, spriteInfo, createWebPHeader());
+
+    expect(() => decodeH5Animate(encoded)).not.toThrow();
+  });
+
+  test("严格模式应该抛出包含全部问题的错误", () => {
+    const encoded = encodeH5Animate(invalidMeta, spriteInfo, createWebPHeader());
+
+    try {
+      decodeH5Animate(encoded, { strict: true });
+      expect.unreachable();
+    } catch (error) {
+      const h5Error = error as H5AnimateError;
+      expect(h5Error.code).toBe(H5AnimateErrorCode.VALIDATION_ERROR);
+      expect(h5Error.fieldPath).toBe("meta.frame[0].objects[0].opacity");
+      expect(h5Error.issues?.map((issue) => issue.path)).toEqual([
+        "meta.frame[0].objects[0].opacity",
+      ]);
+    }
+  });
+
+  test("严格模式应该检查精灵索引", () => {
+    const meta: H5AnimateMeta = { ratio: 1, frame: [invalidMeta.frame[1]] };
+    const encoded = encodeH5Animate(meta, spriteInfo, createWebPHeader());
+
+    try {
+      decodeH5Animate(encoded, { strict: true });
+      expect.unreachable();
+    } catch (error) {
+      expect((error as H5AnimateError).issues).toEqual([
+        expect.objectContaining({
+          code: H5AnimateErrorCode.VALUE_OUT_OF_RANGE,
+          path: "meta.frame[0].objects[0].index",
+        }),
+      ]);
+    }
+  });
+
+  test("有效数据在严格模式下应该正常解码", () => {
+    const meta: H5AnimateMeta = { ratio: 1, frame: [invalidMeta.frame[0]] };
+    meta.frame[0] = { objects: [{ index: 0, x: 0, y: 0, scale: 100, opacity: 255 }] };
+    const encoded = encodeH5Animate(meta, spriteInfo, createWebPHeader());
+
+    expect(decodeH5Animate(encoded, { strict: true }).meta).toEqual({
+      ratio: 1,
+      frame: [{ objects: [{ index: 0, x: 0, y: 0, scale: 100, opacity: 255, mirror: 0, rotate: 0 }] }],
+    });
+  });
+});
+
+describe("资源限制", () => {
+  const spriteInfo: SpriteInfo = { count: 1, dimensions: [{ width: 4, height: 4 }] };
+  const meta: H5AnimateMeta = {
+    ratio: 1,
+    frame: [
+      { objects: [{ index: 0, x: 0, y: 0, scale: 100, opacity: 255 }] },
+      {
+        objects: [
+          { index: 0, x: 0, y: 0, scale: 100, opacity: 255 },
+          { index: 0, x: 4, y: 4, scale: 100, opacity: 255 },
+        ],
+      },
+    ],
+  };
+
+  /**
+   * 创建 width x height 的无损 WebP 文件头
+   */
+  function createWebPHeader(width: number, height: number): Buffer {
+    const data = Buffer.alloc(30);
+    data.write("RIFF", 0, "ascii");
+    data.write("WEBP", 8, "ascii");
+    data.write("VP8L", 12, "ascii");
+    data[20] = 0x2f;
+    data.writeUInt32LE((width - 1) | ((height - 1) << 14), 21);
+    return data;
+  }
+
+  function expectLimitExceeded(decode: () => unknown, limit: string): void {
+    try {
+      decode();
+      expect.unreachable();
+    } catch (error) {
+      expect((error as H5AnimateError).code).toBe(H5AnimateErrorCode.LIMIT_EXCEEDED);
+      expect((error as H5AnimateError).fieldPath).toBe(limit);
+    }
+  }
+
+  const encoded = encodeH5Animate(meta, spriteInfo, createWebPHeader(4, 4));
+
+  test("未超出限制时应该正常解码", () => {
+    const limits = { maxFileSize: encoded.length, maxSprites: 1, maxFrames: 2, maxObjectsPerFrame: 2, maxPixelArea: 16 };
+
+    expect(decodeH5Animate(encoded, { limits }).meta.frame).toHaveLength(2);
+  });
+
+  test("应该限制文件大小", () => {
+    expectLimitExceeded(() => decodeH5Animate(encoded, { limits: { maxFileSize: encoded.length - 1 } }), "maxFileSize");
+  });
+
+  test("应该在读取精灵图信息之前限制精灵数量", () => {
+    // 版本 1 的文件声明了 0xffffffff 个精灵，但图像数据只有精灵数量本身
+    const writer = new BinaryWriter(20);
+    writer.writeString("ANIM");
+    writer.writeUInt32LE(1);
+    writer.writeUInt32LE(4);
+    writer.writeUInt32LE(0);
+    writer.writeUInt32LE(0xffffffff);
+    const forged = writer.getBuffer();
+
+    expectLimitExceeded(() => decodeH5Animate(forged, { limits: { maxSprites: 1024 } }), "maxSprites");
+    expectLimitExceeded(() => decodeH5Animate(encoded, { limits: { maxSprites: 0 } }), "maxSprites");
+  });
+
+  test("应该限制精灵与精灵图画布的像素数", () => {
+    expectLimitExceeded(() => decodeH5Animate(encoded, { limits: { maxPixelArea: 15 } }), "maxPixelArea");
+
+    const largeCanvas = encodeH5Animate(meta, spriteInfo, createWebPHeader(4096, 4096));
+    expectLimitExceeded(() => decodeH5Animate(largeCanvas, { limits: { maxPixelArea: 1024 } }), "maxPixelArea");
+  });
+
+  test("应该限制帧数与每帧的对象数量", () => {
+    const binary = encodeH5Animate(meta, spriteInfo, createWebPHeader(4, 4), { metaEncoding: "binary" });
+
+    for (const buffer of [encoded, binary]) {
+      expectLimitExceeded(() => decodeH5Animate(buffer, { limits: { maxFrames: 1 } }), "maxFrames");
+      expectLimitExceeded(() => decodeH5Animate(buffer, { limits: { maxObjectsPerFrame: 1 } }), "maxObjectsPerFrame");
+    }
+  });
+});
@@ -0,0 +1,198 @@
+import { describe, test, expect } from "vitest";
+import sharp from "sharp";
+import { diffAnimations, formatAnimationDiff } from "../diff.js";
+import { addEmbeddedSounds } from "../sounds.js";
+import { createVerticalSpriteSheet } from "../webp.js";
+import type { DecodedH5Animate, H5AnimateMeta } from "../types.js";
+import { createSprite, obj } from "./helpers.js";
+
+async function createAnimation(sprites: Array<Buffer | null>, meta: H5AnimateMeta): Promise<DecodedH5Animate> {
+  const { spriteInfo, webpData } = await createVerticalSpriteSheet(sprites);
+  return { meta, spriteInfo, webpData, version: 4 };
+}
+
+const baseMeta: H5AnimateMeta = {
+  ratio: 1,
+  frame: [
+    { objects: [obj(0), obj(1, { x: 5 })], sound: [{ name: "a.mp3" }] },
+    { objects: [obj(0)] },
+  ],
+};
+
+describe("diffAnimations", () => {
+  test("相同的动画应该没有差异", async () => {
+    const red = await createSprite(10, 10, [255, 0, 0]);
+    const before = await createAnimation([red], baseMeta);
+    const diff = await diffAnimations(before, structuredClone(before));
+
+    expect(diff.identical).toBe(true);
+    expect(diff.header).toEqual({});
+    expect(formatAnimationDiff(diff)).toBe("没有差异");
+  });
+
+  test("应该列出文件头与精灵的变化", async () => {
+    const red = await createSprite(10, 10, [255, 0, 0]);
+    const blue = await createSprite(10, 10, [0, 0, 255]);
+    const before = await createAnimation([red, blue, null], baseMeta);
+    const after = await createAnimation(
+      [await createSprite(10, 10, [255, 0, 0], { left: 0, top: 0, width: 10, height: 9 }), await createSprite(12, 10, [0, 0, 255]), null, red],
+      { ...baseMeta, ratio: 2 },
+    );
+    after.version = 3;
+
+    const diff = await diffAnimations(before, addEmbeddedSounds(after, [{ name: "a.mp3", data: Buffer.from("mp3") }]));
+
+    expect(diff.identical).toBe(false);
+    expect(diff.header).toMatchObject({
+      version: { before: 4, after: 3 },
+      ratio: { before: 1, after: 2 },
+      embeddedSounds: { added: ["a.mp3"], removed: [] },
+    });
+    expect(diff.sprites.count).toEqual({ before: 3, after: 4 });
+    expect(diff.sprites.changes).toEqual([
+      { index: 0, kind: "content", before: { width: 10, height: 10 }, after: { width: 10, height: 10 }, differentPixels: 10 },
+      { index: 1, kind: "resized", before: { width: 10, height: 10 }, after: { width: 12, height: 10 }, differentPixels: 20 },
+      { index: 3, kind: "added", after: { width: 10, height: 10 } },
+    ]);
+  });
+
+  test("不比较像素时只报告尺寸变化", async () => {
+    const before = await createAnimation([await createSprite(10, 10, [255, 0, 0])], baseMeta);
+    const after = await createAnimation([await createSprite(10, 10, [0, 255, 0])], baseMeta);
+
+    expect((await diffAnimations(before, after, { pixels: false })).identical).toBe(true);
+    expect((await diffAnimations(before, after)).sprites.changes[0]).toMatchObject({ kind: "content", differentPixels: 100 });
+  });
+
+  test("threshold 应该忽略较小的通道差值", async () => {
+    const before = await createAnimation([await createSprite(4, 4, [200, 0, 0])], baseMeta);
+    const after = await createAnimation([await createSprite(4, 4, [203, 0, 0])], baseMeta);
+
+    expect((await diffAnimations(before, after)).identical).toBe(false);
+    expect((await diffAnimations(before, after, { threshold: 3 })).identical).toBe(true);
+  });
+
+  test("应该按精灵索引配对对象并给出字段差值", async () => {
+    const sprites = [await createSprite(4, 4, [255, 0, 0]), await createSprite(4, 4, [0, 0, 255])];
+    const before = await createAnimation(sprites, baseMeta);
+    const after = await createAnimation(sprites, {
+      ratio: 1,
+      frame: [
+        { objects: [obj(1, { x: 8, opacity: 128 }), obj(0, { scale: 50 })], sound: [{ name: "a.mp3", volume: 0.5 }, { name: "b.mp3" }] },
+        { objects: [obj(0), obj(1)] },
+        { objects: [obj(0)] },
+      ],
+    });
+
+    const diff = await diffAnimations(before, after);
+
+    expect(diff.frames.count).toEqual({ before: 2, after: 3 });
+    expect(diff.frames.changes.map((frame) => [frame.frame, frame.kind])).toEqual([[0, "changed"], [1, "changed"], [2, "added"]]);
+
+    const [first, second, third] = diff.frames.changes;
+    expect(first.objects).toEqual([
+      {
+        kind: "changed",
+        index: 0,
+        layerBefore: 0,
+        layerAfter: 1,
+        object: obj(0),
+        changes: [{ field: "scale", before: 100, after: 50, delta: -50 }],
+      },
+      {
+        kind: "moved",
+        index: 1,
+        layerBefore: 1,
+        layerAfter: 0,
+        object: obj(1, { x: 5 }),
+        changes: [
+          { field: "x", before: 5, after: 8, delta: 3 },
+          { field: "opacity", before: 255, after: 128, delta: -127 },
+        ],
+      },
+    ]);
+    expect(first.sounds).toEqual([
+      { kind: "changed", name: "a.mp3", before: { name: "a.mp3" }, after: { name: "a.mp3", volume: 0.5 } },
+      { kind: "added", name: "b.mp3", after: { name: "b.mp3" } },
+    ]);
+    expect(second.objects).toEqual([{ kind: "added", index: 1, layerAfter: 1, object: obj(1), changes: [] }]);
+    expect(third.objects.map((object) => object.kind)).toEqual(["added"]);
+  });
+
+  test("应该列出帧率与帧时长的变化", async () => {
+    const sprites = [await createSprite(4, 4, [255, 0, 0])];
+    const before = await createAnimation(sprites, { ratio: 1, frame: [{ objects: [obj(0)] }, {}] });
+    const after = await createAnimation(sprites, { ratio: 1, fps: 30, frame: [{ objects: [obj(0)], duration: 100 }, {}] });
+
+    const diff = await diffAnimations(before, after);
+
+    expect(diff.header).toEqual({ fps: { before: undefined, after: 30 } });
+    expect(diff.frames.changes).toEqual([
+      { frame: 0, kind: "changed", objects: [], sounds: [], duration: { before: undefined, after: 100 } },
+    ]);
+
+    const text = formatAnimationDiff(diff);
+    expect(text).toContain("帧率: 默认 → 30");
+    expect(text).toContain("    ~ 时长 默认 → 100");
+  });
+
+  test("只交换绘制顺序时应该报告图层变化", async () => {
+    const sprites = [await createSprite(4, 4, [255, 0, 0]), await createSprite(4, 4, [0, 0, 255])];
+    const before = await createAnimation(sprites, { ratio: 1, frame: [{ objects: [obj(0), obj(1)] }] });
+    const after = await createAnimation(sprites, { ratio: 1, frame: [{ objects: [obj(1), obj(0)] }] });
+
+    const diff = await diffAnimations(before, after);
+
+    expect(diff.identical).toBe(false);
+    expect(diff.frames.changes[0].objects).toEqual([
+      { kind: "reordered", index: 0, layerBefore: 0, layerAfter: 1, object: obj(0), changes: [] },
+      { kind: "reordered", index: 1, layerBefore: 1, layerAfter: 0, object: obj(1), changes: [] },
+    ]);
+    expect(formatAnimationDiff(diff)).toContain("    ~ 图层 0 → 1（精灵 0）\n");
+  });
+
+  test("mirror 与 rotate 缺省应该视为 0", async () => {
+    const sprites = [await createSprite(4, 4, [255, 0, 0])];
+    const before = await createAnimation(sprites, { ratio: 1, frame: [{ objects: [{ index: 0, x: 0, y: 0, scale: 100, opacity: 255 }] }] });
+    const after = await createAnimation(sprites, { ratio: 1, frame: [{ objects: [obj(0, { rotate: 90 })] }] });
+
+    const diff = await diffAnimations(before, after);
+
+    expect(diff.frames.changes[0].objects[0].changes).toEqual([{ field: "rotate", before: 0, after: 90, delta: 90 }]);
+  });
+
+  test("diffImage 应该生成三列的差异图", async () => {
+    const before = await createAnimation([await createSprite(4, 4, [255, 0, 0]), await createSprite(6, 2, [0, 0, 255])], baseMeta);
+    const after = await createAnimation([await createSprite(4, 4, [0, 255, 0]), await createSprite(6, 2, [0, 0, 255])], baseMeta);
+
+    const diff = await diffAnimations(before, after, { diffImage: true });
+    const { data, info } = await sharp(diff.diffImage).raw().toBuffer({ resolveWithObject: true });
+
+    expect(info).toMatchObject({ width: 4 * 3 + 2 * 2, height: 4 });
+    expect([...data.subarray(0, 4)]).toEqual([255, 0, 0, 255]);
+    expect([...data.subarray(6 * 4, 6 * 4 + 4)]).toEqual([0, 255, 0, 255]);
+    expect([...data.subarray(12 * 4, 12 * 4 + 4)]).toEqual([255, 0, 0, 255]);
+    expect((await diffAnimations(before, before, { diffImage: true })).diffImage).toBeUndefined();
+  });
+});
+
+describe("formatAnimationDiff", () => {
+  test("应该以 +、-、~ 标记变化", async () => {
+    const sprites = [await createSprite(4, 4, [255, 0, 0]), await createSprite(4, 4, [0, 0, 255])];
+    const before = await createAnimation(sprites, baseMeta);
+    const after = await createAnimation([sprites[0]], {
+      ratio: 1,
+      frame: [{ objects: [obj(0, { x: -2 })] }],
+    });
+
+    const text = formatAnimationDiff(await diffAnimations(before, after));
+
+    expect(text).toContain("精灵: 2 → 1 个");
+    expect(text).toContain("  - 精灵 1: 4x4");
+    expect(text).toContain("帧: 2 → 1 帧");
+    expect(text).toContain("    ~ 图层 0（精灵 0） x 0 → -2（-2）");
+    expect(text).toContain("    - 图层 1（精灵 1） x=5 y=0 scale=100 opacity=255");
+    expect(text).toContain("    - 音效 a.mp3");
+    expect(text).toContain("  帧 1（删除）:");
+  });
+});
@@ -0,0 +1,292 @@
+import { describe, test, expect } from "vitest";
+import {
+  diffMeta,
+  applyPatches,
+  insertFrames,
+  deleteFrames,
+  duplicateFrames,
+  moveFrames,
+  reverseFrames,
+  cropFrames,
+  shiftObjects,
+  moveLayer,
+  retimeLayer,
+  setRatio,
+  setFps,
+  setFrameDuration,
+  type MetaEdit,
+} from "../editor.js";
+import { validateH5AnimateMeta } from "../validation.js";
+import { H5AnimateErrorCode } from "../errors.js";
+import type { H5AnimateMeta } from "../types.js";
+import { obj } from "./helpers.js";
+
+function createMeta(): H5AnimateMeta {
+  return {
+    ratio: 2,
+    frame: [
+      { objects: [obj(0), obj(1)], sound: [{ name: "start.mp3" }] },
+      { objects: [obj(0, { x: 10 }), obj(1, { x: 10 })] },
+      { objects: [obj(0, { x: 20 })] },
+      {},
+    ],
+  };
+}
+
+/**
+ * 检查编辑结果：输入未被修改，补丁可以重做与撤销，结果能通过验证
+ */
+function checkEdit(before: H5AnimateMeta, edit: MetaEdit): void {
+  expect(before).toEqual(createMeta());
+  expect(applyPatches(before, edit.patches)).toEqual(edit.meta);
+  expect(applyPatches(edit.meta, edit.inversePatches)).toEqual(before);
+  expect(() => validateH5AnimateMeta(edit.meta)).not.toThrow();
+}
+
+/**
+ * 取出每帧对象的 [index, x] 便于比较
+ */
+function layers(meta: H5AnimateMeta): Array<Array<[number, number]>> {
+  return meta.frame.map((frame) => (frame.objects ?? []).map((object) => [object.index, object.x]));
+}
+
+describe("diffMeta", () => {
+  test("未改动的帧不应该产生补丁", () => {
+    const meta = createMeta();
+
+    expect(diffMeta(meta, { ...meta })).toEqual([]);
+  });
+
+  test("应该生成 ratio、插入、删除与替换补丁", () => {
+    const meta = createMeta();
+    const replaced = { objects: [obj(3)] };
+
+    expect(diffMeta(meta, { ratio: 1, frame: [meta.frame[0], replaced, {}, {}, meta.frame[3]] })).toEqual([
+      { op: "replace", path: ["ratio"], value: 1 },
+      { op: "replace", path: ["frame", 1], value: replaced },
+      { op: "replace", path: ["frame", 2], value: {} },
+      { op: "add", path: ["frame", 3], value: {} },
+    ]);
+    expect(diffMeta(meta, { ...meta, frame: [meta.frame[0], meta.frame[3]] })).toEqual([
+      { op: "remove", path: ["frame", 1] },
+      { op: "remove", path: ["frame", 1] },
+    ]);
+  });
+});
+
+describe("applyPatches", () => {
+  test("越界的补丁应该抛出验证错误", () => {
+    expect(() => applyPatches(createMeta(), [{ op: "remove", path: ["frame", 4] }])).toThrow(
+      expect.objectContaining({ code: H5AnimateErrorCode.VALIDATION_ERROR }),
+    );
+  });
+});
+
+describe("帧编辑", () => {
+  test("insertFrames 应该插入帧的副本", () => {
+    const meta = createMeta();
+    const frame = { objects: [obj(5)] };
+    const edit = insertFrames(meta, 1, [frame]);
+
+    checkEdit(meta, edit);
+    expect(edit.meta.frame).toHaveLength(5);
+    expect(edit.meta.frame[1]).toEqual(frame);
+    expect(edit.meta.frame[1]).not.toBe(frame);
+    expect(edit.meta.frame[2]).toBe(meta.frame[1]);
+    expect(edit.patches).toEqual([{ op: "add", path: ["frame", 1], value: frame }]);
+    expect(edit.inversePatches).toEqual([{ op: "remove", path: ["frame", 1] }]);
+  });
+
+  test("insertFrames 默认插入一个空帧", () => {
+    const meta = createMeta();
+
+    expect(insertFrames(meta, 4).meta.frame[4]).toEqual({});
+  });
+
+  test("deleteFrames 应该删除指定范围", () => {
+    const meta = createMeta();
+    const edit = deleteFrames(meta, 1, 2);
+
+    checkEdit(meta, edit);
+    expect(edit.meta.frame).toEqual([meta.frame[0], meta.frame[3]]);
+  });
+
+  test("duplicateFrames 应该在原帧之后插入副本", () => {
+    const meta = createMeta();
+    const edit = duplicateFrames(meta, 0, 2);
+
+    checkEdit(meta, edit);
+    expect(layers(edit.meta).slice(0, 4)).toEqual([
+      [[0, 0], [1, 0]],
+      [[0, 10], [1, 10]],
+      [[0, 0], [1, 0]],
+      [[0, 10], [1, 10]],
+    ]);
+    expect(edit.meta.frame[2].sound).toEqual([{ name: "start.mp3" }]);
+  });
+
+  test("moveFrames 应该调整帧顺序", () => {
+    const meta = createMeta();
+    const edit = moveFrames(meta, 0, 2);
+
+    checkEdit(meta, edit);
+    expect(edit.meta.frame).toEqual([meta.frame[1], meta.frame[2], meta.frame[0], meta.frame[3]]);
+  });
+
+  test("reverseFrames 应该倒放指定范围，音效随帧移动", () => {
+    const meta = createMeta();
+    const edit = reverseFrames(meta, { end: 3 });
+
+    checkEdit(meta, edit);
+    expect(edit.meta.frame).toEqual([meta.frame[2], meta.frame[1], meta.frame[0], meta.frame[3]]);
+  });
+
+  test("cropFrames 应该保留指定范围并补充空帧", () => {
+    const meta = createMeta();
+    const edit = cropFrames(meta, 2, 6);
+
+    checkEdit(meta, edit);
+    expect(edit.meta.frame).toEqual([meta.frame[2], {}, {}, {}]);
+    expect(cropFrames(meta, 1, 1).meta.frame).toEqual([]);
+  });
+
+  test("越界的范围应该抛出验证错误", () => {
+    const meta = createMeta();
+    const validationError = expect.objectContaining({ code: H5AnimateErrorCode.VALIDATION_ERROR });
+
+    expect(() => insertFrames(meta, 5)).toThrow(validationError);
+    expect(() => deleteFrames(meta, 3, 2)).toThrow(validationError);
+    expect(() => deleteFrames(meta, 0, 0)).toThrow(validationError);
+    expect(() => moveFrames(meta, 0, 3, 2)).toThrow(validationError);
+    expect(() => reverseFrames(meta, { start: 3, end: 1 })).toThrow(validationError);
+    expect(() => cropFrames(meta, 2, 1)).toThrow(validationError);
+  });
+});
+
+describe("对象编辑", () => {
+  test("shiftObjects 应该平移所有对象", () => {
+    const meta = createMeta();
+    const edit = shiftObjects(meta, 5, -3);
+
+    checkEdit(meta, edit);
+    expect(layers(edit.meta)).toEqual([[[0, 5], [1, 5]], [[0, 15], [1, 15]], [[0, 25]], []]);
+    expect(edit.meta.frame[0].objects![0].y).toBe(-3);
+    expect(edit.meta.frame[0].sound).toBe(meta.frame[0].sound);
+  });
+
+  test("shiftObjects 可以只平移指定图层与帧范围", () => {
+    const meta = createMeta();
+    const edit = shiftObjects(meta, 5, 0, { layer: 1, start: 1 });
+
+    checkEdit(meta, edit);
+    expect(layers(edit.meta)).toEqual([[[0, 0], [1, 0]], [[0, 10], [1, 15]], [[0, 20]], []]);
+    expect(edit.meta.frame[0]).toBe(meta.frame[0]);
+    // 第 2 帧没有图层 1，不应该产生补丁
+    expect(edit.meta.frame[2]).toBe(meta.frame[2]);
+    expect(edit.patches).toEqual([{ op: "replace", path: ["frame", 1], value: edit.meta.frame[1] }]);
+  });
+
+  test("moveLayer 应该调整绘制顺序并跳过没有该图层的帧", () => {
+    const meta = createMeta();
+    const edit = moveLayer(meta, 0, 5);
+
+    checkEdit(meta, edit);
+    expect(layers(edit.meta)).toEqual([[[1, 0], [0, 0]], [[1, 10], [0, 10]], [[0, 20]], []]);
+    expect(edit.meta.frame[2]).toBe(meta.frame[2]);
+  });
+
+  test("retimeLayer 应该将图层移到其他帧的同一位置", () => {
+    const meta = createMeta();
+    const edit = retimeLayer(meta, 1, 2);
+
+    checkEdit(meta, edit);
+    expect(layers(edit.meta)).toEqual([[[0, 0]], [[0, 10]], [[0, 20], [1, 0]], [[1, 10]]]);
+  });
+
+  test("retimeLayer 移出范围时应该抛出验证错误", () => {
+    expect(() => retimeLayer(createMeta(), 0, 2)).toThrow(
+      expect.objectContaining({ code: H5AnimateErrorCode.VALIDATION_ERROR }),
+    );
+  });
+
+  test("retimeLayer 移出所有对象时应该移除 objects 字段", () => {
+    const meta = createMeta();
+    const edit = retimeLayer(meta, 0, -2, { start: 2, end: 3 });
+
+    checkEdit(meta, edit);
+    expect(edit.meta.frame[2]).toEqual({});
+    expect(layers(edit.meta)[0]).toEqual([[0, 20], [0, 0], [1, 0]]);
+  });
+});
+
+describe("setRatio", () => {
+  test("默认应该调整 scale 保持画面不变", () => {
+    const meta = createMeta();
+    const edit = setRatio(meta, 4);
+
+    checkEdit(meta, edit);
+    expect(edit.meta.ratio).toBe(4);
+    expect(edit.meta.frame[1].objects![0]).toMatchObject({ x: 10, scale: 50 });
+  });
+
+  test("preserveSize 为 false 时应该按比例调整位置", () => {
+    const meta = createMeta();
+    const edit = setRatio(meta, 1, { preserveSize: false });
+
+    checkEdit(meta, edit);
+    expect(edit.meta.frame[1].objects![0]).toMatchObject({ x: 5, scale: 100 });
+  });
+
+  test("ratio 不变时不应该产生补丁", () => {
+    expect(setRatio(createMeta(), 2).patches).toEqual([]);
+  });
+
+  test("非正数的 ratio 应该抛出验证错误", () => {
+    expect(() => setRatio(createMeta(), 0)).toThrow(
+      expect.objectContaining({ code: H5AnimateErrorCode.VALIDATION_ERROR }),
+    );
+  });
+});
+
+describe("帧时长编辑", () => {
+  test("setFps 应该生成可撤销的 fps 补丁", () => {
+    const meta = createMeta();
+    const edit = setFps(meta, 30);
+
+    checkEdit(meta, edit);
+    expect(edit.meta.fps).toBe(30);
+    expect(edit.patches).toEqual([{ op: "replace", path: ["fps"], value: 30 }]);
+    expect(edit.inversePatches).toEqual([{ op: "replace", path: ["fps"], value: undefined }]);
+
+    const removed = setFps(edit.meta, undefined);
+    expect(removed.meta).not.toHaveProperty("fps");
+    expect(applyPatches(removed.meta, removed.inversePatches)).toEqual(edit.meta);
+  });
+
+  test("setFrameDuration 应该只修改范围内的帧", () => {
+    const meta = createMeta();
+    const edit = setFrameDuration(meta, 120, { start: 1, end: 3 });
+
+    checkEdit(meta, edit);
+    expect(edit.meta.frame.map((frame) => frame.duration)).toEqual([undefined, 120, 120, undefined]);
+    expect(edit.meta.frame[0]).toBe(meta.frame[0]);
+    expect(setFrameDuration(edit.meta, undefined).meta.frame.every((frame) => !("duration" in frame))).toBe(true);
+  });
+
+  test("duplicateFrames 应该保留帧时长", () => {
+    const meta = setFrameDuration(createMeta(), 80, { start: 0, end: 1 }).meta;
+
+    expect(duplicateFrames(meta, 0).meta.frame[1].duration).toBe(80);
+  });
+
+  test("setRatio 应该保留 fps", () => {
+    expect(setRatio({ ...createMeta(), fps: 30 }, 4).meta.fps).toBe(30);
+  });
+
+  test("非正数的帧率或时长应该抛出验证错误", () => {
+    const validationError = expect.objectContaining({ code: H5AnimateErrorCode.VALIDATION_ERROR });
+
+    expect(() => setFps(createMeta(), 0)).toThrow(validationError);
+    expect(() => setFrameDuration(createMeta(), -1)).toThrow(validationError);
+  });
+});
@@ -4,9 +4,12 @@ import {
   convertObjectsToArrays,
   metaReplacer,
   validateEncodeInput,
+  validateExtraChunks,
   encodeH5Animate,
 } from "../encoder.js";
 import { decodeH5Animate } from "../decoder.js";
+import { BinaryParser } from "../binary.js";
+import { crc32 } from "../crc32.js";
 import { H5AnimateError, H5AnimateErrorCode } from "../errors.js";
 import type { H5AnimateMeta, SpriteInfo, H5AnimateObject } from "../types.js";
 
@@ -206,7 +209,7 @@ describe("encodeH5Animate", () => {
 
     // 验证文件头
     expect(encoded.subarray(0, 4).toString("ascii")).toBe("ANIM");
-    expect(encoded.readUInt32LE(4)).toBe(1); // version
+    expect(encoded.readUInt32LE(4)).toBe(3); // version
   });
 
   test("编码后解码应该得到等价的数据（往返测试）", () => {
@@ -232,7 +235,10 @@ describe("encodeH5Animate", () => {
     const decoded = decodeH5Animate(encoded);
 
     expect(decoded.meta).toEqual(meta);
-    expect(decoded.spriteInfo).toEqual(spriteInfo);
+    expect(decoded.spriteInfo).toEqual({
+      ...spriteInfo,
+      rects: [{ x: 0, y: 0, width: 100, height: 100 }],
+    });
     expect(decoded.webpData).toEqual(webpData);
   });
 
@@ -349,3 +355,127 @@ describe("encodeH5Animate", () => {
     )).toThrow(H5AnimateError);
   });
 });
+
+describe("精灵区域编码", () => {
+  const meta: H5AnimateMeta = { ratio: 1, frame: [] };
+
+  test("垂直排布可以写入版本 1", () => {
+    const spriteInfo: SpriteInfo = {
+      count: 1,
+      dimensions: [{ width: 10, height: 10 }],
+      rects: [{ x: 0, y: 0, width: 10, height: 10 }],
+    };
+
+    const encoded = encodeH5Animate(meta, spriteInfo, Buffer.from("webp"), { version: 1 });
+
+    expect(encoded.readUInt32LE(4)).toBe(1);
+  });
+
+  test("打包排布应该在版本 2 和 3 中完整往返", () => {
+    const spriteInfo: SpriteInfo = {
+      count: 3,
+      dimensions: [{ width: 10, height: 10 }, { width: 0, height: 0 }, { width: 40, height: 30 }],
+      rects: [
+        { x: 25, y: 0, width: 10, height: 10 },
+        { x: 0, y: 0, width: 0, height: 0 },
+        { x: 0, y: 0, width: 25, height: 20, offsetX: 5, offsetY: 3, sourceWidth: 40, sourceHeight: 30 },
+      ],
+    };
+    const webpData = Buffer.from("packed-webp");
+
+    for (const version of [2, 3]) {
+      const encoded = encodeH5Animate(meta, spriteInfo, webpData, { version });
+      const decoded = decodeH5Animate(encoded);
+
+      expect(encoded.readUInt32LE(4)).toBe(version);
+      expect(decoded.spriteInfo).toEqual(spriteInfo);
+      expect(decoded.webpData).toEqual(webpData);
+    }
+  });
+});
+
+describe("目标版本", () => {
+  const meta: H5AnimateMeta = { ratio: 1, frame: [] };
+  const spriteInfo: SpriteInfo = { count: 1, dimensions: [{ width: 10, height: 10 }] };
+
+  test("应该按指定版本写入", () => {
+    const encoded = encodeH5Animate(meta, spriteInfo, Buffer.from("webp"), { version: 2 });
+    const decoded = decodeH5Animate(encoded);
+
+    expect(encoded.readUInt32LE(4)).toBe(2);
+    expect(decoded.version).toBe(2);
+    expect(decoded.spriteInfo.rects).toEqual([{ x: 0, y: 0, width: 10, height: 10 }]);
+  });
+
+  test("按源版本重新编码升级后的数据应该写回原版本", () => {
+    const decoded = decodeH5Animate(encodeH5Animate(meta, spriteInfo, Buffer.from("webp"), { version: 1 }));
+    const reencoded = encodeH5Animate(decoded.meta, decoded.spriteInfo, decoded.webpData, {
+      version: decoded.version,
+    });
+
+    expect(reencoded.readUInt32LE(4)).toBe(1);
+  });
+
+  test("不支持的版本应该抛出错误", () => {
+    expect(() => encodeH5Animate(meta, spriteInfo, Buffer.from("webp"), { version: 9 })).toThrow(H5AnimateError);
+  });
+});
+
+describe("分块容器", () => {
+  const meta: H5AnimateMeta = { ratio: 1, frame: [] };
+  const spriteInfo: SpriteInfo = { count: 1, dimensions: [{ width: 10, height: 10 }] };
+  const webpData = Buffer.from("webp");
+
+  test("应该按 SPRT、WEBP、META、CSUM 的顺序写入分块", () => {
+    const encoded = encodeH5Animate(meta, spriteInfo, webpData);
+    const parser = new BinaryParser(encoded.subarray(16));
+
+    expect(encoded.readUInt32LE(8)).toBe(4);
+    expect(encoded.readUInt32LE(12)).toBe(encoded.length - 16);
+    expect(parser.readChunk().tag).toBe("SPRT");
+    expect(parser.readChunk()).toEqual({ tag: "WEBP", data: webpData });
+    expect(parser.readChunk().tag).toBe("META");
+    expect(parser.readChunk().tag).toBe("CSUM");
+    expect(parser.hasMore()).toBe(false);
+  });
+
+  test("CSUM 应该记录此前所有字节的 CRC32", () => {
+    const encoded = encodeH5Animate(meta, spriteInfo, webpData, {
+      chunks: [{ tag: "XTRA", data: Buffer.from("extra") }],
+    });
+    const checksumStart = encoded.length - 12;
+
+    expect(encoded.subarray(checksumStart, checksumStart + 4).toString("ascii")).toBe("CSUM");
+    expect(encoded.readUInt32LE(checksumStart + 8)).toBe(crc32(encoded.subarray(0, checksumStart)));
+  });
+
+  test("checksum 为 false 时不应该写入 CSUM", () => {
+    const encoded = encodeH5Animate(meta, spriteInfo, webpData, { checksum: false });
+
+    expect(encoded.readUInt32LE(8)).toBe(3);
+    expect(decodeH5Animate(encoded).webpData).toEqual(webpData);
+  });
+
+  test("额外分块应该写在已知分块之后并在解码时保留", () => {
+    const chunks = [
+      { tag: "THMB", data: Buffer.from("thumbnail") },
+      { tag: "edit", data: Buffer.from("{}") },
+    ];
+
+    const decoded = decodeH5Animate(encodeH5Animate(meta, spriteInfo, webpData, { chunks }));
+
+    expect(decoded.chunks).toEqual(chunks);
+    expect(decoded.webpData).toEqual(webpData);
+  });
+
+  test("固定布局版本不支持额外分块", () => {
+    const chunks = [{ tag: "THMB", data: Buffer.alloc(1) }];
+
+    expect(() => encodeH5Animate(meta, spriteInfo, webpData, { version: 2, chunks })).toThrow(H5AnimateError);
+  });
+
+  test("额外分块不能使用保留标签或无效标签", () => {
+    expect(() => validateExtraChunks([{ tag: "META", data: Buffer.alloc(0) }], 3)).toThrow(H5AnimateError);
+    expect(() => validateExtraChunks([{ tag: "AB", data: Buffer.alloc(0) }], 3)).toThrow(H5AnimateError);
+  });
+});
@@ -16,10 +16,12 @@ import {
   createInvalidArrayLengthError,
   createFileTruncatedError,
   createSizeMismatchError,
+  createLimitExceededError,
   createJsonParseError,
   createBase64DecodeError,
   createImageMergeError,
   createFrameExtractionError,
+  createAbortedError,
   getErrorCodeDescription,
 } from "../errors.js";
 
@@ -278,6 +280,15 @@ describe("新增错误工厂函数", () => {
     expect(error.message).toContain("800");
   });
 
+  test("createLimitExceededError 应该创建正确的错误", () => {
+    const error = createLimitExceededError("maxSprites", 5000, 256);
+
+    expect(error.code).toBe(H5AnimateErrorCode.LIMIT_EXCEEDED);
+    expect(error.fieldPath).toBe("maxSprites");
+    expect(error.message).toContain("5000");
+    expect(error.message).toContain("256");
+  });
+
   test("createJsonParseError 应该创建正确的错误", () => {
     const error = createJsonParseError("意外的字符", 50);
 
@@ -315,6 +326,12 @@ describe("新增错误工厂函数", () => {
     expect(error.code).toBe(H5AnimateErrorCode.FRAME_EXTRACTION_ERROR);
     expect(error.message).not.toContain("帧索引:");
   });
+
+  test("createAbortedError 应该创建正确的错误", () => {
+    expect(createAbortedError().code).toBe(H5AnimateErrorCode.ABORTED);
+    expect(createAbortedError().message).toBe("操作已取消");
+    expect(createAbortedError("用户取消").message).toBe("操作已取消: 用户取消");
+  });
 });
 
 describe("getErrorCodeDescription", () => {
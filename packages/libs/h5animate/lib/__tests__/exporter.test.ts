@@ -0,0 +1,156 @@
+import { describe, test, expect } from "vitest";
+import sharp from "sharp";
+import { resolveFrameDelays, renderAllFrames, exportH5Animate } from "../exporter.js";
+import { encodeApng } from "../apng.js";
+import { H5AnimateError, H5AnimateErrorCode } from "../errors.js";
+import type { DecodedH5Animate } from "../types.js";
+
+/**
+ * 创建包含两帧的测试动画
+ */
+async function createTestAnimation(): Promise<DecodedH5Animate> {
+  const webpData = await sharp({
+    create: { width: 4, height: 4, channels: 4, background: { r: 255, g: 0, b: 0, alpha: 1 } },
+  })
+    .webp({ lossless: true })
+    .toBuffer();
+
+  return {
+    meta: {
+      ratio: 1,
+      frame: [
+        { objects: [{ index: 0, x: 0, y: 0, scale: 100, opacity: 255 }] },
+        { objects: [{ index: 0, x: 4, y: 0, scale: 100, opacity: 255 }] },
+      ],
+    },
+    spriteInfo: { count: 1, dimensions: [{ width: 4, height: 4 }] },
+    webpData,
+  };
+}
+
+/**
+ * 列出 PNG 文件中的所有分块类型
+ */
+function listPngChunks(png: Buffer): string[] {
+  const types: string[] = [];
+  let offset = 8;
+  while (offset < png.length) {
+    const length = png.readUInt32BE(offset);
+    types.push(png.toString("ascii", offset + 4, offset + 8));
+    offset += 12 + length;
+  }
+  return types;
+}
+
+describe("resolveFrameDelays", () => {
+  test("统一延迟应该展开为每帧延迟", () => {
+    expect(resolveFrameDelays(80, 3)).toEqual([80, 80, 80]);
+  });
+
+  test("未指定延迟时应该使用默认值", () => {
+    expect(resolveFrameDelays(undefined, 2)).toEqual([50, 50]);
+  });
+
+  test("延迟数组长度与帧数不一致应该抛出错误", () => {
+    expect(() => resolveFrameDelays([10, 20], 3)).toThrow(H5AnimateError);
+  });
+
+  test("越界的延迟应该抛出错误", () => {
+    expect(() => resolveFrameDelays(70000, 1)).toThrow(H5AnimateError);
+    expect(() => resolveFrameDelays(-1, 1)).toThrow(H5AnimateError);
+  });
+});
+
+describe("renderAllFrames", () => {
+  test("所有帧应该使用相同的画布", async () => {
+    const frames = await renderAllFrames(await createTestAnimation());
+
+    expect(frames).toHaveLength(2);
+    expect(frames[0].width).toBe(8);
+    expect(frames[1].width).toBe(8);
+    expect(frames[0].height).toBe(4);
+  });
+});
+
+describe("encodeApng", () => {
+  test("应该写出 APNG 分块结构", () => {
+    const frame = { data: Buffer.alloc(2 * 2 * 4, 255), width: 2, height: 2 };
+
+    const apng = encodeApng([frame, frame, frame], { delays: [10, 20, 30], loop: 0 });
+
+    expect(listPngChunks(apng)).toEqual([
+      "IHDR", "acTL", "fcTL", "IDAT", "fcTL", "fdAT", "fcTL", "fdAT", "IEND",
+    ]);
+  });
+
+  test("帧尺寸不一致应该抛出错误", () => {
+    const small = { data: Buffer.alloc(4), width: 1, height: 1 };
+    const large = { data: Buffer.alloc(16), width: 2, height: 2 };
+
+    expect(() => encodeApng([small, large], { delays: [10, 10], loop: 0 })).toThrow(H5AnimateError);
+  });
+
+  test("第一帧应该可以作为普通 PNG 解码", async () => {
+    const frame = { data: Buffer.from([0, 255, 0, 255]), width: 1, height: 1 };
+
+    const apng = encodeApng([frame], { delays: [100], loop: 1 });
+    const { data } = await sharp(apng).raw().toBuffer({ resolveWithObject: true });
+
+    expect(Array.from(data)).toEqual([0, 255, 0, 255]);
+  });
+});
+
+describe("exportH5Animate", () => {
+  test("应该导出动态 WebP", async () => {
+    const webp = await exportH5Animate(await createTestAnimation(), { delay: [100, 200], loop: 3 });
+
+    const metadata = await sharp(webp, { animated: true }).metadata();
+    expect(metadata.format).toBe("webp");
+    expect(metadata.pages).toBe(2);
+    expect(metadata.delay).toEqual([100, 200]);
+    expect(metadata.loop).toBe(3);
+  });
+
+  test("未指定延迟时应该使用元数据的帧时长", async () => {
+    const animation = await createTestAnimation();
+    animation.meta.fps = 40;
+    animation.meta.frame[1].duration = 120.4;
+
+    const webp = await exportH5Animate(animation);
+
+    expect((await sharp(webp, { animated: true }).metadata()).delay).toEqual([25, 120]);
+  });
+
+  test("应该导出 GIF", async () => {
+    const gif = await exportH5Animate(await createTestAnimation(), { format: "gif", delay: 100 });
+
+    const metadata = await sharp(gif, { animated: true }).metadata();
+    expect(metadata.format).toBe("gif");
+    expect(metadata.pages).toBe(2);
+    expect(metadata.width).toBe(8);
+  });
+
+  test("应该导出 APNG 并使用指定的画布尺寸", async () => {
+    const apng = await exportH5Animate(await createTestAnimation(), {
+      format: "apng",
+      width: 16,
+      height: 16,
+    });
+
+    expect(listPngChunks(apng).filter((type) => type === "fcTL")).toHaveLength(2);
+    expect(apng.readUInt32BE(16)).toBe(16);
+    expect(apng.readUInt32BE(20)).toBe(16);
+  });
+
+  test("没有帧的动画应该抛出错误", async () => {
+    const animation = await createTestAnimation();
+    animation.meta.frame = [];
+
+    try {
+      await exportH5Animate(animation);
+      expect.unreachable();
+    } catch (error) {
+      expect((error as H5AnimateError).code).toBe(H5AnimateErrorCode.CONVERSION_FAILED);
+    }
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * 测试共用的图像、精灵与对象构造函数
+ */
+
+import sharp from "sharp";
+import type { H5AnimateObject, RawImage } from "../types.js";
+
+/**
+ * 创建纯色的 RGBA 图像
+ */
+export function createSolidImage(
+  width: number,
+  height: number,
+  color: [number, number, number, number],
+): RawImage {
+  const data = Buffer.alloc(width * height * 4);
+  for (let i = 0; i < data.length; i += 4) {
+    data.set(color, i);
+  }
+  return { data, width, height };
+}
+
+/**
+ * 创建纯色测试 PNG 图像
+ */
+export function createTestPng(
+  width: number,
+  height: number,
+  color: { r: number; g: number; b: number; alpha?: number } = { r: 255, g: 0, b: 0 },
+): Promise<Buffer> {
+  return sharp({
+    create: {
+      width,
+      height,
+      channels: 4,
+      background: { ...color, alpha: color.alpha ?? 1 },
+    },
+  })
+    .png()
+    .toBuffer();
+}
+
+/**
+ * 创建纯色 PNG，box 之外透明
+ */
+export function createSprite(
+  width: number,
+  height: number,
+  color: [number, number, number],
+  box = { left: 0, top: 0, width, height },
+): Promise<Buffer> {
+  const data = Buffer.alloc(width * height * 4);
+  for (let y = box.top; y < box.top + box.height; y++) {
+    for (let x = box.left; x < box.left + box.width; x++) {
+      data.set([...color, 255], (y * width + x) * 4);
+    }
+  }
+  return sharp(data, { raw: { width, height, channels: 4 } }).png().toBuffer();
+}
+
+/**
+ * 创建位于原点、无变换的对象
+ */
+export function obj(index: number, extra: Partial<H5AnimateObject> = {}): H5AnimateObject {
+  return { index, x: 0, y: 0, scale: 100, opacity: 255, mirror: 0, rotate: 0, ...extra };
+}
@@ -0,0 +1,149 @@
+import { describe, test, expect } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import sharp from "sharp";
+import {
+  buildSequenceMeta,
+  importFrameSequence,
+  importPngSequence,
+  splitSpriteGrid,
+  importSpriteGrid,
+} from "../importer.js";
+import { decodeH5Animate } from "../decoder.js";
+import { H5AnimateErrorCode } from "../errors.js";
+import type { ProgressInfo } from "../types.js";
+import { createTestPng } from "./helpers.js";
+
+const validationError = expect.objectContaining({ code: H5AnimateErrorCode.VALIDATION_ERROR });
+
+describe("buildSequenceMeta", () => {
+  const dimensions = [{ width: 10, height: 20 }, { width: 30, height: 20 }, { width: 10, height: 20 }];
+
+  test("默认锚点为帧中心，每帧一个对象", () => {
+    const meta = buildSequenceMeta(dimensions);
+
+    expect(meta.ratio).toBe(1);
+    expect(meta.frame.map((frame) => frame.objects)).toEqual(dimensions.map((_, index) => [
+      { index, x: 0, y: 0, scale: 100, opacity: 255 },
+    ]));
+  });
+
+  test("对象坐标应该为帧中心相对锚点的偏移乘以缩放比例", () => {
+    const meta = buildSequenceMeta(dimensions, { anchor: { x: 5, y: 20 }, ratio: 2 });
+
+    expect(meta.ratio).toBe(2);
+    expect(meta.frame[0].objects![0]).toMatchObject({ x: 0, y: -20 });
+    expect(meta.frame[1].objects![0]).toMatchObject({ x: 20, y: -20 });
+  });
+
+  test("应该写入输入帧率并把音效放在对应的帧", () => {
+    const sounds = { 1: [{ name: "a.mp3" }], 2: [{ name: "b.mp3", volume: 0.5 }] };
+
+    const meta = buildSequenceMeta(dimensions, { fps: 29.97, sounds });
+
+    expect(meta.fps).toBe(29.97);
+    expect(meta.frame.map((frame) => frame.objects![0].index)).toEqual([0, 1, 2]);
+    expect(meta.frame.map((frame) => frame.sound?.map((sound) => sound.name))).toEqual([
+      undefined, ["a.mp3"], ["b.mp3"],
+    ]);
+    expect(buildSequenceMeta(dimensions)).not.toHaveProperty("fps");
+  });
+
+  test("无效的选项应该抛出验证错误", () => {
+    expect(() => buildSequenceMeta(dimensions, { ratio: 0 })).toThrow(validationError);
+    expect(() => buildSequenceMeta(dimensions, { fps: -5 })).toThrow(validationError);
+    expect(() => buildSequenceMeta(dimensions, { sounds: { 3: [{ name: "a.mp3" }] } })).toThrow(validationError);
+  });
+});
+
+describe("importFrameSequence", () => {
+  test("应该把每个输入帧打包为精灵并编码", async () => {
+    const frames = await Promise.all([createTestPng(8, 8), createTestPng(16, 8), createTestPng(8, 16)]);
+
+    const decoded = decodeH5Animate(await importFrameSequence(frames, {
+      spriteSheet: { layout: "shelf" },
+      metaEncoding: "binary",
+    }), { strict: true });
+
+    expect(decoded.spriteInfo.dimensions).toEqual([
+      { width: 8, height: 8 },
+      { width: 16, height: 8 },
+      { width: 8, height: 16 },
+    ]);
+    expect(decoded.meta.frame.map((frame) => frame.objects![0].index)).toEqual([0, 1, 2]);
+  });
+
+  test("没有帧时应该抛出 CONVERSION_FAILED", async () => {
+    await expect(importFrameSequence([])).rejects.toEqual(expect.objectContaining({
+      code: H5AnimateErrorCode.CONVERSION_FAILED,
+    }));
+  });
+});
+
+describe("importPngSequence", () => {
+  test("应该按编号自然排序并忽略其他文件", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "h5animate-frames-"));
+    try {
+      writeFileSync(join(dir, "walk_10.png"), await createTestPng(30, 4));
+      writeFileSync(join(dir, "walk_2.png"), await createTestPng(20, 4));
+      writeFileSync(join(dir, "walk_1.PNG"), await createTestPng(10, 4));
+      writeFileSync(join(dir, "notes.txt"), "忽略");
+
+      const decoded = decodeH5Animate(await importPngSequence(dir));
+
+      expect(decoded.spriteInfo.dimensions.map((dimension) => dimension.width)).toEqual([10, 20, 30]);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test("目录中没有 PNG 时应该抛出 CONVERSION_FAILED", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "h5animate-frames-"));
+    try {
+      await expect(importPngSequence(dir)).rejects.toEqual(expect.objectContaining({
+        code: H5AnimateErrorCode.CONVERSION_FAILED,
+      }));
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("精灵图网格", () => {
+  test("应该按行拆分网格并报告进度", async () => {
+    const sheet = await sharp({ create: { width: 30, height: 20, channels: 4, background: "#00000000" } })
+      .composite([{ input: await createTestPng(10, 10), left: 10, top: 0 }])
+      .png()
+      .toBuffer();
+    const events: ProgressInfo[] = [];
+
+    const frames = await splitSpriteGrid(sheet, { columns: 3, rows: 2, count: 5 }, {
+      onProgress: (event) => events.push(event),
+    });
+
+    expect(frames).toHaveLength(5);
+    expect(events.at(-1)).toEqual({ stage: "frame", current: 5, total: 5 });
+
+    const opaque = await Promise.all(frames.map(async (frame) => (await sharp(frame).stats()).isOpaque));
+    expect(opaque).toEqual([false, true, false, false, false]);
+  });
+
+  test("单元格尺寸与行列数可以互相推导", async () => {
+    const sheet = await createTestPng(40, 30);
+
+    expect(await splitSpriteGrid(sheet, { frameWidth: 10, frameHeight: 15 })).toHaveLength(8);
+
+    const decoded = decodeH5Animate(await importSpriteGrid(sheet, { columns: 2, frameHeight: 10 }));
+    expect(decoded.spriteInfo.dimensions).toEqual(new Array(6).fill({ width: 20, height: 10 }));
+  });
+
+  test("无效的网格应该抛出验证错误", async () => {
+    const sheet = await createTestPng(30, 20);
+
+    await expect(splitSpriteGrid(sheet, { columns: 3 })).rejects.toEqual(validationError);
+    await expect(splitSpriteGrid(sheet, { frameWidth: 40, rows: 1 })).rejects.toEqual(validationError);
+    await expect(splitSpriteGrid(sheet, { columns: 3, rows: 2, count: 7 })).rejects.toEqual(validationError);
+    await expect(splitSpriteGrid(sheet, { columns: 1.5, rows: 2 })).rejects.toEqual(validationError);
+  });
+});
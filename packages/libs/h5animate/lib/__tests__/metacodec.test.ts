@@ -0,0 +1,115 @@
+import { describe, test, expect } from "vitest";
+import { readFileSync } from "fs";
+import { join } from "path";
+import { encodeBinaryMeta, decodeBinaryMeta } from "../metacodec.js";
+import { convertMetadata, parseLegacyAnimateFile } from "../converter.js";
+import { encodeH5Animate, metaReplacer } from "../encoder.js";
+import { decodeH5Animate } from "../decoder.js";
+import { FORMAT_VERSION_4 } from "../version.js";
+import { H5AnimateErrorCode } from "../errors.js";
+import type { H5AnimateMeta } from "../types.js";
+import { obj } from "./helpers.js";
+
+const sampleMeta = convertMetadata(
+  parseLegacyAnimateFile(readFileSync(join(__dirname, "../../sample/hand.animate"), "utf-8")),
+);
+
+/**
+ * 经过 JSON 元信息编解码后的结果，作为二进制编码的参照
+ */
+function decodeAsJson(meta: H5AnimateMeta): H5AnimateMeta {
+  const spriteInfo = { count: 0, dimensions: [] };
+  return decodeH5Animate(encodeH5Animate(meta, spriteInfo, Buffer.alloc(0))).meta;
+}
+
+const invalidMetadata = expect.objectContaining({ code: H5AnimateErrorCode.INVALID_METADATA });
+
+describe("二进制元信息", () => {
+  test("解码结果应该与 JSON 元信息一致", () => {
+    const meta: H5AnimateMeta = {
+      ratio: 1.5,
+      frame: [
+        { sound: [{ name: "attack.mp3" }, { name: "音效/hit.ogg", volume: 0.8, pitch: 120 }] },
+        { objects: [obj(0, { x: -12, y: 40 }), obj(3, { scale: 150, mirror: 1, rotate: 90 })] },
+        { objects: [obj(0, { x: -11.25, y: 40 }), { index: 3, x: 0, y: 0, scale: 150, opacity: 128 }] },
+        { sound: [], objects: [] },
+        { objects: [obj(1, { x: 2 ** 40, y: -3 })], sound: [{ name: "attack.mp3", volume: -5 }] },
+        {},
+      ],
+    };
+
+    const decoded = decodeBinaryMeta(encodeBinaryMeta(meta));
+
+    expect(decoded).toStrictEqual(decodeAsJson(meta));
+  });
+
+  test("应该保留 fps 与帧时长", () => {
+    const meta: H5AnimateMeta = {
+      ratio: 1,
+      fps: 12.5,
+      frame: [{ duration: 100 }, { objects: [obj(0)], duration: 33.3 }, {}],
+    };
+
+    const decoded = decodeBinaryMeta(encodeBinaryMeta(meta));
+
+    expect(decoded).toStrictEqual(decodeAsJson(meta));
+    expect(decoded.fps).toBe(12.5);
+    expect(decoded.frame.map((frame) => frame.duration)).toEqual([100, 33.3, undefined]);
+  });
+
+  test("应该比 JSON 元信息更小", () => {
+    const binary = encodeBinaryMeta(sampleMeta);
+    const json = Buffer.from(JSON.stringify(sampleMeta, metaReplacer), "utf8");
+
+    expect(decodeBinaryMeta(binary)).toStrictEqual(decodeAsJson(sampleMeta));
+    expect(binary.length).toBeLessThan(json.length / 2);
+  });
+
+  test("音效名称应该只写入一次", () => {
+    const name = "a-very-long-sound-name.mp3";
+    const data = encodeBinaryMeta({
+      ratio: 1,
+      frame: Array.from({ length: 10 }, () => ({ sound: [{ name }] })),
+    });
+
+    expect(data.indexOf(name)).toBeGreaterThan(0);
+    expect(data.indexOf(name, data.indexOf(name) + 1)).toBe(-1);
+  });
+
+  test("与上一帧相同的对象应该只占一个字节", () => {
+    const frame = { objects: [obj(2, { x: 100, y: -50, scale: 80 })] };
+    const one = encodeBinaryMeta({ ratio: 1, frame: [frame] });
+    const two = encodeBinaryMeta({ ratio: 1, frame: [frame, frame] });
+
+    // 帧标志、对象数量与对象标志各一个字节
+    expect(two.length - one.length).toBe(3);
+  });
+
+  test("截断、多余数据或无效索引应该抛出 INVALID_METADATA", () => {
+    const data = encodeBinaryMeta({ ratio: 1, frame: [{ sound: [{ name: "a.mp3" }] }] });
+
+    expect(() => decodeBinaryMeta(data.subarray(0, data.length - 1))).toThrow(invalidMetadata);
+    expect(() => decodeBinaryMeta(Buffer.concat([data, Buffer.from([0])]))).toThrow(invalidMetadata);
+
+    // ratio、空字符串表、一帧、只有音效、一个音效、名称索引 0
+    const badIndex = Buffer.concat([Buffer.alloc(8), Buffer.from([0, 1, 1, 1, 0, 0])]);
+    expect(() => decodeBinaryMeta(badIndex)).toThrow(invalidMetadata);
+
+    const badFlags = Buffer.concat([Buffer.alloc(8), Buffer.from([0, 1, 0x10])]);
+    expect(() => decodeBinaryMeta(badFlags)).toThrow(invalidMetadata);
+  });
+
+  test("版本 4 的文件应该透明地解码元信息", () => {
+    const spriteInfo = { count: 1, dimensions: [{ width: 4, height: 4 }] };
+    const webpData = Buffer.from("fake-webp");
+
+    const binary = encodeH5Animate(sampleMeta, spriteInfo, webpData, { metaEncoding: "binary" });
+    const json = encodeH5Animate(sampleMeta, spriteInfo, webpData);
+    const decoded = decodeH5Animate(binary);
+
+    expect(decoded.version).toBe(FORMAT_VERSION_4);
+    expect(decoded.meta).toStrictEqual(decodeH5Animate(json).meta);
+    expect(binary.length).toBeLessThan(json.length);
+    expect(decodeH5Animate(new Uint8Array(binary)).meta).toStrictEqual(decoded.meta);
+  });
+});
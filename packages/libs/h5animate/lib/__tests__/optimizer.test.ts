@@ -0,0 +1,126 @@
+import { describe, test, expect } from "vitest";
+import { readFileSync } from "fs";
+import { join } from "path";
+import { optimizeH5Animate } from "../optimizer.js";
+import { convertToH5Animate, parseLegacyAnimateFile } from "../converter.js";
+import { createVerticalSpriteSheet } from "../webp.js";
+import { decodeH5Animate } from "../decoder.js";
+import { encodeH5Animate } from "../encoder.js";
+import { renderH5AnimateFrame } from "../render.js";
+import type { DecodedH5Animate, H5AnimateObject } from "../types.js";
+import { createSprite, obj } from "./helpers.js";
+
+const sampleAnimateData = parseLegacyAnimateFile(
+  readFileSync(join(__dirname, "../../sample/hand.animate"), "utf-8"),
+);
+
+/**
+ * 比较两帧渲染结果，允许 ±1 的插值误差，忽略完全透明像素的颜色
+ */
+function expectSameImage(actual: Buffer, expected: Buffer): void {
+  expect(actual.length).toBe(expected.length);
+  let maxDiff = 0;
+  for (let i = 0; i < actual.length; i += 4) {
+    const channels = actual[i + 3] === 0 && expected[i + 3] === 0 ? [3] : [0, 1, 2, 3];
+    for (const channel of channels) {
+      maxDiff = Math.max(maxDiff, Math.abs(actual[i + channel] - expected[i + channel]));
+    }
+  }
+  expect(maxDiff).toBeLessThanOrEqual(1);
+}
+
+async function createAnimation(objects: H5AnimateObject[]): Promise<DecodedH5Animate> {
+  const red = await createSprite(10, 10, [255, 0, 0], { left: 2, top: 4, width: 4, height: 3 });
+  const blue = await createSprite(10, 10, [0, 0, 255], { left: 0, top: 0, width: 10, height: 10 });
+  const shiftedRed = await createSprite(8, 8, [255, 0, 0], { left: 1, top: 2, width: 4, height: 3 });
+  const { spriteInfo, webpData } = await createVerticalSpriteSheet([red, blue, shiftedRed, null]);
+  return { meta: { ratio: 1, frame: [{ objects }, {}] }, spriteInfo, webpData };
+}
+
+describe("optimizeH5Animate", () => {
+  test("应该删除未引用的精灵并合并裁剪后相同的精灵", async () => {
+    const animation = await createAnimation([obj(0), obj(2)]);
+
+    const { animation: result, indexMap } = await optimizeH5Animate(animation);
+
+    expect(indexMap).toEqual([0, null, 0, null]);
+    expect(result.spriteInfo.count).toBe(1);
+    expect(result.spriteInfo.dimensions).toEqual([{ width: 6, height: 6 }]);
+  });
+
+  test("裁剪后应该补偿对象位置", async () => {
+    const animation = await createAnimation([obj(0, { x: 10, y: 10 }), obj(2, { x: -5 })]);
+
+    const { animation: result } = await optimizeH5Animate(animation);
+
+    // 保留 1 像素边距并补齐为偶数裁剪量后，10x10 精灵保留 [1, 7) x [3, 9)，中心偏移 (-1, 1)；
+    // 8x8 精灵保留 [0, 6) x [1, 7)，中心偏移 (-1, 0)
+    expect(result.meta.frame[0].objects).toEqual([obj(0, { x: 9, y: 11 }), obj(0, { x: -6, y: 0 })]);
+    expect(result.meta.frame[1]).toEqual({});
+  });
+
+  test("补偿应该考虑缩放、镜像与旋转", async () => {
+    const animation = await createAnimation([obj(0, { scale: 200, mirror: 1, rotate: 90 })]);
+    animation.meta.ratio = 0.5;
+
+    const { animation: result } = await optimizeH5Animate(animation);
+
+    // 局部偏移 (-1, 1) 镜像为 (1, 1)，再逆时针旋转 90 度为 (1, -1)
+    expect(result.meta.frame[0].objects![0]).toMatchObject({ x: 1, y: -1 });
+  });
+
+  test("关闭所有选项时应该保留精灵索引", async () => {
+    const animation = await createAnimation([obj(0)]);
+
+    const { animation: result, indexMap } = await optimizeH5Animate(animation, {
+      dedupe: false,
+      trim: false,
+      removeUnused: false,
+    });
+
+    expect(indexMap).toEqual([0, 1, 2, 3]);
+    expect(result.spriteInfo.dimensions).toEqual(animation.spriteInfo.dimensions);
+    expect(result.meta).toEqual(animation.meta);
+  });
+
+  test("应该删除引用不存在精灵的对象", async () => {
+    const animation = await createAnimation([obj(9), obj(1)]);
+
+    const { animation: result } = await optimizeH5Animate(animation);
+
+    expect(result.meta.frame[0].objects).toEqual([obj(0)]);
+  });
+
+  test("没有引用任何非空精灵时应该生成空精灵图", async () => {
+    const soundOnly = await createAnimation([]);
+    soundOnly.meta.frame = [{ sound: [{ name: "a.mp3" }] }];
+
+    const { animation: result, indexMap } = await optimizeH5Animate(soundOnly);
+
+    expect(indexMap).toEqual([null, null, null, null]);
+    expect(result.spriteInfo).toEqual({ count: 0, dimensions: [] });
+    expect(decodeH5Animate(encodeH5Animate(result.meta, result.spriteInfo, result.webpData)).meta).toEqual(result.meta);
+
+    // 只引用完全透明的精灵
+    const transparent = await createAnimation([obj(3)]);
+    const { animation: empty } = await optimizeH5Animate(transparent);
+
+    expect(empty.spriteInfo.dimensions).toEqual([{ width: 0, height: 0 }]);
+    expect(empty.meta.frame[0].objects).toEqual([obj(0)]);
+  });
+
+  test("优化后的渲染结果应该与原动画一致", async () => {
+    const original = decodeH5Animate(await convertToH5Animate(sampleAnimateData));
+
+    const { animation: optimized } = await optimizeH5Animate(original);
+
+    expect(optimized.webpData.length).toBeLessThan(original.webpData.length);
+    for (const frameIndex of [0, 3, 5]) {
+      const options = { width: 192, height: 192, format: "raw" as const };
+      expectSameImage(
+        await renderH5AnimateFrame(optimized, frameIndex, options),
+        await renderH5AnimateFrame(original, frameIndex, options),
+      );
+    }
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, test, expect } from "vitest";
+import { packRects, WEBP_MAX_DIMENSION } from "../packer.js";
+import { H5AnimateError, H5AnimateErrorCode } from "../errors.js";
+import type { PackResult, PackSize } from "../packer.js";
+
+/**
+ * 检查排布结果中的矩形互不重叠且都在画布内
+ */
+function expectValidPacking(sizes: PackSize[], result: PackResult, padding = 0): void {
+  const placed = sizes
+    .map((size, i) => ({ ...size, ...result.positions[i] }))
+    .filter((rect) => rect.width > 0 && rect.height > 0);
+
+  for (const rect of placed) {
+    expect(rect.x + rect.width).toBeLessThanOrEqual(result.width);
+    expect(rect.y + rect.height).toBeLessThanOrEqual(result.height);
+  }
+
+  for (let i = 0; i < placed.length; i++) {
+    for (let j = i + 1; j < placed.length; j++) {
+      const a = placed[i];
+      const b = placed[j];
+      const separated = a.x + a.width + padding <= b.x || b.x + b.width + padding <= a.x
+        || a.y + a.height + padding <= b.y || b.y + b.height + padding <= a.y;
+      expect(separated).toBe(true);
+    }
+  }
+}
+
+const mixedSizes: PackSize[] = [
+  { width: 96, height: 96 },
+  { width: 32, height: 64 },
+  { width: 0, height: 0 },
+  { width: 50, height: 20 },
+  { width: 96, height: 48 },
+  { width: 10, height: 10 },
+];
+
+describe("packRects", () => {
+  test("vertical 应该自上而下堆叠", () => {
+    const result = packRects(
+      [{ width: 10, height: 5 }, { width: 0, height: 0 }, { width: 20, height: 8 }],
+      { layout: "vertical" },
+    );
+
+    expect(result.positions).toEqual([{ x: 0, y: 0 }, { x: 0, y: 0 }, { x: 0, y: 5 }]);
+    expect(result.width).toBe(20);
+    expect(result.height).toBe(13);
+  });
+
+  test("vertical 应该在精灵之间插入间距", () => {
+    const result = packRects(
+      [{ width: 10, height: 5 }, { width: 10, height: 5 }],
+      { layout: "vertical", padding: 2 },
+    );
+
+    expect(result.positions[1]).toEqual({ x: 0, y: 7 });
+    expect(result.height).toBe(12);
+  });
+
+  test.each(["shelf", "maxrects"] as const)("%s 应该产生互不重叠的排布", (layout) => {
+    const result = packRects(mixedSizes, { layout });
+
+    expectValidPacking(mixedSizes, result);
+    expect(result.positions[2]).toEqual({ x: 0, y: 0 });
+  });
+
+  test.each(["shelf", "maxrects"] as const)("%s 应该遵守间距", (layout) => {
+    const result = packRects(mixedSizes, { layout, padding: 3 });
+
+    expectValidPacking(mixedSizes, result, 3);
+  });
+
+  test("maxrects 应该比垂直堆叠更紧凑", () => {
+    const sizes = new Array(16).fill({ width: 64, height: 64 });
+
+    const vertical = packRects(sizes, { layout: "vertical" });
+    const maxrects = packRects(sizes, { layout: "maxrects" });
+
+    expect(maxrects.width * maxrects.height).toBeLessThanOrEqual(vertical.width * vertical.height);
+    expect(maxrects.height).toBeLessThan(vertical.height);
+    expectValidPacking(sizes, maxrects);
+  });
+
+  test("大量精灵的打包结果应该不超过 WebP 尺寸上限", () => {
+    const sizes = new Array(300).fill({ width: 96, height: 96 });
+
+    expect(() => packRects(sizes, { layout: "vertical" })).toThrow(H5AnimateError);
+
+    const result = packRects(sizes, { layout: "maxrects" });
+    expect(result.width).toBeLessThanOrEqual(WEBP_MAX_DIMENSION);
+    expect(result.height).toBeLessThanOrEqual(WEBP_MAX_DIMENSION);
+  });
+
+  test("超出上限时应该抛出图像合并错误", () => {
+    try {
+      packRects([{ width: 20000, height: 10 }], { layout: "maxrects" });
+      expect.unreachable();
+    } catch (error) {
+      expect((error as H5AnimateError).code).toBe(H5AnimateErrorCode.IMAGE_MERGE_ERROR);
+    }
+  });
+
+  test("全部为空时应该返回空画布", () => {
+    const result = packRects([{ width: 0, height: 0 }], { layout: "maxrects" });
+
+    expect(result).toEqual({ positions: [{ x: 0, y: 0 }], width: 0, height: 0 });
+  });
+});
@@ -0,0 +1,317 @@
+import { describe, test, expect, vi, afterEach } from "vitest";
+import { H5AnimatePlayer, drawH5AnimateObject, drawH5AnimateFrame } from "../player.js";
+import { H5AnimateError, H5AnimateErrorCode } from "../errors.js";
+import type { DecodedH5Animate, H5AnimateObject, SpriteRect } from "../types.js";
+
+/**
+ * 记录绘制调用的 Canvas 2D 上下文
+ */
+function createContext() {
+  const calls: Array<[string, ...unknown[]]> = [];
+  const record = (name: string) => (...args: unknown[]) => {
+    calls.push([name, ...args]);
+  };
+
+  const context = {
+    canvas: { width: 200, height: 100 },
+    globalAlpha: 1,
+    save: record("save"),
+    restore: record("restore"),
+    translate: record("translate"),
+    rotate: record("rotate"),
+    scale: record("scale"),
+    setTransform: record("setTransform"),
+    clearRect: record("clearRect"),
+    drawImage: (...args: unknown[]) => {
+      calls.push(["drawImage", context.globalAlpha, ...args.slice(1)]);
+    },
+  };
+
+  return { context: context as unknown as CanvasRenderingContext2D, calls };
+}
+
+const sheet = {} as CanvasImageSource;
+
+const object: H5AnimateObject = { index: 0, x: 0, y: 0, scale: 100, opacity: 255, mirror: 0, rotate: 0 };
+
+const animation: DecodedH5Animate<Uint8Array> = {
+  meta: {
+    ratio: 1,
+    frame: [
+      { objects: [object], sound: [{ name: "start.mp3", volume: 0.5, pitch: 120 }] },
+      { objects: [{ ...object, x: 10 }] },
+      { objects: [{ ...object, x: 20 }], sound: [{ name: "hit.mp3" }] },
+    ],
+  },
+  spriteInfo: { count: 1, dimensions: [{ width: 8, height: 4 }] },
+  webpData: new Uint8Array(0),
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("drawH5AnimateObject", () => {
+  const rect: SpriteRect = { x: 16, y: 0, width: 8, height: 4 };
+
+  test("应该以锚点加偏移为中心绘制", () => {
+    const { context, calls } = createContext();
+
+    drawH5AnimateObject(context, sheet, rect, { ...object, x: 5, y: -3, opacity: 51 }, 2, 100, 50);
+
+    expect(calls).toEqual([
+      ["save"],
+      ["translate", 105, 47],
+      ["rotate", -0],
+      ["scale", 2, 2],
+      ["drawImage", 0.2, 16, 0, 8, 4, -4, -2, 8, 4],
+      ["restore"],
+    ]);
+  });
+
+  test("mirror 应该水平翻转，正角度为逆时针", () => {
+    const { context, calls } = createContext();
+
+    drawH5AnimateObject(context, sheet, rect, { ...object, mirror: 1, rotate: 90, scale: 50 }, 1, 0, 0);
+
+    expect(calls.find((call) => call[0] === "rotate")).toEqual(["rotate", -Math.PI / 2]);
+    expect(calls.find((call) => call[0] === "scale")).toEqual(["scale", -0.5, 0.5]);
+  });
+
+  test("裁剪过的精灵应该按原始尺寸定位", () => {
+    const { context, calls } = createContext();
+    const trimmed: SpriteRect = {
+      x: 0, y: 0, width: 2, height: 3, offsetX: 1, offsetY: 2, sourceWidth: 6, sourceHeight: 6,
+    };
+
+    drawH5AnimateObject(context, sheet, trimmed, object, 1, 0, 0);
+
+    expect(calls.find((call) => call[0] === "drawImage")).toEqual(["drawImage", 1, 0, 0, 2, 3, -2, -1, 2, 3]);
+  });
+
+  test("透明、缩放为 0 或空精灵不应该绘制", () => {
+    const { context, calls } = createContext();
+
+    drawH5AnimateObject(context, sheet, rect, { ...object, opacity: 0 }, 1, 0, 0);
+    drawH5AnimateObject(context, sheet, rect, { ...object, scale: 0 }, 1, 0, 0);
+    drawH5AnimateObject(context, sheet, { x: 0, y: 0, width: 0, height: 0 }, object, 1, 0, 0);
+
+    expect(calls).toEqual([]);
+  });
+});
+
+describe("drawH5AnimateFrame", () => {
+  test("应该跳过引用不存在的精灵的对象", () => {
+    const { context, calls } = createContext();
+    const meta = { ratio: 1, frame: [{ objects: [{ ...object, index: 3 }, object] }] };
+
+    drawH5AnimateFrame(context, sheet, [{ x: 0, y: 0, width: 8, height: 4 }], meta, 0, 0, 0);
+
+    expect(calls.filter((call) => call[0] === "drawImage")).toHaveLength(1);
+  });
+
+  test("帧索引越界应该抛出错误", () => {
+    const { context } = createContext();
+
+    expect(() => drawH5AnimateFrame(context, sheet, [], animation.meta, 3, 0, 0)).toThrow(H5AnimateError);
+  });
+});
+
+describe("H5AnimatePlayer", () => {
+  function createPlayer(options: ConstructorParameters<typeof H5AnimatePlayer>[3] = {}) {
+    const { context, calls } = createContext();
+    const onSound = vi.fn();
+    const onFrame = vi.fn();
+    const onEnd = vi.fn();
+    const player = new H5AnimatePlayer(context, animation, sheet, { onSound, onFrame, onEnd, ...options });
+    return { player, calls, onSound, onFrame, onEnd };
+  }
+
+  test("默认锚点应该为画布中心", () => {
+    const { player, calls } = createPlayer();
+
+    player.render();
+
+    expect(calls).toContainEqual(["clearRect", 0, 0, 200, 100]);
+    expect(calls).toContainEqual(["translate", 100, 50]);
+  });
+
+  test("播放时应该按帧率推进并触发音效", () => {
+    const { player, onSound, onFrame } = createPlayer({ fps: 10 });
+
+    player.play();
+    expect(onSound).toHaveBeenCalledWith({ name: "start.mp3", volume: 0.5, pitch: 120 }, 0);
+
+    player.update(1000);
+    player.update(1099);
+    expect(player.currentFrame).toBe(0);
+
+    player.update(1100);
+    expect(player.currentFrame).toBe(1);
+
+    player.update(1200);
+    expect(player.currentFrame).toBe(2);
+    expect(onSound).toHaveBeenLastCalledWith({ name: "hit.mp3" }, 2);
+    expect(onFrame.mock.calls.map((call) => call[0])).toEqual([0, 1, 2]);
+  });
+
+  test("应该按文件的帧率与每帧时长推进", () => {
+    const { context } = createContext();
+    const [first, second, third] = animation.meta.frame;
+    const timed: DecodedH5Animate<Uint8Array> = {
+      ...animation,
+      meta: { ratio: 1, fps: 10, frame: [first, { ...second, duration: 300 }, third] },
+    };
+    const player = new H5AnimatePlayer(context, timed, sheet);
+
+    player.play();
+    player.update(0);
+    player.update(100);
+    expect(player.currentFrame).toBe(1);
+
+    player.update(250);
+    player.update(399);
+    expect(player.currentFrame).toBe(1);
+    player.update(400);
+    expect(player.currentFrame).toBe(2);
+
+    // fps 选项只覆盖未指定 duration 的帧
+    const fast = new H5AnimatePlayer(context, timed, sheet, { fps: 20 });
+    fast.play();
+    fast.update(0);
+    fast.update(50);
+    fast.update(200);
+    fast.update(349);
+    expect(fast.currentFrame).toBe(1);
+    fast.update(350);
+    expect(fast.currentFrame).toBe(2);
+  });
+
+  test("文件帧率无效时应该按默认帧率推进", () => {
+    const { context } = createContext();
+    const invalid: DecodedH5Animate<Uint8Array> = { ...animation, meta: { ...animation.meta, fps: -5 } };
+    const player = new H5AnimatePlayer(context, invalid, sheet, { loop: true });
+
+    player.play();
+    player.update(0);
+    player.update(49);
+    expect(player.currentFrame).toBe(0);
+    player.update(50);
+    expect(player.currentFrame).toBe(1);
+    player.update(150);
+    expect(player.currentFrame).toBe(0);
+  });
+
+  test("非循环播放应该停在最后一帧并触发 onEnd", () => {
+    const { player, onEnd } = createPlayer({ fps: 10 });
+
+    player.play();
+    player.update(0);
+    player.update(200);
+    player.update(300);
+
+    expect(player.isPlaying).toBe(false);
+    expect(player.currentFrame).toBe(2);
+    expect(onEnd).toHaveBeenCalledTimes(1);
+
+    // 再次播放从第一帧开始
+    player.play();
+    expect(player.currentFrame).toBe(0);
+  });
+
+  test("循环播放应该回到第一帧", () => {
+    const { player, onSound, onEnd } = createPlayer({ fps: 10, loop: true });
+
+    player.play();
+    player.update(0);
+    player.update(200);
+    player.update(300);
+
+    expect(player.isPlaying).toBe(true);
+    expect(player.currentFrame).toBe(0);
+    expect(onSound).toHaveBeenCalledTimes(3);
+    expect(onEnd).not.toHaveBeenCalled();
+  });
+
+  test("长时间挂起后不应该连续跳过大量帧", () => {
+    const { player } = createPlayer({ fps: 10, loop: true });
+
+    player.play();
+    player.update(0);
+    player.update(10000);
+
+    expect(player.currentFrame).toBe(2);
+  });
+
+  test("暂停后不应该推进，继续播放时不重复触发音效", () => {
+    const { player, onSound } = createPlayer({ fps: 10 });
+
+    player.play();
+    player.update(0);
+    player.pause();
+    player.update(500);
+    expect(player.currentFrame).toBe(0);
+
+    player.play();
+    player.update(1000);
+    player.update(1100);
+    expect(player.currentFrame).toBe(1);
+    expect(onSound).toHaveBeenCalledTimes(1);
+  });
+
+  test("seek 应该绘制指定帧但不触发音效", () => {
+    const { player, calls, onSound } = createPlayer();
+
+    player.seek(2);
+
+    expect(player.currentFrame).toBe(2);
+    expect(calls).toContainEqual(["translate", 120, 50]);
+    expect(onSound).not.toHaveBeenCalled();
+  });
+
+  test("seek 越界应该抛出错误", () => {
+    const { player } = createPlayer();
+
+    expect(() => player.seek(3)).toThrow(H5AnimateError);
+    expect(() => player.seek(-1)).toThrow(H5AnimateError);
+  });
+
+  test("stop 应该回到第一帧，再次播放时触发第一帧音效", () => {
+    const { player, onSound } = createPlayer({ fps: 10 });
+
+    player.play();
+    player.update(0);
+    player.update(100);
+    player.stop();
+    expect(player.currentFrame).toBe(0);
+
+    player.play();
+    expect(onSound).toHaveBeenCalledTimes(2);
+  });
+
+  test("无效帧率应该抛出验证错误", () => {
+    expect(() => createPlayer({ fps: 0 })).toThrow(
+      expect.objectContaining({ code: H5AnimateErrorCode.VALIDATION_ERROR }),
+    );
+  });
+
+  test("应该通过 requestAnimationFrame 自动调度", () => {
+    const callbacks: FrameRequestCallback[] = [];
+    let requestId = 0;
+    vi.stubGlobal("requestAnimationFrame", (callback: FrameRequestCallback) => {
+      callbacks.push(callback);
+      return ++requestId;
+    });
+    const cancelAnimationFrame = vi.fn();
+    vi.stubGlobal("cancelAnimationFrame", cancelAnimationFrame);
+    const { player } = createPlayer({ fps: 10 });
+
+    player.play();
+    callbacks.shift()!(0);
+    callbacks.shift()!(100);
+    expect(player.currentFrame).toBe(1);
+
+    player.destroy();
+    expect(cancelAnimationFrame).toHaveBeenCalledWith(3);
+  });
+});
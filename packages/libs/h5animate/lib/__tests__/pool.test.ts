@@ -0,0 +1,93 @@
+import { describe, test, expect } from "vitest";
+import { WorkerPool, serializeError, deserializeError } from "../pool.js";
+import { H5AnimateError, H5AnimateErrorCode, createConversionFailedError } from "../errors.js";
+
+/** 与 serveWorkerTasks 协议相同的内联工作线程，输入为负数时返回错误，为 0 时退出 */
+const workerScript = `
+const { parentPort } = require("node:worker_threads");
+parentPort.on("message", async (input) => {
+  if (input === 0) process.exit(3);
+  await new Promise((resolve) => setTimeout(resolve, input % 7));
+  parentPort.postMessage(input < 0
+    ? { error: { message: "负数", code: "H5A200" } }
+    : { result: input * 2 });
+});
+parentPort.postMessage({ ready: true });
+`;
+
+function createPool(size: number): WorkerPool<number, number> {
+  return new WorkerPool<number, number>(workerScript, size, { eval: true });
+}
+
+describe("WorkerPool", () => {
+  test("应该并行执行任务并返回对应的结果", async () => {
+    const pool = createPool(2);
+    try {
+      const inputs = Array.from({ length: 10 }, (_, i) => i + 1);
+      expect(await Promise.all(inputs.map((input) => pool.run(input)))).toEqual(inputs.map((input) => input * 2));
+    } finally {
+      await pool.close();
+    }
+  });
+
+  test("工作线程中的错误应该还原为 H5AnimateError", async () => {
+    const pool = createPool(1);
+    try {
+      await expect(pool.run(-1)).rejects.toEqual(expect.objectContaining({
+        code: H5AnimateErrorCode.CONVERSION_FAILED,
+        message: "负数",
+      }));
+      expect(await pool.run(4)).toBe(8);
+    } finally {
+      await pool.close();
+    }
+  });
+
+  test("线程退出时应该拒绝其任务与排队的任务", async () => {
+    const pool = createPool(1);
+    try {
+      const crashed = pool.run(0);
+      const queued = pool.run(5);
+
+      await expect(crashed).rejects.toThrow("退出码 3");
+      await expect(queued).rejects.toThrow("退出码 3");
+      await expect(pool.run(1)).rejects.toThrow("没有可用的工作线程");
+    } finally {
+      await pool.close();
+    }
+  });
+
+  test("脚本无法加载时 ready 应该拒绝", async () => {
+    const pool = new WorkerPool<number, number>("throw new Error(\"加载失败\");", 2, { eval: true });
+    try {
+      await expect(pool.ready()).rejects.toThrow("加载失败");
+      await expect(pool.run(1)).rejects.toThrow("没有可用的工作线程");
+    } finally {
+      await pool.close();
+    }
+
+    const ready = createPool(1);
+    try {
+      await expect(ready.ready()).resolves.toBeUndefined();
+    } finally {
+      await ready.close();
+    }
+  });
+
+  test("关闭后应该拒绝新任务", async () => {
+    const pool = createPool(1);
+    await pool.close();
+
+    await expect(pool.run(1)).rejects.toEqual(expect.objectContaining({ code: H5AnimateErrorCode.ABORTED }));
+  });
+});
+
+describe("serializeError", () => {
+  test("应该保留 H5AnimateError 的错误代码", () => {
+    const restored = deserializeError(structuredClone(serializeError(createConversionFailedError("失败"))));
+
+    expect(restored).toBeInstanceOf(H5AnimateError);
+    expect((restored as H5AnimateError).code).toBe(H5AnimateErrorCode.CONVERSION_FAILED);
+    expect(deserializeError(serializeError(new Error("普通错误")))).not.toBeInstanceOf(H5AnimateError);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, test, expect } from "vitest";
+import { throwIfAborted, reportProgress, mapWithProgress } from "../progress.js";
+import { H5AnimateErrorCode } from "../errors.js";
+import type { ProgressInfo } from "../types.js";
+
+const aborted = expect.objectContaining({ code: H5AnimateErrorCode.ABORTED });
+
+describe("throwIfAborted", () => {
+  test("未取消时不应该抛出错误", () => {
+    expect(() => throwIfAborted()).not.toThrow();
+    expect(() => throwIfAborted(new AbortController().signal)).not.toThrow();
+  });
+
+  test("取消后应该抛出包含原因的 ABORTED 错误", () => {
+    const controller = new AbortController();
+    controller.abort("用户取消");
+
+    expect(() => throwIfAborted(controller.signal)).toThrow(aborted);
+    expect(() => throwIfAborted(controller.signal)).toThrow("用户取消");
+    expect(() => throwIfAborted(AbortSignal.abort(new Error("超时")))).toThrow("超时");
+  });
+});
+
+describe("reportProgress", () => {
+  test("应该调用进度回调", () => {
+    const events: ProgressInfo[] = [];
+
+    reportProgress({ onProgress: (event) => events.push(event) }, "encode", 0, 1);
+
+    expect(events).toEqual([{ stage: "encode", current: 0, total: 1 }]);
+  });
+
+  test("取消后不应该调用进度回调", () => {
+    const events: ProgressInfo[] = [];
+
+    expect(() => reportProgress(
+      { signal: AbortSignal.abort(), onProgress: (event) => events.push(event) },
+      "encode",
+      0,
+      1,
+    )).toThrow(aborted);
+    expect(events).toEqual([]);
+  });
+});
+
+describe("mapWithProgress", () => {
+  test("应该按输入顺序返回结果并报告每一项的完成", async () => {
+    const events: ProgressInfo[] = [];
+
+    const result = await mapWithProgress(
+      [30, 10, 20],
+      "bitmap",
+      { onProgress: (event) => events.push(event) },
+      async (delay, index) => {
+        await new Promise((resolve) => setTimeout(resolve, delay));
+        return index;
+      },
+    );
+
+    expect(result).toEqual([0, 1, 2]);
+    expect(events.map((event) => event.current)).toEqual([0, 1, 2, 3]);
+    expect(events.every((event) => event.stage === "bitmap" && event.total === 3)).toBe(true);
+  });
+
+  test("处理过程中取消应该立即拒绝", async () => {
+    const controller = new AbortController();
+    const events: ProgressInfo[] = [];
+
+    const promise = mapWithProgress(
+      [0, 50, 100],
+      "sound",
+      {
+        signal: controller.signal,
+        onProgress: (event) => {
+          events.push(event);
+          if (event.current === 1) {
+            controller.abort();
+          }
+        },
+      },
+      (delay) => new Promise((resolve) => setTimeout(resolve, delay)),
+    );
+
+    await expect(promise).rejects.toEqual(aborted);
+    expect(events.map((event) => event.current)).toEqual([0, 1]);
+  });
+
+  test("取消信号触发时不应该等待进行中的处理", async () => {
+    const controller = new AbortController();
+    let finished = false;
+
+    const promise = mapWithProgress([0], "sound", { signal: controller.signal }, () =>
+      new Promise((resolve) => setTimeout(() => {
+        finished = true;
+        resolve(0);
+      }, 1000)),
+    );
+    controller.abort();
+
+    await expect(promise).rejects.toEqual(aborted);
+    expect(finished).toBe(false);
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, test, expect } from "vitest";
+import sharp from "sharp";
+import { computePsnr, computeSsim, searchWebPQuality } from "../quality.js";
+import { H5AnimateErrorCode } from "../errors.js";
+import type { RawImage } from "../types.js";
+import { createSolidImage } from "./helpers.js";
+
+/**
+ * 创建不透明的渐变噪点图像
+ */
+function createNoisyImage(width: number, height: number): RawImage {
+  const data = Buffer.alloc(width * height * 4);
+  let seed = 1;
+  for (let i = 0; i < width * height; i++) {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    const noise = seed % 16;
+    data[i * 4] = (i % width) * 3 + noise;
+    data[i * 4 + 1] = Math.floor(i / width) * 3 + noise;
+    data[i * 4 + 2] = 128 + noise;
+    data[i * 4 + 3] = 255;
+  }
+  return { data, width, height };
+}
+
+async function decodeWebP(webpData: Buffer): Promise<RawImage> {
+  const { data, info } = await sharp(webpData).ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+  return { data, width: info.width, height: info.height };
+}
+
+describe("computePsnr", () => {
+  test("相同图像应该返回 Infinity", () => {
+    const image = createNoisyImage(16, 16);
+
+    expect(computePsnr(image, image)).toBe(Infinity);
+  });
+
+  test("应该按均方误差计算", () => {
+    const a = createSolidImage(4, 4, [100, 100, 100, 255]);
+    const b = createSolidImage(4, 4, [110, 110, 110, 255]);
+
+    // RGB 误差为 10，alpha 无误差，MSE = 75
+    expect(computePsnr(a, b)).toBeCloseTo(10 * Math.log10((255 * 255) / 75), 6);
+  });
+
+  test("完全透明像素的颜色不应该影响结果", () => {
+    const a = createSolidImage(4, 4, [255, 0, 0, 0]);
+    const b = createSolidImage(4, 4, [0, 255, 0, 0]);
+
+    expect(computePsnr(a, b)).toBe(Infinity);
+  });
+
+  test("尺寸不一致应该抛出验证错误", () => {
+    expect(() => computePsnr(createSolidImage(4, 4, [0, 0, 0, 0]), createSolidImage(4, 5, [0, 0, 0, 0]))).toThrow(
+      expect.objectContaining({ code: H5AnimateErrorCode.VALIDATION_ERROR }),
+    );
+  });
+});
+
+describe("computeSsim", () => {
+  test("相同图像应该返回 1", () => {
+    const image = createNoisyImage(20, 13);
+
+    expect(computeSsim(image, image)).toBeCloseTo(1, 10);
+  });
+
+  test("差异越大结果越低", () => {
+    const image = createNoisyImage(16, 16);
+    const slightly = createNoisyImage(16, 16);
+    const heavily = createSolidImage(16, 16, [0, 0, 0, 255]);
+    slightly.data[0] ^= 0x10;
+
+    const slight = computeSsim(image, slightly);
+    const heavy = computeSsim(image, heavily);
+
+    expect(slight).toBeLessThan(1);
+    expect(heavy).toBeLessThan(slight);
+  });
+});
+
+describe("searchWebPQuality", () => {
+  test("应该选择满足阈值的最低有损质量", async () => {
+    const image = createNoisyImage(64, 64);
+
+    const { webpData, report } = await searchWebPQuality(image, { metric: "psnr", threshold: 40 });
+
+    expect(report.lossless).toBe(false);
+    expect(report.quality).toBeGreaterThanOrEqual(1);
+    expect(report.score).toBeGreaterThanOrEqual(40);
+    expect(report.size).toBe(webpData.length);
+    expect(report.savedBytes).toBe(report.losslessSize - report.size);
+    expect(report.savedBytes).toBeGreaterThan(0);
+    expect(computePsnr(image, await decodeWebP(webpData))).toBeCloseTo(report.score, 6);
+
+    // 低一级的质量不满足阈值
+    if (report.quality! > 1) {
+      const lower = await sharp(image.data, { raw: { width: 64, height: 64, channels: 4 } })
+        .webp({ quality: report.quality! - 1, effort: 6 })
+        .toBuffer();
+      expect(computePsnr(image, await decodeWebP(lower))).toBeLessThan(40);
+    }
+  });
+
+  test("阈值无法达到时应该使用无损压缩", async () => {
+    const image = createNoisyImage(32, 32);
+
+    const { webpData, report } = await searchWebPQuality(image, { metric: "psnr", threshold: 1000 });
+
+    expect(report).toMatchObject({ lossless: true, savedBytes: 0, score: Infinity });
+    expect(report.quality).toBeUndefined();
+    expect((await decodeWebP(webpData)).data.equals(image.data)).toBe(true);
+  });
+
+  test("无损结果更小时应该使用无损压缩", async () => {
+    const image = createSolidImage(64, 64, [12, 34, 56, 255]);
+
+    const { report } = await searchWebPQuality(image);
+
+    expect(report.lossless).toBe(true);
+    expect(report.metric).toBe("ssim");
+    expect(report.score).toBe(1);
+  });
+
+  test("无效的目标应该抛出验证错误", async () => {
+    const image = createSolidImage(4, 4, [0, 0, 0, 255]);
+    const validationError = expect.objectContaining({ code: H5AnimateErrorCode.VALIDATION_ERROR });
+
+    await expect(searchWebPQuality(image, { minQuality: 50, maxQuality: 40 })).rejects.toEqual(validationError);
+    await expect(searchWebPQuality(image, { metric: "mse" as never })).rejects.toEqual(validationError);
+    await expect(searchWebPQuality(image, { metric: "toString" as never })).rejects.toEqual(validationError);
+    await expect(searchWebPQuality(image, { metric: "__proto__" as never })).rejects.toEqual(validationError);
+  });
+
+  test("取消后应该在下一次编码前抛出 ABORTED", async () => {
+    const image = createNoisyImage(32, 32);
+    const aborted = expect.objectContaining({ code: H5AnimateErrorCode.ABORTED });
+
+    await expect(searchWebPQuality(image, {}, { signal: AbortSignal.abort() })).rejects.toEqual(aborted);
+
+    const controller = new AbortController();
+    const promise = searchWebPQuality(image, {}, { signal: controller.signal });
+    controller.abort();
+    await expect(promise).rejects.toEqual(aborted);
+  });
+});
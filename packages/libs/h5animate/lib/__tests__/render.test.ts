@@ -0,0 +1,236 @@
+import { describe, test, expect } from "vitest";
+import sharp from "sharp";
+import { getSpriteRects } from "../decoder.js";
+import {
+  computeAnimationCanvas,
+  renderFrameToRaw,
+  renderH5AnimateFrame,
+} from "../render.js";
+import { H5AnimateError, H5AnimateErrorCode } from "../errors.js";
+import type { DecodedH5Animate, H5AnimateMeta, RawImage } from "../types.js";
+import { createSolidImage } from "./helpers.js";
+
+/**
+ * 创建左红右蓝的 RGBA 图像
+ */
+function createSplitImage(width: number, height: number): RawImage {
+  const data = Buffer.alloc(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const color = x < width / 2 ? [255, 0, 0, 255] : [0, 0, 255, 255];
+      data.set(color, (y * width + x) * 4);
+    }
+  }
+  return { data, width, height };
+}
+
+/**
+ * 读取像素
+ */
+function getPixel(image: RawImage, x: number, y: number): number[] {
+  const offset = (y * image.width + x) * 4;
+  return Array.from(image.data.subarray(offset, offset + 4));
+}
+
+describe("computeAnimationCanvas", () => {
+  test("应该包含所有帧中的对象", () => {
+    const meta: H5AnimateMeta = {
+      ratio: 1,
+      frame: [
+        { objects: [{ index: 0, x: 0, y: 0, scale: 100, opacity: 255 }] },
+        { objects: [{ index: 0, x: 10, y: -5, scale: 100, opacity: 255 }] },
+      ],
+    };
+
+    const canvas = computeAnimationCanvas(meta, [{ x: 0, y: 0, width: 8, height: 8 }]);
+
+    expect(canvas).toEqual({ width: 18, height: 13, anchorX: 4, anchorY: 9 });
+  });
+
+  test("应该应用 ratio 和 scale", () => {
+    const meta: H5AnimateMeta = {
+      ratio: 2,
+      frame: [{ objects: [{ index: 0, x: 0, y: 0, scale: 50, opacity: 255 }] }],
+    };
+
+    const canvas = computeAnimationCanvas(meta, [{ x: 0, y: 0, width: 8, height: 4 }]);
+
+    expect(canvas).toEqual({ width: 8, height: 4, anchorX: 4, anchorY: 2 });
+  });
+
+  test("没有可见对象时应该返回最小画布", () => {
+    const canvas = computeAnimationCanvas({ ratio: 1, frame: [{}] }, []);
+
+    expect(canvas).toEqual({ width: 1, height: 1, anchorX: 0, anchorY: 0 });
+  });
+});
+
+describe("renderFrameToRaw", () => {
+  const canvas = { width: 8, height: 8, anchorX: 4, anchorY: 4 };
+
+  test("应该将对象绘制在锚点加偏移的位置", () => {
+    const sheet = createSolidImage(2, 2, [0, 255, 0, 255]);
+    const meta: H5AnimateMeta = {
+      ratio: 1,
+      frame: [{ objects: [{ index: 0, x: 2, y: -2, scale: 100, opacity: 255 }] }],
+    };
+
+    const image = renderFrameToRaw(sheet, [{ x: 0, y: 0, width: 2, height: 2 }], meta, 0, canvas);
+
+    expect(getPixel(image, 5, 1)).toEqual([0, 255, 0, 255]);
+    expect(getPixel(image, 6, 2)).toEqual([0, 255, 0, 255]);
+    expect(getPixel(image, 4, 4)).toEqual([0, 0, 0, 0]);
+  });
+
+  test("应该只使用索引对应的精灵区域", () => {
+    const sheet: RawImage = {
+      data: Buffer.concat([
+        createSolidImage(4, 4, [255, 0, 0, 255]).data,
+        createSolidImage(4, 4, [0, 0, 255, 255]).data,
+      ]),
+      width: 4,
+      height: 8,
+    };
+    const rects = getSpriteRects({
+      count: 2,
+      dimensions: [
+        { width: 4, height: 4 },
+        { width: 4, height: 4 },
+      ],
+    });
+    const meta: H5AnimateMeta = {
+      ratio: 1,
+      frame: [{ objects: [{ index: 1, x: 0, y: 0, scale: 100, opacity: 255 }] }],
+    };
+
+    const image = renderFrameToRaw(sheet, rects, meta, 0, canvas);
+
+    expect(getPixel(image, 2, 2)).toEqual([0, 0, 255, 255]);
+    expect(getPixel(image, 5, 5)).toEqual([0, 0, 255, 255]);
+  });
+
+  test("mirror 应该水平翻转精灵", () => {
+    const sheet = createSplitImage(4, 4);
+    const rects = [{ x: 0, y: 0, width: 4, height: 4 }];
+    const meta: H5AnimateMeta = {
+      ratio: 1,
+      frame: [
+        { objects: [{ index: 0, x: 0, y: 0, scale: 100, opacity: 255, mirror: 0 }] },
+        { objects: [{ index: 0, x: 0, y: 0, scale: 100, opacity: 255, mirror: 1 }] },
+      ],
+    };
+
+    const normal = renderFrameToRaw(sheet, rects, meta, 0, canvas);
+    const mirrored = renderFrameToRaw(sheet, rects, meta, 1, canvas);
+
+    expect(getPixel(normal, 2, 4)).toEqual([255, 0, 0, 255]);
+    expect(getPixel(mirrored, 2, 4)).toEqual([0, 0, 255, 255]);
+    expect(getPixel(mirrored, 5, 4)).toEqual([255, 0, 0, 255]);
+  });
+
+  test("rotate 正值应该逆时针旋转", () => {
+    const sheet = createSplitImage(4, 4);
+    const meta: H5AnimateMeta = {
+      ratio: 1,
+      frame: [{ objects: [{ index: 0, x: 0, y: 0, scale: 100, opacity: 255, rotate: 90 }] }],
+    };
+
+    const image = renderFrameToRaw(sheet, [{ x: 0, y: 0, width: 4, height: 4 }], meta, 0, canvas);
+
+    // 左半部分（红色）逆时针旋转 90° 后位于下半部分
+    expect(getPixel(image, 4, 5)).toEqual([255, 0, 0, 255]);
+    expect(getPixel(image, 4, 2)).toEqual([0, 0, 255, 255]);
+  });
+
+  test("opacity 应该按比例混合", () => {
+    const sheet = createSolidImage(8, 8, [255, 255, 255, 255]);
+    const meta: H5AnimateMeta = {
+      ratio: 1,
+      frame: [{ objects: [{ index: 0, x: 0, y: 0, scale: 100, opacity: 51 }] }],
+    };
+
+    const image = renderFrameToRaw(
+      sheet,
+      [{ x: 0, y: 0, width: 8, height: 8 }],
+      meta,
+      0,
+      canvas,
+      { r: 0, g: 0, b: 0, alpha: 1 },
+    );
+
+    expect(getPixel(image, 4, 4)).toEqual([51, 51, 51, 255]);
+  });
+
+  test("应该跳过引用不存在精灵的对象", () => {
+    const sheet = createSolidImage(2, 2, [255, 0, 0, 255]);
+    const meta: H5AnimateMeta = {
+      ratio: 1,
+      frame: [{ objects: [{ index: 3, x: 0, y: 0, scale: 100, opacity: 255 }] }],
+    };
+
+    const image = renderFrameToRaw(sheet, [{ x: 0, y: 0, width: 2, height: 2 }], meta, 0, canvas);
+
+    expect(image.data.every((value) => value === 0)).toBe(true);
+  });
+
+  test("超出范围的帧索引应该抛出错误", () => {
+    const sheet = createSolidImage(2, 2, [255, 0, 0, 255]);
+
+    try {
+      renderFrameToRaw(sheet, [], { ratio: 1, frame: [] }, 0, canvas);
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(H5AnimateError);
+      expect((error as H5AnimateError).code).toBe(H5AnimateErrorCode.FRAME_EXTRACTION_ERROR);
+    }
+  });
+});
+
+describe("renderH5AnimateFrame", () => {
+  test("应该输出指定尺寸的 PNG", async () => {
+    const webpData = await sharp({
+      create: { width: 4, height: 4, channels: 4, background: { r: 255, g: 0, b: 0, alpha: 1 } },
+    })
+      .webp({ lossless: true })
+      .toBuffer();
+
+    const animation: DecodedH5Animate = {
+      meta: {
+        ratio: 2,
+        frame: [{ objects: [{ index: 0, x: 0, y: 0, scale: 100, opacity: 255 }] }],
+      },
+      spriteInfo: { count: 1, dimensions: [{ width: 4, height: 4 }] },
+      webpData,
+    };
+
+    const png = await renderH5AnimateFrame(animation, 0, { width: 16, height: 16 });
+    const { data, info } = await sharp(png).raw().toBuffer({ resolveWithObject: true });
+
+    expect(info.width).toBe(16);
+    expect(info.height).toBe(16);
+    expect(Array.from(data.subarray((8 * 16 + 8) * 4, (8 * 16 + 8) * 4 + 4))).toEqual([255, 0, 0, 255]);
+    expect(data[3]).toBe(0);
+  });
+
+  test("默认画布应该容纳整个对象", async () => {
+    const webpData = await sharp({
+      create: { width: 4, height: 6, channels: 4, background: { r: 0, g: 0, b: 255, alpha: 1 } },
+    })
+      .webp({ lossless: true })
+      .toBuffer();
+
+    const animation: DecodedH5Animate = {
+      meta: {
+        ratio: 1,
+        frame: [{ objects: [{ index: 0, x: 0, y: 0, scale: 100, opacity: 255 }] }],
+      },
+      spriteInfo: { count: 1, dimensions: [{ width: 4, height: 6 }] },
+      webpData,
+    };
+
+    const raw = await renderH5AnimateFrame(animation, 0, { format: "raw" });
+
+    expect(raw.length).toBe(4 * 6 * 4);
+    expect(Array.from(raw.subarray(0, 4))).toEqual([0, 0, 255, 255]);
+  });
+});
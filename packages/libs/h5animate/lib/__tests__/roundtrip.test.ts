@@ -9,6 +9,7 @@ import { readFileSync } from "fs";
 import { join } from "path";
 import { encodeH5Animate } from "../encoder.js";
 import { decodeH5Animate } from "../decoder.js";
+import { deriveVerticalRects } from "../version.js";
 import { convertToH5Animate, convertMetadata } from "../converter.js";
 import type { H5AnimateMeta, SpriteInfo, LegacyAnimateFile } from "../types.js";
 
@@ -45,7 +46,7 @@ describe("编解码往返测试", () => {
 
     // 验证一致性
     expect(decoded.meta).toEqual(meta);
-    expect(decoded.spriteInfo).toEqual(spriteInfo);
+    expect(decoded.spriteInfo).toEqual({ ...spriteInfo, rects: deriveVerticalRects(spriteInfo) });
     expect(decoded.webpData).toEqual(webpData);
   });
 
@@ -79,7 +80,7 @@ describe("编解码往返测试", () => {
     const decoded = decodeH5Animate(encoded);
 
     expect(decoded.meta).toEqual(meta);
-    expect(decoded.spriteInfo).toEqual(spriteInfo);
+    expect(decoded.spriteInfo).toEqual({ ...spriteInfo, rects: deriveVerticalRects(spriteInfo) });
     expect(decoded.webpData).toEqual(webpData);
   });
 
@@ -107,7 +108,7 @@ describe("编解码往返测试", () => {
 
     expect(decoded.meta).toEqual(meta);
     expect(decoded.meta.frame).toHaveLength(5);
-    expect(decoded.spriteInfo).toEqual(spriteInfo);
+    expect(decoded.spriteInfo).toEqual({ ...spriteInfo, rects: deriveVerticalRects(spriteInfo) });
     expect(decoded.webpData).toEqual(webpData);
   });
 
@@ -139,7 +140,7 @@ describe("编解码往返测试", () => {
     const decoded = decodeH5Animate(encoded);
 
     expect(decoded.meta).toEqual(meta);
-    expect(decoded.spriteInfo).toEqual(spriteInfo);
+    expect(decoded.spriteInfo).toEqual({ ...spriteInfo, rects: deriveVerticalRects(spriteInfo) });
     expect(decoded.spriteInfo.count).toBe(3);
     expect(decoded.spriteInfo.dimensions).toHaveLength(3);
     expect(decoded.webpData).toEqual(webpData);
@@ -204,7 +205,7 @@ describe("编解码往返测试", () => {
     const decoded = decodeH5Animate(encoded);
 
     expect(decoded.meta).toEqual(meta);
-    expect(decoded.spriteInfo).toEqual(spriteInfo);
+    expect(decoded.spriteInfo).toEqual({ ...spriteInfo, rects: deriveVerticalRects(spriteInfo) });
     expect(decoded.webpData).toEqual(webpData);
   });
 
@@ -231,7 +232,7 @@ describe("编解码往返测试", () => {
     const decoded = decodeH5Animate(encoded);
 
     expect(decoded.meta).toEqual(meta);
-    expect(decoded.spriteInfo).toEqual(spriteInfo);
+    expect(decoded.spriteInfo).toEqual({ ...spriteInfo, rects: deriveVerticalRects(spriteInfo) });
     expect(decoded.webpData).toEqual(webpData);
   });
 
@@ -259,7 +260,7 @@ describe("编解码往返测试", () => {
     const decoded = decodeH5Animate(encoded);
 
     expect(decoded.meta).toEqual(meta);
-    expect(decoded.spriteInfo).toEqual(spriteInfo);
+    expect(decoded.spriteInfo).toEqual({ ...spriteInfo, rects: deriveVerticalRects(spriteInfo) });
     expect(decoded.webpData).toEqual(webpData);
   });
 });
@@ -363,11 +364,11 @@ describe("转换往返测试", () => {
     const h5animateBuffer = await convertToH5Animate(sampleAnimateData);
     const decoded = decodeH5Animate(h5animateBuffer);
 
-    // 验证精灵图数量
-    expect(decoded.spriteInfo.count).toBe(1);
+    // 验证精灵图数量与 bitmaps 一一对应
+    expect(decoded.spriteInfo.count).toBe(sampleAnimateData.bitmaps.length);
 
     // 验证精灵图尺寸存在且有效
-    expect(decoded.spriteInfo.dimensions).toHaveLength(1);
+    expect(decoded.spriteInfo.dimensions).toHaveLength(sampleAnimateData.bitmaps.length);
     expect(decoded.spriteInfo.dimensions[0].width).toBeGreaterThan(0);
     expect(decoded.spriteInfo.dimensions[0].height).toBeGreaterThan(0);
   });
@@ -480,3 +481,24 @@ describe("转换往返测试", () => {
     expect(secondDecoded.webpData).toEqual(firstDecoded.webpData);
   });
 });
+
+describe("未知分块往返测试", () => {
+  test("重新编码应该原样保留未知分块", () => {
+    const meta: H5AnimateMeta = {
+      ratio: 1,
+      frame: [{ objects: [{ index: 0, x: 0, y: 0, scale: 100, opacity: 255, mirror: 0, rotate: 0 }] }],
+    };
+    const spriteInfo: SpriteInfo = { count: 1, dimensions: [{ width: 32, height: 32 }] };
+    const chunks = [{ tag: "EDIT", data: Buffer.from(JSON.stringify({ author: "test" })) }];
+
+    const firstBuffer = encodeH5Animate(meta, spriteInfo, Buffer.from("webp"), { chunks });
+    const firstDecoded = decodeH5Animate(firstBuffer);
+
+    const secondBuffer = encodeH5Animate(firstDecoded.meta, firstDecoded.spriteInfo, firstDecoded.webpData, {
+      chunks: firstDecoded.chunks,
+    });
+
+    expect(decodeH5Animate(secondBuffer).chunks).toEqual(chunks);
+    expect(secondBuffer.equals(firstBuffer)).toBe(true);
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, test, expect } from "vitest";
+import {
+  CHUNK_SOUNDS,
+  encodeSoundChunk,
+  decodeSoundChunk,
+  getEmbeddedSounds,
+  listEmbeddedSounds,
+  getEmbeddedSound,
+  addEmbeddedSounds,
+  removeEmbeddedSounds,
+  getReferencedSounds,
+} from "../sounds.js";
+import { encode } from "../api.js";
+import { encodeH5Animate } from "../encoder.js";
+import { decodeH5Animate } from "../decoder.js";
+import { H5AnimateErrorCode } from "../errors.js";
+import { FORMAT_VERSION_1, FORMAT_VERSION_3, FORMAT_VERSION_4 } from "../version.js";
+import type { DecodedH5Animate, H5AnimateMeta } from "../types.js";
+
+const meta: H5AnimateMeta = {
+  ratio: 1,
+  frame: [
+    { sound: [{ name: "attack.mp3" }, { name: "音效/hit.ogg", volume: 0.5 }] },
+    {},
+    { sound: [{ name: "attack.mp3", pitch: 120 }] },
+  ],
+};
+
+function createAnimation(): DecodedH5Animate {
+  return {
+    meta,
+    spriteInfo: { count: 1, dimensions: [{ width: 1, height: 1 }] },
+    webpData: Buffer.from("RIFF-fake-webp-data"),
+    chunks: [{ tag: "THMB", data: Buffer.from([1, 2, 3]) }],
+  };
+}
+
+describe("SNDS 分块", () => {
+  test("应该编码并解码音效，名称支持 UTF-8", () => {
+    const sounds = [
+      { name: "attack.mp3", data: Buffer.from([1, 2, 3]) },
+      { name: "音效/hit.ogg", data: Buffer.alloc(0) },
+    ];
+
+    const data = encodeSoundChunk(sounds);
+
+    expect(data.readUInt32LE(0)).toBe(2);
+    expect(decodeSoundChunk(data)).toEqual(sounds);
+    expect(decodeSoundChunk(new Uint8Array(data)).map((sound) => sound.name)).toEqual(["attack.mp3", "音效/hit.ogg"]);
+  });
+
+  test("名称为空或重复时应该抛出验证错误", () => {
+    const validationError = expect.objectContaining({ code: H5AnimateErrorCode.VALIDATION_ERROR });
+
+    expect(() => encodeSoundChunk([{ name: "", data: Buffer.alloc(1) }])).toThrow(validationError);
+    expect(() => encodeSoundChunk([
+      { name: "a.mp3", data: Buffer.alloc(1) },
+      { name: "a.mp3", data: Buffer.alloc(2) },
+    ])).toThrow(validationError);
+  });
+
+  test("截断或有多余数据时应该抛出错误", () => {
+    const data = encodeSoundChunk([{ name: "a.mp3", data: Buffer.from([1, 2, 3]) }]);
+    const corrupted = expect.objectContaining({ code: H5AnimateErrorCode.CORRUPTED_HEADER });
+
+    expect(() => decodeSoundChunk(data.subarray(0, data.length - 1))).toThrow(corrupted);
+    expect(() => decodeSoundChunk(Buffer.concat([data, Buffer.from([0])]))).toThrow(corrupted);
+  });
+});
+
+describe("嵌入音效", () => {
+  test("没有 SNDS 分块时应该为空", () => {
+    const animation = createAnimation();
+
+    expect(getEmbeddedSounds(animation)).toEqual([]);
+    expect(getEmbeddedSound(animation, "attack.mp3")).toBeUndefined();
+  });
+
+  test("添加的音效应该在编码后保留", () => {
+    const animation = addEmbeddedSounds(createAnimation(), [
+      { name: "attack.mp3", data: Buffer.from("mp3-data") },
+    ]);
+
+    const decoded = decodeH5Animate(encodeH5Animate(animation.meta, animation.spriteInfo, animation.webpData, {
+      chunks: animation.chunks,
+    }));
+
+    expect(decoded.chunks?.map((chunk) => chunk.tag)).toEqual(["THMB", CHUNK_SOUNDS]);
+    expect(listEmbeddedSounds(decoded)).toEqual(["attack.mp3"]);
+    expect(getEmbeddedSound(decoded, "attack.mp3")?.toString()).toBe("mp3-data");
+  });
+
+  test("由不支持分块的版本解码的动画应该升级为版本 3", () => {
+    const legacy = { ...createAnimation(), version: FORMAT_VERSION_1, chunks: undefined };
+    const animation = addEmbeddedSounds(legacy, [{ name: "attack.mp3", data: Buffer.from("mp3-data") }]);
+
+    expect(animation.version).toBe(FORMAT_VERSION_3);
+    expect(legacy.version).toBe(FORMAT_VERSION_1);
+    expect(listEmbeddedSounds(decodeH5Animate(encode(animation)))).toEqual(["attack.mp3"]);
+    expect(addEmbeddedSounds({ ...createAnimation(), version: FORMAT_VERSION_4 }, []).version).toBe(FORMAT_VERSION_4);
+  });
+
+  test("同名音效应该被替换，输入不应该被修改", () => {
+    const original = addEmbeddedSounds(createAnimation(), [
+      { name: "a.mp3", data: Buffer.from("old") },
+      { name: "b.mp3", data: Buffer.from("b") },
+    ]);
+
+    const updated = addEmbeddedSounds(original, [{ name: "a.mp3", data: Buffer.from("new") }]);
+
+    expect(listEmbeddedSounds(updated)).toEqual(["a.mp3", "b.mp3"]);
+    expect(getEmbeddedSound(updated, "a.mp3")?.toString()).toBe("new");
+    expect(getEmbeddedSound(original, "a.mp3")?.toString()).toBe("old");
+  });
+
+  test("移除所有音效时应该移除 SNDS 分块", () => {
+    const animation = addEmbeddedSounds(createAnimation(), [
+      { name: "a.mp3", data: Buffer.from("a") },
+      { name: "b.mp3", data: Buffer.from("b") },
+    ]);
+
+    expect(listEmbeddedSounds(removeEmbeddedSounds(animation, ["a.mp3"]))).toEqual(["b.mp3"]);
+    expect(removeEmbeddedSounds(animation, ["a.mp3", "b.mp3"]).chunks?.map((chunk) => chunk.tag)).toEqual(["THMB"]);
+  });
+
+  test("getReferencedSounds 应该按首次出现的顺序去重", () => {
+    expect(getReferencedSounds(meta)).toEqual(["attack.mp3", "音效/hit.ogg"]);
+  });
+});
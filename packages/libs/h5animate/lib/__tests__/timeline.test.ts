@@ -0,0 +1,154 @@
+import { describe, test, expect } from "vitest";
+import { buildTimeline, interpolateTrack, resolveEasing, easings } from "../timeline.js";
+import { encodeH5Animate } from "../encoder.js";
+import { decodeH5Animate } from "../decoder.js";
+import { H5AnimateError, H5AnimateErrorCode } from "../errors.js";
+import type { TimelineTrack } from "../timeline.js";
+
+describe("easings", () => {
+  test("内置缓动曲线应该从 0 到 1", () => {
+    for (const name of ["linear", "easeIn", "easeOut", "easeInOut"] as const) {
+      expect(easings[name](0)).toBe(0);
+      expect(easings[name](1)).toBe(1);
+    }
+    expect(easings.easeIn(0.5)).toBe(0.25);
+    expect(easings.easeOut(0.5)).toBe(0.75);
+    expect(easings.easeInOut(0.5)).toBe(0.5);
+    expect(easings.step(0.99)).toBe(0);
+  });
+
+  test("未知的缓动曲线应该抛出错误", () => {
+    expect(() => resolveEasing("bounce" as never)).toThrow(H5AnimateError);
+    expect(() => resolveEasing("toString" as never)).toThrow(H5AnimateError);
+    expect(() => resolveEasing("constructor" as never)).toThrow(H5AnimateError);
+  });
+
+  test("应该支持自定义缓动函数", () => {
+    const custom = (t: number) => t / 2;
+    expect(resolveEasing(custom)).toBe(custom);
+  });
+});
+
+describe("interpolateTrack", () => {
+  const track: TimelineTrack = {
+    index: 2,
+    keyframes: [
+      { frame: 2, x: 0, opacity: 0 },
+      { frame: 6, x: 40, opacity: 255, easing: "step" },
+      { frame: 8, x: 100, index: 3, mirror: 1 },
+    ],
+  };
+
+  test("关键帧范围外应该返回 null", () => {
+    expect(interpolateTrack(track, 1)).toBeNull();
+    expect(interpolateTrack(track, 9)).toBeNull();
+  });
+
+  test("第一个关键帧未指定的属性应该使用默认值", () => {
+    expect(interpolateTrack(track, 2)).toEqual({
+      index: 2, x: 0, y: 0, scale: 100, opacity: 0, mirror: 0, rotate: 0,
+    });
+  });
+
+  test("应该线性插值并取整", () => {
+    expect(interpolateTrack(track, 3)).toMatchObject({ x: 10, opacity: 64 });
+    expect(interpolateTrack(track, 5)).toMatchObject({ x: 30, opacity: 191 });
+  });
+
+  test("step 应该保持起始关键帧的值", () => {
+    expect(interpolateTrack(track, 7)).toMatchObject({ x: 40, index: 2, mirror: 0 });
+  });
+
+  test("index 与 mirror 应该在关键帧处切换", () => {
+    expect(interpolateTrack(track, 8)).toMatchObject({ x: 100, opacity: 255, index: 3, mirror: 1 });
+  });
+
+  test("rotate 应该参与插值", () => {
+    const rotating: TimelineTrack = { index: 0, keyframes: [{ frame: 0 }, { frame: 4, rotate: 360 }] };
+    expect(interpolateTrack(rotating, 1)?.rotate).toBe(90);
+  });
+
+  test("关键帧未按升序排列应该抛出验证错误", () => {
+    const invalid: TimelineTrack = { index: 0, keyframes: [{ frame: 3 }, { frame: 3 }] };
+
+    expect(() => interpolateTrack(invalid, 3)).toThrow(
+      expect.objectContaining({ code: H5AnimateErrorCode.VALIDATION_ERROR }),
+    );
+  });
+});
+
+describe("buildTimeline", () => {
+  test("应该按轨道顺序生成逐帧对象并放置音效", () => {
+    const meta = buildTimeline({
+      ratio: 2,
+      tracks: [
+        { index: 0, keyframes: [{ frame: 0, x: -10 }, { frame: 2, x: 10 }] },
+        { index: 1, keyframes: [{ frame: 1, scale: 50 }, { frame: 3, scale: 150 }] },
+      ],
+      sounds: [
+        { frame: 1, name: "a.mp3", pitch: 120 },
+        { frame: 1, name: "b.mp3", volume: 0.5 },
+      ],
+    });
+
+    expect(meta.ratio).toBe(2);
+    expect(meta.frame).toHaveLength(4);
+    expect(meta.frame.map((frame) => frame.objects?.map((object) => object.index))).toEqual([
+      [0], [0, 1], [0, 1], [1],
+    ]);
+    expect(meta.frame[1].objects?.[0].x).toBe(0);
+    expect(meta.frame[2].objects?.[1].scale).toBe(100);
+    expect(meta.frame[1].sound).toEqual([
+      { name: "a.mp3", pitch: 120 },
+      { name: "b.mp3", volume: 0.5 },
+    ]);
+    expect(meta.frame[0].sound).toBeUndefined();
+  });
+
+  test("frameCount 应该允许在末尾补充空帧", () => {
+    const meta = buildTimeline({
+      ratio: 1,
+      frameCount: 5,
+      tracks: [{ index: 0, keyframes: [{ frame: 0 }] }],
+    });
+
+    expect(meta.frame).toEqual([
+      { objects: [{ index: 0, x: 0, y: 0, scale: 100, opacity: 255, mirror: 0, rotate: 0 }] },
+      {}, {}, {}, {},
+    ]);
+  });
+
+  test("应该写入指定的帧率", () => {
+    const definition = { ratio: 1, frameCount: 1, tracks: [] };
+
+    expect(buildTimeline(definition)).not.toHaveProperty("fps");
+    expect(buildTimeline({ ...definition, fps: 30 }).fps).toBe(30);
+    expect(() => buildTimeline({ ...definition, fps: 0 })).toThrow(H5AnimateError);
+  });
+
+  test("音效所在帧超出总帧数应该抛出错误", () => {
+    expect(() => buildTimeline({
+      ratio: 1,
+      frameCount: 2,
+      tracks: [],
+      sounds: [{ frame: 2, name: "a.mp3" }],
+    })).toThrow(H5AnimateError);
+  });
+
+  test("空关键帧的轨道应该抛出错误", () => {
+    expect(() => buildTimeline({ ratio: 1, tracks: [{ index: 0, keyframes: [] }] })).toThrow(/tracks\[0\]/);
+  });
+
+  test("生成的元数据应该可以直接编码", () => {
+    const meta = buildTimeline({
+      ratio: 1,
+      tracks: [{ index: 0, keyframes: [{ frame: 0, opacity: 0, easing: "easeOut" }, { frame: 4 }] }],
+      sounds: [{ frame: 0, name: "a.mp3" }],
+    });
+    const spriteInfo = { count: 1, dimensions: [{ width: 4, height: 4 }] };
+
+    const decoded = decodeH5Animate(encodeH5Animate(meta, spriteInfo, Buffer.from("webp")));
+
+    expect(decoded.meta).toEqual(meta);
+  });
+});
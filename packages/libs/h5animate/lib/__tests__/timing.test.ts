@@ -0,0 +1,69 @@
+import { describe, test, expect } from "vitest";
+import {
+  DEFAULT_FPS,
+  getAnimationFps,
+  getFrameDuration,
+  getFrameDurations,
+  getAnimationDuration,
+  getFrameAtTime,
+} from "../timing.js";
+import { H5AnimateErrorCode } from "../errors.js";
+import type { H5AnimateMeta } from "../types.js";
+
+const meta: H5AnimateMeta = {
+  ratio: 1,
+  fps: 10,
+  frame: [{}, { duration: 250 }, {}],
+};
+
+describe("帧时长", () => {
+  test("未记录 fps 时应该使用默认帧率", () => {
+    expect(DEFAULT_FPS).toBe(20);
+    expect(getAnimationFps({ ratio: 1, frame: [] })).toBe(20);
+    expect(getFrameDurations({ ratio: 1, frame: [{}, {}] })).toEqual([50, 50]);
+  });
+
+  test("fps 不是有限正数时应该使用默认帧率", () => {
+    for (const fps of [0, -5, NaN, Infinity]) {
+      expect(getAnimationFps({ ratio: 1, fps, frame: [] })).toBe(DEFAULT_FPS);
+    }
+    expect(getAnimationFps({ ratio: 1, fps: 29.97, frame: [] })).toBe(29.97);
+  });
+
+  test("duration 不是有限正数时应该按帧率计算", () => {
+    const invalid: H5AnimateMeta = {
+      ratio: 1,
+      fps: 10,
+      frame: [{ duration: 0 }, { duration: -50 }, { duration: NaN }, { duration: Infinity }, { duration: 30 }],
+    };
+
+    expect(getFrameDurations(invalid)).toEqual([100, 100, 100, 100, 30]);
+    expect(getFrameDuration(invalid, 2)).toBe(100);
+    expect(getAnimationDuration(invalid)).toBe(430);
+    expect(getFrameAtTime(invalid, 150)).toBe(1);
+  });
+
+  test("duration 应该覆盖按帧率计算的时长", () => {
+    expect(getAnimationFps(meta)).toBe(10);
+    expect(getFrameDuration(meta, 0)).toBe(100);
+    expect(getFrameDuration(meta, 1)).toBe(250);
+    expect(getFrameDurations(meta)).toEqual([100, 250, 100]);
+    expect(getAnimationDuration(meta)).toBe(450);
+  });
+
+  test("帧索引越界应该抛出错误", () => {
+    expect(() => getFrameDuration(meta, 3)).toThrow(
+      expect.objectContaining({ code: H5AnimateErrorCode.FRAME_EXTRACTION_ERROR }),
+    );
+  });
+
+  test("getFrameAtTime 应该按累计时长定位帧", () => {
+    expect(getFrameAtTime(meta, 0)).toBe(0);
+    expect(getFrameAtTime(meta, 99)).toBe(0);
+    expect(getFrameAtTime(meta, 100)).toBe(1);
+    expect(getFrameAtTime(meta, 349)).toBe(1);
+    expect(getFrameAtTime(meta, 350)).toBe(2);
+    expect(getFrameAtTime(meta, 10000)).toBe(2);
+    expect(getFrameAtTime({ ratio: 1, frame: [] }, 0)).toBe(-1);
+  });
+});
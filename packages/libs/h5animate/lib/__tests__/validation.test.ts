@@ -10,8 +10,28 @@ import {
   validateH5AnimateMetaSafe,
   validateSpriteInfoSafe,
   validateEncodeInputComplete,
+  collectMetaIssues,
+  collectSpriteInfoIssues,
+  collectReferenceIssues,
+  collectDecodedIssues,
 } from "../validation.js";
 import { H5AnimateErrorCode, H5AnimateError } from "../errors.js";
+import type { DecodedH5Animate } from "../types.js";
+
+/**
+ * 创建一个 4x8 的无损 WebP 文件头
+ *
+ * 只包含 readWebPSize 需要的字段
+ */
+function createWebPHeader(width: number, height: number): Buffer {
+  const data = Buffer.alloc(30);
+  data.write("RIFF", 0, "ascii");
+  data.write("WEBP", 8, "ascii");
+  data.write("VP8L", 12, "ascii");
+  data[20] = 0x2f;
+  data.writeUInt32LE((width - 1) | ((height - 1) << 14), 21);
+  return data;
+}
 
 describe("validateSoundMeta", () => {
   test("应该验证有效的音效元数据", () => {
@@ -186,6 +206,19 @@ describe("validateH5AnimateMeta", () => {
     }
   });
 
+  test("应该验证 fps 与帧的 duration", () => {
+    expect(() => validateH5AnimateMeta({ ratio: 1, fps: 30, frame: [{ duration: 12.5 }] })).not.toThrow();
+    expect(() => validateH5AnimateMeta({ ratio: 1, fps: 0, frame: [] })).toThrow(
+      expect.objectContaining({ code: H5AnimateErrorCode.VALUE_OUT_OF_RANGE }),
+    );
+    expect(() => validateH5AnimateMeta({ ratio: 1, fps: "30", frame: [] })).toThrow(
+      expect.objectContaining({ code: H5AnimateErrorCode.TYPE_MISMATCH }),
+    );
+    expect(() => validateH5AnimateMeta({ ratio: 1, frame: [{ duration: Infinity }] })).toThrow(
+      expect.objectContaining({ code: H5AnimateErrorCode.VALUE_OUT_OF_RANGE }),
+    );
+  });
+
   test("应该拒绝 frame 不是数组", () => {
     const meta = { ratio: 2, frame: "invalid" };
     try {
@@ -225,6 +258,10 @@ describe("validateSpriteDimension", () => {
     }
   });
 
+  test("应该接受宽高均为 0 的空精灵", () => {
+    expect(() => validateSpriteDimension({ width: 0, height: 0 }, "dim")).not.toThrow();
+  });
+
   test("应该拒绝非正数的宽度", () => {
     const dimension = { width: 0, height: 100 };
     try {
@@ -403,3 +440,140 @@ describe("validateEncodeInputComplete", () => {
     expect(() => validateEncodeInputComplete(meta, spriteInfo, webpData)).toThrow(H5AnimateError);
   });
 });
+
+describe("collectMetaIssues", () => {
+  test("有效的元数据应该没有问题", () => {
+    const meta = {
+      ratio: 1,
+      frame: [{ objects: [{ index: 0, x: 0, y: 0, scale: 100, opacity: 255 }] }],
+    };
+
+    expect(collectMetaIssues(meta)).toEqual([]);
+  });
+
+  test("应该收集 fps 与帧时长的问题", () => {
+    const meta = { ratio: 1, fps: -1, frame: [{ duration: 0 }, { duration: 50 }, { duration: "50" }] };
+
+    expect(collectMetaIssues(meta).map((issue) => [issue.code, issue.path])).toEqual([
+      [H5AnimateErrorCode.VALUE_OUT_OF_RANGE, "meta.fps"],
+      [H5AnimateErrorCode.VALUE_OUT_OF_RANGE, "meta.frame[0].duration"],
+      [H5AnimateErrorCode.TYPE_MISMATCH, "meta.frame[2].duration"],
+    ]);
+  });
+
+  test("应该收集所有帧和对象中的问题", () => {
+    const meta = {
+      ratio: 1,
+      frame: [
+        { objects: [{ index: 0, x: 0, y: 0, scale: 100, opacity: 300 }] },
+        { objects: [{ index: 0, x: "1", y: 0, scale: 100, opacity: 255 }, { index: 0, x: 0 }] },
+        { sound: [{ volume: 1 }] },
+        "frame",
+      ],
+    };
+
+    const issues = collectMetaIssues(meta);
+
+    expect(issues.map((issue) => [issue.code, issue.path])).toEqual([
+      [H5AnimateErrorCode.VALUE_OUT_OF_RANGE, "meta.frame[0].objects[0].opacity"],
+      [H5AnimateErrorCode.TYPE_MISMATCH, "meta.frame[1].objects[0].x"],
+      [H5AnimateErrorCode.MISSING_REQUIRED_FIELD, "meta.frame[1].objects[1].y"],
+      [H5AnimateErrorCode.MISSING_REQUIRED_FIELD, "meta.frame[1].objects[1].scale"],
+      [H5AnimateErrorCode.MISSING_REQUIRED_FIELD, "meta.frame[1].objects[1].opacity"],
+      [H5AnimateErrorCode.MISSING_REQUIRED_FIELD, "meta.frame[2].sound[0].name"],
+      [H5AnimateErrorCode.TYPE_MISMATCH, "meta.frame[3]"],
+    ]);
+  });
+
+  test("顶层字段的问题应该与帧的问题一起报告", () => {
+    const issues = collectMetaIssues({
+      ratio: 0,
+      frame: [{ objects: "objects" }],
+    });
+
+    expect(issues.map((issue) => issue.path)).toEqual(["meta.ratio", "meta.frame[0].objects"]);
+  });
+
+  test("非对象元数据应该报告一个问题", () => {
+    expect(collectMetaIssues(null)).toHaveLength(1);
+  });
+});
+
+describe("collectSpriteInfoIssues", () => {
+  test("应该收集所有尺寸的问题", () => {
+    const issues = collectSpriteInfoIssues({
+      count: 3,
+      dimensions: [{ width: -1, height: 10 }, { width: 10, height: 10 }, { width: 10 }],
+    });
+
+    expect(issues.map((issue) => issue.path)).toEqual([
+      "spriteInfo.dimensions[0].width",
+      "spriteInfo.dimensions[2].height",
+    ]);
+  });
+
+  test("count、dimensions 与 rects 数量不一致时应该报告问题", () => {
+    const issues = collectSpriteInfoIssues({
+      count: 2,
+      dimensions: [{ width: 10, height: 10 }],
+      rects: [],
+    });
+
+    expect(issues.map((issue) => [issue.code, issue.path])).toEqual([
+      [H5AnimateErrorCode.INVALID_ARRAY_LENGTH, "spriteInfo.dimensions"],
+      [H5AnimateErrorCode.INVALID_ARRAY_LENGTH, "spriteInfo.rects"],
+    ]);
+  });
+});
+
+describe("collectReferenceIssues", () => {
+  const animation: DecodedH5Animate = {
+    meta: {
+      ratio: 1,
+      frame: [
+        { objects: [{ index: 0, x: 0, y: 0, scale: 100, opacity: 255 }] },
+        { objects: [{ index: 2, x: 0, y: 0, scale: 100, opacity: 255 }] },
+      ],
+    },
+    spriteInfo: {
+      count: 2,
+      dimensions: [{ width: 4, height: 4 }, { width: 4, height: 8 }],
+    },
+    webpData: createWebPHeader(4, 8),
+  };
+
+  test("应该报告越界的精灵索引和超出 WebP 尺寸的精灵", () => {
+    const issues = collectReferenceIssues(animation);
+
+    expect(issues.map((issue) => [issue.code, issue.path])).toEqual([
+      [H5AnimateErrorCode.VALUE_OUT_OF_RANGE, "meta.frame[1].objects[0].index"],
+      [H5AnimateErrorCode.INVALID_IMAGE_DATA, "spriteInfo.rects[1]"],
+    ]);
+  });
+
+  test("无法读取 WebP 尺寸时应该报告问题", () => {
+    const issues = collectReferenceIssues({ ...animation, webpData: Buffer.from("fake") });
+
+    expect(issues.at(-1)).toMatchObject({
+      code: H5AnimateErrorCode.INVALID_IMAGE_DATA,
+      path: "webpData",
+    });
+  });
+
+  test("collectDecodedIssues 在结构有问题时不检查引用", () => {
+    const issues = collectDecodedIssues({
+      ...animation,
+      meta: { ratio: -1, frame: animation.meta.frame },
+    });
+
+    expect(issues.map((issue) => issue.path)).toEqual(["meta.ratio"]);
+  });
+
+  test("collectDecodedIssues 在数据有效时应该没有问题", () => {
+    expect(collectDecodedIssues({
+      ...animation,
+      meta: { ratio: 1, frame: [animation.meta.frame[0]] },
+      webpData: createWebPHeader(4, 12),
+    })).toEqual([]);
+  });
+});
@@ -0,0 +1,205 @@
+import { describe, test, expect } from "vitest";
+import { BinaryParser, BinaryWriter } from "../binary.js";
+import {
+  FORMAT_VERSION_1,
+  FORMAT_VERSION_2,
+  FORMAT_VERSION_3,
+  FORMAT_VERSION_4,
+  LATEST_FORMAT_VERSION,
+  getSupportedVersions,
+  isSupportedVersion,
+  isChunkedVersion,
+  getMetaEncoding,
+  readSpriteInfo,
+  writeSpriteInfo,
+  getVersionedSpriteInfoSize,
+  migrateSpriteInfo,
+  needsSpriteRects,
+  getMinimumVersion,
+  resolveEncodeVersion,
+} from "../version.js";
+import { H5AnimateError, H5AnimateErrorCode } from "../errors.js";
+import type { SpriteInfo } from "../types.js";
+
+/** 垂直排布的精灵图信息 */
+const verticalInfo: SpriteInfo = {
+  count: 2,
+  dimensions: [{ width: 10, height: 10 }, { width: 20, height: 5 }],
+};
+
+/** 打包后的精灵图信息 */
+const packedInfo: SpriteInfo = {
+  count: 2,
+  dimensions: [{ width: 10, height: 10 }, { width: 20, height: 5 }],
+  rects: [
+    { x: 20, y: 0, width: 10, height: 10 },
+    { x: 0, y: 0, width: 20, height: 5 },
+  ],
+};
+
+/**
+ * 按指定版本写入后再读回
+ */
+function writeAndRead(spriteInfo: SpriteInfo, version: number): SpriteInfo {
+  const writer = new BinaryWriter(getVersionedSpriteInfoSize(spriteInfo, version));
+  writeSpriteInfo(writer, spriteInfo, version);
+  return readSpriteInfo(new BinaryParser(writer.getBuffer()), version);
+}
+
+describe("支持的版本", () => {
+  test("应该包含版本 1 到 4", () => {
+    expect(getSupportedVersions()).toEqual([FORMAT_VERSION_1, FORMAT_VERSION_2, FORMAT_VERSION_3, FORMAT_VERSION_4]);
+    expect(LATEST_FORMAT_VERSION).toBe(FORMAT_VERSION_4);
+  });
+
+  test("版本 3 起使用分块容器", () => {
+    expect(isChunkedVersion(FORMAT_VERSION_2)).toBe(false);
+    expect(isChunkedVersion(FORMAT_VERSION_3)).toBe(true);
+    expect(isChunkedVersion(FORMAT_VERSION_4)).toBe(true);
+  });
+
+  test("版本 4 的元信息为二进制编码", () => {
+    expect(getMetaEncoding(FORMAT_VERSION_1)).toBe("json");
+    expect(getMetaEncoding(FORMAT_VERSION_3)).toBe("json");
+    expect(getMetaEncoding(FORMAT_VERSION_4)).toBe("binary");
+  });
+
+  test("应该拒绝未知版本", () => {
+    expect(isSupportedVersion(1)).toBe(true);
+    expect(isSupportedVersion(0)).toBe(false);
+    expect(isSupportedVersion(5)).toBe(false);
+  });
+
+  test("未知版本的错误信息应该列出支持的版本", () => {
+    try {
+      readSpriteInfo(new BinaryParser(Buffer.alloc(4)), 5);
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(H5AnimateError);
+      expect((error as H5AnimateError).code).toBe(H5AnimateErrorCode.INVALID_VERSION);
+      expect((error as H5AnimateError).message).toContain("1, 2, 3, 4");
+    }
+  });
+});
+
+describe("精灵图信息读写", () => {
+  test("版本 1 每个精灵占 8 字节", () => {
+    expect(getVersionedSpriteInfoSize(verticalInfo, FORMAT_VERSION_1)).toBe(4 + 2 * 8);
+    expect(writeAndRead(verticalInfo, FORMAT_VERSION_1)).toEqual(verticalInfo);
+  });
+
+  test("版本 2 每个精灵占 32 字节", () => {
+    expect(getVersionedSpriteInfoSize(packedInfo, FORMAT_VERSION_2)).toBe(4 + 2 * 32);
+    expect(writeAndRead(packedInfo, FORMAT_VERSION_2)).toEqual(packedInfo);
+  });
+
+  test("版本 2 写入没有 rects 的数据时应该按垂直排布补全", () => {
+    const result = writeAndRead(verticalInfo, FORMAT_VERSION_2);
+
+    expect(result.rects).toEqual([
+      { x: 0, y: 0, width: 10, height: 10 },
+      { x: 0, y: 10, width: 20, height: 5 },
+    ]);
+  });
+});
+
+describe("migrateSpriteInfo", () => {
+  test("版本 1 应该升级为带 rects 的结构", () => {
+    expect(migrateSpriteInfo(verticalInfo, FORMAT_VERSION_1)).toEqual({
+      ...verticalInfo,
+      rects: [
+        { x: 0, y: 0, width: 10, height: 10 },
+        { x: 0, y: 10, width: 20, height: 5 },
+      ],
+    });
+  });
+
+  test("最新版本的数据应该保持不变", () => {
+    expect(migrateSpriteInfo(packedInfo, LATEST_FORMAT_VERSION)).toBe(packedInfo);
+  });
+
+  test("不应该修改传入的数据", () => {
+    migrateSpriteInfo(verticalInfo, FORMAT_VERSION_1);
+
+    expect(verticalInfo.rects).toBeUndefined();
+  });
+});
+
+describe("needsSpriteRects", () => {
+  test("没有 rects 时不需要记录区域", () => {
+    expect(needsSpriteRects({ count: 1, dimensions: [{ width: 10, height: 10 }] })).toBe(false);
+  });
+
+  test("rects 与垂直排布一致时不需要记录区域", () => {
+    const spriteInfo: SpriteInfo = {
+      count: 2,
+      dimensions: [{ width: 10, height: 10 }, { width: 20, height: 5 }],
+      rects: [
+        { x: 0, y: 0, width: 10, height: 10 },
+        { x: 0, y: 10, width: 20, height: 5 },
+      ],
+    };
+
+    expect(needsSpriteRects(spriteInfo)).toBe(false);
+  });
+
+  test("打包或裁剪后的 rects 需要记录区域", () => {
+    const packed: SpriteInfo = {
+      count: 2,
+      dimensions: [{ width: 10, height: 10 }, { width: 10, height: 10 }],
+      rects: [
+        { x: 0, y: 0, width: 10, height: 10 },
+        { x: 10, y: 0, width: 10, height: 10 },
+      ],
+    };
+    const trimmed: SpriteInfo = {
+      count: 1,
+      dimensions: [{ width: 10, height: 10 }],
+      rects: [{ x: 0, y: 0, width: 4, height: 4, offsetX: 3, offsetY: 3, sourceWidth: 10, sourceHeight: 10 }],
+    };
+
+    expect(needsSpriteRects(packed)).toBe(true);
+    expect(needsSpriteRects(trimmed)).toBe(true);
+  });
+});
+
+describe("resolveEncodeVersion", () => {
+  test("未指定版本时使用元信息编码对应的版本", () => {
+    expect(resolveEncodeVersion(verticalInfo)).toBe(FORMAT_VERSION_3);
+    expect(resolveEncodeVersion(packedInfo, undefined, "json")).toBe(FORMAT_VERSION_3);
+    expect(resolveEncodeVersion(packedInfo, undefined, "binary")).toBe(FORMAT_VERSION_4);
+  });
+
+  test("目标版本与元信息编码不符时应该抛出错误", () => {
+    const validationError = expect.objectContaining({ code: H5AnimateErrorCode.VALIDATION_ERROR });
+
+    expect(resolveEncodeVersion(verticalInfo, FORMAT_VERSION_4)).toBe(FORMAT_VERSION_4);
+    expect(() => resolveEncodeVersion(verticalInfo, FORMAT_VERSION_3, "binary")).toThrow(validationError);
+    expect(() => resolveEncodeVersion(verticalInfo, FORMAT_VERSION_4, "json")).toThrow(validationError);
+  });
+
+  test("可以指定能表示数据的旧版本", () => {
+    expect(getMinimumVersion(verticalInfo)).toBe(FORMAT_VERSION_1);
+    expect(getMinimumVersion(packedInfo)).toBe(FORMAT_VERSION_2);
+    expect(resolveEncodeVersion(verticalInfo, FORMAT_VERSION_1)).toBe(FORMAT_VERSION_1);
+    expect(resolveEncodeVersion(packedInfo, FORMAT_VERSION_2)).toBe(FORMAT_VERSION_2);
+  });
+
+  test("目标版本无法表示数据时应该抛出错误", () => {
+    try {
+      resolveEncodeVersion(packedInfo, FORMAT_VERSION_1);
+      expect.unreachable();
+    } catch (error) {
+      expect((error as H5AnimateError).code).toBe(H5AnimateErrorCode.VALIDATION_ERROR);
+    }
+  });
+
+  test("不支持的目标版本应该抛出错误", () => {
+    try {
+      resolveEncodeVersion(verticalInfo, 99);
+      expect.unreachable();
+    } catch (error) {
+      expect((error as H5AnimateError).code).toBe(H5AnimateErrorCode.INVALID_VERSION);
+    }
+  });
+});
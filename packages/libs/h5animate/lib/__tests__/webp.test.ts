@@ -3,6 +3,7 @@ import sharp from "sharp";
 import {
   convertToWebP,
   createVerticalSpriteSheet,
+  createPackedSpriteSheet,
   base64ToBuffer,
   combineBase64ImagesToWebP,
   extractFrameByIndex,
@@ -10,26 +11,8 @@ import {
   extractAllFrames,
 } from "../webp.js";
 import { H5AnimateError, H5AnimateErrorCode } from "../errors.js";
-
-/**
- * 创建测试用的 PNG 图像
- */
-async function createTestPng(
-  width: number,
-  height: number,
-  color: { r: number; g: number; b: number; alpha?: number } = { r: 255, g: 0, b: 0 },
-): Promise<Buffer> {
-  return sharp({
-    create: {
-      width,
-      height,
-      channels: 4,
-      background: { ...color, alpha: color.alpha ?? 1 },
-    },
-  })
-    .png()
-    .toBuffer();
-}
+import type { ProgressInfo } from "../types.js";
+import { createTestPng } from "./helpers.js";
 
 /**
  * 创建带透明度的测试 PNG 图像
@@ -112,9 +95,38 @@ describe("createVerticalSpriteSheet", () => {
     expect(metadata.width).toBe(100);
     expect(metadata.height).toBe(150); // 50 * 3
 
-    // 验证精灵图信息
-    expect(result.spriteInfo.count).toBe(1);
-    expect(result.spriteInfo.dimensions[0]).toEqual({ width: 100, height: 150 });
+    // 验证精灵图信息：每个输入图像对应一个精灵
+    expect(result.spriteInfo.count).toBe(3);
+    expect(result.spriteInfo.dimensions).toEqual([
+      { width: 100, height: 50 },
+      { width: 100, height: 50 },
+      { width: 100, height: 50 },
+    ]);
+    expect(result.spriteInfo.rects).toEqual([
+      { x: 0, y: 0, width: 100, height: 50 },
+      { x: 0, y: 50, width: 100, height: 50 },
+      { x: 0, y: 100, width: 100, height: 50 },
+    ]);
+  });
+
+  test("空精灵应该保留索引但不占据像素", async () => {
+    const img1 = await createTestPng(40, 30);
+    const img2 = await createTestPng(60, 20);
+
+    const result = await createVerticalSpriteSheet([null, img1, null, img2]);
+
+    const metadata = await sharp(result.webpData).metadata();
+    expect(metadata.width).toBe(60);
+    expect(metadata.height).toBe(50);
+
+    expect(result.spriteInfo.count).toBe(4);
+    expect(result.spriteInfo.dimensions[0]).toEqual({ width: 0, height: 0 });
+    expect(result.spriteInfo.rects![1]).toEqual({ x: 0, y: 0, width: 40, height: 30 });
+    expect(result.spriteInfo.rects![3]).toEqual({ x: 0, y: 30, width: 60, height: 20 });
+  });
+
+  test("全部为空精灵应该抛出错误", async () => {
+    await expect(createVerticalSpriteSheet([null, null])).rejects.toThrow(H5AnimateError);
   });
 
   test("应该处理不同宽度的图像（使用最大宽度）", async () => {
@@ -168,6 +180,105 @@ describe("createVerticalSpriteSheet", () => {
   });
 });
 
+describe("自动压缩质量", () => {
+  test("未指定 auto 时不应该返回质量报告", async () => {
+    const result = await createVerticalSpriteSheet([await createTestPng(8, 8)]);
+
+    expect(result.quality).toBeUndefined();
+  });
+
+  test("指定 auto 时应该返回选中的设置", async () => {
+    const img1 = await createTestPng(16, 16, { r: 255, g: 0, b: 0 });
+    const img2 = await createTransparentPng(16, 16, 0.5);
+
+    const result = await createVerticalSpriteSheet([img1, img2], { auto: { metric: "psnr", threshold: 30 } });
+
+    expect(result.quality).toMatchObject({ metric: "psnr", size: result.webpData.length });
+    expect(result.quality!.score).toBeGreaterThanOrEqual(30);
+    const metadata = await sharp(result.webpData).metadata();
+    expect([metadata.width, metadata.height]).toEqual([16, 32]);
+  });
+
+  test("convertToWebP 应该支持 auto", async () => {
+    const webp = await convertToWebP(await createTestPng(16, 16), { auto: true });
+
+    const metadata = await sharp(webp).metadata();
+    expect(metadata.format).toBe("webp");
+  });
+});
+
+describe("createPackedSpriteSheet", () => {
+  /**
+   * 创建四周带透明边框的 PNG 图像
+   */
+  async function createBorderedPng(
+    width: number,
+    height: number,
+    border: { left: number; top: number; right: number; bottom: number },
+  ): Promise<Buffer> {
+    const inner = await createTestPng(width - border.left - border.right, height - border.top - border.bottom);
+    return sharp(inner)
+      .extend({ ...border, background: { r: 0, g: 0, b: 0, alpha: 0 } })
+      .png()
+      .toBuffer();
+  }
+
+  test("maxrects 应该记录每个精灵的区域", async () => {
+    const images = await Promise.all([
+      createTestPng(64, 64),
+      createTestPng(64, 64),
+      createTestPng(64, 64),
+      createTestPng(64, 64),
+    ]);
+
+    const result = await createPackedSpriteSheet(images, {}, { layout: "maxrects" });
+
+    const metadata = await sharp(result.webpData).metadata();
+    expect(metadata.height).toBeLessThan(256);
+    expect(result.spriteInfo.count).toBe(4);
+    expect(result.spriteInfo.rects).toHaveLength(4);
+    for (const rect of result.spriteInfo.rects!) {
+      expect(rect.width).toBe(64);
+      expect(rect.x + rect.width).toBeLessThanOrEqual(metadata.width!);
+      expect(rect.y + rect.height).toBeLessThanOrEqual(metadata.height!);
+    }
+  });
+
+  test("trim 应该裁剪透明边框并记录偏移", async () => {
+    const image = await createBorderedPng(40, 30, { left: 5, top: 3, right: 10, bottom: 7 });
+
+    const result = await createPackedSpriteSheet([null, image], {}, { layout: "shelf", trim: true });
+
+    expect(result.spriteInfo.dimensions).toEqual([{ width: 0, height: 0 }, { width: 40, height: 30 }]);
+    expect(result.spriteInfo.rects![1]).toEqual({
+      x: 0,
+      y: 0,
+      width: 25,
+      height: 20,
+      offsetX: 5,
+      offsetY: 3,
+      sourceWidth: 40,
+      sourceHeight: 30,
+    });
+
+    const metadata = await sharp(result.webpData).metadata();
+    expect(metadata.width).toBe(25);
+    expect(metadata.height).toBe(20);
+  });
+
+  test("精灵像素应该被放置在记录的区域内", async () => {
+    const red = await createTestPng(10, 10, { r: 255, g: 0, b: 0 });
+    const blue = await createTestPng(20, 5, { r: 0, g: 0, b: 255 });
+
+    const result = await createPackedSpriteSheet([red, blue], {}, { layout: "maxrects", padding: 2 });
+    const { data, info } = await sharp(result.webpData).raw().toBuffer({ resolveWithObject: true });
+
+    const blueRect = result.spriteInfo.rects![1];
+    const offset = ((blueRect.y + 2) * info.width + blueRect.x + 10) * info.channels;
+    expect(Array.from(data.subarray(offset, offset + 3))).toEqual([0, 0, 255]);
+  });
+});
+
 describe("base64ToBuffer", () => {
   test("应该转换带 data URI 前缀的 Base64", () => {
     const base64 = "data:image/png;base64,iVBORw0KGgo=";
@@ -203,7 +314,7 @@ describe("combineBase64ImagesToWebP", () => {
     expect(metadata.height).toBe(100); // 50 + 50
   });
 
-  test("应该过滤空字符串", async () => {
+  test("空字符串应该作为空精灵保留索引", async () => {
     const img = await createTestPng(50, 50);
     const base64 = `data:image/png;base64,${img.toString("base64")}`;
 
@@ -211,6 +322,8 @@ describe("combineBase64ImagesToWebP", () => {
 
     const metadata = await sharp(result.webpData).metadata();
     expect(metadata.height).toBe(50);
+    expect(result.spriteInfo.count).toBe(3);
+    expect(result.spriteInfo.rects![1]).toEqual({ x: 0, y: 0, width: 50, height: 50 });
   });
 });
 
@@ -320,3 +433,56 @@ describe("extractAllFrames", () => {
     expect(frames).toHaveLength(2);
   });
 });
+
+describe("进度与取消", () => {
+  const aborted = expect.objectContaining({ code: H5AnimateErrorCode.ABORTED });
+
+  test("创建精灵图时应该报告读取与编码进度", async () => {
+    const images = await Promise.all([createTestPng(10, 10), createTestPng(10, 10), createTestPng(10, 10)]);
+    const events: ProgressInfo[] = [];
+
+    await createVerticalSpriteSheet([images[0], null, images[1], images[2]], {}, {
+      onProgress: (event) => events.push(event),
+    });
+
+    expect(events.map(({ stage, current, total }) => `${stage} ${current}/${total}`)).toEqual([
+      "bitmap 0/4",
+      "bitmap 1/4",
+      "bitmap 2/4",
+      "bitmap 3/4",
+      "bitmap 4/4",
+      "encode 0/1",
+      "encode 1/1",
+    ]);
+  });
+
+  test("打包精灵图应该支持取消", async () => {
+    const image = await createTestPng(10, 10);
+
+    await expect(
+      createPackedSpriteSheet([image], {}, { layout: "shelf" }, { signal: AbortSignal.abort() }),
+    ).rejects.toEqual(aborted);
+  });
+
+  test("提取帧时应该报告进度，取消后停止提取", async () => {
+    const images = await Promise.all([createTestPng(10, 5), createTestPng(10, 5), createTestPng(10, 5)]);
+    const { webpData } = await createVerticalSpriteSheet(images);
+    const controller = new AbortController();
+    const events: ProgressInfo[] = [];
+
+    await expect(extractAllFrames(webpData, 5, undefined, {
+      signal: controller.signal,
+      onProgress: (event) => {
+        events.push(event);
+        if (event.current === 1) {
+          controller.abort();
+        }
+      },
+    })).rejects.toEqual(aborted);
+
+    expect(events).toEqual([
+      { stage: "frame", current: 0, total: 3 },
+      { stage: "frame", current: 1, total: 3 },
+    ]);
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, test, expect } from "vitest";
+import sharp from "sharp";
+import { readWebPSize } from "../webpinfo.js";
+
+/**
+ * 创建指定尺寸的 WebP 图像
+ */
+async function createWebP(
+  width: number,
+  height: number,
+  alpha: number,
+  options: sharp.WebpOptions,
+): Promise<Buffer> {
+  return sharp({
+    create: { width, height, channels: 4, background: { r: 255, g: 0, b: 0, alpha } },
+  })
+    .webp(options)
+    .toBuffer();
+}
+
+describe("readWebPSize", () => {
+  test("应该读取无损 WebP 的尺寸", async () => {
+    const webp = await createWebP(123, 45, 1, { lossless: true });
+
+    expect(webp.toString("ascii", 12, 16)).toBe("VP8L");
+    expect(readWebPSize(webp)).toEqual({ width: 123, height: 45 });
+  });
+
+  test("应该读取有损 WebP 的尺寸", async () => {
+    const webp = await createWebP(64, 300, 1, { quality: 80 });
+
+    expect(webp.toString("ascii", 12, 16)).toBe("VP8 ");
+    expect(readWebPSize(webp)).toEqual({ width: 64, height: 300 });
+  });
+
+  test("应该读取扩展格式 WebP 的尺寸", async () => {
+    const webp = await createWebP(20, 30, 0.5, { quality: 80 });
+
+    expect(webp.toString("ascii", 12, 16)).toBe("VP8X");
+    expect(readWebPSize(webp)).toEqual({ width: 20, height: 30 });
+  });
+
+  test("无效数据应该返回 null", () => {
+    expect(readWebPSize(Buffer.from("fake-webp-data"))).toBeNull();
+    expect(readWebPSize(Buffer.alloc(40))).toBeNull();
+  });
+});
@@ -4,24 +4,47 @@
  * 提供简化的编码、解码和转换接口，封装底层实现细节
  */
 
-import { decodeH5Animate as decodeCore } from "./decoder.js";
+import {
+  decodeH5Animate as decodeCore,
+  getSpriteRect,
+  type DecodeOptions,
+} from "./decoder.js";
 import { encodeH5Animate as encodeCore } from "./encoder.js";
 import {
   convertToH5Animate as convertCore,
   convertFromJsonString as convertFromJsonCore,
   parseLegacyAnimateFile,
+  revertToLegacy,
   type ConvertOptions,
 } from "./converter.js";
 import {
   extractFrameByIndex,
   extractAllFrames,
   type WebPOptions,
+  type SpriteSheetOptions,
 } from "./webp.js";
+import {
+  renderH5AnimateFrame,
+  type RenderFrameOptions,
+} from "./render.js";
+import {
+  exportH5Animate,
+  type ExportAnimationOptions,
+} from "./exporter.js";
+import {
+  optimizeH5Animate,
+  type OptimizeOptions,
+  type OptimizeResult,
+} from "./optimizer.js";
 import type {
   H5AnimateMeta,
   SpriteInfo,
   DecodedH5Animate,
   LegacyAnimateFile,
+  SpriteRect,
+  H5AnimateChunk,
+  MetaEncoding,
+  ProgressOptions,
 } from "./types.js";
 
 // ============ 解码 API ============
@@ -32,8 +55,9 @@ import type {
  * 将 h5animate 二进制数据解码为结构化的动画数据
  *
  * @param data - h5animate 文件的二进制数据
+ * @param options - 解码选项，`strict: true` 时验证数据并报告全部问题
  * @returns 解码后的动画数据，包含元信息、精灵图信息和 WebP 图像数据
- * @throws H5AnimateError 如果文件格式无效或数据损坏
+ * @throws H5AnimateError 如果文件格式无效或数据损坏，严格模式下还包括验证失败
  *
  * @example
  * ```typescript
@@ -46,10 +70,35 @@ import type {
  * console.log("缩放比例:", animation.meta.ratio);
  * console.log("帧数:", animation.meta.frame.length);
  * console.log("精灵图数量:", animation.spriteInfo.count);
+ *
+ * // 严格模式：验证失败时 error.issues 包含全部问题及字段路径
+ * const checked = decode(buffer, { strict: true });
  * ```
  */
-export function decode(data: Buffer): DecodedH5Animate {
-  return decodeCore(data);
+export function decode(data: Buffer, options?: DecodeOptions): DecodedH5Animate {
+  return decodeCore(data, options);
+}
+
+/**
+ * 查找精灵在精灵图上的区域
+ *
+ * @param animation - 解码后的动画数据
+ * @param index - 精灵索引，即 H5AnimateObject.index
+ * @returns 精灵区域，如果索引越界或为空精灵则返回 undefined
+ *
+ * @example
+ * ```typescript
+ * import { decode, getSprite } from "@motajs/h5animate";
+ *
+ * const animation = decode(buffer);
+ * const rect = getSprite(animation, animation.meta.frame[0].objects![0].index);
+ * ```
+ */
+export function getSprite(
+  animation: DecodedH5Animate,
+  index: number,
+): SpriteRect | undefined {
+  return getSpriteRect(animation.spriteInfo, index);
 }
 
 // ============ 编码 API ============
@@ -64,6 +113,12 @@ export interface EncodeOptions {
   spriteInfo: SpriteInfo;
   /** WebP 图像数据 */
   webpData: Buffer;
+  /** 写入的格式版本，默认为元信息编码对应的版本 */
+  version?: number;
+  /** 元信息编码，`binary` 写入版本 4 的紧凑二进制元信息（默认 json） */
+  metaEncoding?: MetaEncoding;
+  /** 额外写入的分块，传入解码结果时未识别的分块会被原样保留 */
+  chunks?: H5AnimateChunk[];
 }
 
 /**
@@ -95,7 +150,11 @@ export interface EncodeOptions {
  * ```
  */
 export function encode(options: EncodeOptions): Buffer {
-  return encodeCore(options.meta, options.spriteInfo, options.webpData);
+  return encodeCore(options.meta, options.spriteInfo, options.webpData, {
+    version: options.version,
+    metaEncoding: options.metaEncoding,
+    chunks: options.chunks,
+  });
 }
 
 // ============ 转换 API ============
@@ -106,9 +165,9 @@ export function encode(options: EncodeOptions): Buffer {
  * 将旧的 .animate JSON 格式转换为新的 h5animate 二进制格式
  *
  * @param legacyData - 旧格式的动画数据对象
- * @param options - 转换选项（可选）
+ * @param options - 转换选项（可选），可以传入 `signal` 取消转换、`onProgress` 观察进度
  * @returns 编码后的 h5animate 二进制数据
- * @throws H5AnimateError 如果转换失败
+ * @throws H5AnimateError 如果转换失败，取消时错误代码为 ABORTED
  *
  * @example
  * ```typescript
@@ -116,7 +175,11 @@ export function encode(options: EncodeOptions): Buffer {
  * import { readFileSync, writeFileSync } from "fs";
  *
  * const legacyJson = JSON.parse(readFileSync("animation.animate", "utf-8"));
- * const buffer = await convert(legacyJson);
+ * const controller = new AbortController();
+ * const buffer = await convert(legacyJson, {
+ *   signal: controller.signal,
+ *   onProgress: ({ stage, current, total }) => console.log(stage, `${current}/${total}`),
+ * });
  *
  * writeFileSync("animation.h5animate", buffer);
  * ```
@@ -178,6 +241,60 @@ export function parseLegacy(jsonString: string): LegacyAnimateFile {
   return parseLegacyAnimateFile(jsonString);
 }
 
+/**
+ * 将 h5animate 还原为旧格式
+ *
+ * 精灵拆分为 Base64 PNG 图片，帧、音效和音调还原为旧格式字段，图层数据原样保留，帧按 20 帧每秒重采样
+ *
+ * @param animation - 解码后的动画数据
+ * @returns 旧格式的动画数据对象
+ * @throws H5AnimateError 如果音效无法用旧格式表示或图像处理失败
+ *
+ * @example
+ * ```typescript
+ * import { decode, revert } from "@motajs/h5animate";
+ * import { readFileSync, writeFileSync } from "fs";
+ *
+ * const animation = decode(readFileSync("animation.h5animate"));
+ * const legacy = await revert(animation);
+ *
+ * writeFileSync("animation.animate", JSON.stringify(legacy));
+ * ```
+ */
+export async function revert(animation: DecodedH5Animate): Promise<LegacyAnimateFile> {
+  return revertToLegacy(animation);
+}
+
+// ============ 优化 API ============
+
+/**
+ * 优化动画
+ *
+ * 合并像素相同的精灵、裁剪透明边框并补偿对象位置、删除未被引用的精灵，
+ * 然后重新生成垂直精灵图
+ *
+ * @param animation - 解码后的动画数据
+ * @param options - 优化选项，各项优化默认全部启用
+ * @returns 优化后的动画数据与旧精灵索引到新索引的映射
+ * @throws H5AnimateError 如果精灵图解码或重新编码失败
+ *
+ * @example
+ * ```typescript
+ * import { decode, encode, optimize } from "@motajs/h5animate";
+ * import { readFileSync, writeFileSync } from "fs";
+ *
+ * const { animation } = await optimize(decode(readFileSync("animation.h5animate")));
+ *
+ * writeFileSync("animation.h5animate", encode(animation));
+ * ```
+ */
+export async function optimize(
+  animation: DecodedH5Animate,
+  options?: OptimizeOptions,
+): Promise<OptimizeResult> {
+  return optimizeH5Animate(animation, options);
+}
+
 // ============ 帧提取 API ============
 
 /**
@@ -224,8 +341,9 @@ export async function extractFrame(
  * @param animation - 解码后的动画数据
  * @param frameHeight - 每帧的高度
  * @param frameCount - 帧数量（可选，默认根据精灵图高度自动计算）
+ * @param progress - 进度与取消选项（可选）
  * @returns 所有帧的 Buffer 数组
- * @throws H5AnimateError 如果提取失败
+ * @throws H5AnimateError 如果提取失败或已取消
  *
  * @example
  * ```typescript
@@ -243,10 +361,80 @@ export async function extractFrames(
   animation: DecodedH5Animate,
   frameHeight: number,
   frameCount?: number,
+  progress?: ProgressOptions,
 ): Promise<Buffer[]> {
-  return extractAllFrames(animation.webpData, frameHeight, frameCount);
+  return extractAllFrames(animation.webpData, frameHeight, frameCount, progress);
+}
+
+// ============ 渲染 API ============
+
+/**
+ * 渲染解码后动画的单个帧
+ *
+ * 按帧内每个对象的索引、位置、缩放、透明度、镜像和旋转合成玩家实际看到的画面
+ *
+ * @param animation - 解码后的动画数据
+ * @param frameIndex - 帧索引（从 0 开始）
+ * @param options - 渲染选项（可选，默认输出能容纳整段动画的透明 PNG）
+ * @returns 渲染后的 PNG 数据，或 `format: "raw"` 时的 RGBA 像素数据
+ * @throws H5AnimateError 如果帧索引超出范围或图像处理失败
+ *
+ * @example
+ * ```typescript
+ * import { decode, renderFrame } from "@motajs/h5animate";
+ *
+ * const animation = decode(buffer);
+ * const png = await renderFrame(animation, 0, { width: 192, height: 192 });
+ *
+ * writeFileSync("preview.png", png);
+ * ```
+ */
+export async function renderFrame(
+  animation: DecodedH5Animate,
+  frameIndex: number,
+  options?: RenderFrameOptions,
+): Promise<Buffer> {
+  return renderH5AnimateFrame(animation, frameIndex, options);
+}
+
+// ============ 导出 API ============
+
+/**
+ * 将解码后的动画导出为动图
+ *
+ * 支持动态 WebP、GIF 和 APNG，可配置帧延迟、循环次数和画布尺寸
+ *
+ * @param animation - 解码后的动画数据
+ * @param options - 导出选项（可选，默认导出无限循环的无损 WebP）
+ * @returns 动图数据
+ * @throws H5AnimateError 如果动画没有帧、选项无效或编码失败
+ *
+ * @example
+ * ```typescript
+ * import { decode, exportAnimation } from "@motajs/h5animate";
+ *
+ * const animation = decode(buffer);
+ * const gif = await exportAnimation(animation, { format: "gif", delay: 100 });
+ *
+ * writeFileSync("animation.gif", gif);
+ * ```
+ */
+export async function exportAnimation(
+  animation: DecodedH5Animate,
+  options?: ExportAnimationOptions,
+): Promise<Buffer> {
+  return exportH5Animate(animation, options);
 }
 
 // ============ 重新导出常用类型 ============
 
-export type { ConvertOptions, WebPOptions };
+export type {
+  DecodeOptions,
+  ConvertOptions,
+  WebPOptions,
+  SpriteSheetOptions,
+  RenderFrameOptions,
+  ExportAnimationOptions,
+  OptimizeOptions,
+  OptimizeResult,
+};
@@ -0,0 +1,121 @@
+/**
+ * APNG 编码器
+ *
+ * sharp 不支持输出 APNG，这里直接按 APNG 规范写出 PNG 分块
+ */
+
+import { deflateSync } from "zlib";
+import { crc32 } from "./crc32.js";
+import { createConversionFailedError } from "./errors.js";
+import type { RawImage } from "./types.js";
+
+/** PNG 文件签名 */
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+/**
+ * APNG 编码选项
+ */
+export interface ApngOptions {
+  /** 每帧的延迟（毫秒），长度需与帧数一致 */
+  delays: number[];
+  /** 循环次数，0 表示无限循环 */
+  loop: number;
+}
+
+/**
+ * 构造一个 PNG 分块
+ *
+ * @param type - 4 字节分块类型
+ * @param data - 分块数据
+ * @returns 包含长度、类型、数据和 CRC 的完整分块
+ */
+function createChunk(type: string, data: Buffer): Buffer {
+  const chunk = Buffer.alloc(12 + data.length);
+  chunk.writeUInt32BE(data.length, 0);
+  chunk.write(type, 4, "ascii");
+  data.copy(chunk, 8);
+  chunk.writeUInt32BE(crc32(chunk.subarray(4, 8 + data.length)), 8 + data.length);
+  return chunk;
+}
+
+/**
+ * 压缩 RGBA 像素数据，每行前加 0 号（None）过滤器
+ *
+ * @param image - 帧图像
+ * @returns zlib 压缩后的图像数据
+ */
+function compressImage(image: RawImage): Buffer {
+  const stride = image.width * 4;
+  const filtered = Buffer.alloc((stride + 1) * image.height);
+
+  for (let y = 0; y < image.height; y++) {
+    image.data.copy(filtered, y * (stride + 1) + 1, y * stride, (y + 1) * stride);
+  }
+
+  return deflateSync(filtered);
+}
+
+/**
+ * 将多帧 RGBA 图像编码为 APNG
+ *
+ * 所有帧必须尺寸相同，每帧完整覆盖画布
+ *
+ * @param frames - 帧图像数组
+ * @param options - 编码选项
+ * @returns APNG 数据
+ * @throws H5AnimateError 如果没有帧或帧尺寸不一致
+ */
+export function encodeApng(frames: RawImage[], options: ApngOptions): Buffer {
+  if (frames.length === 0) {
+    throw createConversionFailedError("没有可编码的帧");
+  }
+
+  const { width, height } = frames[0];
+  if (frames.some((frame) => frame.width !== width || frame.height !== height)) {
+    throw createConversionFailedError("APNG 的所有帧尺寸必须一致");
+  }
+
+  const chunks: Buffer[] = [PNG_SIGNATURE];
+
+  const ihdr = Buffer.alloc(13);
+  ihdr.writeUInt32BE(width, 0);
+  ihdr.writeUInt32BE(height, 4);
+  ihdr[8] = 8; // 位深度
+  ihdr[9] = 6; // 颜色类型：RGBA
+  chunks.push(createChunk("IHDR", ihdr));
+
+  const actl = Buffer.alloc(8);
+  actl.writeUInt32BE(frames.length, 0);
+  actl.writeUInt32BE(options.loop, 4);
+  chunks.push(createChunk("acTL", actl));
+
+  let sequence = 0;
+
+  for (let i = 0; i < frames.length; i++) {
+    const fctl = Buffer.alloc(26);
+    fctl.writeUInt32BE(sequence++, 0);
+    fctl.writeUInt32BE(width, 4);
+    fctl.writeUInt32BE(height, 8);
+    fctl.writeUInt32BE(0, 12); // x 偏移
+    fctl.writeUInt32BE(0, 16); // y 偏移
+    fctl.writeUInt16BE(options.delays[i], 20); // 延迟分子
+    fctl.writeUInt16BE(1000, 22); // 延迟分母：毫秒
+    fctl[24] = 0; // dispose_op: NONE
+    fctl[25] = 0; // blend_op: SOURCE
+    chunks.push(createChunk("fcTL", fctl));
+
+    const compressed = compressImage(frames[i]);
+    if (i === 0) {
+      chunks.push(createChunk("IDAT", compressed));
+    } else {
+      const fdat = Buffer.alloc(4 + compressed.length);
+      fdat.writeUInt32BE(sequence++, 0);
+      compressed.copy(fdat, 4);
+      chunks.push(createChunk("fdAT", fdat));
+    }
+  }
+
+  chunks.push(createChunk("IEND", Buffer.alloc(0)));
+
+  return Buffer.concat(chunks);
+}
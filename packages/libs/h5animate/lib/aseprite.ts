@@ -0,0 +1,540 @@
+/**
+ * Aseprite 与 TexturePacker 互通
+ *
+ * 读取 Aseprite 导出的 JSON（帧、时长、标签、切片）与精灵图 PNG，生成 h5animate 的元数据和精灵图信息；
+ * 也可以将 h5animate 导出为两者都能读取的 JSON 与 PNG
+ */
+
+import sharp from "sharp";
+import { getSpriteRects } from "./decoder.js";
+import { createConversionFailedError, createJsonParseError, createValidationError } from "./errors.js";
+import { packRects, type PackingLayout } from "./packer.js";
+import { renderAllFrames } from "./exporter.js";
+import { resolveRenderCanvas, type RenderCanvasOptions } from "./render.js";
+import { getAnimationFps, getFrameDurations } from "./timing.js";
+import { convertToWebP, type WebPOptions } from "./webp.js";
+import type {
+  DecodedH5Animate,
+  H5AnimateFrame,
+  H5AnimateMeta,
+  SpriteDimension,
+  SpriteInfo,
+  SpriteRect,
+} from "./types.js";
+
+/** 缺少 duration 时 Aseprite 使用的帧时长（毫秒） */
+const ASEPRITE_DEFAULT_DURATION = 100;
+
+/**
+ * Aseprite/TexturePacker 的矩形
+ */
+export interface AsepriteRect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+/**
+ * Aseprite/TexturePacker 的帧
+ */
+export interface AsepriteFrame {
+  /** 数组格式中的帧名称，哈希格式中为键名 */
+  filename?: string;
+  /** 帧在精灵图上的区域 */
+  frame: AsepriteRect;
+  /** 是否旋转了 90 度存放，仅 TexturePacker 会使用 */
+  rotated?: boolean;
+  /** 是否裁剪了透明边框 */
+  trimmed?: boolean;
+  /** 裁剪后的区域在原始帧中的位置 */
+  spriteSourceSize?: AsepriteRect;
+  /** 原始帧尺寸 */
+  sourceSize?: { w: number; h: number };
+  /** 帧时长（毫秒） */
+  duration?: number;
+}
+
+/**
+ * 帧标签
+ */
+export interface AsepriteFrameTag {
+  name: string;
+  from: number;
+  to: number;
+  /** 播放方向（默认 forward） */
+  direction?: "forward" | "reverse" | "pingpong" | "pingpong_reverse";
+  color?: string;
+}
+
+/**
+ * 切片在某一帧起的状态
+ */
+export interface AsepriteSliceKey {
+  frame: number;
+  bounds: AsepriteRect;
+  /** 轴心，相对于 bounds 左上角 */
+  pivot?: { x: number; y: number };
+  center?: AsepriteRect;
+}
+
+/**
+ * 切片
+ */
+export interface AsepriteSlice {
+  name: string;
+  color?: string;
+  data?: string;
+  keys: AsepriteSliceKey[];
+}
+
+/**
+ * Aseprite/TexturePacker 导出的 JSON
+ */
+export interface AsepriteSheet {
+  /** 哈希格式以帧名称为键，数组格式为帧数组 */
+  frames: Record<string, AsepriteFrame> | AsepriteFrame[];
+  meta: {
+    app?: string;
+    version?: string;
+    image?: string;
+    format?: string;
+    size?: { w: number; h: number };
+    scale?: string;
+    frameTags?: AsepriteFrameTag[];
+    slices?: AsepriteSlice[];
+    [key: string]: unknown;
+  };
+}
+
+/**
+ * Aseprite 导入选项
+ */
+export interface AsepriteImportOptions {
+  /** 只导入该标签范围内的帧，并按标签的播放方向排列（默认按顺序导入全部帧） */
+  tag?: string;
+  /** 以该切片的轴心作为锚点（默认为第一个带轴心的切片，没有时为帧中心） */
+  anchorSlice?: string;
+  /** 全局缩放比例（默认 1） */
+  ratio?: number;
+  /** 精灵图的 WebP 压缩选项（默认无损） */
+  webp?: WebPOptions;
+}
+
+/**
+ * Aseprite 导出选项
+ *
+ * 画布选项仅在 `mode` 为 frames 时生效
+ */
+export interface AsepriteExportOptions extends RenderCanvasOptions {
+  /**
+   * 导出内容（默认 frames）
+   * - frames: 渲染后的每一帧，带有记录锚点的 anchor 切片，可以再导入还原对象位置
+   * - sprites: 原样的精灵图集，每个非空精灵一项
+   */
+  mode?: "frames" | "sprites";
+  /** 帧名称前缀，也用于默认的图片文件名（默认 h5animate） */
+  name?: string;
+  /** JSON 中记录的图片文件名（默认为 name 加 .png） */
+  image?: string;
+  /** JSON 格式（默认 hash） */
+  format?: "hash" | "array";
+  /** frames 模式下帧的排布方式（默认 shelf） */
+  layout?: PackingLayout;
+  /** frames 模式下帧之间的间距（像素，默认 0） */
+  padding?: number;
+}
+
+/**
+ * Aseprite 导出结果
+ */
+export interface AsepriteExport {
+  json: AsepriteSheet;
+  /** 精灵图 PNG */
+  image: Buffer;
+}
+
+/**
+ * 判断是否为数字矩形
+ */
+function isRect(value: unknown, keys: readonly string[] = ["x", "y", "w", "h"]): boolean {
+  return value !== null
+    && typeof value === "object"
+    && keys.every((key) => typeof (value as Record<string, unknown>)[key] === "number");
+}
+
+/**
+ * 解析 Aseprite/TexturePacker 导出的 JSON
+ *
+ * @param input - JSON 字符串或已解析的对象
+ * @returns 校验后的数据
+ * @throws H5AnimateError 如果 JSON 无效或缺少帧信息
+ */
+export function parseAsepriteSheet(input: string | unknown): AsepriteSheet {
+  let data: unknown = input;
+  if (typeof input === "string") {
+    try {
+      data = JSON.parse(input);
+    } catch (error) {
+      throw createJsonParseError(error instanceof Error ? error.message : "未知错误");
+    }
+  }
+
+  if (data === null || typeof data !== "object") {
+    throw createValidationError("Aseprite JSON 必须是对象");
+  }
+
+  const sheet = data as Partial<AsepriteSheet>;
+  if (sheet.frames === null || typeof sheet.frames !== "object") {
+    throw createValidationError("Aseprite JSON 缺少 frames", ["frames"]);
+  }
+
+  for (const [key, frame] of Object.entries(sheet.frames)) {
+    if (!isRect(frame?.frame)) {
+      throw createValidationError(`帧 ${key} 缺少有效的 frame 区域`);
+    }
+    if (frame.spriteSourceSize !== undefined && !isRect(frame.spriteSourceSize)) {
+      throw createValidationError(`帧 ${key} 的 spriteSourceSize 无效`);
+    }
+    if (frame.sourceSize !== undefined && !isRect(frame.sourceSize, ["w", "h"])) {
+      throw createValidationError(`帧 ${key} 的 sourceSize 无效`);
+    }
+  }
+
+  return { frames: sheet.frames, meta: sheet.meta ?? {} };
+}
+
+/**
+ * 按顺序获取帧列表，哈希格式按键的顺序排列
+ */
+function getAsepriteFrames(sheet: AsepriteSheet): AsepriteFrame[] {
+  return Array.isArray(sheet.frames)
+    ? sheet.frames
+    : Object.entries(sheet.frames).map(([filename, frame]) => ({ filename, ...frame }));
+}
+
+/**
+ * 由 Aseprite 帧生成精灵图信息，每个帧对应一个精灵
+ *
+ * @param frames - Aseprite 帧
+ * @returns 精灵图信息，裁剪过的帧记录偏移与原始尺寸
+ * @throws H5AnimateError 如果帧旋转存放
+ */
+export function asepriteFramesToSpriteInfo(frames: AsepriteFrame[]): SpriteInfo {
+  const dimensions: SpriteDimension[] = [];
+  const rects: SpriteRect[] = [];
+
+  frames.forEach((frame, index) => {
+    if (frame.rotated) {
+      throw createConversionFailedError(`帧 ${frame.filename ?? index} 旋转存放，请在导出时关闭旋转`);
+    }
+
+    const { x, y, w, h } = frame.frame;
+    const source = frame.spriteSourceSize ?? { x: 0, y: 0, w, h };
+    const width = frame.sourceSize?.w ?? w;
+    const height = frame.sourceSize?.h ?? h;
+    const rect: SpriteRect = { x, y, width: w, height: h };
+
+    if (source.x !== 0 || source.y !== 0 || w !== width || h !== height) {
+      rect.offsetX = source.x;
+      rect.offsetY = source.y;
+      rect.sourceWidth = width;
+      rect.sourceHeight = height;
+    }
+
+    dimensions.push({ width, height });
+    rects.push(rect);
+  });
+
+  return { count: frames.length, dimensions, rects };
+}
+
+/**
+ * 按标签展开播放顺序
+ *
+ * @param sheet - Aseprite 数据
+ * @param frameCount - 帧数量
+ * @param tagName - 标签名称，未指定时按顺序返回全部帧
+ * @returns 帧索引序列
+ * @throws H5AnimateError 如果标签不存在或范围越界
+ */
+export function resolveAsepriteSequence(sheet: AsepriteSheet, frameCount: number, tagName?: string): number[] {
+  const range = (from: number, to: number) => from <= to
+    ? Array.from({ length: to - from + 1 }, (_, i) => from + i)
+    : Array.from({ length: from - to + 1 }, (_, i) => from - i);
+
+  if (tagName === undefined) {
+    return range(0, frameCount - 1);
+  }
+
+  const tag = sheet.meta.frameTags?.find((item) => item.name === tagName);
+  if (!tag) {
+    throw createValidationError(`Aseprite JSON 中没有标签 ${tagName}`);
+  }
+  if (!(tag.from >= 0 && tag.from <= tag.to && tag.to < frameCount)) {
+    throw createValidationError(`标签 ${tagName} 的范围 ${tag.from}-${tag.to} 超出帧数 ${frameCount}`);
+  }
+
+  // 往返播放时两端的帧不重复
+  const hasInner = tag.to - tag.from >= 2;
+  switch (tag.direction ?? "forward") {
+    case "reverse":
+      return range(tag.to, tag.from);
+    case "pingpong":
+      return [...range(tag.from, tag.to), ...(hasInner ? range(tag.to - 1, tag.from + 1) : [])];
+    case "pingpong_reverse":
+      return [...range(tag.to, tag.from), ...(hasInner ? range(tag.from + 1, tag.to - 1) : [])];
+    default:
+      return range(tag.from, tag.to);
+  }
+}
+
+/**
+ * 获取指定帧的锚点
+ *
+ * 切片的每个 key 从其 frame 起生效，直到下一个 key
+ *
+ * @returns 原始帧坐标中的锚点，没有切片轴心时返回 undefined
+ */
+function getSliceAnchor(slice: AsepriteSlice | undefined, frame: number): { x: number; y: number } | undefined {
+  let active: AsepriteSliceKey | undefined;
+  for (const key of slice?.keys ?? []) {
+    if (key.frame <= frame && (!active || key.frame >= active.frame)) {
+      active = key;
+    }
+  }
+
+  if (!active?.pivot) {
+    return undefined;
+  }
+  return { x: active.bounds.x + active.pivot.x, y: active.bounds.y + active.pivot.y };
+}
+
+/**
+ * 由 Aseprite 数据生成元数据
+ *
+ * 每个播放的 Aseprite 帧对应一个 h5animate 帧，帧时长写入 `duration`；
+ * 对象坐标为帧中心相对于切片轴心的偏移
+ *
+ * @param sheet - Aseprite 数据
+ * @param options - 导入选项
+ * @returns 元数据，对象的 index 即 Aseprite 帧索引
+ * @throws H5AnimateError 如果标签或切片不存在
+ */
+export function asepriteToMeta(sheet: AsepriteSheet, options: AsepriteImportOptions = {}): H5AnimateMeta {
+  const frames = getAsepriteFrames(sheet);
+  const { ratio = 1 } = options;
+  if (!(ratio > 0)) {
+    throw createValidationError(`ratio 必须是正数，实际为 ${ratio}`);
+  }
+
+  const slices = sheet.meta.slices ?? [];
+  const slice = options.anchorSlice !== undefined
+    ? slices.find((item) => item.name === options.anchorSlice)
+    : slices.find((item) => item.keys?.some((key) => key.pivot));
+  if (options.anchorSlice !== undefined && !slice) {
+    throw createValidationError(`Aseprite JSON 中没有切片 ${options.anchorSlice}`);
+  }
+
+  const result: H5AnimateFrame[] = [];
+  for (const index of resolveAsepriteSequence(sheet, frames.length, options.tag)) {
+    const frame = frames[index];
+    const width = frame.sourceSize?.w ?? frame.frame.w;
+    const height = frame.sourceSize?.h ?? frame.frame.h;
+    const anchor = getSliceAnchor(slice, index) ?? { x: width / 2, y: height / 2 };
+
+    result.push({
+      objects: [{
+        index,
+        x: (width / 2 - anchor.x) * ratio,
+        y: (height / 2 - anchor.y) * ratio,
+        scale: 100,
+        opacity: 255,
+      }],
+      duration: frame.duration ?? ASEPRITE_DEFAULT_DURATION,
+    });
+  }
+
+  return { ratio, frame: result };
+}
+
+/**
+ * 导入 Aseprite/TexturePacker 导出的 JSON 与精灵图
+ *
+ * 精灵图保持原有排布转换为 WebP，精灵区域取自 JSON 中的 frame
+ *
+ * @param json - JSON 字符串或已解析的对象
+ * @param image - 精灵图 PNG
+ * @param options - 导入选项
+ * @returns 可直接传给 `encode` 的动画数据
+ * @throws H5AnimateError 如果 JSON 无效、帧旋转存放、标签或切片不存在，或图像转换失败
+ *
+ * @example
+ * ```typescript
+ * import { importAseprite, encode } from "@motajs/h5animate";
+ * import { readFileSync, writeFileSync } from "fs";
+ *
+ * const animation = await importAseprite(readFileSync("slash.json", "utf-8"), readFileSync("slash.png"), {
+ *   tag: "attack",
+ * });
+ *
+ * writeFileSync("slash.h5animate", encode(animation));
+ * ```
+ */
+export async function importAseprite(
+  json: string | AsepriteSheet,
+  image: Buffer,
+  options: AsepriteImportOptions = {},
+): Promise<DecodedH5Animate> {
+  const sheet = parseAsepriteSheet(json);
+  const spriteInfo = asepriteFramesToSpriteInfo(getAsepriteFrames(sheet));
+  const meta = asepriteToMeta(sheet, options);
+  const webpData = await convertToWebP(image, options.webp);
+
+  return { meta, spriteInfo, webpData };
+}
+
+/**
+ * 将帧列表按格式组织为 JSON 中的 frames
+ */
+function formatAsepriteFrames(
+  frames: Array<AsepriteFrame & { filename: string }>,
+  format: "hash" | "array",
+): AsepriteSheet["frames"] {
+  if (format === "array") {
+    return frames;
+  }
+  return Object.fromEntries(frames.map(({ filename, ...frame }) => [filename, frame]));
+}
+
+/**
+ * 导出渲染后的帧
+ */
+async function exportRenderedFrames(
+  animation: DecodedH5Animate,
+  options: AsepriteExportOptions,
+  name: string,
+): Promise<{ frames: Array<AsepriteFrame & { filename: string }>; image: Buffer; slices: AsepriteSlice[] }> {
+  const canvas = resolveRenderCanvas(animation.meta, getSpriteRects(animation.spriteInfo), options);
+  const rendered = await renderAllFrames(animation, { ...options, ...canvas });
+  const { positions, width, height } = packRects(rendered, {
+    layout: options.layout ?? "shelf",
+    padding: options.padding,
+  });
+
+  const image = await sharp({
+    create: { width: Math.max(1, width), height: Math.max(1, height), channels: 4, background: { r: 0, g: 0, b: 0, alpha: 0 } },
+  })
+    .composite(rendered.map((frame, i) => ({
+      input: frame.data,
+      raw: { width: frame.width, height: frame.height, channels: 4 as const },
+      left: positions[i].x,
+      top: positions[i].y,
+    })))
+    .png()
+    .toBuffer();
+
+  const durations = getFrameDurations(animation.meta);
+  const frames = rendered.map((frame, i) => ({
+    filename: `${name} ${i}`,
+    frame: { x: positions[i].x, y: positions[i].y, w: frame.width, h: frame.height },
+    rotated: false,
+    trimmed: false,
+    spriteSourceSize: { x: 0, y: 0, w: frame.width, h: frame.height },
+    sourceSize: { w: frame.width, h: frame.height },
+    duration: Math.round(durations[i]),
+  }));
+
+  const slices: AsepriteSlice[] = [{
+    name: "anchor",
+    color: "#0000ffff",
+    keys: [{
+      frame: 0,
+      bounds: { x: 0, y: 0, w: canvas.width, h: canvas.height },
+      pivot: { x: Math.round(canvas.anchorX), y: Math.round(canvas.anchorY) },
+    }],
+  }];
+
+  return { frames, image, slices };
+}
+
+/**
+ * 导出精灵图集
+ */
+async function exportSpriteAtlas(
+  animation: DecodedH5Animate,
+  name: string,
+): Promise<{ frames: Array<AsepriteFrame & { filename: string }>; image: Buffer; slices: AsepriteSlice[] }> {
+  const rects = getSpriteRects(animation.spriteInfo);
+  const frames: Array<AsepriteFrame & { filename: string }> = [];
+  const duration = Math.round(1000 / getAnimationFps(animation.meta));
+
+  rects.forEach((rect, i) => {
+    if (rect.width === 0 || rect.height === 0) return;
+
+    const sourceWidth = rect.sourceWidth ?? rect.width;
+    const sourceHeight = rect.sourceHeight ?? rect.height;
+    frames.push({
+      filename: `${name} ${i}`,
+      frame: { x: rect.x, y: rect.y, w: rect.width, h: rect.height },
+      rotated: false,
+      trimmed: rect.width !== sourceWidth || rect.height !== sourceHeight,
+      spriteSourceSize: { x: rect.offsetX ?? 0, y: rect.offsetY ?? 0, w: rect.width, h: rect.height },
+      sourceSize: { w: sourceWidth, h: sourceHeight },
+      duration,
+    });
+  });
+
+  const image = await sharp(animation.webpData).png().toBuffer();
+  return { frames, image, slices: [] };
+}
+
+/**
+ * 将 h5animate 导出为 Aseprite/TexturePacker 兼容的 JSON 与 PNG
+ *
+ * frames 模式渲染每一帧并记录 anchor 切片与帧时长，用 `importAseprite` 导入后对象位置与原动画一致；
+ * sprites 模式导出原样的精灵图集，空精灵不会出现在 JSON 中
+ *
+ * @param animation - 解码后的动画数据
+ * @param options - 导出选项
+ * @returns JSON 数据与精灵图 PNG
+ * @throws H5AnimateError 如果图像处理失败
+ *
+ * @example
+ * ```typescript
+ * import { decode, exportAseprite } from "@motajs/h5animate";
+ * import { readFileSync, writeFileSync } from "fs";
+ *
+ * const { json, image } = await exportAseprite(decode(readFileSync("slash.h5animate")), { name: "slash" });
+ *
+ * writeFileSync("slash.json", JSON.stringify(json, null, 2));
+ * writeFileSync("slash.png", image);
+ * ```
+ */
+export async function exportAseprite(
+  animation: DecodedH5Animate,
+  options: AsepriteExportOptions = {},
+): Promise<AsepriteExport> {
+  const name = options.name ?? "h5animate";
+  const { frames, image, slices } = options.mode === "sprites"
+    ? await exportSpriteAtlas(animation, name)
+    : await exportRenderedFrames(animation, options, name);
+  const { width = 0, height = 0 } = await sharp(image).metadata();
+
+  return {
+    json: {
+      frames: formatAsepriteFrames(frames, options.format ?? "hash"),
+      meta: {
+        app: "@motajs/h5animate",
+        version: "1.0",
+        image: options.image ?? `${name}.png`,
+        format: "RGBA8888",
+        size: { w: width, h: height },
+        scale: "1",
+        frameTags: [],
+        slices,
+      },
+    },
+    image,
+  };
+}
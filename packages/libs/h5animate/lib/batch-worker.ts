@@ -0,0 +1,11 @@
+/**
+ * 批量转换的工作线程
+ *
+ * 接收旧格式 JSON 字符串与转换选项，返回编码后的 h5animate 数据
+ */
+
+import { convertFromJsonString } from "./converter.js";
+import { serveWorkerTasks } from "./pool.js";
+import type { BatchConvertTask } from "./batch.js";
+
+serveWorkerTasks<BatchConvertTask, Uint8Array>(({ source, options }) => convertFromJsonString(source, options));
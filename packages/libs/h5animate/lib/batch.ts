@@ -0,0 +1,385 @@
+/**
+ * 批量转换
+ *
+ * 在工作线程池中将目录下的全部旧 .animate 文件转换为 h5animate，
+ * 按内容哈希跳过未修改的文件，单个文件失败不影响其余文件，最后生成转换报告
+ */
+
+import { createHash } from "node:crypto";
+import { mkdir, readFile, readdir, stat, writeFile } from "node:fs/promises";
+import { availableParallelism } from "node:os";
+import { dirname, extname, join, relative, resolve, sep } from "node:path";
+import { convertFromJsonString, type ConvertOptions } from "./converter.js";
+import { WorkerPool, serializeError, type SerializedError } from "./pool.js";
+import { reportProgress, throwIfAborted } from "./progress.js";
+import type { ProgressOptions } from "./types.js";
+
+/** 旧格式文件扩展名 */
+const LEGACY_EXTENSION = ".animate";
+
+/** 转换结果的扩展名 */
+const OUTPUT_EXTENSION = ".h5animate";
+
+/** 默认的哈希缓存文件名 */
+const CACHE_FILE_NAME = ".h5animate-cache.json";
+
+/** 哈希缓存的格式版本 */
+const CACHE_VERSION = 1;
+
+/**
+ * 可传入工作线程的转换选项，不含回调与取消信号
+ */
+export type BatchConvertSettings = Omit<ConvertOptions, "signal" | "onProgress" | "onWebPQuality">;
+
+/**
+ * 发送给工作线程的转换任务
+ */
+export interface BatchConvertTask {
+  /** 旧格式 JSON 字符串 */
+  source: string;
+  /** 转换选项 */
+  options: BatchConvertSettings;
+}
+
+/**
+ * 批量转换选项
+ *
+ * `onProgress` 以 file 阶段报告已处理的文件数，`signal` 触发后不再开始新的文件
+ */
+export interface BatchConvertOptions extends ProgressOptions {
+  /** 输出目录，保留相对目录结构（默认与源文件相同） */
+  outDir?: string;
+  /** 转换选项，参与内容哈希，修改后所有文件都会重新转换 */
+  convert?: BatchConvertSettings;
+  /**
+   * 工作线程数量（默认为可用的 CPU 数）。
+   * 工作线程通过 tsx 加载 TypeScript 源码，无法启动时改为在当前线程中转换；为 0 时在当前线程中依次转换
+   */
+  workers?: number;
+  /** 哈希缓存文件，false 表示不使用缓存（默认为输出目录下的 .h5animate-cache.json） */
+  cacheFile?: string | false;
+  /** 忽略缓存，重新转换全部文件 */
+  force?: boolean;
+  /** JSON 报告的输出路径 */
+  jsonReport?: string;
+  /** Markdown 报告的输出路径 */
+  markdownReport?: string;
+}
+
+/**
+ * 单个文件的处理状态
+ * - converted: 已转换
+ * - skipped: 内容与转换选项均未修改且输出文件存在，已跳过
+ * - failed: 转换失败
+ */
+export type BatchFileStatus = "converted" | "skipped" | "failed";
+
+/**
+ * 单个文件的处理结果
+ */
+export interface BatchFileResult {
+  /** 源文件相对于源目录的路径，以 / 分隔 */
+  file: string;
+  /** 输出文件的路径 */
+  output: string;
+  status: BatchFileStatus;
+  /** 源文件与转换选项的 SHA-256 */
+  hash: string;
+  /** 源文件字节数 */
+  sizeBefore: number;
+  /** 输出文件字节数，失败时没有此项 */
+  sizeAfter?: number;
+  /** 失败原因，H5AnimateError 带有错误代码 */
+  error?: SerializedError;
+}
+
+/**
+ * 批量转换报告
+ */
+export interface BatchReport {
+  /** 源目录 */
+  sourceDir: string;
+  /** 输出目录 */
+  outDir: string;
+  /** 按路径排序的文件结果 */
+  files: BatchFileResult[];
+  converted: number;
+  skipped: number;
+  failed: number;
+  /** 成功文件的源文件总字节数 */
+  sizeBefore: number;
+  /** 成功文件的输出文件总字节数 */
+  sizeAfter: number;
+  /** 耗时（毫秒） */
+  duration: number;
+  /** 实际使用的工作线程数量，0 表示在当前线程中转换 */
+  workers: number;
+  /** 工作线程无法启动、改为在当前线程中转换的原因 */
+  workerError?: string;
+}
+
+/** 哈希缓存文件的结构 */
+interface HashCache {
+  version: number;
+  /** 源文件相对路径到哈希的映射 */
+  files: Record<string, string>;
+}
+
+/**
+ * 列出目录中的文件
+ *
+ * @param directory - 目录
+ * @param recursive - 是否递归子目录
+ * @returns 排序后的文件绝对路径
+ */
+export async function listFiles(directory: string, recursive: boolean): Promise<string[]> {
+  const files: string[] = [];
+  const entries = await readdir(directory, { withFileTypes: true });
+
+  for (const entry of entries) {
+    const path = join(directory, entry.name);
+    if (entry.isDirectory()) {
+      if (recursive) {
+        files.push(...await listFiles(path, true));
+      }
+    } else if (entry.isFile()) {
+      files.push(path);
+    }
+  }
+
+  return files.sort();
+}
+
+/**
+ * 计算源文件与转换选项的哈希
+ *
+ * @param source - 源文件内容
+ * @param options - 转换选项
+ * @returns 十六进制 SHA-256
+ */
+export function hashConvertInput(source: Uint8Array, options: BatchConvertSettings = {}): string {
+  return createHash("sha256")
+    .update(JSON.stringify(options))
+    .update("\0")
+    .update(source)
+    .digest("hex");
+}
+
+/**
+ * 读取哈希缓存，文件不存在或格式不符时视为空缓存
+ */
+async function readHashCache(path: string): Promise<Record<string, string>> {
+  try {
+    const cache = JSON.parse(await readFile(path, "utf-8")) as HashCache;
+    return cache.version === CACHE_VERSION && cache.files ? cache.files : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * 获取文件字节数，文件不存在时返回 undefined
+ */
+async function getFileSize(path: string): Promise<number | undefined> {
+  const stats = await stat(path).catch(() => null);
+  return stats?.isFile() ? stats.size : undefined;
+}
+
+/**
+ * 启动批量转换的工作线程池
+ *
+ * 工作线程不会继承主线程注册的加载器，因此先在线程中注册 tsx 再加载工作线程脚本
+ *
+ * @param size - 线程数量
+ * @returns 至少有一个线程就绪的线程池
+ * @throws Error 如果无法解析 tsx 或没有线程能够启动
+ */
+async function startBatchPool(size: number): Promise<WorkerPool<BatchConvertTask, Uint8Array>> {
+  let pool: WorkerPool<BatchConvertTask, Uint8Array> | undefined;
+  try {
+    const loader = JSON.stringify(import.meta.resolve("tsx/esm/api"));
+    const entry = JSON.stringify(new URL("./batch-worker.ts", import.meta.url).href);
+    const script = `import(${loader}).then(({ register }) => { register(); return import(${entry}); });`;
+    pool = new WorkerPool<BatchConvertTask, Uint8Array>(script, size, { eval: true });
+    await pool.ready();
+    return pool;
+  } catch (error) {
+    await pool?.close();
+    throw error;
+  }
+}
+
+/**
+ * 批量转换目录下的全部 .animate 文件
+ *
+ * 递归查找源目录中的 .animate 文件，在工作线程池中并行转换。
+ * 工作线程无法启动时在当前线程中转换，报告的 `workers` 为 0 并在 `workerError` 中记录原因。
+ * 源文件内容与转换选项均未修改且输出文件存在时跳过；音效目录中的文件不参与哈希，修改音效后需要指定 `force`。
+ * 转换失败的文件记录在报告中，不会中断其余文件
+ *
+ * @param sourceDir - 源目录，通常为项目的 animates 文件夹
+ * @param options - 批量转换选项
+ * @returns 转换报告
+ * @throws H5AnimateError 如果已取消，错误代码为 ABORTED
+ *
+ * @example
+ * ```typescript
+ * import { convertDirectory } from "@motajs/h5animate";
+ *
+ * const report = await convertDirectory("project/animates", {
+ *   outDir: "dist/animates",
+ *   convert: { metaEncoding: "binary" },
+ *   markdownReport: "dist/animates/report.md",
+ * });
+ *
+ * console.log(`转换 ${report.converted} 个，跳过 ${report.skipped} 个，失败 ${report.failed} 个`);
+ * ```
+ */
+export async function convertDirectory(
+  sourceDir: string,
+  options: BatchConvertOptions = {},
+): Promise<BatchReport> {
+  const startTime = Date.now();
+  const root = resolve(sourceDir);
+  const outDir = resolve(options.outDir ?? root);
+  const settings: BatchConvertSettings = {
+    ...options.convert,
+    soundsDir: options.convert?.soundsDir && resolve(options.convert.soundsDir),
+  };
+
+  const sources = (await listFiles(root, true)).filter((file) => extname(file) === LEGACY_EXTENSION);
+  const cacheFile = options.cacheFile === false ? undefined : resolve(options.cacheFile ?? join(outDir, CACHE_FILE_NAME));
+  const cache = cacheFile && !options.force ? await readHashCache(cacheFile) : {};
+
+  const workerCount = Math.min(options.workers ?? availableParallelism(), sources.length);
+  let pool: WorkerPool<BatchConvertTask, Uint8Array> | undefined;
+  let workerError: string | undefined;
+  if (workerCount > 0) {
+    try {
+      pool = await startBatchPool(workerCount);
+    } catch (error) {
+      workerError = serializeError(error).message;
+    }
+  }
+
+  const results: BatchFileResult[] = new Array(sources.length);
+  let next = 0;
+  let completed = 0;
+
+  const processFile = async (path: string): Promise<BatchFileResult> => {
+    const file = relative(root, path).split(sep).join("/");
+    const output = join(outDir, file.slice(0, -LEGACY_EXTENSION.length) + OUTPUT_EXTENSION);
+    const source = await readFile(path);
+    const hash = hashConvertInput(source, settings);
+    const result = { file, output, hash, sizeBefore: source.length };
+
+    if (cache[file] === hash) {
+      const sizeAfter = await getFileSize(output);
+      if (sizeAfter !== undefined) {
+        return { ...result, status: "skipped", sizeAfter };
+      }
+    }
+
+    try {
+      const task = { source: source.toString("utf-8"), options: settings };
+      const data = pool ? await pool.run(task) : await convertFromJsonString(task.source, task.options);
+      await mkdir(dirname(output), { recursive: true });
+      await writeFile(output, data);
+      return { ...result, status: "converted", sizeAfter: data.length };
+    } catch (error) {
+      throwIfAborted(options.signal);
+      return { ...result, status: "failed", error: serializeError(error) };
+    }
+  };
+
+  try {
+    reportProgress(options, "file", 0, sources.length);
+
+    await Promise.all(Array.from({ length: Math.max(1, workerCount) }, async () => {
+      while (next < sources.length) {
+        throwIfAborted(options.signal);
+        const index = next++;
+        results[index] = await processFile(sources[index]);
+        reportProgress(options, "file", ++completed, sources.length);
+      }
+    }));
+  } finally {
+    await pool?.close();
+  }
+
+  const succeeded = results.filter((result) => result.status !== "failed");
+  const report: BatchReport = {
+    sourceDir: root,
+    outDir,
+    files: results,
+    converted: results.filter((result) => result.status === "converted").length,
+    skipped: results.filter((result) => result.status === "skipped").length,
+    failed: results.length - succeeded.length,
+    sizeBefore: succeeded.reduce((sum, result) => sum + result.sizeBefore, 0),
+    sizeAfter: succeeded.reduce((sum, result) => sum + (result.sizeAfter ?? 0), 0),
+    duration: Date.now() - startTime,
+    workers: pool ? workerCount : 0,
+    ...(workerError !== undefined && { workerError }),
+  };
+
+  if (cacheFile) {
+    const files = Object.fromEntries(succeeded.map((result) => [result.file, result.hash]));
+    await mkdir(dirname(cacheFile), { recursive: true });
+    await writeFile(cacheFile, JSON.stringify({ version: CACHE_VERSION, files } satisfies HashCache, null, 2));
+  }
+  if (options.jsonReport) {
+    await mkdir(dirname(resolve(options.jsonReport)), { recursive: true });
+    await writeFile(options.jsonReport, JSON.stringify(report, null, 2));
+  }
+  if (options.markdownReport) {
+    await mkdir(dirname(resolve(options.markdownReport)), { recursive: true });
+    await writeFile(options.markdownReport, formatBatchReportMarkdown(report));
+  }
+
+  return report;
+}
+
+/**
+ * 将批量转换报告格式化为 Markdown
+ *
+ * @param report - 转换报告
+ * @returns Markdown 文本，包含汇总与逐文件的表格
+ */
+export function formatBatchReportMarkdown(report: BatchReport): string {
+  const statusText: Record<BatchFileStatus, string> = {
+    converted: "已转换",
+    skipped: "已跳过",
+    failed: "失败",
+  };
+  const ratio = report.sizeBefore > 0
+    ? `${((report.sizeAfter / report.sizeBefore) * 100).toFixed(1)}%`
+    : "-";
+  const escape = (text: string) => text.replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+  const workers = report.workers > 0
+    ? `${report.workers} 个`
+    : `未使用${report.workerError ? `，无法启动: ${escape(report.workerError)}` : ""}`;
+
+  const lines = [
+    "# h5animate 批量转换报告",
+    "",
+    `- 源目录: ${report.sourceDir}`,
+    `- 输出目录: ${report.outDir}`,
+    `- 已转换 ${report.converted} 个，已跳过 ${report.skipped} 个，失败 ${report.failed} 个，耗时 ${report.duration} 毫秒`,
+    `- 体积: ${report.sizeBefore} → ${report.sizeAfter} 字节（${ratio}）`,
+    `- 工作线程: ${workers}`,
+    "",
+    "| 文件 | 状态 | 转换前 | 转换后 | 错误 |",
+    "| --- | --- | ---: | ---: | --- |",
+  ];
+
+  for (const result of report.files) {
+    const error = result.error
+      ? escape(result.error.code ? `${result.error.code} ${result.error.message}` : result.error.message)
+      : "";
+    lines.push(
+      `| ${escape(result.file)} | ${statusText[result.status]} | ${result.sizeBefore} | ${result.sizeAfter ?? "-"} | ${error} |`,
+    );
+  }
+
+  return `${lines.join("\n")}\n`;
+}
@@ -0,0 +1,7 @@
+/**
+ * h5animate 命令行入口
+ */
+
+import { runCli } from "./cli.js";
+
+process.exitCode = await runCli(process.argv.slice(2));
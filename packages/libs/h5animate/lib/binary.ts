@@ -4,18 +4,59 @@
  * 提供用于读写 h5animate 二进制格式的工具类
  */
 
-import { H5AnimateError, H5AnimateErrorCode } from "./errors.js";
+import { H5AnimateError, H5AnimateErrorCode, createSizeMismatchError } from "./errors.js";
+import type { H5AnimateChunk } from "./types.js";
+
+/** 分块头大小：4 字节标签 + 4 字节长度 */
+export const CHUNK_HEADER_SIZE = 8;
+
+/**
+ * 计算分块占用的字节数
+ *
+ * @param data - 分块数据
+ * @returns 分块头与数据的总字节数
+ */
+export function getChunkSize(data: Buffer): number {
+  return CHUNK_HEADER_SIZE + data.length;
+}
+
+/**
+ * 检查分块标签是否为 4 个可打印 ASCII 字符
+ *
+ * @param tag - 分块标签
+ * @returns 是否有效
+ */
+export function isValidChunkTag(tag: string): boolean {
+  return /^[\x20-\x7e]{4}$/.test(tag);
+}
+
+/**
+ * 将字节解码为 ASCII 字符串
+ *
+ * 与 Node 的 `buffer.toString("ascii")` 一致，忽略每个字节的最高位
+ *
+ * @param bytes - 字节数据
+ * @returns 字符串
+ */
+export function decodeAscii(bytes: Uint8Array): string {
+  let result = "";
+  for (let i = 0; i < bytes.length; i++) {
+    result += String.fromCharCode(bytes[i] & 0x7f);
+  }
+  return result;
+}
 
 /**
  * 二进制数据解析器
  *
- * 用于从 Buffer 中按顺序读取各种数据类型
+ * 用于从字节数据中按顺序读取各种数据类型。只依赖 Uint8Array 与 DataView，
+ * 传入 Buffer 时读取的字节数据仍为 Buffer，传入 Uint8Array 时可在浏览器中使用
  */
-export class BinaryParser {
+export class BinaryParser<T extends Uint8Array = Buffer> {
   private view: DataView;
   private offset: number = 0;
 
-  constructor(private buffer: Buffer) {
+  constructor(private buffer: T) {
     this.view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
   }
 
@@ -36,19 +77,38 @@ export class BinaryParser {
     this.checkBounds(length);
     const bytes = this.buffer.subarray(this.offset, this.offset + length);
     this.offset += length;
-    return bytes.toString("ascii");
+    return decodeAscii(bytes);
   }
 
   /**
    * 读取指定长度的字节数据
    */
-  readBytes(length: number): Buffer {
+  readBytes(length: number): T {
     this.checkBounds(length);
-    const bytes = this.buffer.subarray(this.offset, this.offset + length);
+    // Buffer 的 subarray 返回 Buffer，Uint8Array 的 subarray 返回 Uint8Array
+    const bytes = this.buffer.subarray(this.offset, this.offset + length) as T;
     this.offset += length;
     return bytes;
   }
 
+  /**
+   * 读取一个分块（4 字节标签 + 4 字节长度 + 数据）
+   *
+   * @throws H5AnimateError 如果分块声明的长度超出剩余数据
+   */
+  readChunk(): H5AnimateChunk<T> {
+    const position = this.offset;
+    const tag = this.readString(4);
+    const length = this.readUInt32LE();
+
+    if (length > this.getRemainingBytes()) {
+      throw createSizeMismatchError(`分块 "${tag}"`, length, this.getRemainingBytes(), position);
+    }
+
+    const data = this.readBytes(length);
+    return { tag, data };
+  }
+
   /**
    * 检查是否还有更多数据可读
    */
@@ -63,6 +123,13 @@ export class BinaryParser {
     return this.offset;
   }
 
+  /**
+   * 获取底层的字节数据
+   */
+  getBuffer(): T {
+    return this.buffer;
+  }
+
   /**
    * 获取剩余可读字节数
    */
@@ -121,6 +188,22 @@ export class BinaryWriter {
     this.offset += source.length;
   }
 
+  /**
+   * 写入一个分块（4 字节标签 + 4 字节长度 + 数据）
+   */
+  writeChunk(tag: string, data: Buffer): void {
+    if (!isValidChunkTag(tag)) {
+      throw new H5AnimateError(
+        H5AnimateErrorCode.VALIDATION_ERROR,
+        `无效的分块标签: "${tag}"，必须为 4 个可打印 ASCII 字符`,
+        { position: this.offset },
+      );
+    }
+    this.writeString(tag);
+    this.writeUInt32LE(data.length);
+    this.writeBuffer(data);
+  }
+
   /**
    * 获取写入的 Buffer
    */
@@ -0,0 +1,265 @@
+/**
+ * H5Animate 浏览器解码器
+ *
+ * 不依赖 Node 的 Buffer 与 sharp，在 ArrayBuffer、Uint8Array 或 DataView 上解码，
+ * 并通过 `createImageBitmap` 解码精灵图，可在页面、Web Worker 和 Service Worker 中使用
+ *
+ * @packageDocumentation
+ *
+ * @example 基本使用
+ * ```typescript
+ * import { decode, loadSpriteSheet, extractSprites } from "@motajs/h5animate/browser";
+ *
+ * const response = await fetch("animation.h5animate");
+ * const animation = decode(await response.arrayBuffer());
+ *
+ * const sheet = await loadSpriteSheet(animation.webpData);
+ * const sprites = await extractSprites(animation, sheet);
+ * ```
+ */
+
+import { decodeH5Animate, getSpriteRect, getSpriteRects, type DecodeOptions } from "./decoder.js";
+import { createFrameExtractionError, createWebPProcessingError } from "./errors.js";
+import type { DecodedH5Animate, SpriteRect } from "./types.js";
+
+/**
+ * 浏览器中可解码的二进制数据
+ */
+export type H5AnimateSource = ArrayBuffer | ArrayBufferView;
+
+/**
+ * 浏览器中的解码结果，字节数据为 Uint8Array
+ */
+export type BrowserDecodedH5Animate = DecodedH5Animate<Uint8Array>;
+
+/**
+ * 将二进制数据转换为 Uint8Array
+ *
+ * 不复制数据，返回的 Uint8Array 与输入共享内存
+ *
+ * @param source - ArrayBuffer 或任意 ArrayBufferView（Uint8Array、DataView 等）
+ * @returns 字节数据
+ */
+export function toUint8Array(source: H5AnimateSource): Uint8Array {
+  if (source instanceof Uint8Array) {
+    return source;
+  }
+  if (ArrayBuffer.isView(source)) {
+    return new Uint8Array(source.buffer, source.byteOffset, source.byteLength);
+  }
+  return new Uint8Array(source);
+}
+
+/**
+ * 解码 h5animate 文件
+ *
+ * 与 Node 入口的 `decode` 行为一致，结果中的 `webpData` 与 `chunks` 为输入数据的视图
+ *
+ * @param source - h5animate 文件的二进制数据
+ * @param options - 解码选项
+ * @returns 解码后的数据
+ * @throws H5AnimateError 如果文件格式无效或严格模式下验证失败
+ *
+ * @example
+ * ```typescript
+ * const animation = decode(await file.arrayBuffer(), { strict: true });
+ * ```
+ */
+export function decode(source: H5AnimateSource, options?: DecodeOptions): BrowserDecodedH5Animate {
+  return decodeH5Animate(toUint8Array(source), options);
+}
+
+/**
+ * 查找精灵在精灵图上的区域
+ *
+ * @param animation - 解码后的动画数据
+ * @param index - 精灵索引，即 H5AnimateObject.index
+ * @returns 精灵区域，如果索引越界或为空精灵则返回 undefined
+ */
+export function getSprite(
+  animation: BrowserDecodedH5Animate,
+  index: number,
+): SpriteRect | undefined {
+  return getSpriteRect(animation.spriteInfo, index);
+}
+
+/**
+ * 解码 WebP 精灵图
+ *
+ * @param webpData - WebP 精灵图数据
+ * @returns 精灵图位图，不再使用时应调用 `close()` 释放
+ * @throws H5AnimateError 如果当前环境不支持 createImageBitmap 或解码失败
+ */
+export async function loadSpriteSheet(webpData: Uint8Array): Promise<ImageBitmap> {
+  if (typeof createImageBitmap !== "function") {
+    throw createWebPProcessingError("当前环境不支持 createImageBitmap");
+  }
+
+  try {
+    // 解码结果来自 ArrayBuffer 上的视图，Blob 不接受 SharedArrayBuffer
+    const blob = new Blob([webpData as Uint8Array<ArrayBuffer>], { type: "image/webp" });
+    return await createImageBitmap(blob);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "未知错误";
+    throw createWebPProcessingError(`解码精灵图失败: ${message}`);
+  }
+}
+
+/**
+ * 从精灵图中提取单个精灵
+ *
+ * 裁剪过透明边框的精灵会还原为原始尺寸，裁剪区域位于原始偏移处
+ *
+ * @param sheet - 精灵图位图
+ * @param rect - 精灵区域
+ * @returns 精灵位图，空精灵返回 null
+ * @throws H5AnimateError 如果提取失败
+ */
+export async function extractSprite(
+  sheet: ImageBitmap,
+  rect: SpriteRect,
+): Promise<ImageBitmap | null> {
+  if (rect.width === 0 || rect.height === 0) {
+    return null;
+  }
+
+  const sourceWidth = rect.sourceWidth ?? rect.width;
+  const sourceHeight = rect.sourceHeight ?? rect.height;
+
+  try {
+    if (sourceWidth === rect.width && sourceHeight === rect.height) {
+      return await createImageBitmap(sheet, rect.x, rect.y, rect.width, rect.height);
+    }
+
+    // 在原始尺寸的画布上按偏移绘制裁剪区域，四周保持透明
+    const canvas = new OffscreenCanvas(sourceWidth, sourceHeight);
+    const context = canvas.getContext("2d");
+    if (!context) {
+      throw new Error("无法创建 2D 绘图上下文");
+    }
+    context.drawImage(
+      sheet,
+      rect.x, rect.y, rect.width, rect.height,
+      rect.offsetX ?? 0, rect.offsetY ?? 0, rect.width, rect.height,
+    );
+    return await createImageBitmap(canvas);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "未知错误";
+    throw createFrameExtractionError(`提取精灵失败: ${message}`);
+  }
+}
+
+/**
+ * 提取动画中的所有精灵
+ *
+ * @param animation - 解码后的动画数据
+ * @param sheet - 已解码的精灵图位图，缺省时从 `animation.webpData` 解码
+ * @returns 按精灵索引排列的精灵位图，空精灵为 null
+ * @throws H5AnimateError 如果解码或提取失败
+ */
+export async function extractSprites(
+  animation: BrowserDecodedH5Animate,
+  sheet?: ImageBitmap,
+): Promise<Array<ImageBitmap | null>> {
+  const source = sheet ?? await loadSpriteSheet(animation.webpData);
+
+  try {
+    return await Promise.all(
+      getSpriteRects(animation.spriteInfo).map((rect) => extractSprite(source, rect)),
+    );
+  } finally {
+    // 自行解码的精灵图只用于提取，提取完成后释放
+    if (!sheet) {
+      source.close();
+    }
+  }
+}
+
+// ============ 播放 ============
+
+export type { H5AnimatePlayerOptions } from "./player.js";
+export { H5AnimatePlayer, drawH5AnimateObject, drawH5AnimateFrame } from "./player.js";
+
+export {
+  DEFAULT_FPS,
+  getAnimationFps,
+  getFrameDuration,
+  getFrameDurations,
+  getAnimationDuration,
+  getFrameAtTime,
+} from "./timing.js";
+
+// ============ 时间轴 ============
+
+export type {
+  EasingName,
+  Easing,
+  Keyframe,
+  TimelineTrack,
+  SoundCue,
+  TimelineDefinition,
+} from "./timeline.js";
+export { easings, resolveEasing, interpolateTrack, buildTimeline } from "./timeline.js";
+
+export type {
+  RatioPatch,
+  FpsPatch,
+  FrameUpdatePatch,
+  FrameRemovePatch,
+  MetaPatch,
+  MetaEdit,
+  FrameRange,
+  SetRatioOptions,
+} from "./editor.js";
+export {
+  diffMeta,
+  applyPatches,
+  insertFrames,
+  deleteFrames,
+  duplicateFrames,
+  moveFrames,
+  reverseFrames,
+  cropFrames,
+  shiftObjects,
+  moveLayer,
+  retimeLayer,
+  setRatio,
+  setFps,
+  setFrameDuration,
+} from "./editor.js";
+
+// ============ 嵌入音效 ============
+
+export type { EmbeddedSound } from "./sounds.js";
+export {
+  CHUNK_SOUNDS,
+  decodeSoundChunk,
+  getEmbeddedSounds,
+  listEmbeddedSounds,
+  getEmbeddedSound,
+  getReferencedSounds,
+} from "./sounds.js";
+
+// ============ 类型与工具 ============
+
+export type { DecodeOptions, DecodeLimits } from "./decoder.js";
+
+export type {
+  H5AnimateMeta,
+  H5AnimateFrame,
+  SoundMeta,
+  H5AnimateObject,
+  SpriteInfo,
+  SpriteDimension,
+  SpriteRect,
+  DecodedH5Animate,
+  H5AnimateChunk,
+} from "./types.js";
+
+export type { ValidationIssue } from "./errors.js";
+export { H5AnimateErrorCode, H5AnimateError } from "./errors.js";
+
+export type { WebPSize } from "./webpinfo.js";
+export { readWebPSize } from "./webpinfo.js";
+
+export { getSpriteRects } from "./decoder.js";
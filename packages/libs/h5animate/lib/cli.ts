@@ -0,0 +1,798 @@
+/**
+ * H5Animate 命令行工具
+ *
+ * 提供 convert、batch、info、extract、validate、render 与 diff 子命令，批量处理旧格式转换、
+ * 文件检查、图像导出和版本比较
+ */
+
+import { mkdir, readFile, stat, writeFile } from "node:fs/promises";
+import { dirname, extname, join, relative, resolve, sep } from "node:path";
+import { parseArgs, type ParseArgsConfig } from "node:util";
+import {
+  convertFromJson,
+  decode,
+  exportAnimation,
+  renderFrame,
+} from "./api.js";
+import { convertDirectory, listFiles, type BatchConvertSettings } from "./batch.js";
+import { BinaryParser } from "./binary.js";
+import { parseHeader } from "./decoder.js";
+import { diffAnimations, formatAnimationDiff } from "./diff.js";
+import { H5AnimateError } from "./errors.js";
+import { getEmbeddedSounds } from "./sounds.js";
+import { getAnimationDuration, getAnimationFps } from "./timing.js";
+import { getMetaEncoding, isChunkedVersion, needsSpriteRects } from "./version.js";
+import { splitSpriteSheetToPng, type WebPOptions } from "./webp.js";
+import { readWebPSize } from "./webpinfo.js";
+import type { AnimatedImageFormat } from "./exporter.js";
+import type { PackingLayout } from "./packer.js";
+import type { DecodedH5Animate, FileHeader, MetaEncoding } from "./types.js";
+
+/**
+ * 命令行输入输出
+ */
+export interface CliIO {
+  /** 写入标准输出，text 不含换行 */
+  stdout: (text: string) => void;
+  /** 写入标准错误，text 不含换行 */
+  stderr: (text: string) => void;
+  /** 解析相对路径的工作目录 */
+  cwd: string;
+}
+
+/**
+ * 文件信息，即 `info --json` 的输出
+ */
+export interface AnimationInfo {
+  /** 文件路径 */
+  file: string;
+  /** 文件字节数 */
+  size: number;
+  /** 文件头 */
+  header: FileHeader & { metaEncoding: MetaEncoding };
+  /** 精灵图信息 */
+  sprites: {
+    count: number;
+    /** 空精灵数量 */
+    empty: number;
+    /** 是否记录了打包或裁剪后的精灵区域 */
+    packed: boolean;
+    /** 精灵图尺寸，无法读取时为 null */
+    sheet: { width: number; height: number } | null;
+  };
+  /** 帧统计 */
+  frames: {
+    count: number;
+    ratio: number;
+    /** 帧率 */
+    fps: number;
+    /** 播放一遍的总时长（毫秒） */
+    duration: number;
+    /** 对象总数 */
+    objects: number;
+    /** 单帧最多对象数 */
+    maxObjects: number;
+    /** 没有对象的帧数 */
+    emptyFrames: number;
+    /** 音效播放次数 */
+    soundEvents: number;
+    /** 引用的不同音效名称 */
+    sounds: string[];
+  };
+  /** 嵌入的音效名称 */
+  embeddedSounds: string[];
+  /** 未识别的分块 */
+  chunks: Array<{ tag: string; size: number }>;
+}
+
+/** 用法错误，退出码为 2 */
+class UsageError extends Error {}
+
+/** 命令行用法 */
+const USAGE = `用法: h5animate <命令> [选项]
+
+命令:
+  convert <输入...>   将旧 .animate 文件转换为 h5animate，输入可以是文件、目录或 glob
+    -o, --out-dir <目录>        输出目录，保留相对目录结构（默认与输入文件相同）
+    -r, --recursive             递归处理目录
+    --format-version <版本>     写入的格式版本
+    --meta-encoding <编码>      元信息编码：json 或 binary
+    --quality <1-100>           有损 WebP 质量（默认无损）
+    --auto-quality              按感知质量自动选择压缩设置
+    --layout <排布>             精灵图排布：vertical、shelf 或 maxrects
+    --trim                      裁剪精灵四周的透明边框
+    --sounds-dir <目录>         嵌入 se 引用的音效
+    --fps <帧率>                写入元数据的帧率（默认不写入，按 20 播放）
+  batch <目录>        在工作线程中并行转换目录下的全部 .animate，跳过未修改的文件
+    -o, --out-dir <目录>        输出目录（默认与源文件相同）
+    -j, --jobs <数量>           工作线程数量（默认为 CPU 数，0 表示在主线程中转换）
+    --force                     忽略哈希缓存，重新转换全部文件
+    --json-report <文件>        写入 JSON 报告
+    --markdown-report <文件>    写入 Markdown 报告
+    以及 convert 的 --format-version、--meta-encoding、--quality、--auto-quality、--layout、--trim、--sounds-dir、--fps
+  info <文件>         输出文件头、精灵图信息与帧统计
+    --json                      以 JSON 输出
+  extract <文件>      将渲染后的帧导出为 PNG
+    -o, --out-dir <目录>        输出目录（默认为文件名加 -frames 或 -sprites）
+    --sprites                   导出精灵而不是渲染后的帧
+  validate <输入...>  严格验证 h5animate 文件，输入可以是文件、目录或 glob
+    -r, --recursive             递归处理目录
+  render <文件>       渲染为动图，或用 --frame 渲染单帧 PNG
+    -o, --output <文件>         输出文件，格式由扩展名决定：.webp、.gif、.png/.apng
+    --format <格式>             输出格式：webp、gif 或 apng
+    --frame <索引>              只渲染一帧
+    --delay <毫秒>              帧延迟（默认为元数据中的帧时长）
+    --loop <次数>               循环次数，0 表示无限循环（默认 0）
+    --width <像素>、--height <像素>  画布尺寸
+  diff <修改前> <修改后>  比较两个 h5animate 文件，有差异时退出码为 1
+    --json                      以 JSON 输出
+    --no-pixels                 不比较精灵像素
+    --threshold <0-255>         单个通道允许的差值（默认 0）
+    --diff-image <文件>         将像素有变化的精灵写入 PNG 差异图
+`;
+
+/** convert 与 batch 共用的转换选项 */
+const CONVERT_SETTING_OPTIONS = {
+  "format-version": { type: "string" },
+  "meta-encoding": { type: "string" },
+  "quality": { type: "string" },
+  "auto-quality": { type: "boolean" },
+  "layout": { type: "string" },
+  "trim": { type: "boolean" },
+  "sounds-dir": { type: "string" },
+  "fps": { type: "string" },
+} satisfies ParseArgsConfig["options"];
+
+/** 各子命令的选项 */
+const COMMAND_OPTIONS = {
+  convert: {
+    ...CONVERT_SETTING_OPTIONS,
+    "out-dir": { type: "string", short: "o" },
+    "recursive": { type: "boolean", short: "r" },
+  },
+  batch: {
+    ...CONVERT_SETTING_OPTIONS,
+    "out-dir": { type: "string", short: "o" },
+    "jobs": { type: "string", short: "j" },
+    "force": { type: "boolean" },
+    "json-report": { type: "string" },
+    "markdown-report": { type: "string" },
+  },
+  info: {
+    json: { type: "boolean" },
+  },
+  extract: {
+    "out-dir": { type: "string", short: "o" },
+    "sprites": { type: "boolean" },
+  },
+  validate: {
+    recursive: { type: "boolean", short: "r" },
+  },
+  render: {
+    output: { type: "string", short: "o" },
+    format: { type: "string" },
+    frame: { type: "string" },
+    delay: { type: "string" },
+    loop: { type: "string" },
+    width: { type: "string" },
+    height: { type: "string" },
+  },
+  diff: {
+    "json": { type: "boolean" },
+    "no-pixels": { type: "boolean" },
+    "threshold": { type: "string" },
+    "diff-image": { type: "string" },
+  },
+} satisfies Record<string, ParseArgsConfig["options"]>;
+
+type CommandName = keyof typeof COMMAND_OPTIONS;
+
+/** 子命令的解析结果 */
+interface ParsedCommand<K extends CommandName> {
+  values: ReturnType<typeof parseArgs<{ options: (typeof COMMAND_OPTIONS)[K]; allowPositionals: true }>>["values"];
+  positionals: string[];
+}
+
+/** 旧格式文件扩展名 */
+const LEGACY_EXTENSION = ".animate";
+
+/** h5animate 文件扩展名 */
+const H5ANIMATE_EXTENSION = ".h5animate";
+
+/** 动图扩展名对应的格式 */
+const FORMAT_BY_EXTENSION: Readonly<Record<string, AnimatedImageFormat>> = {
+  ".webp": "webp",
+  ".gif": "gif",
+  ".png": "apng",
+  ".apng": "apng",
+};
+
+/** 默认输入输出 */
+function createProcessIO(): CliIO {
+  return {
+    stdout: (text) => process.stdout.write(`${text}\n`),
+    stderr: (text) => process.stderr.write(`${text}\n`),
+    cwd: process.cwd(),
+  };
+}
+
+/**
+ * 格式化错误信息
+ */
+function formatError(error: unknown): string {
+  if (error instanceof H5AnimateError) {
+    const lines = [`[${error.code}] ${error.message}`];
+    for (const issue of error.issues ?? []) {
+      lines.push(`  ${issue.path}: ${issue.message}`);
+    }
+    return lines.join("\n");
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * 解析整数选项
+ *
+ * @throws UsageError 如果不是范围内的整数
+ */
+function parseIntegerOption(
+  value: string | undefined,
+  name: string,
+  min: number,
+  max: number = Number.MAX_SAFE_INTEGER,
+): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < min || number > max) {
+    throw new UsageError(`--${name} 必须是 ${min} 到 ${max} 之间的整数: ${value}`);
+  }
+  return number;
+}
+
+/**
+ * 解析正数选项，可以是小数
+ *
+ * @throws UsageError 如果不是有限的正数
+ */
+function parsePositiveNumberOption(value: string | undefined, name: string): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const number = Number(value);
+  if (!Number.isFinite(number) || number <= 0) {
+    throw new UsageError(`--${name} 必须是正数: ${value}`);
+  }
+  return number;
+}
+
+/**
+ * 校验枚举选项
+ *
+ * @throws UsageError 如果取值不在可选项中
+ */
+function parseChoiceOption<T extends string>(
+  value: string | undefined,
+  name: string,
+  choices: readonly T[],
+): T | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  if (!(choices as readonly string[]).includes(value)) {
+    throw new UsageError(`--${name} 只能是 ${choices.join("、")}: ${value}`);
+  }
+  return value as T;
+}
+
+/**
+ * 将 glob 模式转换为匹配相对路径的正则表达式
+ *
+ * 支持 `**`（任意层目录）、`*`（除分隔符外的任意字符）与 `?`（单个字符）
+ *
+ * @param pattern - 以 `/` 分隔的 glob 模式
+ * @returns 正则表达式
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = "";
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "*" && pattern[i + 1] === "*") {
+      if (pattern[i + 2] === "/") {
+        source += "(?:.*/)?";
+        i += 2;
+      } else {
+        source += ".*";
+        i += 1;
+      }
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/** 展开后的输入文件 */
+interface InputFile {
+  /** 文件绝对路径 */
+  path: string;
+  /** 计算输出相对路径的基准目录 */
+  base: string;
+}
+
+/**
+ * 将文件、目录与 glob 输入展开为文件列表
+ *
+ * 目录中只选取指定扩展名的文件，glob 与直接指定的文件不检查扩展名
+ *
+ * @param inputs - 输入
+ * @param extension - 目录中选取的扩展名
+ * @param recursive - 是否递归处理目录
+ * @param cwd - 工作目录
+ * @returns 去重后的文件列表
+ * @throws UsageError 如果输入不存在或 glob 没有匹配
+ */
+export async function expandInputs(
+  inputs: string[],
+  extension: string,
+  recursive: boolean,
+  cwd: string,
+): Promise<InputFile[]> {
+  const result = new Map<string, InputFile>();
+
+  for (const input of inputs) {
+    const segments = input.split(/[\\/]/);
+    const globIndex = segments.findIndex((segment) => /[*?]/.test(segment));
+
+    if (globIndex >= 0) {
+      const base = resolve(cwd, segments.slice(0, globIndex).join("/") || ".");
+      const matcher = globToRegExp(segments.slice(globIndex).join("/"));
+      const deep = segments.length - globIndex > 1 || segments[globIndex].includes("**");
+      const files = await listFiles(base, deep).catch(() => []);
+      const matched = files.filter((file) => matcher.test(relative(base, file).split(sep).join("/")));
+
+      if (matched.length === 0) {
+        throw new UsageError(`没有匹配的文件: ${input}`);
+      }
+      for (const path of matched) {
+        result.set(path, { path, base });
+      }
+      continue;
+    }
+
+    const path = resolve(cwd, input);
+    const stats = await stat(path).catch(() => null);
+    if (!stats) {
+      throw new UsageError(`文件不存在: ${input}`);
+    }
+
+    if (stats.isDirectory()) {
+      for (const file of await listFiles(path, recursive)) {
+        if (extname(file) === extension) {
+          result.set(file, { path: file, base: path });
+        }
+      }
+    } else {
+      result.set(path, { path, base: dirname(path) });
+    }
+  }
+
+  return [...result.values()];
+}
+
+/**
+ * 替换文件扩展名
+ */
+function replaceExtension(path: string, extension: string): string {
+  return path.slice(0, path.length - extname(path).length) + extension;
+}
+
+/**
+ * 收集文件信息
+ *
+ * @param file - 文件路径，仅用于输出
+ * @param buffer - 文件数据
+ * @returns 文件头、精灵图信息与帧统计
+ * @throws H5AnimateError 如果文件无法解码
+ */
+export function collectAnimationInfo(file: string, buffer: Buffer): AnimationInfo {
+  const animation = decode(buffer);
+  const header = parseHeader(new BinaryParser(buffer));
+  const { meta, spriteInfo } = animation;
+
+  const sounds = new Set<string>();
+  let objects = 0;
+  let maxObjects = 0;
+  let emptyFrames = 0;
+  let soundEvents = 0;
+
+  for (const frame of meta.frame) {
+    const count = frame.objects?.length ?? 0;
+    objects += count;
+    maxObjects = Math.max(maxObjects, count);
+    if (count === 0) {
+      emptyFrames++;
+    }
+    for (const sound of frame.sound ?? []) {
+      soundEvents++;
+      sounds.add(sound.name);
+    }
+  }
+
+  return {
+    file,
+    size: buffer.length,
+    header: { ...header, metaEncoding: getMetaEncoding(header.version) },
+    sprites: {
+      count: spriteInfo.count,
+      empty: spriteInfo.dimensions.filter((dimension) => dimension.width === 0 || dimension.height === 0).length,
+      packed: needsSpriteRects(spriteInfo),
+      sheet: readWebPSize(animation.webpData),
+    },
+    frames: {
+      count: meta.frame.length,
+      ratio: meta.ratio,
+      fps: getAnimationFps(meta),
+      duration: getAnimationDuration(meta),
+      objects,
+      maxObjects,
+      emptyFrames,
+      soundEvents,
+      sounds: [...sounds],
+    },
+    embeddedSounds: getEmbeddedSounds(animation).map((sound) => sound.name),
+    chunks: (animation.chunks ?? []).map((chunk) => ({ tag: chunk.tag, size: chunk.data.length })),
+  };
+}
+
+/**
+ * 将文件信息格式化为文本
+ */
+function formatAnimationInfo(info: AnimationInfo): string {
+  const { header, sprites, frames } = info;
+  const layout = isChunkedVersion(header.version) ? "分块容器" : "固定布局";
+  const sheet = sprites.sheet ? `${sprites.sheet.width}x${sprites.sheet.height}` : "无法读取";
+
+  return [
+    `文件: ${info.file}`,
+    `大小: ${info.size} 字节`,
+    `版本: ${header.version}（${layout}，${header.metaEncoding} 元信息）`,
+    `精灵: ${sprites.count} 个，其中空精灵 ${sprites.empty} 个，${sprites.packed ? "打包排布" : "垂直排布"}`,
+    `精灵图: ${sheet}`,
+    `帧: ${frames.count} 帧，缩放比例 ${frames.ratio}，${frames.fps} 帧每秒，共 ${Math.round(frames.duration)} 毫秒`,
+    `对象: 共 ${frames.objects} 个，单帧最多 ${frames.maxObjects} 个，空帧 ${frames.emptyFrames} 帧`,
+    `音效: 播放 ${frames.soundEvents} 次，${frames.sounds.length} 种${frames.sounds.length > 0 ? `（${frames.sounds.join("、")}）` : ""}`,
+    `嵌入音效: ${info.embeddedSounds.length > 0 ? info.embeddedSounds.join("、") : "无"}`,
+    `其他分块: ${info.chunks.length > 0 ? info.chunks.map((chunk) => `${chunk.tag}（${chunk.size} 字节）`).join("、") : "无"}`,
+  ].join("\n");
+}
+
+/**
+ * 读取并解码单个 h5animate 文件
+ */
+async function readAnimation(file: string, cwd: string): Promise<DecodedH5Animate> {
+  return decode(await readFile(resolve(cwd, file)));
+}
+
+/**
+ * 获取唯一的文件参数
+ *
+ * @throws UsageError 如果参数数量不为 1
+ */
+function getSingleFile(command: string, positionals: string[]): string {
+  if (positionals.length !== 1) {
+    throw new UsageError(`${command} 需要一个文件参数`);
+  }
+  return positionals[0];
+}
+
+/**
+ * 解析 convert 与 batch 共用的转换选项
+ *
+ * @throws UsageError 如果选项取值无效
+ */
+function parseConvertSettings(
+  values: ParsedCommand<"convert" | "batch">["values"],
+  cwd: string,
+): BatchConvertSettings {
+  const quality = parseIntegerOption(values.quality, "quality", 1, 100);
+  const webp: WebPOptions = values["auto-quality"]
+    ? { auto: true }
+    : quality !== undefined ? { quality } : { lossless: true };
+
+  return {
+    webp,
+    version: parseIntegerOption(values["format-version"], "format-version", 1),
+    metaEncoding: parseChoiceOption<MetaEncoding>(values["meta-encoding"], "meta-encoding", ["json", "binary"]),
+    spriteSheet: {
+      layout: parseChoiceOption<PackingLayout>(values.layout, "layout", ["vertical", "shelf", "maxrects"]),
+      trim: values.trim,
+    },
+    soundsDir: values["sounds-dir"] && resolve(cwd, values["sounds-dir"]),
+    fps: parsePositiveNumberOption(values.fps, "fps"),
+  };
+}
+
+/**
+ * convert 子命令
+ */
+async function runConvert({ values, positionals }: ParsedCommand<"convert">, io: CliIO): Promise<number> {
+  if (positionals.length === 0) {
+    throw new UsageError("convert 需要至少一个输入");
+  }
+
+  const options = parseConvertSettings(values, io.cwd);
+  const files = await expandInputs(positionals, LEGACY_EXTENSION, values.recursive ?? false, io.cwd);
+  const outDir = values["out-dir"] && resolve(io.cwd, values["out-dir"]);
+  let failures = 0;
+
+  for (const file of files) {
+    const output = replaceExtension(
+      outDir ? join(outDir, relative(file.base, file.path)) : file.path,
+      H5ANIMATE_EXTENSION,
+    );
+    const name = relative(io.cwd, file.path);
+
+    try {
+      const buffer = await convertFromJson(await readFile(file.path, "utf-8"), options);
+      await mkdir(dirname(output), { recursive: true });
+      await writeFile(output, buffer);
+      io.stdout(`${name} -> ${relative(io.cwd, output)}（${buffer.length} 字节）`);
+    } catch (error) {
+      failures++;
+      io.stderr(`${name}: ${formatError(error)}`);
+    }
+  }
+
+  if (files.length > 1) {
+    io.stdout(`已转换 ${files.length - failures} 个文件，失败 ${failures} 个`);
+  }
+  return failures > 0 ? 1 : 0;
+}
+
+/**
+ * batch 子命令
+ */
+async function runBatch({ values, positionals }: ParsedCommand<"batch">, io: CliIO): Promise<number> {
+  const directory = resolve(io.cwd, getSingleFile("batch", positionals));
+  const stats = await stat(directory).catch(() => null);
+  if (!stats?.isDirectory()) {
+    throw new UsageError(`目录不存在: ${positionals[0]}`);
+  }
+
+  const report = await convertDirectory(directory, {
+    outDir: values["out-dir"] && resolve(io.cwd, values["out-dir"]),
+    convert: parseConvertSettings(values, io.cwd),
+    workers: parseIntegerOption(values.jobs, "jobs", 0),
+    force: values.force,
+    jsonReport: values["json-report"] && resolve(io.cwd, values["json-report"]),
+    markdownReport: values["markdown-report"] && resolve(io.cwd, values["markdown-report"]),
+  });
+
+  if (report.workerError) {
+    io.stderr(`工作线程无法启动，已在主线程中转换: ${report.workerError}`);
+  }
+  for (const result of report.files) {
+    if (result.status === "failed") {
+      io.stderr(`${result.file}: ${result.error?.code ? `[${result.error.code}] ` : ""}${result.error?.message}`);
+    }
+  }
+  io.stdout(
+    `已转换 ${report.converted} 个文件，跳过 ${report.skipped} 个，失败 ${report.failed} 个，`
+    + `${report.sizeBefore} → ${report.sizeAfter} 字节`,
+  );
+  return report.failed > 0 ? 1 : 0;
+}
+
+/**
+ * info 子命令
+ */
+async function runInfo({ values, positionals }: ParsedCommand<"info">, io: CliIO): Promise<number> {
+  const file = getSingleFile("info", positionals);
+  const info = collectAnimationInfo(file, await readFile(resolve(io.cwd, file)));
+
+  io.stdout(values.json ? JSON.stringify(info, null, 2) : formatAnimationInfo(info));
+  return 0;
+}
+
+/**
+ * extract 子命令
+ */
+async function runExtract({ values, positionals }: ParsedCommand<"extract">, io: CliIO): Promise<number> {
+  const file = getSingleFile("extract", positionals);
+  const animation = await readAnimation(file, io.cwd);
+  const kind = values.sprites ? "sprite" : "frame";
+  const outDir = resolve(io.cwd, values["out-dir"] ?? `${replaceExtension(file, "")}-${kind}s`);
+
+  const images = values.sprites
+    ? await splitSpriteSheetToPng(animation.webpData, animation.spriteInfo)
+    : await Promise.all(animation.meta.frame.map((_, index) => renderFrame(animation, index)));
+  const digits = Math.max(3, String(images.length - 1).length);
+
+  await mkdir(outDir, { recursive: true });
+
+  let written = 0;
+  for (let i = 0; i < images.length; i++) {
+    const image = images[i];
+    if (image) {
+      await writeFile(join(outDir, `${kind}-${String(i).padStart(digits, "0")}.png`), image);
+      written++;
+    }
+  }
+
+  io.stdout(`已导出 ${written} 个${values.sprites ? "精灵" : "帧"}到 ${relative(io.cwd, outDir) || "."}`);
+  return 0;
+}
+
+/**
+ * validate 子命令
+ */
+async function runValidate({ values, positionals }: ParsedCommand<"validate">, io: CliIO): Promise<number> {
+  if (positionals.length === 0) {
+    throw new UsageError("validate 需要至少一个输入");
+  }
+
+  const files = await expandInputs(positionals, H5ANIMATE_EXTENSION, values.recursive ?? false, io.cwd);
+  let failures = 0;
+
+  for (const file of files) {
+    const name = relative(io.cwd, file.path);
+    try {
+      decode(await readFile(file.path), { strict: true });
+      io.stdout(`✓ ${name}`);
+    } catch (error) {
+      failures++;
+      io.stderr(`✗ ${name}: ${formatError(error)}`);
+    }
+  }
+
+  return failures > 0 ? 1 : 0;
+}
+
+/**
+ * render 子命令
+ */
+async function runRender({ values, positionals }: ParsedCommand<"render">, io: CliIO): Promise<number> {
+  const file = getSingleFile("render", positionals);
+  if (!values.output) {
+    throw new UsageError("render 需要 --output");
+  }
+
+  const width = parseIntegerOption(values.width, "width", 1);
+  const height = parseIntegerOption(values.height, "height", 1);
+  if ((width === undefined) !== (height === undefined)) {
+    throw new UsageError("--width 与 --height 需要同时指定");
+  }
+
+  const output = resolve(io.cwd, values.output);
+  const frame = parseIntegerOption(values.frame, "frame", 0);
+  const format = parseChoiceOption<AnimatedImageFormat>(values.format, "format", ["webp", "gif", "apng"])
+    ?? FORMAT_BY_EXTENSION[extname(output).toLowerCase()];
+  if (frame === undefined && !format) {
+    throw new UsageError(`无法从扩展名推断输出格式，请指定 --format: ${values.output}`);
+  }
+
+  const animation = await readAnimation(file, io.cwd);
+  const buffer = frame !== undefined
+    ? await renderFrame(animation, frame, { width, height })
+    : await exportAnimation(animation, {
+        format,
+        width,
+        height,
+        delay: parseIntegerOption(values.delay, "delay", 0),
+        loop: parseIntegerOption(values.loop, "loop", 0),
+      });
+
+  await mkdir(dirname(output), { recursive: true });
+  await writeFile(output, buffer);
+  io.stdout(`${relative(io.cwd, output)}（${buffer.length} 字节）`);
+  return 0;
+}
+
+/**
+ * diff 子命令
+ */
+async function runDiff({ values, positionals }: ParsedCommand<"diff">, io: CliIO): Promise<number> {
+  if (positionals.length !== 2) {
+    throw new UsageError("diff 需要两个文件参数");
+  }
+  if (values["no-pixels"] && values["diff-image"]) {
+    throw new UsageError("--diff-image 不能与 --no-pixels 同时使用");
+  }
+
+  const [before, after] = await Promise.all(positionals.map((file) => readAnimation(file, io.cwd)));
+  const diff = await diffAnimations(before, after, {
+    pixels: !values["no-pixels"],
+    threshold: parseIntegerOption(values.threshold, "threshold", 0, 255),
+    diffImage: values["diff-image"] !== undefined,
+  });
+
+  const { diffImage, ...result } = diff;
+  io.stdout(values.json ? JSON.stringify(result, null, 2) : formatAnimationDiff(diff));
+
+  if (values["diff-image"] && diffImage) {
+    const output = resolve(io.cwd, values["diff-image"]);
+    await mkdir(dirname(output), { recursive: true });
+    await writeFile(output, diffImage);
+    if (!values.json) {
+      io.stdout(`差异图: ${relative(io.cwd, output)}`);
+    }
+  }
+  return diff.identical ? 0 : 1;
+}
+
+/** 子命令实现 */
+const COMMANDS: { [K in CommandName]: (parsed: ParsedCommand<K>, io: CliIO) => Promise<number> } = {
+  convert: runConvert,
+  batch: runBatch,
+  info: runInfo,
+  extract: runExtract,
+  validate: runValidate,
+  render: runRender,
+  diff: runDiff,
+};
+
+/**
+ * 解析并执行子命令
+ */
+function runCommand<K extends CommandName>(command: K, args: string[], io: CliIO): Promise<number> {
+  let parsed: ParsedCommand<K>;
+  try {
+    parsed = parseArgs({ args, options: COMMAND_OPTIONS[command], allowPositionals: true, strict: true });
+  } catch (error) {
+    throw new UsageError(error instanceof Error ? error.message : String(error));
+  }
+  return COMMANDS[command](parsed, io);
+}
+
+/**
+ * 执行命令行
+ *
+ * 错误写入标准错误而不抛出，便于在脚本或测试中调用
+ *
+ * @param args - 命令行参数，不含 node 与脚本路径
+ * @param io - 输入输出（可选，默认使用当前进程）
+ * @returns 退出码：0 成功，1 处理失败，2 用法错误
+ *
+ * @example
+ * ```typescript
+ * import { runCli } from "@motajs/h5animate/cli";
+ *
+ * const code = await runCli(["convert", "animates", "-r", "-o", "dist"]);
+ * ```
+ */
+export async function runCli(args: string[], io: Partial<CliIO> = {}): Promise<number> {
+  const cliIO = { ...createProcessIO(), ...io };
+  const [command, ...rest] = args;
+
+  if (command === undefined || command === "help" || command === "-h" || command === "--help") {
+    cliIO.stdout(USAGE);
+    return command === undefined ? 2 : 0;
+  }
+
+  if (!(command in COMMANDS)) {
+    cliIO.stderr(`未知命令: ${command}\n\n${USAGE}`);
+    return 2;
+  }
+
+  try {
+    return await runCommand(command as CommandName, rest, cliIO);
+  } catch (error) {
+    if (error instanceof UsageError) {
+      cliIO.stderr(`${error.message}\n\n运行 h5animate help 查看用法`);
+      return 2;
+    }
+    cliIO.stderr(formatError(error));
+    return 1;
+  }
+}
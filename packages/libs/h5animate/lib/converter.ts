@@ -1,19 +1,42 @@
 /**
  * 格式转换器
  *
- * 提供从旧 .animate 格式到新 h5animate 格式的转换功能
+ * 提供旧 .animate 格式与新 h5animate 格式之间的双向转换功能
  */
 
+import { readFile } from "node:fs/promises";
+import { isAbsolute, relative, resolve } from "node:path";
 import { encodeH5Animate } from "./encoder.js";
 import { createConversionFailedError, createValidationError } from "./errors.js";
-import { combineBase64ImagesToWebP, type WebPOptions } from "./webp.js";
+import { mapWithProgress, throwIfAborted } from "./progress.js";
+import { DEFAULT_FPS, getFrameDurations } from "./timing.js";
+import {
+  CHUNK_SOUNDS,
+  encodeSoundChunk,
+  getReferencedSounds,
+  type EmbeddedSound,
+} from "./sounds.js";
+import {
+  bufferToBase64,
+  combineBase64ImagesToWebP,
+  splitSpriteSheetToPng,
+  type WebPOptions,
+  type SpriteSheetOptions,
+} from "./webp.js";
 import type {
+  DecodedH5Animate,
+  FrameLayer,
   LegacyAnimateFile,
   H5AnimateMeta,
   H5AnimateFrame,
   H5AnimateObject,
+  H5AnimateChunk,
   SoundMeta,
+  SpriteInfo,
   ImageConversionResult,
+  WebPQualityReport,
+  MetaEncoding,
+  ProgressOptions,
 } from "./types.js";
 
 /**
@@ -88,25 +111,27 @@ export function parseLegacyAnimateFile(jsonString: string): LegacyAnimateFile {
  * 转换图像数据
  *
  * 将 Base64 编码的 PNG 图片转换为 WebP 格式并生成精灵图信息
+ * 空字符串会保留为空精灵，使精灵索引与 bitmaps 索引保持一致
  *
  * @param bitmaps - Base64 编码的图片数组
  * @param options - WebP 压缩选项
+ * @param sheetOptions - 精灵图排布选项
+ * @param progress - 进度与取消选项
  * @returns 包含 WebP 数据和精灵图信息的结果
- * @throws H5AnimateError 如果图像转换失败
+ * @throws H5AnimateError 如果图像转换失败或已取消
  */
 export async function convertImages(
   bitmaps: string[],
   options: WebPOptions = {},
+  sheetOptions: SpriteSheetOptions = {},
+  progress: ProgressOptions = {},
 ): Promise<ImageConversionResult> {
-  // 过滤空字符串，只保留有效的图片数据
-  const validBitmaps = bitmaps.filter((bitmap) => bitmap.length > 0);
-
-  if (validBitmaps.length === 0) {
+  if (bitmaps.every((bitmap) => bitmap.length === 0)) {
     throw createConversionFailedError("没有有效的图片数据可转换");
   }
 
   try {
-    return await combineBase64ImagesToWebP(validBitmaps, options);
+    return await combineBase64ImagesToWebP(bitmaps, options, sheetOptions, progress);
   } catch (error) {
     if (error instanceof Error && error.name === "H5AnimateError") {
       throw error;
@@ -181,12 +206,19 @@ export function convertFrameLayer(layer: [number, number, number, number, number
 /**
  * 转换元数据
  *
- * 将旧格式的帧数据和音效配置转换为新格式的元数据
+ * 将旧格式的帧数据和音效配置转换为新格式的元数据。旧格式没有帧率，
+ * 未指定 fps 时不写入，播放时按默认的 20 帧每秒
  *
  * @param legacy - 旧格式数据
+ * @param fps - 写入元数据的帧率
  * @returns 新格式的元数据
+ * @throws H5AnimateError 如果 fps 不是正数
  */
-export function convertMetadata(legacy: LegacyAnimateFile): H5AnimateMeta {
+export function convertMetadata(legacy: LegacyAnimateFile, fps?: number): H5AnimateMeta {
+  if (fps !== undefined && !(fps > 0 && Number.isFinite(fps))) {
+    throw createValidationError(`fps 必须是正数，实际为 ${fps}`);
+  }
+
   const frames: H5AnimateFrame[] = [];
 
   for (let i = 0; i < legacy.frame_max; i++) {
@@ -209,16 +241,65 @@ export function convertMetadata(legacy: LegacyAnimateFile): H5AnimateMeta {
 
   return {
     ratio: legacy.ratio,
+    ...(fps !== undefined && { fps }),
     frame: frames,
   };
 }
 
 /**
  * 转换选项
+ *
+ * `signal` 与 `onProgress` 覆盖读取源图像、编码精灵图和读取音效各阶段
  */
-export interface ConvertOptions {
-  /** WebP 压缩选项 */
+export interface ConvertOptions extends ProgressOptions {
+  /** WebP 压缩选项，`auto` 可按感知质量目标自动选择压缩设置 */
   webp?: WebPOptions;
+  /** 自动选择压缩设置后调用，报告选中的设置和节省的字节数 */
+  onWebPQuality?: (report: WebPQualityReport) => void;
+  /** 精灵图排布选项，默认垂直排布 */
+  spriteSheet?: SpriteSheetOptions;
+  /** 写入的格式版本，默认为元信息编码对应的版本 */
+  version?: number;
+  /** 元信息编码，`binary` 写入版本 4 的紧凑二进制元信息（默认 json） */
+  metaEncoding?: MetaEncoding;
+  /** 音效目录，指定时从中读取 `se` 引用的音效并嵌入文件，需要版本 3 及以上 */
+  soundsDir?: string;
+  /** 写入元数据的帧率，旧格式没有帧率，未指定时不写入并按 20 帧每秒播放 */
+  fps?: number;
+}
+
+/**
+ * 从目录读取音效文件
+ *
+ * 每读取一个文件报告一次 sound 阶段的进度
+ *
+ * @param names - 音效名称，即相对于目录的文件路径
+ * @param directory - 音效目录
+ * @param progress - 进度与取消选项
+ * @returns 按名称顺序排列的音效
+ * @throws H5AnimateError 如果名称指向目录之外、文件无法读取或已取消
+ */
+export async function loadSoundFiles(
+  names: string[],
+  directory: string,
+  progress: ProgressOptions = {},
+): Promise<EmbeddedSound[]> {
+  const root = resolve(directory);
+
+  return mapWithProgress(names, "sound", progress, async (name) => {
+    const path = resolve(root, name);
+    const relativePath = relative(root, path);
+    if (relativePath.length === 0 || relativePath.startsWith("..") || isAbsolute(relativePath)) {
+      throw createConversionFailedError(`音效名称指向音效目录之外: ${name}`);
+    }
+
+    try {
+      return { name, data: await readFile(path) };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "未知错误";
+      throw createConversionFailedError(`读取音效 ${name} 失败: ${message}`);
+    }
+  });
 }
 
 /**
@@ -229,7 +310,7 @@ export interface ConvertOptions {
  * @param legacyData - 旧格式数据
  * @param options - 转换选项
  * @returns 编码后的 h5animate 二进制数据
- * @throws H5AnimateError 如果转换失败
+ * @throws H5AnimateError 如果转换失败，通过 `signal` 取消时错误代码为 ABORTED
  */
 export async function convertToH5Animate(
   legacyData: LegacyAnimateFile,
@@ -239,16 +320,56 @@ export async function convertToH5Animate(
   validateLegacyFormat(legacyData);
 
   // 转换图像数据并生成精灵图信息
-  const { webpData, spriteInfo } = await convertImages(
+  const images = await convertImages(
     legacyData.bitmaps,
     options.webp,
+    options.spriteSheet,
+    options,
   );
 
   // 转换元数据
-  const meta = convertMetadata(legacyData);
+  const meta = convertMetadata(legacyData, options.fps);
+
+  return assembleH5Animate(meta, images, options);
+}
+
+/**
+ * 由元数据和精灵图生成 h5animate 文件
+ *
+ * 报告自动选择的压缩设置，按 `soundsDir` 嵌入引用的音效，然后编码
+ *
+ * @param meta - 元数据
+ * @param images - 精灵图转换结果
+ * @param options - 转换选项
+ * @returns 编码后的 h5animate 二进制数据
+ * @throws H5AnimateError 如果音效读取失败、编码失败或已取消
+ */
+export async function assembleH5Animate(
+  meta: H5AnimateMeta,
+  images: ImageConversionResult,
+  options: ConvertOptions = {},
+): Promise<Buffer> {
+  const { webpData, spriteInfo, quality } = images;
+  if (quality) {
+    options.onWebPQuality?.(quality);
+  }
+
+  // 嵌入引用的音效
+  const chunks: H5AnimateChunk[] = [];
+  if (options.soundsDir !== undefined) {
+    const sounds = await loadSoundFiles(getReferencedSounds(meta), options.soundsDir, options);
+    if (sounds.length > 0) {
+      chunks.push({ tag: CHUNK_SOUNDS, data: encodeSoundChunk(sounds) });
+    }
+  }
 
   // 编码为新格式
-  return encodeH5Animate(meta, spriteInfo, webpData);
+  throwIfAborted(options.signal);
+  return encodeH5Animate(meta, spriteInfo, webpData, {
+    version: options.version,
+    metaEncoding: options.metaEncoding,
+    chunks,
+  });
 }
 
 /**
@@ -268,3 +389,175 @@ export async function convertFromJsonString(
   const legacyData = parseLegacyAnimateFile(jsonString);
   return convertToH5Animate(legacyData, options);
 }
+
+// ============ 反向转换 ============
+
+/**
+ * 将对象数据还原为旧格式的图层数据
+ *
+ * `convertFrameLayer` 的逆操作。末尾为 0 的 mirror 和 rotate 会被省略，
+ * 与旧格式中常见的 5 元素图层保持一致
+ *
+ * @param obj - 新格式的对象数据
+ * @returns 旧格式的图层数据 [index, x, y, scale, opacity, mirror?, rotate?]
+ */
+export function revertFrameLayer(obj: H5AnimateObject): FrameLayer {
+  const mirror = obj.mirror ?? 0;
+  const rotate = obj.rotate ?? 0;
+
+  if (rotate !== 0) {
+    return [obj.index, obj.x, obj.y, obj.scale, obj.opacity, mirror, rotate];
+  }
+  if (mirror !== 0) {
+    return [obj.index, obj.x, obj.y, obj.scale, obj.opacity, mirror];
+  }
+  return [obj.index, obj.x, obj.y, obj.scale, obj.opacity];
+}
+
+/**
+ * 将音效元数据还原为旧格式的音效配置
+ *
+ * `convertSoundData` 的逆操作。只有第一帧有音效且没有音调时还原为全局音效字符串，
+ * 否则还原为帧号到音效名的映射
+ *
+ * @param meta - 新格式的元数据
+ * @returns 旧格式的 se 和 pitch 字段，没有音效时为空对象
+ * @throws H5AnimateError 如果某一帧有多个音效或设置了音量，旧格式无法表示
+ */
+export function revertSoundData(meta: H5AnimateMeta): Pick<LegacyAnimateFile, "se" | "pitch"> {
+  const se: Record<number, string> = {};
+  const pitch: Record<number, number> = {};
+
+  meta.frame.forEach((frame, frameIndex) => {
+    const sounds = frame.sound ?? [];
+    if (sounds.length === 0) {
+      return;
+    }
+
+    if (sounds.length > 1) {
+      throw createConversionFailedError(`第 ${frameIndex} 帧有 ${sounds.length} 个音效，旧格式每帧只支持一个`);
+    }
+
+    const [sound] = sounds;
+    if (sound.volume !== undefined) {
+      throw createConversionFailedError(`第 ${frameIndex} 帧的音效设置了音量，旧格式不支持音量`);
+    }
+
+    se[frameIndex] = sound.name;
+    if (sound.pitch !== undefined) {
+      pitch[frameIndex] = sound.pitch;
+    }
+  });
+
+  const frames = Object.keys(se);
+  if (frames.length === 0) {
+    return {};
+  }
+
+  if (frames.length === 1 && frames[0] === "0" && Object.keys(pitch).length === 0) {
+    return { se: se[0] };
+  }
+
+  return Object.keys(pitch).length > 0 ? { se, pitch } : { se };
+}
+
+/**
+ * 将帧重采样为旧格式固定的 20 帧每秒
+ *
+ * 每个播放帧显示其开始时刻所在的帧，时长较长的帧重复、较短的帧可能被丢弃；
+ * 音效放在覆盖其所在帧开始时刻的播放帧。所有帧都是 50 毫秒时原样返回
+ *
+ * @param meta - 新格式的元数据
+ * @returns 按 50 毫秒一帧排列的帧
+ */
+function resampleToLegacyFrames(meta: H5AnimateMeta): H5AnimateFrame[] {
+  const interval = 1000 / DEFAULT_FPS;
+  const durations = getFrameDurations(meta);
+  if (durations.every((duration) => duration === interval)) {
+    return meta.frame;
+  }
+
+  const total = Math.max(1, Math.round(durations.reduce((sum, duration) => sum + duration, 0) / interval));
+  const frames: H5AnimateFrame[] = [];
+  let source = 0;
+  let end = durations[0];
+  for (let i = 0; i < total; i++) {
+    while (source < durations.length - 1 && i * interval >= end) {
+      end += durations[++source];
+    }
+    const { objects } = meta.frame[source];
+    frames.push(objects ? { objects } : {});
+  }
+
+  let start = 0;
+  meta.frame.forEach((frame, index) => {
+    if (frame.sound) {
+      const target = frames[Math.min(total - 1, Math.floor(start / interval))];
+      target.sound = [...(target.sound ?? []), ...frame.sound];
+    }
+    start += durations[index];
+  });
+
+  return frames;
+}
+
+/**
+ * 将元数据还原为旧格式
+ *
+ * `convertMetadata` 的逆操作，生成除 bitmaps 以外的所有字段。
+ * 旧格式固定以 20 帧每秒播放，其他帧率或帧时长按时间重复或丢弃帧
+ *
+ * @param meta - 新格式的元数据
+ * @returns 旧格式中除 bitmaps 以外的字段
+ * @throws H5AnimateError 如果音效无法用旧格式表示，包括重采样后同一帧有多个音效
+ */
+export function revertMetadata(meta: H5AnimateMeta): Omit<LegacyAnimateFile, "bitmaps"> {
+  const frame = meta.frame.length > 0 ? resampleToLegacyFrames(meta) : meta.frame;
+
+  return {
+    ratio: meta.ratio,
+    ...revertSoundData({ ...meta, frame }),
+    frame_max: frame.length,
+    frames: frame.map(({ objects }) => (objects ?? []).map(revertFrameLayer)),
+  };
+}
+
+/**
+ * 将精灵图还原为旧格式的图片数组
+ *
+ * `convertImages` 的逆操作，每个精灵还原为原始尺寸的 Base64 PNG，空精灵还原为空字符串
+ *
+ * @param webpData - WebP 精灵图数据
+ * @param spriteInfo - 精灵图信息
+ * @returns 带 data URI 前缀的 Base64 PNG 数组
+ * @throws H5AnimateError 如果图像处理失败
+ */
+export async function revertImages(webpData: Buffer, spriteInfo: SpriteInfo): Promise<string[]> {
+  const images = await splitSpriteSheetToPng(webpData, spriteInfo);
+  return images.map((image) => (image ? bufferToBase64(image) : ""));
+}
+
+/**
+ * 将新格式还原为旧格式
+ *
+ * `convertToH5Animate` 的逆操作，供只支持 .animate 格式的 2.x 塔使用。
+ * 图层数据原样保留，帧按 20 帧每秒重采样；有损压缩的精灵图无法还原出原始像素
+ *
+ * @param animation - 解码后的动画数据
+ * @returns 旧格式数据
+ * @throws H5AnimateError 如果音效无法用旧格式表示或图像处理失败
+ */
+export async function revertToLegacy(animation: DecodedH5Animate): Promise<LegacyAnimateFile> {
+  const { ratio, se, pitch, frame_max, frames } = revertMetadata(animation.meta);
+  const bitmaps = await revertImages(animation.webpData, animation.spriteInfo);
+
+  // 按旧格式文件中的字段顺序输出
+  return {
+    ratio,
+    ...(se !== undefined && { se }),
+    ...(pitch !== undefined && { pitch }),
+    bitmaps,
+    frame_max,
+    frames,
+  };
+}
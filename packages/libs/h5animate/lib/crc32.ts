@@ -0,0 +1,33 @@
+/**
+ * CRC32 校验
+ *
+ * 使用 IEEE 802.3 多项式，与 PNG、zlib 的 CRC32 结果一致
+ */
+
+/** CRC32 查找表 */
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * 计算 CRC32 校验值
+ *
+ * @param data - 待校验的数据
+ * @param previous - 上一段数据的校验值，用于分段计算（可选）
+ * @returns 32 位无符号校验值
+ */
+export function crc32(data: Uint8Array, previous: number = 0): number {
+  let crc = (previous ^ 0xffffffff) >>> 0;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC32_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
@@ -4,39 +4,179 @@
  * 提供 h5animate 格式的解码功能
  */
 
-import { BinaryParser } from "./binary.js";
+import { BinaryParser, CHUNK_HEADER_SIZE, decodeAscii } from "./binary.js";
 import {
   createInvalidSignatureError,
+  createInvalidVersionError,
+  createCorruptedHeaderError,
+  createInvalidImageDataError,
   createInvalidMetadataError,
+  createFileTruncatedError,
+  createSizeMismatchError,
+  createValidationIssuesError,
+  createLimitExceededError,
 } from "./errors.js";
+import { collectDecodedIssues } from "./validation.js";
+import { decodeBinaryMeta } from "./metacodec.js";
+import { readWebPSize } from "./webpinfo.js";
+import { crc32 } from "./crc32.js";
+import {
+  CHUNK_CHECKSUM,
+  CHUNK_META,
+  CHUNK_SPRITE_INFO,
+  CHUNK_WEBP,
+  FORMAT_VERSION_1,
+  KNOWN_CHUNK_TAGS,
+  deriveVerticalRects,
+  getMetaEncoding,
+  getSupportedVersions,
+  getVersionedSpriteInfoSize,
+  isChunkedVersion,
+  isSupportedVersion,
+  migrateSpriteInfo,
+  readSpriteInfo,
+} from "./version.js";
 import type {
   FileHeader,
   SpriteInfo,
+  SpriteRect,
   H5AnimateMeta,
   H5AnimateFrame,
   H5AnimateObject,
   DecodedH5Animate,
+  H5AnimateChunk,
 } from "./types.js";
 
 /** 文件签名常量 */
 const FILE_SIGNATURE = "ANIM";
 
+/** 文件头大小 */
+const HEADER_SIZE = 16;
+
+/** 元信息解码器，保留 BOM 以与 Buffer 的 utf8 解码一致 */
+const utf8Decoder = new TextDecoder("utf-8", { ignoreBOM: true });
+
+/**
+ * 解码资源限制
+ *
+ * 用于解码不可信的文件，未设置的项不限制。超出限制时抛出 LIMIT_EXCEEDED，
+ * 检查在读取对应数据之前进行，不会按文件声明的数量分配内存
+ */
+export interface DecodeLimits {
+  /** 文件的最大字节数 */
+  maxFileSize?: number;
+  /** 精灵的最大数量 */
+  maxSprites?: number;
+  /** 最大帧数 */
+  maxFrames?: number;
+  /** 每帧对象的最大数量 */
+  maxObjectsPerFrame?: number;
+  /** 精灵图画布与单个精灵的最大像素数 */
+  maxPixelArea?: number;
+}
+
+/**
+ * 解码选项
+ */
+export interface DecodeOptions {
+  /**
+   * 严格模式（默认 false）
+   *
+   * 解码后验证元数据、精灵图信息及其引用关系，存在问题时抛出包含全部问题的错误
+   */
+  strict?: boolean;
+  /** 资源限制，解码用户上传的文件时使用 */
+  limits?: DecodeLimits;
+}
+
+/**
+ * 检查数值是否超出限制
+ *
+ * @throws H5AnimateError 超出限制时为 LIMIT_EXCEEDED
+ */
+function checkLimit(limits: DecodeLimits, limit: keyof DecodeLimits, actual: number): void {
+  const max = limits[limit];
+  if (max !== undefined && actual > max) {
+    throw createLimitExceededError(limit, actual, max);
+  }
+}
+
+/**
+ * 在读取精灵图信息之前检查精灵数量
+ *
+ * @param data - 以精灵数量开头的精灵图信息数据
+ * @param limits - 资源限制
+ */
+function checkSpriteCount(data: Uint8Array, limits: DecodeLimits): void {
+  if (limits.maxSprites === undefined || data.length < 4) {
+    return;
+  }
+  checkLimit(limits, "maxSprites", new DataView(data.buffer, data.byteOffset, 4).getUint32(0, true));
+}
+
+/**
+ * 检查精灵尺寸和精灵图画布的像素数
+ *
+ * 画布尺寸只读取 WebP 文件头，不解码像素
+ */
+function checkPixelArea(spriteInfo: SpriteInfo, webpData: Uint8Array, limits: DecodeLimits): void {
+  if (limits.maxPixelArea === undefined) {
+    return;
+  }
+  for (const dimension of spriteInfo.dimensions) {
+    checkLimit(limits, "maxPixelArea", dimension.width * dimension.height);
+  }
+  const canvas = readWebPSize(webpData);
+  if (canvas) {
+    checkLimit(limits, "maxPixelArea", canvas.width * canvas.height);
+  }
+}
+
+/**
+ * 检查帧数和每帧的对象数量
+ */
+function checkMetaLimits(meta: H5AnimateMeta, limits: DecodeLimits): void {
+  checkLimit(limits, "maxFrames", meta.frame.length);
+  for (const frame of meta.frame) {
+    checkLimit(limits, "maxObjectsPerFrame", frame.objects?.length ?? 0);
+  }
+}
+
 /**
  * 解析文件头
  *
- * 验证 "ANIM" 标识符并提取版本号和数据大小信息
+ * 验证 "ANIM" 标识符并提取版本号和数据大小信息。
+ * 固定布局记录图像数据和元信息大小，分块容器记录分块数量和分块总字节数
  *
  * @param parser - 二进制解析器
  * @returns 文件头信息
- * @throws H5AnimateError 如果签名无效
+ * @throws H5AnimateError 如果签名无效或版本不受支持
  */
-export function parseHeader(parser: BinaryParser): FileHeader {
+export function parseHeader(parser: BinaryParser<Uint8Array>): FileHeader {
   const signature = parser.readString(4);
   if (signature !== FILE_SIGNATURE) {
     throw createInvalidSignatureError(signature);
   }
 
   const version = parser.readUInt32LE();
+  if (!isSupportedVersion(version)) {
+    throw createInvalidVersionError(version, getSupportedVersions());
+  }
+
+  if (isChunkedVersion(version)) {
+    const chunkCount = parser.readUInt32LE();
+    const chunkDataSize = parser.readUInt32LE();
+
+    return {
+      signature,
+      version,
+      imageDataSize: 0,
+      metaDataSize: 0,
+      chunkCount,
+      chunkDataSize,
+    };
+  }
+
   const imageDataSize = parser.readUInt32LE();
   const metaDataSize = parser.readUInt32LE();
 
@@ -48,37 +188,80 @@ export function parseHeader(parser: BinaryParser): FileHeader {
   };
 }
 
+/**
+ * 校验文件头声明的大小与实际数据长度是否一致
+ *
+ * @param header - 文件头信息
+ * @param bufferLength - 文件实际字节数
+ * @throws H5AnimateError 文件短于声明大小时为 FILE_TRUNCATED，长于声明大小时为 SIZE_MISMATCH
+ */
+export function verifyFileSize(header: FileHeader, bufferLength: number): void {
+  const declaredSize = isChunkedVersion(header.version)
+    ? HEADER_SIZE + (header.chunkDataSize ?? 0)
+    : HEADER_SIZE + header.imageDataSize + header.metaDataSize;
+
+  if (bufferLength < declaredSize) {
+    throw createFileTruncatedError(bufferLength, declaredSize, bufferLength);
+  }
+  if (bufferLength > declaredSize) {
+    throw createSizeMismatchError("文件", declaredSize, bufferLength);
+  }
+}
+
 /**
  * 解析精灵图信息
  *
- * 解析精灵图数量和尺寸信息
+ * 按文件版本解析精灵图数量和尺寸信息，版本 2 还包含每个精灵的区域和裁剪偏移。
+ * 返回该版本原样的数据，不做升级
  *
  * @param parser - 二进制解析器
+ * @param version - 文件版本号（默认 1）
  * @returns 精灵图信息
+ * @throws H5AnimateError 如果版本不受支持
  */
-export function parseSpriteInfo(parser: BinaryParser): SpriteInfo {
-  const count = parser.readUInt32LE();
-  const dimensions: Array<{ width: number; height: number }> = [];
+export function parseSpriteInfo(
+  parser: BinaryParser<Uint8Array>,
+  version: number = FORMAT_VERSION_1,
+): SpriteInfo {
+  return readSpriteInfo(parser, version);
+}
 
-  for (let i = 0; i < count; i++) {
-    dimensions.push({
-      width: parser.readUInt32LE(),
-      height: parser.readUInt32LE(),
-    });
-  }
+/**
+ * 获取每个精灵在精灵图上的区域
+ *
+ * 优先使用 `spriteInfo.rects`，缺省时按 dimensions 自上而下垂直排布推导
+ *
+ * @param spriteInfo - 精灵图信息
+ * @returns 按精灵索引排列的区域
+ */
+export function getSpriteRects(spriteInfo: SpriteInfo): SpriteRect[] {
+  return spriteInfo.rects ?? deriveVerticalRects(spriteInfo);
+}
 
-  return { count, dimensions };
+/**
+ * 按索引查找精灵在精灵图上的区域
+ *
+ * @param spriteInfo - 精灵图信息
+ * @param index - 精灵索引，即 H5AnimateObject.index
+ * @returns 精灵区域，如果索引越界或为空精灵则返回 undefined
+ */
+export function getSpriteRect(spriteInfo: SpriteInfo, index: number): SpriteRect | undefined {
+  const rect = getSpriteRects(spriteInfo)[index];
+  if (!rect || rect.width === 0 || rect.height === 0) {
+    return undefined;
+  }
+  return rect;
 }
 
 /**
  * 计算精灵图信息占用的字节数
  *
  * @param spriteInfo - 精灵图信息
+ * @param version - 文件版本号（默认 1）
  * @returns 字节数
  */
-export function getSpriteInfoSize(spriteInfo: SpriteInfo): number {
-  // 4 字节用于 count + 每个精灵图 8 字节 (width + height)
-  return 4 + spriteInfo.count * 8;
+export function getSpriteInfoSize(spriteInfo: SpriteInfo, version: number = FORMAT_VERSION_1): number {
+  return getVersionedSpriteInfoSize(spriteInfo, version);
 }
 
 /**
@@ -110,9 +293,11 @@ function convertArrayToObject(objArray: number[]): H5AnimateObject {
  */
 export function convertArraysToObjects(rawMeta: {
   ratio: number;
+  fps?: number;
   frame: Array<{
     sound?: Array<{ name: string; volume?: number; pitch?: number }>;
     objects?: number[][];
+    duration?: number;
   }>;
 }): H5AnimateMeta {
   if (!rawMeta.frame) {
@@ -121,58 +306,245 @@ export function convertArraysToObjects(rawMeta: {
 
   return {
     ratio: rawMeta.ratio,
+    ...(rawMeta.fps !== undefined && { fps: rawMeta.fps }),
     frame: rawMeta.frame.map((frame): H5AnimateFrame => ({
       sound: frame.sound,
       objects: frame.objects?.map(convertArrayToObject),
+      ...(frame.duration !== undefined && { duration: frame.duration }),
     })),
   };
 }
 
 /**
- * 解码 h5animate 文件
+ * 解析元信息
  *
- * 整合文件头、精灵图信息和元数据解析，返回完整的解码结果
- *
- * @param buffer - h5animate 文件的二进制数据
- * @returns 解码后的数据，包含元信息、精灵图信息和 WebP 数据
- * @throws H5AnimateError 如果文件格式无效或数据损坏
+ * @param metaBuffer - 元信息的二进制数据
+ * @param version - 文件版本号，决定元信息编码
+ * @returns 对象格式的元数据
+ * @throws H5AnimateError 如果 JSON 解析失败、结果不是对象或二进制元信息损坏
  */
-export function decodeH5Animate(buffer: Buffer): DecodedH5Animate {
-  const parser = new BinaryParser(buffer);
-
-  // 解析文件头
-  const header = parseHeader(parser);
-
-  // 解析精灵图信息
-  const spriteInfo = parseSpriteInfo(parser);
-
-  // 计算剩余的图像数据大小（总图像数据大小 - 精灵图信息大小）
-  const spriteInfoSize = getSpriteInfoSize(spriteInfo);
-  const webpDataSize = header.imageDataSize - spriteInfoSize;
-
-  // 提取 WebP 数据
-  const webpData = parser.readBytes(webpDataSize);
-
-  // 提取并解析元信息
-  const metaBuffer = parser.readBytes(header.metaDataSize);
-  const metaJson = metaBuffer.toString("utf8");
+function parseMetaData(metaBuffer: Uint8Array, version: number): H5AnimateMeta {
+  if (getMetaEncoding(version) === "binary") {
+    return decodeBinaryMeta(metaBuffer);
+  }
 
   let rawMeta: {
     ratio: number;
+    fps?: number;
     frame: Array<{
       sound?: Array<{ name: string; volume?: number; pitch?: number }>;
       objects?: number[][];
+      duration?: number;
     }>;
   };
 
   try {
-    rawMeta = JSON.parse(metaJson);
+    rawMeta = JSON.parse(utf8Decoder.decode(metaBuffer));
   } catch {
     throw createInvalidMetadataError("JSON 解析失败");
   }
 
+  if (rawMeta === null || typeof rawMeta !== "object") {
+    throw createInvalidMetadataError("元数据必须是对象");
+  }
+
   // 将数组格式的对象数据转换为对象格式
-  const meta = convertArraysToObjects(rawMeta);
+  return convertArraysToObjects(rawMeta);
+}
+
+/**
+ * 校验 CSUM 分块
+ *
+ * @param covered - 校验和覆盖的数据，即 CSUM 分块之前的所有字节
+ * @param data - CSUM 分块数据
+ * @param position - CSUM 分块的起始位置
+ * @throws H5AnimateError 分块长度不为 4 时为 SIZE_MISMATCH，校验和不一致时为 INVALID_IMAGE_DATA
+ */
+function verifyChecksum(covered: Uint8Array, data: Uint8Array, position: number): void {
+  if (data.length !== 4) {
+    throw createSizeMismatchError(`${CHUNK_CHECKSUM} 分块`, 4, data.length, position);
+  }
+
+  const expected = new DataView(data.buffer, data.byteOffset, data.byteLength).getUint32(0, true);
+  const actual = crc32(covered);
+
+  if (expected !== actual) {
+    const format = (value: number) => value.toString(16).padStart(8, "0");
+    throw createInvalidImageDataError(
+      `校验和不匹配: 期望 ${format(expected)}，实际为 ${format(actual)}`,
+    );
+  }
+}
+
+/**
+ * 解析分块表
+ *
+ * 按顺序读取文件头声明数量的分块，已知分块交由对应的解析逻辑，未知分块原样保留。
+ * 存在 CSUM 分块时校验其之前所有字节的 CRC32
+ *
+ * @param parser - 位于文件头之后的二进制解析器
+ * @param header - 文件头信息
+ * @param limits - 资源限制
+ * @returns 解码后的数据，精灵图信息未经升级
+ * @throws H5AnimateError 如果缺少必需分块、已知分块重复、分块大小与分块表不一致、校验和不匹配或超出资源限制
+ */
+export function parseChunks<T extends Uint8Array>(
+  parser: BinaryParser<T>,
+  header: FileHeader,
+  limits: DecodeLimits = {},
+): DecodedH5Animate<T> {
+  const known = new Map<string, T>();
+  const chunks: H5AnimateChunk<T>[] = [];
+  const chunkCount = header.chunkCount ?? 0;
+
+  for (let i = 0; i < chunkCount; i++) {
+    const position = parser.getCurrentOffset();
+
+    if (parser.getRemainingBytes() < CHUNK_HEADER_SIZE) {
+      throw createCorruptedHeaderError(8, `分块数量 ${chunkCount} 与分块表大小不符，只能读取 ${i} 个分块`);
+    }
+
+    const chunk = parser.readChunk();
+
+    if (chunk.tag === CHUNK_CHECKSUM) {
+      verifyChecksum(parser.getBuffer().subarray(0, position), chunk.data, position);
+    }
+
+    if (!KNOWN_CHUNK_TAGS.includes(chunk.tag)) {
+      chunks.push(chunk);
+      continue;
+    }
+
+    if (known.has(chunk.tag)) {
+      throw createCorruptedHeaderError(position, `重复的 ${chunk.tag} 分块`);
+    }
+    known.set(chunk.tag, chunk.data);
+  }
+
+  if (parser.hasMore()) {
+    throw createSizeMismatchError(
+      "分块表",
+      header.chunkDataSize ?? 0,
+      parser.getCurrentOffset() - HEADER_SIZE,
+      parser.getCurrentOffset(),
+    );
+  }
+
+  const spriteInfoData = known.get(CHUNK_SPRITE_INFO);
+  const webpData = known.get(CHUNK_WEBP);
+  const metaData = known.get(CHUNK_META);
+
+  if (!spriteInfoData) {
+    throw createInvalidImageDataError(`缺少 ${CHUNK_SPRITE_INFO} 分块`);
+  }
+  if (!webpData) {
+    throw createInvalidImageDataError(`缺少 ${CHUNK_WEBP} 分块`);
+  }
+  if (!metaData) {
+    throw createInvalidMetadataError(`缺少 ${CHUNK_META} 分块`);
+  }
+
+  checkSpriteCount(spriteInfoData, limits);
+  const spriteInfo = parseSpriteInfo(new BinaryParser(spriteInfoData), header.version);
+  checkPixelArea(spriteInfo, webpData, limits);
+
+  const meta = parseMetaData(metaData, header.version);
+  checkMetaLimits(meta, limits);
+
+  return chunks.length > 0
+    ? { meta, spriteInfo, webpData, chunks }
+    : { meta, spriteInfo, webpData };
+}
+
+/**
+ * 按固定布局解析文件头之后的数据
+ *
+ * @param parser - 位于文件头之后的二进制解析器
+ * @param header - 文件头信息
+ * @param limits - 资源限制
+ * @returns 解码后的数据，精灵图信息未经升级
+ */
+function parseFixedLayout<T extends Uint8Array>(
+  parser: BinaryParser<T>,
+  header: FileHeader,
+  limits: DecodeLimits,
+): DecodedH5Animate<T> {
+  // 按文件版本解析精灵图信息
+  checkSpriteCount(parser.getBuffer().subarray(parser.getCurrentOffset()), limits);
+  const spriteInfo = parseSpriteInfo(parser, header.version);
+
+  // 计算剩余的图像数据大小（总图像数据大小 - 精灵图信息大小）
+  const spriteInfoSize = getSpriteInfoSize(spriteInfo, header.version);
+  const webpDataSize = header.imageDataSize - spriteInfoSize;
+
+  if (webpDataSize < 0) {
+    throw createInvalidImageDataError(
+      `精灵图信息大小 (${spriteInfoSize}) 超出图像数据大小 (${header.imageDataSize})`,
+    );
+  }
+
+  // 提取 WebP 数据
+  const webpData = parser.readBytes(webpDataSize);
+  checkPixelArea(spriteInfo, webpData, limits);
+
+  // 提取并解析元信息
+  const meta = parseMetaData(parser.readBytes(header.metaDataSize), header.version);
+  checkMetaLimits(meta, limits);
 
   return { meta, spriteInfo, webpData };
 }
+
+/**
+ * 解码 h5animate 文件
+ *
+ * 整合文件头、精灵图信息和元数据解析，返回完整的解码结果。
+ * 旧版本文件的精灵图信息会升级为最新的内存结构，原始版本号记录在 `version` 中；
+ * 分块容器中未识别的分块保留在 `chunks` 中。
+ * 传入 Buffer 时结果中的字节数据为 Buffer，传入 Uint8Array 时为 Uint8Array
+ *
+ * @param buffer - h5animate 文件的二进制数据
+ * @param options - 解码选项
+ * @returns 解码后的数据，包含元信息、精灵图信息和 WebP 数据
+ * @throws H5AnimateError 如果文件格式无效、被截断、大小不一致或校验和不匹配；超出 `limits` 时抛出 LIMIT_EXCEEDED；
+ * 严格模式下验证失败时抛出 VALIDATION_ERROR，`issues` 中包含全部问题
+ */
+export function decodeH5Animate<T extends Uint8Array = Buffer>(
+  buffer: T,
+  options: DecodeOptions = {},
+): DecodedH5Animate<T> {
+  const limits = options.limits ?? {};
+  checkLimit(limits, "maxFileSize", buffer.length);
+
+  if (buffer.length < HEADER_SIZE) {
+    const signature = decodeAscii(buffer.subarray(0, 4));
+    if (!FILE_SIGNATURE.startsWith(signature)) {
+      throw createInvalidSignatureError(signature);
+    }
+    throw createFileTruncatedError(buffer.length, HEADER_SIZE, buffer.length);
+  }
+
+  const parser = new BinaryParser(buffer);
+
+  // 解析文件头并校验文件大小
+  const header = parseHeader(parser);
+  verifyFileSize(header, buffer.length);
+
+  // 按版本选择文件布局
+  const decoded = isChunkedVersion(header.version)
+    ? parseChunks(parser, header, limits)
+    : parseFixedLayout(parser, header, limits);
+
+  // 升级为最新的内存结构
+  const spriteInfo = migrateSpriteInfo(decoded.spriteInfo, header.version);
+
+  const result = { ...decoded, spriteInfo, version: header.version };
+
+  if (options.strict) {
+    const issues = collectDecodedIssues(result);
+    if (issues.length > 0) {
+      throw createValidationIssuesError(issues);
+    }
+  }
+
+  return result;
+}
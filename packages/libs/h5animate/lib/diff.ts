@@ -0,0 +1,605 @@
+/**
+ * h5animate 语义差异
+ *
+ * 比较两个解码后的文件，列出文件头、精灵、每帧对象与音效的变化，
+ * 可选地逐像素比较精灵内容并生成差异图
+ */
+
+import { getEmbeddedSounds } from "./sounds.js";
+import { getMetaEncoding } from "./version.js";
+import { rawToPng, splitSpriteSheetToRaw } from "./webp.js";
+import { readWebPSize, type WebPSize } from "./webpinfo.js";
+import type {
+  DecodedH5Animate,
+  H5AnimateFrame,
+  H5AnimateObject,
+  MetaEncoding,
+  RawImage,
+  SoundMeta,
+  SpriteDimension,
+} from "./types.js";
+
+/** 比较的对象字段，mirror 与 rotate 缺省视为 0 */
+const OBJECT_FIELDS = ["x", "y", "scale", "opacity", "mirror", "rotate"] as const;
+
+/** 差异图中各列之间的间距（像素） */
+const DIFF_IMAGE_GAP = 2;
+
+/**
+ * 取值变化
+ */
+export interface ValueChange<T> {
+  before: T;
+  after: T;
+}
+
+/**
+ * 名称列表的增减
+ */
+export interface NameListChange {
+  added: string[];
+  removed: string[];
+}
+
+/**
+ * 文件头与全局信息的变化，未变化的项不存在
+ */
+export interface HeaderDiff {
+  /** 格式版本，未记录版本时为 undefined */
+  version?: ValueChange<number | undefined>;
+  /** 元信息编码 */
+  metaEncoding?: ValueChange<MetaEncoding | undefined>;
+  /** 全局缩放比例 */
+  ratio?: ValueChange<number>;
+  /** 帧率，未记录帧率时为 undefined */
+  fps?: ValueChange<number | undefined>;
+  /** 精灵图尺寸，无法读取时为 null */
+  sheet?: ValueChange<WebPSize | null>;
+  /** 嵌入的音效 */
+  embeddedSounds?: NameListChange;
+  /** 未识别的分块标签 */
+  chunks?: NameListChange;
+}
+
+/**
+ * 单个精灵的变化
+ * - added/removed: 精灵数量增减
+ * - resized: 尺寸改变，包括空精灵与非空精灵之间的变化
+ * - content: 尺寸不变但像素不同
+ */
+export interface SpriteDiff {
+  /** 精灵索引 */
+  index: number;
+  kind: "added" | "removed" | "resized" | "content";
+  /** 修改前的尺寸，新增时不存在 */
+  before?: SpriteDimension;
+  /** 修改后的尺寸，删除时不存在 */
+  after?: SpriteDimension;
+  /** 不同的像素数量，比较像素且修改前后均非空时存在 */
+  differentPixels?: number;
+}
+
+/**
+ * 对象字段的变化
+ */
+export interface FieldDelta {
+  field: (typeof OBJECT_FIELDS)[number];
+  before: number;
+  after: number;
+  /** after 减去 before */
+  delta: number;
+}
+
+/**
+ * 单个对象的变化
+ * - added/removed: 新增或删除的对象
+ * - moved: 坐标改变，可能同时有其他字段或图层的变化
+ * - changed: 坐标不变，其他字段改变，可能同时有图层的变化
+ * - reordered: 字段不变，只有图层序号改变
+ *
+ * 配对对象的 `layerBefore` 与 `layerAfter` 不同时表示绘制顺序改变
+ */
+export interface ObjectDiff {
+  kind: "added" | "removed" | "moved" | "changed" | "reordered";
+  /** 精灵索引 */
+  index: number;
+  /** 修改前在帧中的图层序号，新增时不存在 */
+  layerBefore?: number;
+  /** 修改后在帧中的图层序号，删除时不存在 */
+  layerAfter?: number;
+  /** 对象数据，新增时为修改后的数据，其余为修改前的数据 */
+  object: H5AnimateObject;
+  /** 字段变化，新增与删除时为空 */
+  changes: FieldDelta[];
+}
+
+/**
+ * 单个音效的变化
+ */
+export interface SoundDiff {
+  kind: "added" | "removed" | "changed";
+  name: string;
+  /** 修改前的音效，新增时不存在 */
+  before?: SoundMeta;
+  /** 修改后的音效，删除时不存在 */
+  after?: SoundMeta;
+}
+
+/**
+ * 单帧的变化
+ */
+export interface FrameDiff {
+  /** 帧索引 */
+  frame: number;
+  /** added/removed 表示帧数量增减，其对象与音效全部列为新增或删除 */
+  kind: "added" | "removed" | "changed";
+  objects: ObjectDiff[];
+  sounds: SoundDiff[];
+  /** 帧时长，只在两边都有该帧时比较，未指定时长时为 undefined */
+  duration?: ValueChange<number | undefined>;
+}
+
+/**
+ * 两个文件的差异
+ */
+export interface AnimationDiff {
+  /** 是否没有任何差异 */
+  identical: boolean;
+  header: HeaderDiff;
+  sprites: {
+    /** 精灵数量，未变化时不存在 */
+    count?: ValueChange<number>;
+    /** 有变化的精灵，按索引排序 */
+    changes: SpriteDiff[];
+  };
+  frames: {
+    /** 帧数量，未变化时不存在 */
+    count?: ValueChange<number>;
+    /** 有变化的帧，按索引排序 */
+    changes: FrameDiff[];
+  };
+  /** 像素差异图 PNG，仅在 `diffImage` 为 true 且有像素变化的精灵时存在 */
+  diffImage?: Buffer;
+}
+
+/**
+ * 差异比较选项
+ */
+export interface DiffOptions {
+  /** 是否解码精灵图逐像素比较精灵内容（默认 true） */
+  pixels?: boolean;
+  /** 单个通道允许的差值，用于忽略有损压缩的误差（默认 0） */
+  threshold?: number;
+  /**
+   * 是否生成差异图（默认 false，需要 `pixels`）。
+   * 每个像素有变化的精灵占一行，依次为修改前、修改后和标红变化像素的修改后图像
+   */
+  diffImage?: boolean;
+}
+
+/**
+ * 比较两个值，相同时返回 undefined
+ */
+function compareValue<T>(before: T, after: T): ValueChange<T> | undefined {
+  return JSON.stringify(before) === JSON.stringify(after) ? undefined : { before, after };
+}
+
+/**
+ * 比较两个名称列表
+ */
+function compareNames(before: string[], after: string[]): NameListChange | undefined {
+  const added = after.filter((name) => !before.includes(name));
+  const removed = before.filter((name) => !after.includes(name));
+  return added.length > 0 || removed.length > 0 ? { added, removed } : undefined;
+}
+
+/**
+ * 比较文件头与全局信息
+ */
+function diffHeader(before: DecodedH5Animate, after: DecodedH5Animate): HeaderDiff {
+  const encoding = (animation: DecodedH5Animate) =>
+    animation.version === undefined ? undefined : getMetaEncoding(animation.version);
+  const chunkTags = (animation: DecodedH5Animate) => (animation.chunks ?? []).map((chunk) => chunk.tag);
+  const soundNames = (animation: DecodedH5Animate) => getEmbeddedSounds(animation).map((sound) => sound.name);
+
+  const entries = Object.entries({
+    version: compareValue(before.version, after.version),
+    metaEncoding: compareValue(encoding(before), encoding(after)),
+    ratio: compareValue(before.meta.ratio, after.meta.ratio),
+    fps: compareValue(before.meta.fps, after.meta.fps),
+    sheet: compareValue(readWebPSize(before.webpData), readWebPSize(after.webpData)),
+    embeddedSounds: compareNames(soundNames(before), soundNames(after)),
+    chunks: compareNames(chunkTags(before), chunkTags(after)),
+  });
+
+  return Object.fromEntries(entries.filter(([, change]) => change !== undefined));
+}
+
+/**
+ * 统计两张图像中不同的像素
+ *
+ * 尺寸不同时在左上角对齐，超出部分视为透明；两个像素都完全透明时视为相同
+ *
+ * @returns 不同像素的数量，以及按两者最大尺寸排列、变化处为 1 的标记
+ */
+function comparePixels(
+  before: RawImage,
+  after: RawImage,
+  threshold: number,
+): { count: number; mask: Uint8Array } {
+  const width = Math.max(before.width, after.width);
+  const height = Math.max(before.height, after.height);
+  const mask = new Uint8Array(width * height);
+  let count = 0;
+
+  const read = (image: RawImage, x: number, y: number, channel: number) =>
+    x < image.width && y < image.height ? image.data[(y * image.width + x) * 4 + channel] : 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const alphaBefore = read(before, x, y, 3);
+      const alphaAfter = read(after, x, y, 3);
+      if (alphaBefore === 0 && alphaAfter === 0) continue;
+
+      for (let channel = 0; channel < 4; channel++) {
+        if (Math.abs(read(before, x, y, channel) - read(after, x, y, channel)) > threshold) {
+          mask[y * width + x] = 1;
+          count++;
+          break;
+        }
+      }
+    }
+  }
+
+  return { count, mask };
+}
+
+/**
+ * 比较精灵尺寸与内容
+ */
+async function diffSprites(
+  before: DecodedH5Animate,
+  after: DecodedH5Animate,
+  options: DiffOptions,
+): Promise<{ changes: SpriteDiff[]; diffImage?: Buffer }> {
+  const dimensionsBefore = before.spriteInfo.dimensions;
+  const dimensionsAfter = after.spriteInfo.dimensions;
+  const { pixels = true, threshold = 0 } = options;
+
+  const imagesBefore = pixels ? await splitSpriteSheetToRaw(before.webpData, before.spriteInfo) : [];
+  const imagesAfter = pixels ? await splitSpriteSheetToRaw(after.webpData, after.spriteInfo) : [];
+
+  const changes: SpriteDiff[] = [];
+  const rows: Array<{ before: RawImage; after: RawImage; mask: Uint8Array }> = [];
+
+  for (let index = 0; index < Math.max(dimensionsBefore.length, dimensionsAfter.length); index++) {
+    const sizeBefore = dimensionsBefore[index];
+    const sizeAfter = dimensionsAfter[index];
+    if (!sizeBefore || !sizeAfter) {
+      changes.push(sizeBefore
+        ? { index, kind: "removed", before: sizeBefore }
+        : { index, kind: "added", after: sizeAfter });
+      continue;
+    }
+
+    const resized = sizeBefore.width !== sizeAfter.width || sizeBefore.height !== sizeAfter.height;
+    const imageBefore = imagesBefore[index];
+    const imageAfter = imagesAfter[index];
+    const compared = imageBefore && imageAfter ? comparePixels(imageBefore, imageAfter, threshold) : undefined;
+
+    if (resized || (compared && compared.count > 0)) {
+      changes.push({
+        index,
+        kind: resized ? "resized" : "content",
+        before: sizeBefore,
+        after: sizeAfter,
+        ...(compared && { differentPixels: compared.count }),
+      });
+      if (compared && compared.count > 0) {
+        rows.push({ before: imageBefore!, after: imageAfter!, mask: compared.mask });
+      }
+    }
+  }
+
+  return {
+    changes,
+    diffImage: options.diffImage && rows.length > 0 ? await createDiffImage(rows) : undefined,
+  };
+}
+
+/**
+ * 将图像复制到画布
+ */
+function blit(target: RawImage, image: RawImage, left: number, top: number): void {
+  for (let y = 0; y < image.height; y++) {
+    const start = y * image.width * 4;
+    image.data.copy(target.data, ((top + y) * target.width + left) * 4, start, start + image.width * 4);
+  }
+}
+
+/**
+ * 生成差异图
+ *
+ * 每行依次为修改前、修改后与差异标记，差异标记将修改后的图像淡化，变化的像素标为不透明红色
+ */
+async function createDiffImage(rows: Array<{ before: RawImage; after: RawImage; mask: Uint8Array }>): Promise<Buffer> {
+  const cells = rows.map(({ before, after }) => ({
+    width: Math.max(before.width, after.width),
+    height: Math.max(before.height, after.height),
+  }));
+  const width = Math.max(...cells.map((cell) => cell.width * 3 + DIFF_IMAGE_GAP * 2));
+  const height = cells.reduce((sum, cell) => sum + cell.height, 0) + DIFF_IMAGE_GAP * (rows.length - 1);
+  const canvas: RawImage = { data: Buffer.alloc(width * height * 4), width, height };
+
+  let top = 0;
+  rows.forEach(({ before, after, mask }, i) => {
+    const cell = cells[i];
+    const highlight: RawImage = { data: Buffer.alloc(cell.width * cell.height * 4), ...cell };
+    blit(highlight, after, 0, 0);
+
+    for (let p = 0; p < cell.width * cell.height; p++) {
+      if (mask[p]) {
+        highlight.data.set([255, 0, 0, 255], p * 4);
+      } else {
+        highlight.data[p * 4 + 3] = Math.round(highlight.data[p * 4 + 3] / 4);
+      }
+    }
+
+    blit(canvas, before, 0, top);
+    blit(canvas, after, cell.width + DIFF_IMAGE_GAP, top);
+    blit(canvas, highlight, (cell.width + DIFF_IMAGE_GAP) * 2, top);
+    top += cell.height + DIFF_IMAGE_GAP;
+  });
+
+  return rawToPng(canvas);
+}
+
+/**
+ * 比较帧中的对象
+ *
+ * 按图层顺序，每个修改前的对象与第一个未匹配、精灵索引相同的修改后对象配对，
+ * 未配对的对象为新增或删除，字段与图层序号都相同的对象不列出
+ */
+function diffObjects(before: H5AnimateObject[], after: H5AnimateObject[]): ObjectDiff[] {
+  const matched = new Set<number>();
+  const result: ObjectDiff[] = [];
+
+  before.forEach((object, layerBefore) => {
+    const layerAfter = after.findIndex((other, i) => !matched.has(i) && other.index === object.index);
+    if (layerAfter < 0) {
+      result.push({ kind: "removed", index: object.index, layerBefore, object, changes: [] });
+      return;
+    }
+
+    matched.add(layerAfter);
+    const changes: FieldDelta[] = [];
+    for (const field of OBJECT_FIELDS) {
+      const valueBefore = object[field] ?? 0;
+      const valueAfter = after[layerAfter][field] ?? 0;
+      if (valueBefore !== valueAfter) {
+        changes.push({ field, before: valueBefore, after: valueAfter, delta: valueAfter - valueBefore });
+      }
+    }
+
+    if (changes.length > 0 || layerBefore !== layerAfter) {
+      const moved = changes.some((change) => change.field === "x" || change.field === "y");
+      const kind = moved ? "moved" : changes.length > 0 ? "changed" : "reordered";
+      result.push({ kind, index: object.index, layerBefore, layerAfter, object, changes });
+    }
+  });
+
+  after.forEach((object, layerAfter) => {
+    if (!matched.has(layerAfter)) {
+      result.push({ kind: "added", index: object.index, layerAfter, object, changes: [] });
+    }
+  });
+
+  return result;
+}
+
+/**
+ * 比较帧中的音效，按名称配对
+ */
+function diffSounds(before: SoundMeta[], after: SoundMeta[]): SoundDiff[] {
+  const matched = new Set<number>();
+  const result: SoundDiff[] = [];
+
+  for (const sound of before) {
+    const i = after.findIndex((other, j) => !matched.has(j) && other.name === sound.name);
+    if (i < 0) {
+      result.push({ kind: "removed", name: sound.name, before: sound });
+      continue;
+    }
+
+    matched.add(i);
+    if (sound.volume !== after[i].volume || sound.pitch !== after[i].pitch) {
+      result.push({ kind: "changed", name: sound.name, before: sound, after: after[i] });
+    }
+  }
+
+  after.forEach((sound, i) => {
+    if (!matched.has(i)) {
+      result.push({ kind: "added", name: sound.name, after: sound });
+    }
+  });
+
+  return result;
+}
+
+/**
+ * 比较每一帧，缺少的帧视为空帧
+ */
+function diffFrames(before: H5AnimateFrame[], after: H5AnimateFrame[]): FrameDiff[] {
+  const result: FrameDiff[] = [];
+
+  for (let frame = 0; frame < Math.max(before.length, after.length); frame++) {
+    const objects = diffObjects(before[frame]?.objects ?? [], after[frame]?.objects ?? []);
+    const sounds = diffSounds(before[frame]?.sound ?? [], after[frame]?.sound ?? []);
+    const kind = !before[frame] ? "added" : !after[frame] ? "removed" : "changed";
+    const duration = kind === "changed" ? compareValue(before[frame].duration, after[frame].duration) : undefined;
+
+    if (kind !== "changed" || objects.length > 0 || sounds.length > 0 || duration) {
+      result.push({ frame, kind, objects, sounds, ...(duration && { duration }) });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * 比较两个解码后的 h5animate 文件
+ *
+ * @param before - 修改前的动画
+ * @param after - 修改后的动画
+ * @param options - 比较选项
+ * @returns 语义差异
+ * @throws H5AnimateError 如果比较像素时精灵图解码失败，或嵌入音效分块损坏
+ *
+ * @example
+ * ```typescript
+ * import { decode, diffAnimations, formatAnimationDiff } from "@motajs/h5animate";
+ * import { readFileSync } from "fs";
+ *
+ * const diff = await diffAnimations(decode(readFileSync("old.h5animate")), decode(readFileSync("new.h5animate")));
+ * console.log(formatAnimationDiff(diff));
+ * ```
+ */
+export async function diffAnimations(
+  before: DecodedH5Animate,
+  after: DecodedH5Animate,
+  options: DiffOptions = {},
+): Promise<AnimationDiff> {
+  const header = diffHeader(before, after);
+  const sprites = await diffSprites(before, after, options);
+  const frames = diffFrames(before.meta.frame, after.meta.frame);
+  const spriteCount = compareValue(before.spriteInfo.count, after.spriteInfo.count);
+  const frameCount = compareValue(before.meta.frame.length, after.meta.frame.length);
+
+  const result: AnimationDiff = {
+    identical: Object.keys(header).length === 0 && sprites.changes.length === 0 && frames.length === 0,
+    header,
+    sprites: { ...(spriteCount && { count: spriteCount }), changes: sprites.changes },
+    frames: { ...(frameCount && { count: frameCount }), changes: frames },
+  };
+  if (sprites.diffImage) {
+    result.diffImage = sprites.diffImage;
+  }
+  return result;
+}
+
+/**
+ * 格式化尺寸
+ */
+function formatSize(size: SpriteDimension | WebPSize | null | undefined): string {
+  return size ? `${size.width}x${size.height}` : "无";
+}
+
+/**
+ * 格式化对象数据
+ */
+function formatObject(object: H5AnimateObject): string {
+  return OBJECT_FIELDS
+    .filter((field) => object[field] !== undefined)
+    .map((field) => `${field}=${object[field]}`)
+    .join(" ");
+}
+
+/**
+ * 格式化音效参数，未指定的参数显示为"默认"
+ */
+function formatSound(sound: SoundMeta | undefined): string {
+  return `volume=${sound?.volume ?? "默认"} pitch=${sound?.pitch ?? "默认"}`;
+}
+
+/**
+ * 格式化帧率或帧时长，未指定时显示为"默认"
+ */
+function formatTiming(value: number | undefined): string {
+  return value === undefined ? "默认" : String(value);
+}
+
+/**
+ * 将差异格式化为文本
+ *
+ * 每行以 + 表示新增、- 表示删除、~ 表示修改
+ *
+ * @param diff - 语义差异
+ * @returns 多行文本，没有差异时为"没有差异"
+ */
+export function formatAnimationDiff(diff: AnimationDiff): string {
+  if (diff.identical) {
+    return "没有差异";
+  }
+
+  const { header, sprites, frames } = diff;
+  const lines: string[] = [];
+  const arrow = <T>(change: ValueChange<T>, format: (value: T) => string = String) =>
+    `${format(change.before)} → ${format(change.after)}`;
+  const names = (change: NameListChange) =>
+    [...change.added.map((name) => `+${name}`), ...change.removed.map((name) => `-${name}`)].join(" ");
+
+  if (header.version) lines.push(`版本: ${arrow(header.version)}`);
+  if (header.metaEncoding) lines.push(`元信息编码: ${arrow(header.metaEncoding)}`);
+  if (header.ratio) lines.push(`缩放比例: ${arrow(header.ratio)}`);
+  if (header.fps) lines.push(`帧率: ${arrow(header.fps, formatTiming)}`);
+  if (header.sheet) lines.push(`精灵图: ${arrow(header.sheet, formatSize)}`);
+  if (header.embeddedSounds) lines.push(`嵌入音效: ${names(header.embeddedSounds)}`);
+  if (header.chunks) lines.push(`其他分块: ${names(header.chunks)}`);
+
+  if (sprites.count || sprites.changes.length > 0) {
+    lines.push(sprites.count ? `精灵: ${arrow(sprites.count)} 个` : "精灵:");
+    for (const sprite of sprites.changes) {
+      const pixels = sprite.differentPixels !== undefined ? `，${sprite.differentPixels} 个像素不同` : "";
+      switch (sprite.kind) {
+        case "added":
+          lines.push(`  + 精灵 ${sprite.index}: ${formatSize(sprite.after)}`);
+          break;
+        case "removed":
+          lines.push(`  - 精灵 ${sprite.index}: ${formatSize(sprite.before)}`);
+          break;
+        case "resized":
+          lines.push(`  ~ 精灵 ${sprite.index}: 尺寸 ${formatSize(sprite.before)} → ${formatSize(sprite.after)}${pixels}`);
+          break;
+        default:
+          lines.push(`  ~ 精灵 ${sprite.index}: 内容修改${pixels}`);
+      }
+    }
+  }
+
+  if (frames.count || frames.changes.length > 0) {
+    lines.push(frames.count ? `帧: ${arrow(frames.count)} 帧` : "帧:");
+    for (const frame of frames.changes) {
+      const label = frame.kind === "added" ? "（新增）" : frame.kind === "removed" ? "（删除）" : "";
+      lines.push(`  帧 ${frame.frame}${label}:`);
+
+      if (frame.duration) {
+        lines.push(`    ~ 时长 ${arrow(frame.duration, formatTiming)}`);
+      }
+
+      for (const object of frame.objects) {
+        const layer = object.layerBefore !== undefined && object.layerAfter !== undefined
+          && object.layerBefore !== object.layerAfter
+          ? `图层 ${object.layerBefore} → ${object.layerAfter}（精灵 ${object.index}）`
+          : `图层 ${object.layerAfter ?? object.layerBefore}（精灵 ${object.index}）`;
+        if (object.kind === "added" || object.kind === "removed") {
+          lines.push(`    ${object.kind === "added" ? "+" : "-"} ${layer} ${formatObject(object.object)}`);
+        } else {
+          const deltas = object.changes.map((change) =>
+            `${change.field} ${change.before} → ${change.after}（${change.delta > 0 ? "+" : ""}${change.delta}）`,
+          );
+          lines.push(`    ~ ${[layer, deltas.join("，")].filter(Boolean).join(" ")}`);
+        }
+      }
+
+      for (const sound of frame.sounds) {
+        if (sound.kind === "changed") {
+          lines.push(`    ~ 音效 ${sound.name}: ${formatSound(sound.before)} → ${formatSound(sound.after)}`);
+        } else {
+          lines.push(`    ${sound.kind === "added" ? "+" : "-"} 音效 ${sound.name}`);
+        }
+      }
+    }
+  }
+
+  return lines.join("\n");
+}
@@ -0,0 +1,620 @@
+/**
+ * 元数据编辑
+ *
+ * 提供对 `H5AnimateMeta` 的不可变编辑操作。每个操作都不修改输入，
+ * 返回新的元数据以及可用于撤销、重做的补丁；未改动的帧与输入共享引用。
+ * 编辑结果始终能通过 `validateH5AnimateMeta` 的验证
+ */
+
+import { createValidationError } from "./errors.js";
+import type { H5AnimateFrame, H5AnimateMeta, H5AnimateObject } from "./types.js";
+
+/**
+ * 替换全局缩放比例的补丁
+ */
+export interface RatioPatch {
+  op: "replace";
+  path: ["ratio"];
+  value: number;
+}
+
+/**
+ * 替换帧率的补丁，value 为 undefined 时移除 fps 字段
+ */
+export interface FpsPatch {
+  op: "replace";
+  path: ["fps"];
+  value: number | undefined;
+}
+
+/**
+ * 插入或替换帧的补丁
+ *
+ * - add: 在指定位置插入一帧，之后的帧依次后移
+ * - replace: 替换指定位置的帧
+ */
+export interface FrameUpdatePatch {
+  op: "add" | "replace";
+  path: ["frame", number];
+  value: H5AnimateFrame;
+}
+
+/**
+ * 删除指定位置的帧的补丁
+ */
+export interface FrameRemovePatch {
+  op: "remove";
+  path: ["frame", number];
+}
+
+/**
+ * 元数据补丁
+ */
+export type MetaPatch = RatioPatch | FpsPatch | FrameUpdatePatch | FrameRemovePatch;
+
+/**
+ * 编辑结果
+ */
+export interface MetaEdit {
+  /** 编辑后的元数据 */
+  meta: H5AnimateMeta;
+  /** 从编辑前到编辑后的补丁，用于重做 */
+  patches: MetaPatch[];
+  /** 从编辑后回到编辑前的补丁，用于撤销 */
+  inversePatches: MetaPatch[];
+}
+
+/**
+ * 帧范围，包含 start，不包含 end
+ */
+export interface FrameRange {
+  /** 起始帧索引（默认 0） */
+  start?: number;
+  /** 结束帧索引（默认总帧数） */
+  end?: number;
+}
+
+/**
+ * 修改缩放比例的选项
+ */
+export interface SetRatioOptions {
+  /**
+   * 是否保持画面尺寸不变（默认 true）
+   *
+   * 为 true 时按比例调整每个对象的 scale，画面与修改前一致；
+   * 为 false 时按比例调整每个对象的 x、y，整段动画随 ratio 等比缩放
+   */
+  preserveSize?: boolean;
+}
+
+/**
+ * 检查索引是否为指定范围内的整数
+ *
+ * @throws H5AnimateError 如果索引不是 0 到 max 之间的整数
+ */
+function checkIndex(value: number, max: number, name: string): void {
+  if (!Number.isInteger(value) || value < 0 || value > max) {
+    throw createValidationError(`${name} 必须是 0-${max} 之间的整数，实际为 ${value}`);
+  }
+}
+
+/**
+ * 检查数量是否为正整数
+ *
+ * @throws H5AnimateError 如果数量不是正整数
+ */
+function checkCount(value: number, name: string): void {
+  if (!Number.isInteger(value) || value < 1) {
+    throw createValidationError(`${name} 必须是正整数，实际为 ${value}`);
+  }
+}
+
+/**
+ * 解析并检查帧范围
+ *
+ * @throws H5AnimateError 如果范围越界或 start 大于 end
+ */
+function resolveRange(meta: H5AnimateMeta, range: FrameRange = {}): [number, number] {
+  const length = meta.frame.length;
+  const start = range.start ?? 0;
+  const end = range.end ?? length;
+  checkIndex(start, length, "start");
+  checkIndex(end, length, "end");
+  if (start > end) {
+    throw createValidationError(`start (${start}) 不能大于 end (${end})`);
+  }
+  return [start, end];
+}
+
+/**
+ * 深拷贝一帧
+ */
+function cloneFrame(frame: H5AnimateFrame): H5AnimateFrame {
+  const copy: H5AnimateFrame = {};
+  if (frame.objects) {
+    copy.objects = frame.objects.map((object) => ({ ...object }));
+  }
+  if (frame.sound) {
+    copy.sound = frame.sound.map((sound) => ({ ...sound }));
+  }
+  if (frame.duration !== undefined) {
+    copy.duration = frame.duration;
+  }
+  return copy;
+}
+
+/**
+ * 以新的对象列表替换帧中的对象，空列表会移除 objects 字段
+ */
+function withObjects(frame: H5AnimateFrame, objects: H5AnimateObject[]): H5AnimateFrame {
+  const { objects: _objects, ...rest } = frame;
+  return objects.length > 0 ? { ...rest, objects } : rest;
+}
+
+/**
+ * 对范围内每帧的对象应用变换，变换返回原对象时视为未改变，未改变的帧保留原引用
+ */
+function mapObjects(
+  meta: H5AnimateMeta,
+  range: FrameRange | undefined,
+  transform: (object: H5AnimateObject, layer: number) => H5AnimateObject,
+): H5AnimateFrame[] {
+  const [start, end] = resolveRange(meta, range);
+
+  return meta.frame.map((frame, frameIndex) => {
+    if (frameIndex < start || frameIndex >= end || !frame.objects) {
+      return frame;
+    }
+    const objects = frame.objects.map(transform);
+    return objects.every((object, layer) => object === frame.objects![layer]) ? frame : withObjects(frame, objects);
+  });
+}
+
+/**
+ * 计算两份元数据之间的补丁
+ *
+ * 帧按引用比较：跳过首尾相同的帧，中间部分依次替换，多出的帧插入或删除
+ *
+ * @param before - 编辑前的元数据
+ * @param after - 编辑后的元数据
+ * @returns 将 before 变为 after 的补丁
+ */
+export function diffMeta(before: H5AnimateMeta, after: H5AnimateMeta): MetaPatch[] {
+  const patches: MetaPatch[] = [];
+
+  if (before.ratio !== after.ratio) {
+    patches.push({ op: "replace", path: ["ratio"], value: after.ratio });
+  }
+
+  if (before.fps !== after.fps) {
+    patches.push({ op: "replace", path: ["fps"], value: after.fps });
+  }
+
+  const a = before.frame;
+  const b = after.frame;
+  const shared = Math.min(a.length, b.length);
+
+  let prefix = 0;
+  while (prefix < shared && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (suffix < shared - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) {
+    suffix++;
+  }
+
+  const oldCount = a.length - prefix - suffix;
+  const newCount = b.length - prefix - suffix;
+  const common = Math.min(oldCount, newCount);
+
+  for (let i = 0; i < common; i++) {
+    if (a[prefix + i] !== b[prefix + i]) {
+      patches.push({ op: "replace", path: ["frame", prefix + i], value: b[prefix + i] });
+    }
+  }
+  for (let i = common; i < newCount; i++) {
+    patches.push({ op: "add", path: ["frame", prefix + i], value: b[prefix + i] });
+  }
+  for (let i = common; i < oldCount; i++) {
+    patches.push({ op: "remove", path: ["frame", prefix + common] });
+  }
+
+  return patches;
+}
+
+/**
+ * 将补丁应用到元数据上
+ *
+ * @param meta - 元数据
+ * @param patches - 依次应用的补丁
+ * @returns 新的元数据，不修改输入
+ * @throws H5AnimateError 如果补丁的位置越界
+ */
+export function applyPatches(meta: H5AnimateMeta, patches: readonly MetaPatch[]): H5AnimateMeta {
+  let ratio = meta.ratio;
+  let fps = meta.fps;
+  const frames = [...meta.frame];
+
+  for (const patch of patches) {
+    if (patch.path[0] === "ratio") {
+      ratio = (patch as RatioPatch).value;
+      continue;
+    }
+    if (patch.path[0] === "fps") {
+      fps = (patch as FpsPatch).value;
+      continue;
+    }
+
+    const index = patch.path[1];
+    checkIndex(index, patch.op === "add" ? frames.length : frames.length - 1, "补丁位置");
+
+    if (patch.op === "remove") {
+      frames.splice(index, 1);
+    } else if (patch.op === "add") {
+      frames.splice(index, 0, (patch as FrameUpdatePatch).value);
+    } else {
+      frames[index] = (patch as FrameUpdatePatch).value;
+    }
+  }
+
+  return fps === undefined ? { ratio, frame: frames } : { ratio, fps, frame: frames };
+}
+
+/**
+ * 生成编辑结果
+ */
+function commit(before: H5AnimateMeta, after: H5AnimateMeta): MetaEdit {
+  return {
+    meta: after,
+    patches: diffMeta(before, after),
+    inversePatches: diffMeta(after, before),
+  };
+}
+
+/**
+ * 插入帧
+ *
+ * @param meta - 元数据
+ * @param index - 插入位置（0 到总帧数）
+ * @param frames - 插入的帧（默认一个空帧）
+ * @returns 编辑结果
+ * @throws H5AnimateError 如果插入位置越界
+ */
+export function insertFrames(
+  meta: H5AnimateMeta,
+  index: number,
+  frames: H5AnimateFrame[] = [{}],
+): MetaEdit {
+  checkIndex(index, meta.frame.length, "index");
+
+  return commit(meta, {
+    ...meta,
+    frame: [...meta.frame.slice(0, index), ...frames.map(cloneFrame), ...meta.frame.slice(index)],
+  });
+}
+
+/**
+ * 删除帧
+ *
+ * @param meta - 元数据
+ * @param start - 起始帧索引
+ * @param count - 删除的帧数（默认 1）
+ * @returns 编辑结果
+ * @throws H5AnimateError 如果范围越界
+ */
+export function deleteFrames(meta: H5AnimateMeta, start: number, count: number = 1): MetaEdit {
+  checkCount(count, "count");
+  resolveRange(meta, { start, end: start + count });
+
+  return commit(meta, {
+    ...meta,
+    frame: [...meta.frame.slice(0, start), ...meta.frame.slice(start + count)],
+  });
+}
+
+/**
+ * 复制帧，副本插入在原帧之后
+ *
+ * @param meta - 元数据
+ * @param start - 起始帧索引
+ * @param count - 复制的帧数（默认 1）
+ * @returns 编辑结果
+ * @throws H5AnimateError 如果范围越界
+ */
+export function duplicateFrames(meta: H5AnimateMeta, start: number, count: number = 1): MetaEdit {
+  checkCount(count, "count");
+  resolveRange(meta, { start, end: start + count });
+
+  return insertFrames(meta, start + count, meta.frame.slice(start, start + count));
+}
+
+/**
+ * 移动帧
+ *
+ * @param meta - 元数据
+ * @param from - 被移动的起始帧索引
+ * @param to - 移动后的起始帧索引
+ * @param count - 移动的帧数（默认 1）
+ * @returns 编辑结果
+ * @throws H5AnimateError 如果范围越界
+ */
+export function moveFrames(
+  meta: H5AnimateMeta,
+  from: number,
+  to: number,
+  count: number = 1,
+): MetaEdit {
+  checkCount(count, "count");
+  resolveRange(meta, { start: from, end: from + count });
+  checkIndex(to, meta.frame.length - count, "to");
+
+  const moved = meta.frame.slice(from, from + count);
+  const rest = [...meta.frame.slice(0, from), ...meta.frame.slice(from + count)];
+
+  return commit(meta, {
+    ...meta,
+    frame: [...rest.slice(0, to), ...moved, ...rest.slice(to)],
+  });
+}
+
+/**
+ * 倒放指定范围内的帧，音效随帧移动
+ *
+ * @param meta - 元数据
+ * @param range - 帧范围（默认全部帧）
+ * @returns 编辑结果
+ * @throws H5AnimateError 如果范围越界
+ */
+export function reverseFrames(meta: H5AnimateMeta, range?: FrameRange): MetaEdit {
+  const [start, end] = resolveRange(meta, range);
+
+  return commit(meta, {
+    ...meta,
+    frame: [
+      ...meta.frame.slice(0, start),
+      ...meta.frame.slice(start, end).reverse(),
+      ...meta.frame.slice(end),
+    ],
+  });
+}
+
+/**
+ * 修改帧范围，只保留 [start, end) 内的帧
+ *
+ * end 超出总帧数时在末尾补充空帧
+ *
+ * @param meta - 元数据
+ * @param start - 保留的起始帧索引
+ * @param end - 保留的结束帧索引（不含）
+ * @returns 编辑结果
+ * @throws H5AnimateError 如果 start 越界或 end 小于 start
+ */
+export function cropFrames(meta: H5AnimateMeta, start: number, end: number): MetaEdit {
+  checkIndex(start, meta.frame.length, "start");
+  if (!Number.isInteger(end) || end < start) {
+    throw createValidationError(`end 必须是不小于 start (${start}) 的整数，实际为 ${end}`);
+  }
+
+  const padding = Math.max(0, end - meta.frame.length);
+
+  return commit(meta, {
+    ...meta,
+    frame: [
+      ...meta.frame.slice(start, end),
+      ...Array.from({ length: padding }, (): H5AnimateFrame => ({})),
+    ],
+  });
+}
+
+/**
+ * 平移对象
+ *
+ * @param meta - 元数据
+ * @param dx - X 方向的位移
+ * @param dy - Y 方向的位移
+ * @param options - 只平移指定图层或帧范围内的对象（默认全部）
+ * @returns 编辑结果
+ * @throws H5AnimateError 如果范围越界
+ */
+export function shiftObjects(
+  meta: H5AnimateMeta,
+  dx: number,
+  dy: number,
+  options: FrameRange & { layer?: number } = {},
+): MetaEdit {
+  const { layer, ...range } = options;
+
+  return commit(meta, {
+    ...meta,
+    frame: mapObjects(meta, range, (object, index) =>
+      layer === undefined || index === layer
+        ? { ...object, x: object.x + dx, y: object.y + dy }
+        : object,
+    ),
+  });
+}
+
+/**
+ * 调整图层的绘制顺序
+ *
+ * 图层指每帧 `objects` 中同一位置的对象。没有 from 图层的帧保持不变，
+ * to 超出该帧的图层数时移到最上层
+ *
+ * @param meta - 元数据
+ * @param from - 原图层位置
+ * @param to - 新图层位置
+ * @param range - 帧范围（默认全部帧）
+ * @returns 编辑结果
+ * @throws H5AnimateError 如果图层位置不是非负整数或范围越界
+ */
+export function moveLayer(
+  meta: H5AnimateMeta,
+  from: number,
+  to: number,
+  range?: FrameRange,
+): MetaEdit {
+  checkIndex(from, Number.MAX_SAFE_INTEGER, "from");
+  checkIndex(to, Number.MAX_SAFE_INTEGER, "to");
+  const [start, end] = resolveRange(meta, range);
+
+  return commit(meta, {
+    ...meta,
+    frame: meta.frame.map((frame, frameIndex) => {
+      const objects = frame.objects;
+      if (frameIndex < start || frameIndex >= end || !objects || from >= objects.length) {
+        return frame;
+      }
+      const target = Math.min(to, objects.length - 1);
+      if (target === from) {
+        return frame;
+      }
+      const rest = objects.filter((_, index) => index !== from);
+      return withObjects(frame, [...rest.slice(0, target), objects[from], ...rest.slice(target)]);
+    }),
+  });
+}
+
+/**
+ * 调整图层的出现时间
+ *
+ * 将范围内每帧指定图层的对象移到 offset 帧之后（负数为之前）的帧中，仍插入到同一图层位置
+ *
+ * @param meta - 元数据
+ * @param layer - 图层位置
+ * @param offset - 移动的帧数
+ * @param range - 帧范围（默认全部帧）
+ * @returns 编辑结果
+ * @throws H5AnimateError 如果范围越界或移动后超出总帧数
+ */
+export function retimeLayer(
+  meta: H5AnimateMeta,
+  layer: number,
+  offset: number,
+  range?: FrameRange,
+): MetaEdit {
+  checkIndex(layer, Number.MAX_SAFE_INTEGER, "layer");
+  if (!Number.isInteger(offset)) {
+    throw createValidationError(`offset 必须是整数，实际为 ${offset}`);
+  }
+  const [start, end] = resolveRange(meta, range);
+
+  // 先取出所有被移动的对象，再放入目标帧，避免范围重叠时重复移动
+  const moved: Array<[number, H5AnimateObject]> = [];
+  const frames = meta.frame.map((frame, frameIndex) => {
+    const objects = frame.objects;
+    if (frameIndex < start || frameIndex >= end || !objects || layer >= objects.length) {
+      return frame;
+    }
+
+    const target = frameIndex + offset;
+    if (target < 0 || target >= meta.frame.length) {
+      throw createValidationError(
+        `第 ${frameIndex} 帧的图层 ${layer} 移动 ${offset} 帧后超出范围（共 ${meta.frame.length} 帧）`,
+      );
+    }
+
+    moved.push([target, objects[layer]]);
+    return withObjects(frame, objects.filter((_, index) => index !== layer));
+  });
+
+  for (const [target, object] of moved) {
+    const objects = frames[target].objects ?? [];
+    const position = Math.min(layer, objects.length);
+    frames[target] = withObjects(frames[target], [
+      ...objects.slice(0, position),
+      object,
+      ...objects.slice(position),
+    ]);
+  }
+
+  return commit(meta, { ...meta, frame: frames });
+}
+
+/**
+ * 修改全局缩放比例
+ *
+ * @param meta - 元数据
+ * @param ratio - 新的缩放比例，必须为正数
+ * @param options - 修改选项
+ * @returns 编辑结果
+ * @throws H5AnimateError 如果缩放比例不是正数
+ */
+export function setRatio(
+  meta: H5AnimateMeta,
+  ratio: number,
+  options: SetRatioOptions = {},
+): MetaEdit {
+  if (!Number.isFinite(ratio) || ratio <= 0) {
+    throw createValidationError(`ratio 必须是正数，实际为 ${ratio}`);
+  }
+  if (ratio === meta.ratio) {
+    return commit(meta, meta);
+  }
+
+  const factor = ratio / meta.ratio;
+  const { preserveSize = true } = options;
+
+  return commit(meta, {
+    ...meta,
+    ratio,
+    frame: mapObjects(meta, undefined, (object) =>
+      preserveSize
+        ? { ...object, scale: object.scale / factor }
+        : { ...object, x: object.x * factor, y: object.y * factor },
+    ),
+  });
+}
+
+/**
+ * 修改帧率
+ *
+ * 只影响未指定 duration 的帧
+ *
+ * @param meta - 元数据
+ * @param fps - 新的帧率，undefined 表示移除 fps 字段、按默认帧率播放
+ * @returns 编辑结果
+ * @throws H5AnimateError 如果帧率不是正数
+ */
+export function setFps(meta: H5AnimateMeta, fps: number | undefined): MetaEdit {
+  if (fps !== undefined && (!Number.isFinite(fps) || fps <= 0)) {
+    throw createValidationError(`fps 必须是正数，实际为 ${fps}`);
+  }
+  if (fps === meta.fps) {
+    return commit(meta, meta);
+  }
+
+  const { fps: _fps, ...rest } = meta;
+  return commit(meta, fps === undefined ? rest : { ...rest, fps });
+}
+
+/**
+ * 修改范围内每帧的显示时长
+ *
+ * @param meta - 元数据
+ * @param duration - 新的时长（毫秒），undefined 表示移除 duration 字段、按帧率播放
+ * @param range - 帧范围（默认全部帧）
+ * @returns 编辑结果
+ * @throws H5AnimateError 如果时长不是正数或范围越界
+ */
+export function setFrameDuration(
+  meta: H5AnimateMeta,
+  duration: number | undefined,
+  range?: FrameRange,
+): MetaEdit {
+  if (duration !== undefined && (!Number.isFinite(duration) || duration <= 0)) {
+    throw createValidationError(`duration 必须是正数，实际为 ${duration}`);
+  }
+  const [start, end] = resolveRange(meta, range);
+
+  return commit(meta, {
+    ...meta,
+    frame: meta.frame.map((frame, frameIndex) => {
+      if (frameIndex < start || frameIndex >= end || frame.duration === duration) {
+        return frame;
+      }
+      const { duration: _duration, ...rest } = frame;
+      return duration === undefined ? rest : { ...rest, duration };
+    }),
+  });
+}
@@ -4,20 +4,52 @@
  * 提供 h5animate 格式的编码功能
  */
 
-import { BinaryWriter } from "./binary.js";
+import { BinaryWriter, CHUNK_HEADER_SIZE, getChunkSize, isValidChunkTag } from "./binary.js";
+import { crc32 } from "./crc32.js";
 import { createValidationError } from "./errors.js";
+import { encodeBinaryMeta } from "./metacodec.js";
+import {
+  CHUNK_CHECKSUM,
+  CHUNK_META,
+  CHUNK_SPRITE_INFO,
+  CHUNK_WEBP,
+  FORMAT_VERSION_1,
+  FORMAT_VERSION_3,
+  KNOWN_CHUNK_TAGS,
+  getMetaEncoding,
+  getVersionedSpriteInfoSize,
+  isChunkedVersion,
+  resolveEncodeVersion,
+  writeSpriteInfo,
+} from "./version.js";
 import type {
   H5AnimateMeta,
   H5AnimateFrame,
   H5AnimateObject,
   SpriteInfo,
+  H5AnimateChunk,
+  MetaEncoding,
 } from "./types.js";
 
 /** 文件签名常量 */
 const FILE_SIGNATURE = "ANIM";
 
-/** 当前版本号 */
-const CURRENT_VERSION = 1;
+/** 文件头大小：4 (签名) + 4 (版本) + 4 + 4 (各部分大小或分块信息) */
+const HEADER_SIZE = 16;
+
+/**
+ * 编码选项
+ */
+export interface EncodeH5AnimateOptions {
+  /** 写入的格式版本，默认为元信息编码对应的版本 */
+  version?: number;
+  /** 元信息编码，默认由版本决定：版本 4 为 binary，其余为 json */
+  metaEncoding?: MetaEncoding;
+  /** 额外写入的分块，仅分块容器支持，通常来自解码结果的 `chunks` */
+  chunks?: H5AnimateChunk[];
+  /** 是否写入 CSUM 校验和分块，仅分块容器支持（默认 true） */
+  checksum?: boolean;
+}
 
 /**
  * 将 H5AnimateObject 转换为数组格式
@@ -64,16 +96,20 @@ export function metaReplacer(key: string, value: unknown): unknown {
  */
 export function convertObjectsToArrays(meta: H5AnimateMeta): {
   ratio: number;
+  fps?: number;
   frame: Array<{
     sound?: Array<{ name: string; volume?: number; pitch?: number }>;
     objects?: number[][];
+    duration?: number;
   }>;
 } {
   return {
     ratio: meta.ratio,
+    ...(meta.fps !== undefined && { fps: meta.fps }),
     frame: meta.frame.map((frame: H5AnimateFrame) => ({
       sound: frame.sound,
       objects: frame.objects?.map(convertObjectToArray),
+      ...(frame.duration !== undefined && { duration: frame.duration }),
     })),
   };
 }
@@ -82,11 +118,11 @@ export function convertObjectsToArrays(meta: H5AnimateMeta): {
  * 计算精灵图信息占用的字节数
  *
  * @param spriteInfo - 精灵图信息
+ * @param version - 文件版本号（默认 1）
  * @returns 字节数
  */
-export function getSpriteInfoSize(spriteInfo: SpriteInfo): number {
-  // 4 字节用于 count + 每个精灵图 8 字节 (width + height)
-  return 4 + spriteInfo.count * 8;
+export function getSpriteInfoSize(spriteInfo: SpriteInfo, version: number = FORMAT_VERSION_1): number {
+  return getVersionedSpriteInfoSize(spriteInfo, version);
 }
 
 /**
@@ -136,50 +172,64 @@ export function validateEncodeInput(
 }
 
 /**
- * 编码为 h5animate 格式
+ * 验证额外分块
  *
- * 将动画元数据、精灵图信息和 WebP 数据编码为 h5animate 二进制格式
+ * @param chunks - 额外分块
+ * @param version - 写入的版本号
+ * @throws H5AnimateError 如果版本不支持分块、标签无效或与已知分块重复
+ */
+export function validateExtraChunks(chunks: H5AnimateChunk[], version: number): void {
+  if (chunks.length === 0) {
+    return;
+  }
+
+  if (!isChunkedVersion(version)) {
+    throw createValidationError(
+      `版本 ${version} 不支持额外分块，至少需要版本 ${FORMAT_VERSION_3}`,
+    );
+  }
+
+  for (const chunk of chunks) {
+    if (!isValidChunkTag(chunk.tag)) {
+      throw createValidationError(`无效的分块标签: "${chunk.tag}"，必须为 4 个可打印 ASCII 字符`);
+    }
+    if (KNOWN_CHUNK_TAGS.includes(chunk.tag)) {
+      throw createValidationError(`分块标签 "${chunk.tag}" 已被保留`);
+    }
+    if (!Buffer.isBuffer(chunk.data)) {
+      throw createValidationError(`分块 "${chunk.tag}" 的数据必须是 Buffer`);
+    }
+  }
+}
+
+/**
+ * 按固定布局编码（版本 1、2）
  *
- * @param meta - H5Animate 元数据
- * @param spriteInfo - 精灵图信息
- * @param webpData - WebP 图像数据
- * @returns 编码后的二进制数据
- * @throws H5AnimateError 如果输入数据无效
+ * 文件头 → 精灵图信息 → WebP 数据 → 元数据
  */
-export function encodeH5Animate(
-  meta: H5AnimateMeta,
+function encodeFixedLayout(
+  version: number,
   spriteInfo: SpriteInfo,
   webpData: Buffer,
+  metaBuffer: Buffer,
 ): Buffer {
-  // 验证输入
-  validateEncodeInput(meta, spriteInfo, webpData);
-
-  // 序列化元数据，使用 replacer 将对象转换为数组格式
-  const metaJson = JSON.stringify(meta, metaReplacer);
-  const metaBuffer = Buffer.from(metaJson, "utf8");
-
   // 计算精灵图信息大小
-  const spriteInfoSize = getSpriteInfoSize(spriteInfo);
+  const spriteInfoSize = getSpriteInfoSize(spriteInfo, version);
   const totalImageDataSize = spriteInfoSize + webpData.length;
 
-  // 计算总大小: 文件头 (16 字节) + 图像数据 + 元数据
-  const headerSize = 16; // 4 (签名) + 4 (版本) + 4 (图像数据大小) + 4 (元数据大小)
-  const totalSize = headerSize + totalImageDataSize + metaBuffer.length;
+  // 计算总大小: 文件头 + 图像数据 + 元数据
+  const totalSize = HEADER_SIZE + totalImageDataSize + metaBuffer.length;
 
   const writer = new BinaryWriter(totalSize);
 
   // 写入文件头
   writer.writeString(FILE_SIGNATURE);
-  writer.writeUInt32LE(CURRENT_VERSION);
+  writer.writeUInt32LE(version);
   writer.writeUInt32LE(totalImageDataSize);
   writer.writeUInt32LE(metaBuffer.length);
 
   // 写入精灵图信息
-  writer.writeUInt32LE(spriteInfo.count);
-  for (const dimension of spriteInfo.dimensions) {
-    writer.writeUInt32LE(dimension.width);
-    writer.writeUInt32LE(dimension.height);
-  }
+  writeSpriteInfo(writer, spriteInfo, version);
 
   // 写入 WebP 数据
   writer.writeBuffer(webpData);
@@ -189,3 +239,89 @@ export function encodeH5Animate(
 
   return writer.getBuffer();
 }
+
+/**
+ * 按分块容器编码（版本 3 起）
+ *
+ * 文件头 → SPRT → WEBP → META → 额外分块 → CSUM（可选）
+ */
+function encodeChunked(
+  version: number,
+  spriteInfo: SpriteInfo,
+  webpData: Buffer,
+  metaBuffer: Buffer,
+  extraChunks: H5AnimateChunk[],
+  checksum: boolean,
+): Buffer {
+  const spriteInfoWriter = new BinaryWriter(getSpriteInfoSize(spriteInfo, version));
+  writeSpriteInfo(spriteInfoWriter, spriteInfo, version);
+
+  const chunks: H5AnimateChunk[] = [
+    { tag: CHUNK_SPRITE_INFO, data: spriteInfoWriter.getBuffer() },
+    { tag: CHUNK_WEBP, data: webpData },
+    { tag: CHUNK_META, data: metaBuffer },
+    ...extraChunks,
+  ];
+  const checksumSize = checksum ? CHUNK_HEADER_SIZE + 4 : 0;
+  const chunkDataSize = chunks.reduce((sum, chunk) => sum + getChunkSize(chunk.data), checksumSize);
+
+  const writer = new BinaryWriter(HEADER_SIZE + chunkDataSize);
+
+  // 写入文件头
+  writer.writeString(FILE_SIGNATURE);
+  writer.writeUInt32LE(version);
+  writer.writeUInt32LE(chunks.length + (checksum ? 1 : 0));
+  writer.writeUInt32LE(chunkDataSize);
+
+  // 写入分块
+  for (const chunk of chunks) {
+    writer.writeChunk(chunk.tag, chunk.data);
+  }
+
+  // 写入此前所有字节的校验和
+  if (checksum) {
+    const value = Buffer.alloc(4);
+    value.writeUInt32LE(crc32(writer.getBuffer().subarray(0, writer.getCurrentOffset())));
+    writer.writeChunk(CHUNK_CHECKSUM, value);
+  }
+
+  return writer.getBuffer();
+}
+
+/**
+ * 编码为 h5animate 格式
+ *
+ * 将动画元数据、精灵图信息和 WebP 数据编码为 h5animate 二进制格式
+ *
+ * @param meta - H5Animate 元数据
+ * @param spriteInfo - 精灵图信息
+ * @param webpData - WebP 图像数据
+ * @param options - 编码选项
+ * @returns 编码后的二进制数据
+ * @throws H5AnimateError 如果输入数据无效，或目标版本不受支持、无法表示数据、与元信息编码不符
+ */
+export function encodeH5Animate(
+  meta: H5AnimateMeta,
+  spriteInfo: SpriteInfo,
+  webpData: Buffer,
+  options: EncodeH5AnimateOptions = {},
+): Buffer {
+  // 验证输入
+  validateEncodeInput(meta, spriteInfo, webpData);
+
+  // 确定写入的版本
+  const version = resolveEncodeVersion(spriteInfo, options.version, options.metaEncoding);
+  const extraChunks = options.chunks ?? [];
+  validateExtraChunks(extraChunks, version);
+
+  // 序列化元数据，JSON 使用 replacer 将对象转换为数组格式
+  const metaBuffer = getMetaEncoding(version) === "binary"
+    ? encodeBinaryMeta(meta)
+    : Buffer.from(JSON.stringify(meta, metaReplacer), "utf8");
+
+  if (isChunkedVersion(version)) {
+    return encodeChunked(version, spriteInfo, webpData, metaBuffer, extraChunks, options.checksum ?? true);
+  }
+
+  return encodeFixedLayout(version, spriteInfo, webpData, metaBuffer);
+}
@@ -27,6 +27,8 @@ export enum H5AnimateErrorCode {
   FILE_TRUNCATED = "H5A006",
   /** 数据大小不匹配 */
   SIZE_MISMATCH = "H5A007",
+  /** 超出解码限制 */
+  LIMIT_EXCEEDED = "H5A009",
 
   // ============ 数据验证错误 (100-199) ============
   /** 验证错误 */
@@ -55,12 +57,26 @@ export enum H5AnimateErrorCode {
   IMAGE_MERGE_ERROR = "H5A301",
   /** 帧提取错误 */
   FRAME_EXTRACTION_ERROR = "H5A302",
+  /** 操作已取消 */
+  ABORTED = "H5A303",
 
   // ============ 兼容性保留 (旧代码映射) ============
   /** @deprecated 使用 VALIDATION_ERROR 代替 */
   VALIDATION_ERROR_LEGACY = "H5A008",
 }
 
+/**
+ * 结构化的验证问题
+ */
+export interface ValidationIssue {
+  /** 错误代码 */
+  code: H5AnimateErrorCode;
+  /** 字段路径，例如 meta.frame[0].objects[1].index */
+  path: string;
+  /** 问题描述 */
+  message: string;
+}
+
 /**
  * H5Animate 自定义错误类
  */
@@ -77,6 +93,8 @@ export class H5AnimateError extends Error {
   public readonly missingFields?: string[];
   /** 字段路径（用于嵌套对象的错误定位） */
   public readonly fieldPath?: string;
+  /** 严格模式下收集到的全部验证问题 */
+  public readonly issues?: ValidationIssue[];
 
   constructor(
     code: H5AnimateErrorCode,
@@ -87,6 +105,7 @@ export class H5AnimateError extends Error {
       actualType?: string;
       missingFields?: string[];
       fieldPath?: string;
+      issues?: ValidationIssue[];
     },
   ) {
     super(message);
@@ -97,6 +116,7 @@ export class H5AnimateError extends Error {
     this.actualType = options?.actualType;
     this.missingFields = options?.missingFields;
     this.fieldPath = options?.fieldPath;
+    this.issues = options?.issues;
   }
 
   /**
@@ -125,6 +145,11 @@ export class H5AnimateError extends Error {
       description += ` (字段路径: ${this.fieldPath})`;
     }
 
+    if (this.issues && this.issues.length > 0) {
+      const lines = this.issues.map((issue) => `  - [${issue.code}] ${issue.path}: ${issue.message}`);
+      description += `\n${lines.join("\n")}`;
+    }
+
     return description;
   }
 
@@ -141,6 +166,7 @@ export class H5AnimateError extends Error {
       actualType: this.actualType,
       missingFields: this.missingFields,
       fieldPath: this.fieldPath,
+      issues: this.issues,
     };
   }
 }
@@ -159,10 +185,14 @@ export function createInvalidSignatureError(actual: string): H5AnimateError {
 /**
  * 创建无效版本错误
  */
-export function createInvalidVersionError(version: number): H5AnimateError {
+export function createInvalidVersionError(
+  version: number,
+  supportedVersions?: number[],
+): H5AnimateError {
+  const supported = supportedVersions ? `，支持的版本: ${supportedVersions.join(", ")}` : "";
   return new H5AnimateError(
     H5AnimateErrorCode.INVALID_VERSION,
-    `不支持的版本号: ${version}`,
+    `不支持的版本号: ${version}${supported}`,
     { position: 4 },
   );
 }
@@ -230,6 +260,19 @@ export function createValidationError(reason: string, missingFields?: string[]):
   );
 }
 
+/**
+ * 创建包含多个验证问题的错误
+ */
+export function createValidationIssuesError(issues: ValidationIssue[]): H5AnimateError {
+  const first = issues[0];
+  const summary = first ? `，首个问题位于 "${first.path}": ${first.message}` : "";
+  return new H5AnimateError(
+    H5AnimateErrorCode.VALIDATION_ERROR,
+    `验证错误: 发现 ${issues.length} 个问题${summary}`,
+    { fieldPath: first?.path, issues },
+  );
+}
+
 /**
  * 创建类型不匹配错误
  */
@@ -323,6 +366,17 @@ export function createSizeMismatchError(
   );
 }
 
+/**
+ * 创建超出解码限制错误，`fieldPath` 为限制项名称
+ */
+export function createLimitExceededError(limit: string, actual: number, max: number): H5AnimateError {
+  return new H5AnimateError(
+    H5AnimateErrorCode.LIMIT_EXCEEDED,
+    `超出解码限制: ${limit} 为 ${max}，实际为 ${actual}`,
+    { fieldPath: limit },
+  );
+}
+
 /**
  * 创建 JSON 解析错误
  */
@@ -366,6 +420,24 @@ export function createFrameExtractionError(reason: string, frameIndex?: number):
   );
 }
 
+/**
+ * 创建操作已取消错误
+ *
+ * @param reason - AbortSignal 的取消原因
+ */
+export function createAbortedError(reason?: unknown): H5AnimateError {
+  let detail = "";
+  if (reason instanceof Error) {
+    detail = `: ${reason.message}`;
+  } else if (typeof reason === "string") {
+    detail = `: ${reason}`;
+  }
+  return new H5AnimateError(
+    H5AnimateErrorCode.ABORTED,
+    `操作已取消${detail}`,
+  );
+}
+
 /**
  * 获取错误类型的描述
  */
@@ -378,6 +450,7 @@ export function getErrorCodeDescription(code: H5AnimateErrorCode): string {
     [H5AnimateErrorCode.INVALID_METADATA]: "元数据格式无效",
     [H5AnimateErrorCode.FILE_TRUNCATED]: "文件不完整，数据被截断",
     [H5AnimateErrorCode.SIZE_MISMATCH]: "声明的数据大小与实际不符",
+    [H5AnimateErrorCode.LIMIT_EXCEEDED]: "文件超出解码限制",
     [H5AnimateErrorCode.VALIDATION_ERROR]: "数据验证失败",
     [H5AnimateErrorCode.TYPE_MISMATCH]: "数据类型不匹配",
     [H5AnimateErrorCode.MISSING_REQUIRED_FIELD]: "缺少必需的字段",
@@ -389,6 +462,7 @@ export function getErrorCodeDescription(code: H5AnimateErrorCode): string {
     [H5AnimateErrorCode.WEBP_PROCESSING_ERROR]: "WebP 图像处理失败",
     [H5AnimateErrorCode.IMAGE_MERGE_ERROR]: "图像合并失败",
     [H5AnimateErrorCode.FRAME_EXTRACTION_ERROR]: "帧提取失败",
+    [H5AnimateErrorCode.ABORTED]: "操作已取消",
     [H5AnimateErrorCode.VALIDATION_ERROR_LEGACY]: "数据验证失败（旧版）",
   };
   return descriptions[code] || "未知错误";
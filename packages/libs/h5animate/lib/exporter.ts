@@ -0,0 +1,165 @@
+/**
+ * 动图导出器
+ *
+ * 将 h5animate 渲染为通用的动态 WebP、GIF 或 APNG，便于在聊天工具和 wiki 中预览
+ */
+
+import sharp from "sharp";
+import { encodeApng } from "./apng.js";
+import { createConversionFailedError, createValidationError } from "./errors.js";
+import { getSpriteRects } from "./decoder.js";
+import {
+  decodeSpriteSheet,
+  renderFrameToRaw,
+  resolveRenderCanvas,
+  type RenderCanvasOptions,
+} from "./render.js";
+import { DEFAULT_FPS, getFrameDurations } from "./timing.js";
+import type { WebPOptions } from "./webp.js";
+import type { DecodedH5Animate, RawImage } from "./types.js";
+
+/** 默认帧延迟（毫秒），与默认帧率一致 */
+const DEFAULT_FRAME_DELAY = 1000 / DEFAULT_FPS;
+
+/** 单帧延迟上限（毫秒），受 WebP/GIF/APNG 的 16 位字段限制 */
+const MAX_FRAME_DELAY = 65535;
+
+/**
+ * 动图格式
+ */
+export type AnimatedImageFormat = "webp" | "gif" | "apng";
+
+/**
+ * 动图导出选项
+ */
+export interface ExportAnimationOptions extends RenderCanvasOptions {
+  /** 输出格式（默认 webp） */
+  format?: AnimatedImageFormat;
+  /** 帧延迟（毫秒），可为统一值或每帧单独指定（默认按元数据的帧率与帧时长取整） */
+  delay?: number | number[];
+  /** 循环次数，0 表示无限循环（默认 0） */
+  loop?: number;
+  /** WebP 压缩选项，仅在 format 为 webp 时生效（默认无损，不支持 auto） */
+  webp?: WebPOptions;
+}
+
+/**
+ * 解析每帧的延迟
+ *
+ * @param delay - 统一延迟或每帧延迟
+ * @param frameCount - 帧数量
+ * @returns 每帧延迟数组
+ * @throws H5AnimateError 如果延迟数组长度与帧数不一致或取值越界
+ */
+export function resolveFrameDelays(
+  delay: number | number[] = DEFAULT_FRAME_DELAY,
+  frameCount: number,
+): number[] {
+  const delays = Array.isArray(delay)
+    ? delay
+    : new Array<number>(frameCount).fill(delay);
+
+  if (delays.length !== frameCount) {
+    throw createValidationError(
+      `帧延迟数量 (${delays.length}) 与帧数 (${frameCount}) 不一致`,
+    );
+  }
+
+  for (const value of delays) {
+    if (!Number.isInteger(value) || value < 0 || value > MAX_FRAME_DELAY) {
+      throw createValidationError(`帧延迟必须是 0-${MAX_FRAME_DELAY} 之间的整数，实际为 ${value}`);
+    }
+  }
+
+  return delays;
+}
+
+/**
+ * 渲染动画的所有帧
+ *
+ * @param animation - 解码后的动画数据
+ * @param options - 渲染选项
+ * @returns 尺寸一致的帧图像数组
+ */
+export async function renderAllFrames(
+  animation: DecodedH5Animate,
+  options: RenderCanvasOptions = {},
+): Promise<RawImage[]> {
+  const rects = getSpriteRects(animation.spriteInfo);
+  const canvas = resolveRenderCanvas(animation.meta, rects, options);
+  const sheet = await decodeSpriteSheet(animation.webpData);
+
+  return animation.meta.frame.map((_, index) =>
+    renderFrameToRaw(sheet, rects, animation.meta, index, canvas, options.background),
+  );
+}
+
+/**
+ * 使用 sharp 将帧序列编码为动态 WebP 或 GIF
+ *
+ * 帧纵向拼接为一张图，通过 pageHeight 划分页面
+ */
+async function encodeWithSharp(
+  frames: RawImage[],
+  format: "webp" | "gif",
+  delays: number[],
+  loop: number,
+  webpOptions: WebPOptions,
+): Promise<Buffer> {
+  const { width, height } = frames[0];
+  const image = sharp(Buffer.concat(frames.map((frame) => frame.data)), {
+    raw: {
+      width,
+      height: height * frames.length,
+      channels: 4,
+      pageHeight: height,
+    },
+  });
+
+  if (format === "gif") {
+    return image.gif({ loop, delay: delays }).toBuffer();
+  }
+
+  const { lossless = true, quality = 80, auto: _auto, ...rest } = webpOptions;
+  return image.webp({ ...rest, lossless, quality, loop, delay: delays }).toBuffer();
+}
+
+/**
+ * 将 h5animate 导出为动图
+ *
+ * @param animation - 解码后的动画数据
+ * @param options - 导出选项
+ * @returns 动图数据
+ * @throws H5AnimateError 如果动画没有帧、选项无效或编码失败
+ */
+export async function exportH5Animate(
+  animation: DecodedH5Animate,
+  options: ExportAnimationOptions = {},
+): Promise<Buffer> {
+  const { format = "webp", loop = 0 } = options;
+  const frameCount = animation.meta.frame.length;
+
+  if (frameCount === 0) {
+    throw createConversionFailedError("动画没有任何帧");
+  }
+
+  if (!Number.isInteger(loop) || loop < 0 || loop > 65535) {
+    throw createValidationError(`循环次数必须是 0-65535 之间的整数，实际为 ${loop}`);
+  }
+
+  const delays = resolveFrameDelays(options.delay ?? getFrameDurations(animation.meta).map(Math.round), frameCount);
+  const frames = await renderAllFrames(animation, options);
+
+  try {
+    if (format === "apng") {
+      return encodeApng(frames, { delays, loop });
+    }
+    return await encodeWithSharp(frames, format, delays, loop, options.webp ?? {});
+  } catch (error) {
+    if (error instanceof Error && error.name === "H5AnimateError") {
+      throw error;
+    }
+    const message = error instanceof Error ? error.message : "未知错误";
+    throw createConversionFailedError(`导出 ${format} 动图失败: ${message}`);
+  }
+}
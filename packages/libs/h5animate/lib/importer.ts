@@ -0,0 +1,270 @@
+/**
+ * 帧序列导入
+ *
+ * 从编号的 PNG 序列或均匀网格的精灵图生成 h5animate 文件，
+ * 每个输入帧对应一个精灵，并作为单个对象放入各自的 H5AnimateFrame
+ */
+
+import { readFile, readdir } from "node:fs/promises";
+import { extname, join } from "node:path";
+import sharp from "sharp";
+import { assembleH5Animate, type ConvertOptions } from "./converter.js";
+import { createConversionFailedError, createValidationError } from "./errors.js";
+import { mapWithProgress } from "./progress.js";
+import { createPackedSpriteSheet } from "./webp.js";
+import type { H5AnimateFrame, H5AnimateMeta, SoundMeta, SpriteDimension } from "./types.js";
+
+/**
+ * 帧序列导入选项
+ *
+ * 其余选项与 `convertToH5Animate` 相同，`onProgress` 额外报告网格拆分的 frame 阶段
+ */
+export interface ImportFramesOptions extends ConvertOptions {
+  /** 输入帧率，写入元数据的 fps，每个输入帧显示 1000 / fps 毫秒（未指定时不写入并按 20 帧每秒播放） */
+  fps?: number;
+  /** 锚点在帧图像中的像素坐标，即对象坐标原点对应的位置（默认为每帧图像的中心） */
+  anchor?: { x: number; y: number };
+  /** 全局缩放比例（默认 1） */
+  ratio?: number;
+  /** 按输入帧索引指定的音效，在该帧播放 */
+  sounds?: Record<number, SoundMeta[]>;
+}
+
+/**
+ * 均匀网格的布局
+ *
+ * `columns`/`rows` 与 `frameWidth`/`frameHeight` 至少指定一组，另一组由精灵图尺寸推导
+ */
+export interface SpriteGrid {
+  /** 列数 */
+  columns?: number;
+  /** 行数 */
+  rows?: number;
+  /** 单元格宽度（像素） */
+  frameWidth?: number;
+  /** 单元格高度（像素） */
+  frameHeight?: number;
+  /** 帧数量，最后一行未填满时指定（默认为全部单元格） */
+  count?: number;
+}
+
+/**
+ * 检查选项是否为正数
+ *
+ * @throws H5AnimateError 如果不是正数
+ */
+function checkPositive(value: number | undefined, name: string, integer: boolean): void {
+  if (value !== undefined && (!(value > 0) || !Number.isFinite(value) || (integer && !Number.isInteger(value)))) {
+    throw createValidationError(`${name} 必须是正${integer ? "整" : ""}数，实际为 ${value}`);
+  }
+}
+
+/**
+ * 由输入帧的尺寸生成元数据
+ *
+ * 对象坐标为帧图像中心相对于锚点的偏移，乘以缩放比例后与渲染时的画布坐标一致
+ *
+ * @param dimensions - 按输入帧排列的图像尺寸
+ * @param options - 导入选项
+ * @returns 元数据
+ * @throws H5AnimateError 如果选项无效或音效指向不存在的输入帧
+ */
+export function buildSequenceMeta(dimensions: SpriteDimension[], options: ImportFramesOptions = {}): H5AnimateMeta {
+  const { anchor, ratio = 1, fps, sounds = {} } = options;
+  checkPositive(ratio, "ratio", false);
+  checkPositive(fps, "fps", false);
+
+  const frames: H5AnimateFrame[] = dimensions.map(({ width, height }, index) => {
+    const anchorX = anchor?.x ?? width / 2;
+    const anchorY = anchor?.y ?? height / 2;
+
+    return {
+      objects: [{
+        index,
+        x: (width / 2 - anchorX) * ratio,
+        y: (height / 2 - anchorY) * ratio,
+        scale: 100,
+        opacity: 255,
+      }],
+    };
+  });
+
+  for (const [key, list] of Object.entries(sounds)) {
+    const index = Number(key);
+    if (!Number.isInteger(index) || index < 0 || index >= dimensions.length) {
+      throw createValidationError(`音效指向不存在的输入帧 ${key}，共 ${dimensions.length} 帧`);
+    }
+    frames[index].sound = [...(frames[index].sound ?? []), ...list];
+  }
+
+  return { ratio, ...(fps !== undefined && { fps }), frame: frames };
+}
+
+/**
+ * 从帧图像导入动画
+ *
+ * 帧图像按 `spriteSheet` 排布到精灵图中，每帧一个精灵
+ *
+ * @param frames - 按播放顺序排列的帧图像（PNG 等 sharp 支持的格式）
+ * @param options - 导入选项
+ * @returns 编码后的 h5animate 二进制数据
+ * @throws H5AnimateError 如果没有帧、选项无效、图像处理失败或已取消
+ */
+export async function importFrameSequence(
+  frames: Buffer[],
+  options: ImportFramesOptions = {},
+): Promise<Buffer> {
+  if (frames.length === 0) {
+    throw createConversionFailedError("没有帧可导入");
+  }
+
+  checkPositive(options.fps, "fps", false);
+  const images = await createPackedSpriteSheet(frames, options.webp, options.spriteSheet, options);
+  const meta = buildSequenceMeta(images.spriteInfo.dimensions, options);
+
+  return assembleH5Animate(meta, images, options);
+}
+
+/**
+ * 从目录中编号的 PNG 文件导入动画
+ *
+ * 文件按名称中的数字自然排序，例如 `walk_2.png` 排在 `walk_10.png` 之前
+ *
+ * @param directory - PNG 所在目录，不递归子目录
+ * @param options - 导入选项
+ * @returns 编码后的 h5animate 二进制数据
+ * @throws H5AnimateError 如果目录无法读取、没有 PNG 文件或导入失败
+ *
+ * @example
+ * ```typescript
+ * import { importPngSequence } from "@motajs/h5animate";
+ *
+ * const buffer = await importPngSequence("frames/slash", {
+ *   fps: 30,
+ *   anchor: { x: 48, y: 96 },
+ *   sounds: { 0: [{ name: "slash.mp3" }] },
+ * });
+ * ```
+ */
+export async function importPngSequence(
+  directory: string,
+  options: ImportFramesOptions = {},
+): Promise<Buffer> {
+  let names: string[];
+  try {
+    names = (await readdir(directory, { withFileTypes: true }))
+      .filter((entry) => entry.isFile() && extname(entry.name).toLowerCase() === ".png")
+      .map((entry) => entry.name)
+      .sort((a, b) => a.localeCompare(b, "en", { numeric: true }));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "未知错误";
+    throw createConversionFailedError(`读取帧目录失败: ${message}`);
+  }
+
+  if (names.length === 0) {
+    throw createConversionFailedError(`目录中没有 PNG 文件: ${directory}`);
+  }
+
+  const frames = await Promise.all(names.map((name) => readFile(join(directory, name))));
+  return importFrameSequence(frames, options);
+}
+
+/**
+ * 将均匀网格的精灵图拆分为帧图像
+ *
+ * 单元格按从左到右、从上到下的顺序排列，每拆分一帧报告一次 frame 阶段的进度
+ *
+ * @param sheet - 精灵图数据
+ * @param grid - 网格布局
+ * @param options - 进度与取消选项
+ * @returns 按顺序排列的 PNG 帧图像
+ * @throws H5AnimateError 如果网格超出精灵图、图像处理失败或已取消
+ */
+export async function splitSpriteGrid(
+  sheet: Buffer,
+  grid: SpriteGrid,
+  options: Pick<ImportFramesOptions, "signal" | "onProgress"> = {},
+): Promise<Buffer[]> {
+  const { columns, rows, frameWidth, frameHeight, count } = grid;
+  for (const [name, value] of Object.entries({ columns, rows, frameWidth, frameHeight, count })) {
+    checkPositive(value, name, true);
+  }
+
+  if ((columns === undefined && frameWidth === undefined) || (rows === undefined && frameHeight === undefined)) {
+    throw createValidationError("网格需要指定 columns 或 frameWidth，以及 rows 或 frameHeight");
+  }
+
+  let width: number;
+  let height: number;
+  try {
+    ({ width = 0, height = 0 } = await sharp(sheet).metadata());
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "未知错误";
+    throw createConversionFailedError(`读取精灵图失败: ${message}`);
+  }
+
+  const cellWidth = frameWidth ?? Math.floor(width / columns!);
+  const cellHeight = frameHeight ?? Math.floor(height / rows!);
+  const columnCount = columns ?? Math.floor(width / cellWidth);
+  const rowCount = rows ?? Math.floor(height / cellHeight);
+
+  if (
+    cellWidth === 0
+    || cellHeight === 0
+    || columnCount * cellWidth > width
+    || rowCount * cellHeight > height
+    || columnCount * rowCount === 0
+  ) {
+    throw createValidationError(
+      `${columnCount}x${rowCount} 个 ${cellWidth}x${cellHeight} 的单元格超出精灵图尺寸 ${width}x${height}`,
+    );
+  }
+
+  const total = count ?? columnCount * rowCount;
+  if (total > columnCount * rowCount) {
+    throw createValidationError(`帧数量 ${total} 超过单元格数量 ${columnCount * rowCount}`);
+  }
+
+  const cells = Array.from({ length: total }, (_, i) => ({
+    left: (i % columnCount) * cellWidth,
+    top: Math.floor(i / columnCount) * cellHeight,
+    width: cellWidth,
+    height: cellHeight,
+  }));
+
+  return mapWithProgress(cells, "frame", options, async (cell) => {
+    try {
+      return await sharp(sheet).extract(cell).png().toBuffer();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "未知错误";
+      throw createConversionFailedError(`拆分精灵图失败: ${message}`);
+    }
+  });
+}
+
+/**
+ * 从均匀网格的精灵图导入动画
+ *
+ * @param sheet - 精灵图数据
+ * @param grid - 网格布局
+ * @param options - 导入选项
+ * @returns 编码后的 h5animate 二进制数据
+ * @throws H5AnimateError 如果网格无效或导入失败
+ *
+ * @example
+ * ```typescript
+ * import { importSpriteGrid } from "@motajs/h5animate";
+ * import { readFileSync } from "fs";
+ *
+ * const buffer = await importSpriteGrid(readFileSync("explosion.png"), { columns: 8, rows: 2, count: 14 }, {
+ *   spriteSheet: { layout: "maxrects", trim: true },
+ * });
+ * ```
+ */
+export async function importSpriteGrid(
+  sheet: Buffer,
+  grid: SpriteGrid,
+  options: ImportFramesOptions = {},
+): Promise<Buffer> {
+  return importFrameSequence(await splitSpriteGrid(sheet, grid, options), options);
+}
@@ -25,16 +25,29 @@
 // 导出简化的 API 函数
 export {
   decode,
+  getSprite,
   encode,
   convert,
   convertFromJson,
   parseLegacy,
+  revert,
+  optimize,
   extractFrame,
   extractFrames,
+  renderFrame,
+  exportAnimation,
 } from "./api.js";
 
 // 导出 API 相关类型
-export type { EncodeOptions, ExtractFrameOptions } from "./api.js";
+export type {
+  DecodeOptions,
+  EncodeOptions,
+  ExtractFrameOptions,
+  RenderFrameOptions,
+  ExportAnimationOptions,
+  OptimizeOptions,
+  OptimizeResult,
+} from "./api.js";
 
 // ============ 类型定义 ============
 
@@ -46,16 +59,26 @@ export type {
   H5AnimateObject,
   SpriteInfo,
   SpriteDimension,
+  SpriteRect,
   LegacyAnimateFile,
   FrameLayer,
   DecodedH5Animate,
   FileHeader,
+  H5AnimateChunk,
+  MetaEncoding,
   ImageConversionResult,
+  QualityMetric,
+  WebPQualityReport,
+  ProgressStage,
+  ProgressInfo,
+  ProgressOptions,
+  RawImage,
 } from "./types.js";
 
 // ============ 错误处理 ============
 
 // 导出错误类型和工厂函数
+export type { ValidationIssue } from "./errors.js";
 export {
   H5AnimateErrorCode,
   H5AnimateError,
@@ -67,54 +90,221 @@ export {
   createConversionFailedError,
   createWebPProcessingError,
   createValidationError,
+  createValidationIssuesError,
   createTypeMismatchError,
   createMissingFieldError,
   createValueOutOfRangeError,
   createInvalidArrayLengthError,
   createFileTruncatedError,
   createSizeMismatchError,
+  createLimitExceededError,
   createJsonParseError,
   createBase64DecodeError,
   createImageMergeError,
   createFrameExtractionError,
+  createAbortedError,
   getErrorCodeDescription,
 } from "./errors.js";
 
 // ============ 底层 API（高级用法）============
 
 // 导出二进制工具类
-export { BinaryParser, BinaryWriter } from "./binary.js";
+export {
+  BinaryParser,
+  BinaryWriter,
+  CHUNK_HEADER_SIZE,
+  getChunkSize,
+  isValidChunkTag,
+  decodeAscii,
+} from "./binary.js";
 
 // 导出解码器函数
+export type { DecodeLimits } from "./decoder.js";
 export {
   parseHeader,
   parseSpriteInfo,
   getSpriteInfoSize,
+  getSpriteRects,
+  getSpriteRect,
+  verifyFileSize,
+  parseChunks,
   convertArraysToObjects,
   decodeH5Animate,
 } from "./decoder.js";
 
 // 导出编码器函数
+export type { EncodeH5AnimateOptions } from "./encoder.js";
 export {
   convertObjectToArray,
   convertObjectsToArrays,
   metaReplacer,
   validateEncodeInput,
+  validateExtraChunks,
   encodeH5Animate,
 } from "./encoder.js";
 
+// 导出二进制元信息函数
+export { encodeBinaryMeta, decodeBinaryMeta } from "./metacodec.js";
+
+// 导出格式版本函数
+export {
+  FORMAT_VERSION_1,
+  FORMAT_VERSION_2,
+  FORMAT_VERSION_3,
+  FORMAT_VERSION_4,
+  LATEST_FORMAT_VERSION,
+  CHUNK_SPRITE_INFO,
+  CHUNK_WEBP,
+  CHUNK_META,
+  CHUNK_CHECKSUM,
+  KNOWN_CHUNK_TAGS,
+  getSupportedVersions,
+  isSupportedVersion,
+  isChunkedVersion,
+  getMetaEncoding,
+  readSpriteInfo,
+  writeSpriteInfo,
+  deriveVerticalRects,
+  migrateSpriteInfo,
+  needsSpriteRects,
+  getMinimumVersion,
+  resolveEncodeVersion,
+} from "./version.js";
+
 // 导出 WebP 处理函数
-export type { WebPOptions, ExtractFrameOptions as WebPExtractFrameOptions } from "./webp.js";
+export type {
+  WebPOptions,
+  SpriteSheetOptions,
+  ExtractFrameOptions as WebPExtractFrameOptions,
+} from "./webp.js";
 export {
   convertToWebP,
   createVerticalSpriteSheet,
+  createPackedSpriteSheet,
   base64ToBuffer,
+  bufferToBase64,
+  splitSpriteSheetToRaw,
+  splitSpriteSheetToPng,
+  rawToPng,
   combineBase64ImagesToWebP,
   extractFrameByIndex,
   extractFrameByPosition,
   extractAllFrames,
 } from "./webp.js";
 
+// 导出 WebP 压缩质量搜索函数
+export type { WebPQualityTarget, WebPQualityResult } from "./quality.js";
+export { computePsnr, computeSsim, searchWebPQuality } from "./quality.js";
+
+// 导出精灵图排布函数
+export type { PackingLayout, PackSize, PackResult, PackOptions } from "./packer.js";
+export { WEBP_MAX_DIMENSION, packRects } from "./packer.js";
+
+// 导出帧渲染函数
+export type { RenderCanvas, RenderCanvasOptions } from "./render.js";
+export {
+  decodeSpriteSheet,
+  computeAnimationCanvas,
+  resolveRenderCanvas,
+  drawObject,
+  renderFrameToRaw,
+  renderH5AnimateFrame,
+} from "./render.js";
+
+// 导出关键帧时间轴
+export type {
+  EasingName,
+  Easing,
+  Keyframe,
+  TimelineTrack,
+  SoundCue,
+  TimelineDefinition,
+} from "./timeline.js";
+export { easings, resolveEasing, interpolateTrack, buildTimeline } from "./timeline.js";
+
+// 导出元数据编辑
+export type {
+  RatioPatch,
+  FpsPatch,
+  FrameUpdatePatch,
+  FrameRemovePatch,
+  MetaPatch,
+  MetaEdit,
+  FrameRange,
+  SetRatioOptions,
+} from "./editor.js";
+export {
+  diffMeta,
+  applyPatches,
+  insertFrames,
+  deleteFrames,
+  duplicateFrames,
+  moveFrames,
+  reverseFrames,
+  cropFrames,
+  shiftObjects,
+  moveLayer,
+  retimeLayer,
+  setRatio,
+  setFps,
+  setFrameDuration,
+} from "./editor.js";
+
+// 导出帧时长函数
+export {
+  DEFAULT_FPS,
+  getAnimationFps,
+  getFrameDuration,
+  getFrameDurations,
+  getAnimationDuration,
+  getFrameAtTime,
+} from "./timing.js";
+
+// 导出 Canvas 2D 播放器
+export type { H5AnimatePlayerOptions } from "./player.js";
+export { H5AnimatePlayer, drawH5AnimateObject, drawH5AnimateFrame } from "./player.js";
+
+// 导出动图导出函数
+export type { AnimatedImageFormat } from "./exporter.js";
+export { resolveFrameDelays, renderAllFrames, exportH5Animate } from "./exporter.js";
+export type { ApngOptions } from "./apng.js";
+export { encodeApng } from "./apng.js";
+export { crc32 } from "./crc32.js";
+export type { WebPSize } from "./webpinfo.js";
+export { readWebPSize } from "./webpinfo.js";
+
+// 导出嵌入音效函数
+export type { EmbeddedSound } from "./sounds.js";
+export {
+  CHUNK_SOUNDS,
+  encodeSoundChunk,
+  decodeSoundChunk,
+  getEmbeddedSounds,
+  listEmbeddedSounds,
+  getEmbeddedSound,
+  addEmbeddedSounds,
+  removeEmbeddedSounds,
+  getReferencedSounds,
+} from "./sounds.js";
+
+// 导出动画优化器
+export { optimizeH5Animate } from "./optimizer.js";
+
+// 导出语义差异函数
+export type {
+  ValueChange,
+  NameListChange,
+  HeaderDiff,
+  SpriteDiff,
+  FieldDelta,
+  ObjectDiff,
+  SoundDiff,
+  FrameDiff,
+  AnimationDiff,
+  DiffOptions,
+} from "./diff.js";
+export { diffAnimations, formatAnimationDiff } from "./diff.js";
+
 // 导出格式转换函数
 export type { ConvertOptions } from "./converter.js";
 export {
@@ -124,10 +314,60 @@ export {
   convertSoundData,
   convertFrameLayer,
   convertMetadata,
+  revertFrameLayer,
+  revertSoundData,
+  revertMetadata,
+  revertImages,
+  revertToLegacy,
+  loadSoundFiles,
   convertToH5Animate,
+  assembleH5Animate,
   convertFromJsonString,
 } from "./converter.js";
 
+// 导出帧序列导入函数
+export type { ImportFramesOptions, SpriteGrid } from "./importer.js";
+export {
+  buildSequenceMeta,
+  importFrameSequence,
+  importPngSequence,
+  splitSpriteGrid,
+  importSpriteGrid,
+} from "./importer.js";
+
+// 导出 Aseprite 互通函数
+export type {
+  AsepriteRect,
+  AsepriteFrame,
+  AsepriteFrameTag,
+  AsepriteSliceKey,
+  AsepriteSlice,
+  AsepriteSheet,
+  AsepriteImportOptions,
+  AsepriteExportOptions,
+  AsepriteExport,
+} from "./aseprite.js";
+export {
+  parseAsepriteSheet,
+  asepriteFramesToSpriteInfo,
+  resolveAsepriteSequence,
+  asepriteToMeta,
+  importAseprite,
+  exportAseprite,
+} from "./aseprite.js";
+
+// 导出批量转换函数
+export type {
+  BatchConvertSettings,
+  BatchConvertOptions,
+  BatchFileStatus,
+  BatchFileResult,
+  BatchReport,
+} from "./batch.js";
+export { convertDirectory, formatBatchReportMarkdown, hashConvertInput } from "./batch.js";
+export type { SerializedError } from "./pool.js";
+export { WorkerPool, serveWorkerTasks } from "./pool.js";
+
 // ============ 验证函数 ============
 
 // 导出验证函数
@@ -143,4 +383,8 @@ export {
   validateH5AnimateMetaSafe,
   validateSpriteInfoSafe,
   validateEncodeInputComplete,
+  collectMetaIssues,
+  collectSpriteInfoIssues,
+  collectReferenceIssues,
+  collectDecodedIssues,
 } from "./validation.js";
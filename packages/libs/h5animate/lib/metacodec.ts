@@ -0,0 +1,405 @@
+/**
+ * 二进制元信息编码
+ *
+ * 版本 4 的 META 分块使用的紧凑编码。整数使用变长整数，对象字段以上一帧同一图层的对象为基准差分，
+ * 音效名称存放在字符串表中。解码结果与 JSON 元信息解码得到的 `H5AnimateMeta` 一致。
+ * 解码只依赖 Uint8Array 与 DataView，可在浏览器中使用
+ */
+
+import { createInvalidMetadataError } from "./errors.js";
+import type { H5AnimateFrame, H5AnimateMeta, H5AnimateObject, SoundMeta } from "./types.js";
+
+/** 帧标志：存在 sound 字段 */
+const FRAME_HAS_SOUND = 0x01;
+/** 帧标志：存在 objects 字段 */
+const FRAME_HAS_OBJECTS = 0x02;
+/** 帧标志：存在 duration 字段 */
+const FRAME_HAS_DURATION = 0x04;
+/** 帧标志：duration 为浮点数 */
+const FRAME_DURATION_FLOAT = 0x08;
+
+/** 音效标志：存在音量、存在音调、音量为浮点数、音调为浮点数 */
+const SOUND_HAS_VOLUME = 0x01;
+const SOUND_HAS_PITCH = 0x02;
+const SOUND_VOLUME_FLOAT = 0x04;
+const SOUND_PITCH_FLOAT = 0x08;
+
+/** 对象标志：该对象变化的字段以 Float64 记录绝对值，否则以变长整数记录差值 */
+const OBJECT_FLOAT = 0x80;
+
+/** 对象字段，标志的第 i 位表示第 i 个字段与基准不同 */
+const OBJECT_FIELDS = ["index", "x", "y", "scale", "opacity", "mirror", "rotate"] as const;
+
+/** 没有上一帧同一图层对象时的差分基准 */
+const BASE_OBJECT: Readonly<Required<H5AnimateObject>> = {
+  index: 0,
+  x: 0,
+  y: 0,
+  scale: 100,
+  opacity: 255,
+  mirror: 0,
+  rotate: 0,
+};
+
+/** 以整数记录的数值的绝对值上限，保证差值与 zigzag 编码后仍为安全整数 */
+const MAX_INTEGER = 2 ** 31;
+
+/** 音效名称解码器 */
+const utf8Decoder = new TextDecoder("utf-8", { ignoreBOM: true });
+
+/** 音效名称编码器 */
+const utf8Encoder = new TextEncoder();
+
+/**
+ * 判断数值能否以变长整数记录
+ */
+function isCompactInteger(value: number): boolean {
+  return Number.isInteger(value) && Math.abs(value) <= MAX_INTEGER;
+}
+
+/**
+ * 补全对象的可选字段
+ */
+function normalizeObject(obj: H5AnimateObject): Required<H5AnimateObject> {
+  return { ...obj, mirror: obj.mirror ?? 0, rotate: obj.rotate ?? 0 };
+}
+
+/**
+ * 二进制元信息写入器，逐字节收集数据
+ */
+class MetaWriter {
+  private bytes: number[] = [];
+  private scratch = new DataView(new ArrayBuffer(8));
+
+  writeByte(value: number): void {
+    this.bytes.push(value);
+  }
+
+  /** 写入无符号变长整数，每字节 7 位，最高位表示后续还有字节 */
+  writeVarUint(value: number): void {
+    while (value >= 0x80) {
+      this.bytes.push((value % 0x80) + 0x80);
+      value = Math.floor(value / 0x80);
+    }
+    this.bytes.push(value);
+  }
+
+  /** 以 zigzag 编码写入有符号变长整数 */
+  writeVarInt(value: number): void {
+    this.writeVarUint(value >= 0 ? value * 2 : -value * 2 - 1);
+  }
+
+  writeFloat64(value: number): void {
+    this.scratch.setFloat64(0, value, true);
+    for (let i = 0; i < 8; i++) {
+      this.bytes.push(this.scratch.getUint8(i));
+    }
+  }
+
+  writeBytes(bytes: Uint8Array): void {
+    for (const byte of bytes) {
+      this.bytes.push(byte);
+    }
+  }
+
+  getBuffer(): Buffer {
+    return Buffer.from(this.bytes);
+  }
+}
+
+/**
+ * 二进制元信息读取器，越界时抛出 INVALID_METADATA
+ */
+class MetaReader {
+  private view: DataView;
+  private offset = 0;
+
+  constructor(private data: Uint8Array) {
+    this.view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  }
+
+  readByte(): number {
+    this.checkBounds(1);
+    return this.data[this.offset++];
+  }
+
+  readVarUint(): number {
+    let result = 0;
+    let multiplier = 1;
+
+    for (;;) {
+      const byte = this.readByte();
+      result += (byte & 0x7f) * multiplier;
+      if (byte < 0x80) {
+        return result;
+      }
+      multiplier *= 0x80;
+      if (multiplier > Number.MAX_SAFE_INTEGER) {
+        throw createInvalidMetadataError(`位置 ${this.offset} 处的变长整数过长`);
+      }
+    }
+  }
+
+  readVarInt(): number {
+    const value = this.readVarUint();
+    return value % 2 === 0 ? value / 2 : -(value + 1) / 2;
+  }
+
+  readFloat64(): number {
+    this.checkBounds(8);
+    const value = this.view.getFloat64(this.offset, true);
+    this.offset += 8;
+    return value;
+  }
+
+  readBytes(length: number): Uint8Array {
+    this.checkBounds(length);
+    const bytes = this.data.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return bytes;
+  }
+
+  hasMore(): boolean {
+    return this.offset < this.data.length;
+  }
+
+  private checkBounds(length: number): void {
+    if (this.offset + length > this.data.length) {
+      throw createInvalidMetadataError(`二进制元信息在位置 ${this.offset} 处被截断`);
+    }
+  }
+}
+
+/**
+ * 写入音效
+ */
+function writeSound(writer: MetaWriter, sound: SoundMeta, strings: Map<string, number>): void {
+  let flags = 0;
+  if (sound.volume !== undefined) {
+    flags |= SOUND_HAS_VOLUME | (isCompactInteger(sound.volume) ? 0 : SOUND_VOLUME_FLOAT);
+  }
+  if (sound.pitch !== undefined) {
+    flags |= SOUND_HAS_PITCH | (isCompactInteger(sound.pitch) ? 0 : SOUND_PITCH_FLOAT);
+  }
+
+  writer.writeVarUint(strings.get(sound.name)!);
+  writer.writeByte(flags);
+  if (sound.volume !== undefined) {
+    if (flags & SOUND_VOLUME_FLOAT) {
+      writer.writeFloat64(sound.volume);
+    } else {
+      writer.writeVarInt(sound.volume);
+    }
+  }
+  if (sound.pitch !== undefined) {
+    if (flags & SOUND_PITCH_FLOAT) {
+      writer.writeFloat64(sound.pitch);
+    } else {
+      writer.writeVarInt(sound.pitch);
+    }
+  }
+}
+
+/**
+ * 写入对象，只记录与基准不同的字段
+ */
+function writeObject(writer: MetaWriter, obj: Required<H5AnimateObject>, base: Required<H5AnimateObject>): void {
+  let flags = 0;
+  let compact = true;
+
+  OBJECT_FIELDS.forEach((field, bit) => {
+    if (obj[field] !== base[field]) {
+      flags |= 1 << bit;
+      compact = compact && isCompactInteger(obj[field]) && isCompactInteger(base[field]);
+    }
+  });
+
+  writer.writeByte(compact ? flags : flags | OBJECT_FLOAT);
+  OBJECT_FIELDS.forEach((field, bit) => {
+    if (!(flags & (1 << bit))) {
+      return;
+    }
+    if (compact) {
+      writer.writeVarInt(obj[field] - base[field]);
+    } else {
+      writer.writeFloat64(obj[field]);
+    }
+  });
+}
+
+/**
+ * 将元数据编码为二进制
+ *
+ * 布局：ratio Float64 → 字符串表（数量与每个名称的字节数、UTF-8 名称）→ 帧数 → 每帧数据。
+ * 每帧以标志字节开头，之后依次为音效、对象和时长。对象以标志字节记录与基准不同的字段，
+ * 基准为上一帧同一图层的对象；整数字段记录 zigzag 变长整数差值，含小数时记录 Float64 绝对值。
+ * 记录了 fps 时在所有帧之后追加 Float64 帧率
+ *
+ * @param meta - 元数据
+ * @returns 二进制元信息
+ */
+export function encodeBinaryMeta(meta: H5AnimateMeta): Buffer {
+  const writer = new MetaWriter();
+
+  // 收集音效名称
+  const strings = new Map<string, number>();
+  for (const frame of meta.frame) {
+    for (const sound of frame.sound ?? []) {
+      if (!strings.has(sound.name)) {
+        strings.set(sound.name, strings.size);
+      }
+    }
+  }
+
+  writer.writeFloat64(meta.ratio);
+  writer.writeVarUint(strings.size);
+  for (const name of strings.keys()) {
+    const bytes = utf8Encoder.encode(name);
+    writer.writeVarUint(bytes.length);
+    writer.writeBytes(bytes);
+  }
+
+  writer.writeVarUint(meta.frame.length);
+  let previous: Required<H5AnimateObject>[] = [];
+
+  for (const frame of meta.frame) {
+    let flags = (frame.sound ? FRAME_HAS_SOUND : 0) | (frame.objects ? FRAME_HAS_OBJECTS : 0);
+    if (frame.duration !== undefined) {
+      flags |= FRAME_HAS_DURATION | (isCompactInteger(frame.duration) && frame.duration >= 0 ? 0 : FRAME_DURATION_FLOAT);
+    }
+    writer.writeByte(flags);
+
+    if (frame.sound) {
+      writer.writeVarUint(frame.sound.length);
+      for (const sound of frame.sound) {
+        writeSound(writer, sound, strings);
+      }
+    }
+
+    const objects = (frame.objects ?? []).map(normalizeObject);
+    if (frame.objects) {
+      writer.writeVarUint(objects.length);
+      objects.forEach((obj, layer) => writeObject(writer, obj, previous[layer] ?? BASE_OBJECT));
+    }
+    previous = objects;
+
+    if (frame.duration !== undefined) {
+      if (flags & FRAME_DURATION_FLOAT) {
+        writer.writeFloat64(frame.duration);
+      } else {
+        writer.writeVarUint(frame.duration);
+      }
+    }
+  }
+
+  if (meta.fps !== undefined) {
+    writer.writeFloat64(meta.fps);
+  }
+
+  return writer.getBuffer();
+}
+
+/**
+ * 读取音效
+ */
+function readSound(reader: MetaReader, strings: string[]): SoundMeta {
+  const nameIndex = reader.readVarUint();
+  if (nameIndex >= strings.length) {
+    throw createInvalidMetadataError(`音效名称索引 ${nameIndex} 超出字符串表`);
+  }
+
+  const flags = reader.readByte();
+  if (flags & ~(SOUND_HAS_VOLUME | SOUND_HAS_PITCH | SOUND_VOLUME_FLOAT | SOUND_PITCH_FLOAT)) {
+    throw createInvalidMetadataError(`未知的音效标志: ${flags}`);
+  }
+
+  const sound: SoundMeta = { name: strings[nameIndex] };
+  if (flags & SOUND_HAS_VOLUME) {
+    sound.volume = flags & SOUND_VOLUME_FLOAT ? reader.readFloat64() : reader.readVarInt();
+  }
+  if (flags & SOUND_HAS_PITCH) {
+    sound.pitch = flags & SOUND_PITCH_FLOAT ? reader.readFloat64() : reader.readVarInt();
+  }
+  return sound;
+}
+
+/**
+ * 读取对象
+ */
+function readObject(reader: MetaReader, base: Required<H5AnimateObject>): Required<H5AnimateObject> {
+  const flags = reader.readByte();
+  const obj = { ...base };
+
+  OBJECT_FIELDS.forEach((field, bit) => {
+    if (!(flags & (1 << bit))) {
+      return;
+    }
+    obj[field] = flags & OBJECT_FLOAT ? reader.readFloat64() : base[field] + reader.readVarInt();
+  });
+
+  return obj;
+}
+
+/**
+ * 解码二进制元信息
+ *
+ * @param data - 二进制元信息
+ * @returns 对象格式的元数据
+ * @throws H5AnimateError 如果数据被截断、有多余字节或包含无效的标志与索引
+ */
+export function decodeBinaryMeta(data: Uint8Array): H5AnimateMeta {
+  const reader = new MetaReader(data);
+
+  const ratio = reader.readFloat64();
+  const strings: string[] = [];
+  const stringCount = reader.readVarUint();
+  for (let i = 0; i < stringCount; i++) {
+    strings.push(utf8Decoder.decode(reader.readBytes(reader.readVarUint())));
+  }
+
+  const frameCount = reader.readVarUint();
+  const frames: H5AnimateFrame[] = [];
+  let previous: Required<H5AnimateObject>[] = [];
+
+  for (let i = 0; i < frameCount; i++) {
+    const flags = reader.readByte();
+    if (flags & ~(FRAME_HAS_SOUND | FRAME_HAS_OBJECTS | FRAME_HAS_DURATION | FRAME_DURATION_FLOAT)) {
+      throw createInvalidMetadataError(`第 ${i} 帧有未知的标志: ${flags}`);
+    }
+
+    let sound: SoundMeta[] | undefined;
+    if (flags & FRAME_HAS_SOUND) {
+      const count = reader.readVarUint();
+      sound = [];
+      for (let j = 0; j < count; j++) {
+        sound.push(readSound(reader, strings));
+      }
+    }
+
+    let objects: Required<H5AnimateObject>[] | undefined;
+    if (flags & FRAME_HAS_OBJECTS) {
+      const count = reader.readVarUint();
+      objects = [];
+      for (let layer = 0; layer < count; layer++) {
+        objects.push(readObject(reader, previous[layer] ?? BASE_OBJECT));
+      }
+    }
+    previous = objects ?? [];
+
+    // 与 JSON 元信息的解码结果保持相同的结构
+    const frame: H5AnimateFrame = { sound, objects };
+    if (flags & FRAME_HAS_DURATION) {
+      frame.duration = flags & FRAME_DURATION_FLOAT ? reader.readFloat64() : reader.readVarUint();
+    }
+    frames.push(frame);
+  }
+
+  // 帧之后的 Float64 为可选的帧率
+  const fps = reader.hasMore() ? reader.readFloat64() : undefined;
+
+  if (reader.hasMore()) {
+    throw createInvalidMetadataError("二进制元信息末尾有多余数据");
+  }
+
+  return fps === undefined ? { ratio, frame: frames } : { ratio, fps, frame: frames };
+}
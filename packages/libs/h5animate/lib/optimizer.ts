@@ -0,0 +1,264 @@
+/**
+ * 动画优化器
+ *
+ * 去除重复精灵、裁剪透明边框并删除未被引用的精灵，重新生成垂直精灵图。
+ * 由 2.x 转换来的动画常带有重复位图和大面积透明边距，优化后可明显减小文件体积
+ */
+
+import { createHash } from "node:crypto";
+import sharp from "sharp";
+import {
+  createVerticalSpriteSheet,
+  getOpaqueBounds,
+  rawToPng,
+  splitSpriteSheetToRaw,
+  type WebPOptions,
+} from "./webp.js";
+import type { DecodedH5Animate, H5AnimateObject, ImageConversionResult, RawImage } from "./types.js";
+
+/**
+ * 优化选项
+ */
+export interface OptimizeOptions {
+  /** 是否合并像素完全相同的精灵（默认 true） */
+  dedupe?: boolean;
+  /** 是否裁剪精灵四周的透明边框并补偿对象位置（默认 true） */
+  trim?: boolean;
+  /** 是否删除没有被任何对象引用的精灵（默认 true） */
+  removeUnused?: boolean;
+  /** 重新生成精灵图时的 WebP 压缩选项（默认无损） */
+  webp?: WebPOptions;
+}
+
+/**
+ * 优化结果
+ */
+export interface OptimizeResult {
+  /** 优化后的动画数据 */
+  animation: DecodedH5Animate;
+  /** 旧精灵索引到新精灵索引的映射，被删除的精灵为 null */
+  indexMap: Array<number | null>;
+}
+
+/**
+ * 处理后的精灵
+ */
+interface OptimizedSprite {
+  /** 裁剪后的图像，完全透明时为 null */
+  image: RawImage | null;
+  /** 裁剪后精灵中心相对原中心的偏移（精灵像素） */
+  shiftX: number;
+  shiftY: number;
+}
+
+/**
+ * 将完全透明像素的颜色清零，使不可见的差异不影响去重
+ */
+function normalizeTransparent(image: RawImage): RawImage {
+  const data = Buffer.from(image.data);
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] === 0) {
+      data.writeUInt32LE(0, i);
+    }
+  }
+  return { ...image, data };
+}
+
+/**
+ * 裁剪透明边框
+ *
+ * 内容四周保留 1 像素透明边距，使缩放采样时边缘的过渡像素不被裁掉；
+ * 裁剪量在每个方向上保持偶数，使精灵中心的偏移为整数像素，
+ * 未缩放、未旋转的对象补偿后仍落在整数坐标上
+ */
+function trimSprite(image: RawImage): OptimizedSprite {
+  const bounds = getOpaqueBounds(image.data, image.width, image.height);
+  if (!bounds) {
+    return { image: null, shiftX: 0, shiftY: 0 };
+  }
+
+  let left = Math.max(bounds.left - 1, 0);
+  let top = Math.max(bounds.top - 1, 0);
+  let right = Math.min(bounds.right + 1, image.width);
+  let bottom = Math.min(bounds.bottom + 1, image.height);
+  if ((image.width - (right - left)) % 2 !== 0) {
+    if (right < image.width) right++;
+    else left--;
+  }
+  if ((image.height - (bottom - top)) % 2 !== 0) {
+    if (bottom < image.height) bottom++;
+    else top--;
+  }
+
+  const width = right - left;
+  const height = bottom - top;
+  const data = Buffer.alloc(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    const start = ((top + y) * image.width + left) * 4;
+    image.data.copy(data, y * width * 4, start, start + width * 4);
+  }
+
+  return {
+    image: { data, width, height },
+    shiftX: (left + right - image.width) / 2,
+    shiftY: (top + bottom - image.height) / 2,
+  };
+}
+
+/**
+ * 计算图像内容的指纹
+ */
+function fingerprint(image: RawImage | null): string {
+  if (!image) {
+    return "empty";
+  }
+  const hash = createHash("sha1").update(image.data).digest("hex");
+  return `${image.width}x${image.height}:${hash}`;
+}
+
+/**
+ * 按对象的变换换算精灵中心偏移，返回补偿后的对象
+ *
+ * 与渲染时的变换一致：先按 ratio * scale / 100 缩放，mirror 非 0 时水平翻转，再逆时针旋转 rotate 度
+ */
+function compensateObject(
+  object: H5AnimateObject,
+  sprite: OptimizedSprite,
+  ratio: number,
+  index: number,
+): H5AnimateObject {
+  if (sprite.shiftX === 0 && sprite.shiftY === 0) {
+    return { ...object, index };
+  }
+
+  const scale = (ratio * object.scale) / 100;
+  const angle = (-(object.rotate ?? 0) * Math.PI) / 180;
+  const localX = sprite.shiftX * (object.mirror ? -1 : 1) * scale;
+  const localY = sprite.shiftY * scale;
+  const dx = localX * Math.cos(angle) - localY * Math.sin(angle);
+  const dy = localX * Math.sin(angle) + localY * Math.cos(angle);
+
+  return {
+    ...object,
+    index,
+    x: roundOffset(object.x + dx),
+    y: roundOffset(object.y + dy),
+  };
+}
+
+/**
+ * 保留三位小数，消除三角函数带来的浮点误差
+ */
+function roundOffset(value: number): number {
+  return Math.round(value * 1000) / 1000 + 0;
+}
+
+/**
+ * 生成只包含空精灵的精灵图
+ *
+ * 所有精灵都为空时 `createVerticalSpriteSheet` 无图像可处理，此时写入 1x1 的透明图像
+ */
+async function createEmptySpriteSheet(count: number): Promise<ImageConversionResult> {
+  const webpData = await sharp({
+    create: { width: 1, height: 1, channels: 4, background: { r: 0, g: 0, b: 0, alpha: 0 } },
+  })
+    .webp({ lossless: true })
+    .toBuffer();
+
+  return {
+    webpData,
+    spriteInfo: { count, dimensions: Array.from({ length: count }, () => ({ width: 0, height: 0 })) },
+  };
+}
+
+/**
+ * 优化动画
+ *
+ * 依次裁剪透明边框、删除未引用的精灵、合并像素相同的精灵（裁剪后内容相同即可合并），
+ * 然后按新索引改写所有对象并重新生成垂直精灵图。引用不存在的精灵的对象不会绘制任何内容，会被一并删除
+ *
+ * @param animation - 解码后的动画数据
+ * @param options - 优化选项
+ * @returns 优化后的动画数据与精灵索引映射
+ * @throws H5AnimateError 如果精灵图解码或重新编码失败
+ */
+export async function optimizeH5Animate(
+  animation: DecodedH5Animate,
+  options: OptimizeOptions = {},
+): Promise<OptimizeResult> {
+  const { dedupe = true, trim = true, removeUnused = true, webp } = options;
+  const { meta, spriteInfo } = animation;
+
+  const raw = await splitSpriteSheetToRaw(animation.webpData, spriteInfo);
+  const sprites: OptimizedSprite[] = raw.map((image) => {
+    if (!image) {
+      return { image: null, shiftX: 0, shiftY: 0 };
+    }
+    return trim ? trimSprite(image) : { image, shiftX: 0, shiftY: 0 };
+  });
+
+  const used = new Set<number>();
+  for (const frame of meta.frame) {
+    for (const object of frame.objects ?? []) {
+      used.add(object.index);
+    }
+  }
+
+  // 按旧索引顺序分配新索引，内容相同的精灵共用同一个新索引
+  const indexMap: Array<number | null> = [];
+  const images: Array<RawImage | null> = [];
+  const assigned = new Map<string, number>();
+
+  sprites.forEach((sprite, index) => {
+    if (removeUnused && !used.has(index)) {
+      indexMap.push(null);
+      return;
+    }
+
+    const image = sprite.image && normalizeTransparent(sprite.image);
+    const key = dedupe ? fingerprint(image) : String(index);
+    const existing = assigned.get(key);
+    if (existing !== undefined) {
+      indexMap.push(existing);
+      return;
+    }
+
+    assigned.set(key, images.length);
+    indexMap.push(images.length);
+    images.push(image);
+  });
+
+  const frames = meta.frame.map((frame) => {
+    if (!frame.objects) {
+      return frame;
+    }
+
+    const objects: H5AnimateObject[] = [];
+    for (const object of frame.objects) {
+      const index = indexMap[object.index];
+      if (index === undefined || index === null) {
+        continue;
+      }
+      objects.push(compensateObject(object, sprites[object.index], meta.ratio, index));
+    }
+
+    const { objects: _objects, ...rest } = frame;
+    return objects.length > 0 ? { ...rest, objects } : rest;
+  });
+
+  const buffers = await Promise.all(images.map((image) => (image ? rawToPng(image) : null)));
+  // 没有引用任何精灵（如只有音效）或引用的精灵全部透明时，所有精灵都为空
+  const sheet = buffers.some((buffer) => buffer !== null)
+    ? await createVerticalSpriteSheet(buffers, webp)
+    : await createEmptySpriteSheet(buffers.length);
+
+  return {
+    animation: {
+      meta: { ...meta, frame: frames },
+      spriteInfo: sheet.spriteInfo,
+      webpData: sheet.webpData,
+      ...(animation.chunks ? { chunks: animation.chunks } : {}),
+    },
+    indexMap,
+  };
+}
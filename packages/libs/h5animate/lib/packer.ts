@@ -0,0 +1,295 @@
+/**
+ * 精灵图排布算法
+ *
+ * 提供垂直堆叠、货架（Shelf）和 MaxRects 三种矩形排布方式
+ */
+
+import { createImageMergeError } from "./errors.js";
+
+/** WebP 支持的最大边长 */
+export const WEBP_MAX_DIMENSION = 16383;
+
+/**
+ * 排布方式
+ * - vertical: 自上而下垂直堆叠
+ * - shelf: 按高度排序后逐行摆放
+ * - maxrects: MaxRects 算法（最短边优先），通常最紧凑
+ */
+export type PackingLayout = "vertical" | "shelf" | "maxrects";
+
+/**
+ * 待排布的矩形尺寸
+ */
+export interface PackSize {
+  width: number;
+  height: number;
+}
+
+/**
+ * 排布结果
+ */
+export interface PackResult {
+  /** 每个矩形左上角的位置，顺序与输入一致 */
+  positions: Array<{ x: number; y: number }>;
+  /** 画布宽度 */
+  width: number;
+  /** 画布高度 */
+  height: number;
+}
+
+/**
+ * 排布选项
+ */
+export interface PackOptions {
+  /** 排布方式 */
+  layout: PackingLayout;
+  /** 矩形之间的间距（像素，默认 0） */
+  padding?: number;
+}
+
+/**
+ * 空闲区域
+ */
+interface FreeRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * 垂直堆叠排布
+ */
+function packVertical(sizes: PackSize[], padding: number): PackResult {
+  const positions: PackResult["positions"] = [];
+  let currentY = 0;
+  let width = 0;
+  let height = 0;
+
+  for (const size of sizes) {
+    if (size.width === 0 || size.height === 0) {
+      positions.push({ x: 0, y: 0 });
+      continue;
+    }
+    positions.push({ x: 0, y: currentY });
+    width = Math.max(width, size.width);
+    height = currentY + size.height;
+    currentY = height + padding;
+  }
+
+  return { positions, width, height };
+}
+
+/**
+ * 货架排布：按高度从高到低排序，逐行放入固定宽度的画布
+ */
+function packShelf(sizes: PackSize[], binWidth: number, padding: number): PackResult {
+  const order = sizes
+    .map((_, index) => index)
+    .filter((index) => sizes[index].width > 0 && sizes[index].height > 0)
+    .sort((a, b) => sizes[b].height - sizes[a].height);
+
+  const positions: PackResult["positions"] = sizes.map(() => ({ x: 0, y: 0 }));
+  let shelfY = 0;
+  let shelfHeight = 0;
+  let cursorX = 0;
+  let width = 0;
+  let height = 0;
+
+  for (const index of order) {
+    const { width: w, height: h } = sizes[index];
+
+    if (cursorX > 0 && cursorX + w > binWidth) {
+      shelfY += shelfHeight + padding;
+      shelfHeight = 0;
+      cursorX = 0;
+    }
+
+    positions[index] = { x: cursorX, y: shelfY };
+    width = Math.max(width, cursorX + w);
+    height = Math.max(height, shelfY + h);
+    shelfHeight = Math.max(shelfHeight, h);
+    cursorX += w + padding;
+  }
+
+  return { positions, width, height };
+}
+
+/**
+ * 判断区域 a 是否完全包含区域 b
+ */
+function containsRect(a: FreeRect, b: FreeRect): boolean {
+  return b.x >= a.x && b.y >= a.y
+    && b.x + b.width <= a.x + a.width
+    && b.y + b.height <= a.y + a.height;
+}
+
+/**
+ * 从空闲区域中切除已占用的区域
+ *
+ * @returns 切分后剩余的空闲区域，如果没有相交则返回 null
+ */
+function splitFreeRect(free: FreeRect, used: FreeRect): FreeRect[] | null {
+  if (
+    used.x >= free.x + free.width || used.x + used.width <= free.x
+    || used.y >= free.y + free.height || used.y + used.height <= free.y
+  ) {
+    return null;
+  }
+
+  const result: FreeRect[] = [];
+
+  if (used.x > free.x) {
+    result.push({ x: free.x, y: free.y, width: used.x - free.x, height: free.height });
+  }
+  if (used.x + used.width < free.x + free.width) {
+    const x = used.x + used.width;
+    result.push({ x, y: free.y, width: free.x + free.width - x, height: free.height });
+  }
+  if (used.y > free.y) {
+    result.push({ x: free.x, y: free.y, width: free.width, height: used.y - free.y });
+  }
+  if (used.y + used.height < free.y + free.height) {
+    const y = used.y + used.height;
+    result.push({ x: free.x, y, width: free.width, height: free.y + free.height - y });
+  }
+
+  return result;
+}
+
+/**
+ * MaxRects 排布（Best Short Side Fit）
+ *
+ * 矩形按面积从大到小依次放入固定宽度、高度不限的画布
+ */
+function packMaxRects(sizes: PackSize[], binWidth: number, padding: number): PackResult {
+  const order = sizes
+    .map((_, index) => index)
+    .filter((index) => sizes[index].width > 0 && sizes[index].height > 0)
+    .sort((a, b) => sizes[b].width * sizes[b].height - sizes[a].width * sizes[a].height);
+
+  // 每个矩形右下各扩展 padding，画布同样扩展 padding 以抵消最外侧的间距
+  const binHeight = order.reduce((sum, index) => sum + sizes[index].height + padding, 0);
+  let freeRects: FreeRect[] = [{ x: 0, y: 0, width: binWidth + padding, height: binHeight }];
+
+  const positions: PackResult["positions"] = sizes.map(() => ({ x: 0, y: 0 }));
+  let width = 0;
+  let height = 0;
+
+  for (const index of order) {
+    const w = sizes[index].width + padding;
+    const h = sizes[index].height + padding;
+
+    let best: FreeRect | null = null;
+    let bestShortSide = Infinity;
+    let bestLongSide = Infinity;
+
+    for (const free of freeRects) {
+      if (free.width < w || free.height < h) continue;
+
+      const leftoverX = free.width - w;
+      const leftoverY = free.height - h;
+      const shortSide = Math.min(leftoverX, leftoverY);
+      const longSide = Math.max(leftoverX, leftoverY);
+
+      if (shortSide < bestShortSide || (shortSide === bestShortSide && longSide < bestLongSide)) {
+        best = { x: free.x, y: free.y, width: w, height: h };
+        bestShortSide = shortSide;
+        bestLongSide = longSide;
+      }
+    }
+
+    if (!best) {
+      throw createImageMergeError(`无法排布宽 ${sizes[index].width} 的精灵，画布宽度为 ${binWidth}`);
+    }
+
+    positions[index] = { x: best.x, y: best.y };
+    width = Math.max(width, best.x + sizes[index].width);
+    height = Math.max(height, best.y + sizes[index].height);
+
+    // 切分与新矩形相交的空闲区域
+    const nextFree: FreeRect[] = [];
+    for (const free of freeRects) {
+      const pieces = splitFreeRect(free, best);
+      if (pieces) {
+        nextFree.push(...pieces);
+      } else {
+        nextFree.push(free);
+      }
+    }
+
+    // 移除被其他空闲区域包含的区域
+    freeRects = nextFree.filter((rect, i) =>
+      !nextFree.some((other, j) =>
+        i !== j && containsRect(other, rect) && (!containsRect(rect, other) || j < i),
+      ),
+    );
+  }
+
+  return { positions, width, height };
+}
+
+/**
+ * 计算候选画布宽度
+ *
+ * 以总面积的平方根为起点，兼顾最宽的矩形
+ */
+function getCandidateWidths(sizes: PackSize[], padding: number): number[] {
+  const maxWidth = Math.max(...sizes.map((size) => size.width));
+  const area = sizes.reduce(
+    (sum, size) => sum + (size.width + padding) * (size.height + padding),
+    0,
+  );
+  const base = Math.max(maxWidth, Math.ceil(Math.sqrt(area)));
+
+  const candidates = [1, 1.25, 1.5, 2, 3]
+    .map((factor) => Math.min(WEBP_MAX_DIMENSION, Math.ceil(base * factor)))
+    .filter((width) => width >= maxWidth);
+
+  return [...new Set(candidates)];
+}
+
+/**
+ * 排布矩形
+ *
+ * 对 shelf 与 maxrects，会尝试多个画布宽度并选择面积最小且不超过 WebP 尺寸上限的结果。
+ * 宽或高为 0 的矩形不参与排布，位置固定为 (0, 0)
+ *
+ * @param sizes - 待排布的矩形尺寸
+ * @param options - 排布选项
+ * @returns 排布结果
+ * @throws H5AnimateError 如果无法在 WebP 尺寸上限内完成排布
+ */
+export function packRects(sizes: PackSize[], options: PackOptions): PackResult {
+  const padding = options.padding ?? 0;
+  const visible = sizes.filter((size) => size.width > 0 && size.height > 0);
+
+  if (visible.length === 0) {
+    return { positions: sizes.map(() => ({ x: 0, y: 0 })), width: 0, height: 0 };
+  }
+
+  let best: PackResult | null = null;
+
+  if (options.layout === "vertical") {
+    best = packVertical(sizes, padding);
+  } else {
+    for (const binWidth of getCandidateWidths(visible, padding)) {
+      const result = options.layout === "shelf"
+        ? packShelf(sizes, binWidth, padding)
+        : packMaxRects(sizes, binWidth, padding);
+
+      if (result.height > WEBP_MAX_DIMENSION) continue;
+      if (!best || result.width * result.height < best.width * best.height) {
+        best = result;
+      }
+    }
+  }
+
+  if (!best || best.width > WEBP_MAX_DIMENSION || best.height > WEBP_MAX_DIMENSION) {
+    throw createImageMergeError(
+      `精灵图尺寸超出 WebP 上限 ${WEBP_MAX_DIMENSION}px，请尝试使用其他排布方式`,
+    );
+  }
+
+  return best;
+}
@@ -0,0 +1,433 @@
+/**
+ * Canvas 2D 播放器
+ *
+ * 在浏览器中将解码后的 h5animate 逐帧绘制到 `CanvasRenderingContext2D` 上，
+ * 不依赖 Node 与 sharp。绘制规则与 `renderFrame` 一致：
+ * - 对象中心位于 `锚点 + (x, y)`
+ * - 绘制尺寸为 `精灵尺寸 * ratio * scale / 100`
+ * - `mirror` 非 0 时水平翻转，`rotate` 为角度制，正值为逆时针
+ * - `opacity` 取值 0-255，按 `objects` 顺序自下而上绘制
+ */
+
+import { getSpriteRects } from "./decoder.js";
+import { createFrameExtractionError, createValidationError } from "./errors.js";
+import { getAnimationFps } from "./timing.js";
+import type {
+  DecodedH5Animate,
+  H5AnimateMeta,
+  H5AnimateObject,
+  SoundMeta,
+  SpriteRect,
+} from "./types.js";
+
+/** 单次更新最多推进的时间（毫秒），避免页面挂起后恢复时连续跳帧和触发大量音效 */
+const MAX_UPDATE_DELTA = 250;
+
+/**
+ * 播放器选项
+ */
+export interface H5AnimatePlayerOptions {
+  /** 帧率，覆盖文件记录的帧率，只影响未指定 duration 的帧（默认为文件的帧率） */
+  fps?: number;
+  /** 是否循环播放（默认 false） */
+  loop?: boolean;
+  /** 锚点 X 坐标，即对象坐标原点在画布上的位置（默认画布中心） */
+  anchorX?: number;
+  /** 锚点 Y 坐标（默认画布中心） */
+  anchorY?: number;
+  /** 绘制每帧前是否清空画布（默认 true） */
+  clear?: boolean;
+  /** 进入某一帧时，对该帧的每个音效调用一次；volume 与 pitch 原样传递 */
+  onSound?: (sound: SoundMeta, frameIndex: number) => void;
+  /** 进入某一帧时调用 */
+  onFrame?: (frameIndex: number) => void;
+  /** 非循环播放到最后一帧结束时调用 */
+  onEnd?: () => void;
+}
+
+/**
+ * 将单个动画对象绘制到 Canvas 上
+ *
+ * 使用当前的变换矩阵作为基准，绘制前后会保存和恢复上下文状态
+ *
+ * @param context - Canvas 2D 上下文
+ * @param sheet - 精灵图
+ * @param rect - 对象引用的精灵区域
+ * @param obj - 动画对象
+ * @param ratio - 全局缩放比例
+ * @param anchorX - 锚点 X 坐标
+ * @param anchorY - 锚点 Y 坐标
+ */
+export function drawH5AnimateObject(
+  context: CanvasRenderingContext2D,
+  sheet: CanvasImageSource,
+  rect: SpriteRect,
+  obj: H5AnimateObject,
+  ratio: number,
+  anchorX: number,
+  anchorY: number,
+): void {
+  const scale = (ratio * obj.scale) / 100;
+  const opacity = Math.min(Math.max(obj.opacity, 0), 255) / 255;
+  if (scale <= 0 || opacity === 0 || rect.width <= 0 || rect.height <= 0) {
+    return;
+  }
+
+  // 裁剪过透明边框的精灵以原始尺寸定位
+  const sourceWidth = rect.sourceWidth ?? rect.width;
+  const sourceHeight = rect.sourceHeight ?? rect.height;
+
+  context.save();
+  context.globalAlpha *= opacity;
+  context.translate(anchorX + obj.x, anchorY + obj.y);
+  // Canvas 的 y 轴向下，正角度为顺时针，因此取反
+  context.rotate((-(obj.rotate ?? 0) * Math.PI) / 180);
+  context.scale(obj.mirror ? -scale : scale, scale);
+  context.drawImage(
+    sheet,
+    rect.x, rect.y, rect.width, rect.height,
+    (rect.offsetX ?? 0) - sourceWidth / 2, (rect.offsetY ?? 0) - sourceHeight / 2, rect.width, rect.height,
+  );
+  context.restore();
+}
+
+/**
+ * 将指定帧绘制到 Canvas 上
+ *
+ * 按 `objects` 的顺序依次绘制，后绘制的对象位于上层；引用不存在的精灵的对象会被跳过
+ *
+ * @param context - Canvas 2D 上下文
+ * @param sheet - 精灵图
+ * @param rects - 精灵区域
+ * @param meta - 动画元数据
+ * @param frameIndex - 帧索引（从 0 开始）
+ * @param anchorX - 锚点 X 坐标
+ * @param anchorY - 锚点 Y 坐标
+ * @throws H5AnimateError 如果帧索引超出范围
+ */
+export function drawH5AnimateFrame(
+  context: CanvasRenderingContext2D,
+  sheet: CanvasImageSource,
+  rects: SpriteRect[],
+  meta: H5AnimateMeta,
+  frameIndex: number,
+  anchorX: number,
+  anchorY: number,
+): void {
+  const frame = meta.frame[frameIndex];
+  if (!frame) {
+    throw createFrameExtractionError(
+      `帧索引超出范围（共 ${meta.frame.length} 帧）`,
+      frameIndex,
+    );
+  }
+
+  for (const obj of frame.objects ?? []) {
+    const rect = rects[obj.index];
+    if (!rect) continue;
+    drawH5AnimateObject(context, sheet, rect, obj, meta.ratio, anchorX, anchorY);
+  }
+}
+
+/**
+ * 检查帧率是否有效
+ *
+ * @throws H5AnimateError 如果帧率不是正数
+ */
+function checkFps(fps: number): number {
+  if (!Number.isFinite(fps) || fps <= 0) {
+    throw createValidationError(`帧率必须是正数，实际为 ${fps}`);
+  }
+  return fps;
+}
+
+/**
+ * h5animate 播放器
+ *
+ * 调用 `play()` 后通过 `requestAnimationFrame` 驱动；已有游戏循环时也可以不调用 `play()` 的自动调度，
+ * 而是在每次循环中调用 `update(time)`
+ *
+ * @example
+ * ```typescript
+ * import { decode, loadSpriteSheet, H5AnimatePlayer } from "@motajs/h5animate/browser";
+ *
+ * const animation = decode(await response.arrayBuffer());
+ * const sheet = await loadSpriteSheet(animation.webpData);
+ * const player = new H5AnimatePlayer(canvas.getContext("2d")!, animation, sheet, {
+ *   fps: 30,
+ *   onSound: (sound) => audio.play(sound.name, sound.volume, sound.pitch),
+ * });
+ * player.play();
+ * ```
+ */
+export class H5AnimatePlayer {
+  private readonly rects: SpriteRect[];
+  private readonly options: H5AnimatePlayerOptions;
+  /** 覆盖文件记录的帧率，为 undefined 时使用文件的帧率 */
+  private fps: number | undefined;
+  private anchorX: number;
+  private anchorY: number;
+  private frameIndex: number = 0;
+  private playing: boolean = false;
+  /** 当前帧的音效和回调是否已经触发 */
+  private entered: boolean = false;
+  /** 非循环动画是否已经播放结束 */
+  private ended: boolean = false;
+  /** 上次更新的时间戳，暂停后为 null */
+  private lastTime: number | null = null;
+  /** 当前帧已经经过的时间（毫秒） */
+  private elapsed: number = 0;
+  private requestId: number | null = null;
+
+  /**
+   * @param context - Canvas 2D 上下文
+   * @param animation - 解码后的动画数据
+   * @param sheet - 精灵图，通常为 `loadSpriteSheet` 返回的 ImageBitmap
+   * @param options - 播放器选项
+   * @throws H5AnimateError 如果帧率无效
+   */
+  constructor(
+    private readonly context: CanvasRenderingContext2D,
+    private readonly animation: DecodedH5Animate<Uint8Array>,
+    private readonly sheet: CanvasImageSource,
+    options: H5AnimatePlayerOptions = {},
+  ) {
+    this.rects = getSpriteRects(animation.spriteInfo);
+    this.options = options;
+    this.fps = options.fps === undefined ? undefined : checkFps(options.fps);
+    this.anchorX = options.anchorX ?? context.canvas.width / 2;
+    this.anchorY = options.anchorY ?? context.canvas.height / 2;
+  }
+
+  /**
+   * 当前帧索引
+   */
+  get currentFrame(): number {
+    return this.frameIndex;
+  }
+
+  /**
+   * 动画的总帧数
+   */
+  get frameCount(): number {
+    return this.animation.meta.frame.length;
+  }
+
+  /**
+   * 是否正在播放
+   */
+  get isPlaying(): boolean {
+    return this.playing;
+  }
+
+  /**
+   * 设置帧率，从下一帧开始生效；指定了 duration 的帧仍按其时长播放
+   *
+   * @throws H5AnimateError 如果帧率不是正数
+   */
+  setFps(fps: number): void {
+    this.fps = checkFps(fps);
+  }
+
+  /**
+   * 设置锚点并重新绘制当前帧
+   */
+  setAnchor(anchorX: number, anchorY: number): void {
+    this.anchorX = anchorX;
+    this.anchorY = anchorY;
+    this.render();
+  }
+
+  /**
+   * 开始或继续播放
+   *
+   * 非循环动画播放结束后再次调用会从第一帧重新开始
+   */
+  play(): void {
+    if (this.playing || this.frameCount === 0) {
+      return;
+    }
+
+    if (this.ended) {
+      this.frameIndex = 0;
+      this.elapsed = 0;
+      this.entered = false;
+      this.ended = false;
+    }
+
+    this.playing = true;
+    this.lastTime = null;
+
+    if (!this.entered) {
+      this.enterFrame(this.frameIndex);
+    }
+
+    this.scheduleNext();
+  }
+
+  /**
+   * 暂停播放，保留当前帧
+   */
+  pause(): void {
+    this.playing = false;
+    this.lastTime = null;
+
+    if (this.requestId !== null) {
+      cancelAnimationFrame(this.requestId);
+      this.requestId = null;
+    }
+  }
+
+  /**
+   * 停止播放并回到第一帧
+   */
+  stop(): void {
+    this.pause();
+    this.frameIndex = 0;
+    this.elapsed = 0;
+    this.entered = false;
+    this.ended = false;
+    this.render();
+  }
+
+  /**
+   * 跳转到指定帧并绘制，不触发该帧的音效
+   *
+   * @param frameIndex - 帧索引（从 0 开始）
+   * @throws H5AnimateError 如果帧索引超出范围
+   */
+  seek(frameIndex: number): void {
+    if (!Number.isInteger(frameIndex) || frameIndex < 0 || frameIndex >= this.frameCount) {
+      throw createFrameExtractionError(
+        `帧索引超出范围（共 ${this.frameCount} 帧）`,
+        frameIndex,
+      );
+    }
+
+    this.frameIndex = frameIndex;
+    this.elapsed = 0;
+    this.entered = true;
+    this.ended = false;
+    this.render();
+  }
+
+  /**
+   * 按时间推进播放进度
+   *
+   * 由 `play()` 自动调度，也可以在已有的游戏循环中手动调用
+   *
+   * @param time - 当前时间戳（毫秒），通常为 `requestAnimationFrame` 的参数或 `performance.now()`
+   */
+  update(time: number): void {
+    if (!this.playing) {
+      return;
+    }
+
+    const delta = this.lastTime === null ? 0 : Math.min(Math.max(time - this.lastTime, 0), MAX_UPDATE_DELTA);
+    this.lastTime = time;
+    this.elapsed += delta;
+
+    while (this.playing && this.elapsed >= this.getCurrentFrameDuration()) {
+      this.elapsed -= this.getCurrentFrameDuration();
+      this.advance();
+    }
+  }
+
+  /**
+   * 清空画布并绘制当前帧
+   */
+  render(): void {
+    if (this.frameCount === 0) {
+      return;
+    }
+
+    if (this.options.clear ?? true) {
+      const { canvas } = this.context;
+      this.context.save();
+      this.context.setTransform(1, 0, 0, 1, 0, 0);
+      this.context.clearRect(0, 0, canvas.width, canvas.height);
+      this.context.restore();
+    }
+
+    drawH5AnimateFrame(
+      this.context,
+      this.sheet,
+      this.rects,
+      this.animation.meta,
+      this.frameIndex,
+      this.anchorX,
+      this.anchorY,
+    );
+  }
+
+  /**
+   * 停止播放并释放调度
+   */
+  destroy(): void {
+    this.pause();
+  }
+
+  /**
+   * 当前帧的显示时长（毫秒）
+   *
+   * 解码时不验证元数据，不是有限正数的 duration 按帧率处理，避免在一次更新中无限推进
+   */
+  private getCurrentFrameDuration(): number {
+    const { meta } = this.animation;
+    const { duration } = meta.frame[this.frameIndex];
+    return duration !== undefined && Number.isFinite(duration) && duration > 0 ? duration : 1000 / (this.fps ?? getAnimationFps(meta));
+  }
+
+  /**
+   * 推进到下一帧，非循环动画在最后一帧结束时停止
+   */
+  private advance(): void {
+    const next = this.frameIndex + 1;
+
+    if (next < this.frameCount) {
+      this.enterFrame(next);
+      return;
+    }
+
+    if (this.options.loop) {
+      this.enterFrame(0);
+      return;
+    }
+
+    // 停留在最后一帧，下次 play() 从头开始
+    this.pause();
+    this.ended = true;
+    this.options.onEnd?.();
+  }
+
+  /**
+   * 进入指定帧：绘制画面并触发音效和帧回调
+   */
+  private enterFrame(frameIndex: number): void {
+    this.frameIndex = frameIndex;
+    this.entered = true;
+    this.render();
+
+    for (const sound of this.animation.meta.frame[frameIndex].sound ?? []) {
+      this.options.onSound?.(sound, frameIndex);
+    }
+    this.options.onFrame?.(frameIndex);
+  }
+
+  /**
+   * 请求下一次动画帧
+   */
+  private scheduleNext(): void {
+    if (typeof requestAnimationFrame !== "function") {
+      return;
+    }
+
+    this.requestId = requestAnimationFrame((time) => {
+      this.requestId = null;
+      this.update(time);
+      if (this.playing) {
+        this.scheduleNext();
+      }
+    });
+  }
+}
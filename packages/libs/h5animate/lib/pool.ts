@@ -0,0 +1,235 @@
+/**
+ * 工作线程池
+ *
+ * 每个工作线程同时只处理一个任务，任务按提交顺序分配给空闲线程。
+ * 工作线程通过 {@link serveWorkerTasks} 报告就绪、接收输入并返回结果或错误
+ */
+
+import { Worker, parentPort, type WorkerOptions } from "node:worker_threads";
+import { H5AnimateError, createAbortedError, type H5AnimateErrorCode } from "./errors.js";
+
+/**
+ * 跨线程传递的错误，H5AnimateError 保留错误代码与附加信息
+ */
+export interface SerializedError {
+  message: string;
+  code?: H5AnimateErrorCode;
+  [key: string]: unknown;
+}
+
+/** 工作线程返回的消息，脚本加载完成后先发送一次就绪消息 */
+type WorkerResponse<R> = { ready: true } | { result: R } | { error: SerializedError };
+
+/** 等待执行的任务 */
+interface PoolTask<T, R> {
+  input: T;
+  resolve: (result: R) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * 将错误转换为可跨线程传递的结构
+ *
+ * @param error - 错误
+ * @returns 可被结构化克隆的错误信息
+ */
+export function serializeError(error: unknown): SerializedError {
+  if (error instanceof H5AnimateError) {
+    return error.toJSON() as SerializedError;
+  }
+  return { message: error instanceof Error ? error.message : String(error) };
+}
+
+/**
+ * 还原跨线程传递的错误
+ *
+ * @param error - 错误信息
+ * @returns 带错误代码时为 H5AnimateError，否则为 Error
+ */
+export function deserializeError(error: SerializedError): Error {
+  if (error.code === undefined) {
+    return new Error(error.message);
+  }
+
+  const { code, message, ...options } = error;
+  return new H5AnimateError(code, message, options);
+}
+
+/**
+ * 在工作线程中处理线程池分配的任务
+ *
+ * @param handler - 任务处理函数，抛出的错误会传回主线程
+ * @throws Error 如果不在工作线程中调用
+ */
+export function serveWorkerTasks<T, R>(handler: (input: T) => Promise<R> | R): void {
+  const port = parentPort;
+  if (!port) {
+    throw new Error("serveWorkerTasks 只能在工作线程中调用");
+  }
+
+  port.on("message", async (input: T) => {
+    let response: WorkerResponse<R>;
+    try {
+      response = { result: await handler(input) };
+    } catch (error) {
+      response = { error: serializeError(error) };
+    }
+    port.postMessage(response);
+  });
+  port.postMessage({ ready: true } satisfies WorkerResponse<R>);
+}
+
+/**
+ * 工作线程池
+ */
+export class WorkerPool<T, R> {
+  private readonly workers = new Set<Worker>();
+  private readonly idle: Worker[] = [];
+  private readonly running = new Map<Worker, PoolTask<T, R>>();
+  private readonly queue: PoolTask<T, R>[] = [];
+  private closed = false;
+  private readonly started: Promise<void>;
+  private onStarted!: () => void;
+  private onStartFailed!: (error: Error) => void;
+
+  /**
+   * @param filename - 工作线程脚本，`options.eval` 为 true 时为脚本源码
+   * @param size - 线程数量，至少为 1
+   * @param options - 创建工作线程的选项
+   */
+  constructor(
+    private readonly filename: string | URL,
+    size: number,
+    private readonly options: WorkerOptions = {},
+  ) {
+    this.started = new Promise((resolve, reject) => {
+      this.onStarted = resolve;
+      this.onStartFailed = reject;
+    });
+    // 未调用 ready 时不应产生未处理的拒绝
+    this.started.catch(() => {});
+
+    for (let i = 0; i < Math.max(1, size); i++) {
+      this.spawn();
+    }
+  }
+
+  /**
+   * 创建工作线程
+   *
+   * 线程报告就绪后才会分配任务。线程意外退出时拒绝其任务，不再补充新的线程，避免脚本无法加载时反复创建；
+   * 全部线程退出后拒绝排队的任务
+   */
+  private spawn(): void {
+    const worker = new Worker(this.filename, this.options);
+    let lastError: Error | undefined;
+
+    worker.on("message", (response: WorkerResponse<R>) => {
+      if ("ready" in response) {
+        this.onStarted();
+        this.idle.push(worker);
+        this.dispatch();
+        return;
+      }
+
+      const task = this.running.get(worker);
+      this.running.delete(worker);
+      this.idle.push(worker);
+
+      if (task) {
+        if ("error" in response) {
+          task.reject(deserializeError(response.error));
+        } else {
+          task.resolve(response.result);
+        }
+      }
+      this.dispatch();
+    });
+
+    worker.on("error", (error: Error) => {
+      lastError = error;
+    });
+
+    worker.on("exit", (code) => {
+      this.workers.delete(worker);
+      const idleIndex = this.idle.indexOf(worker);
+      if (idleIndex >= 0) {
+        this.idle.splice(idleIndex, 1);
+      }
+
+      const error = lastError ?? new Error(`工作线程意外退出，退出码 ${code}`);
+      this.running.get(worker)?.reject(error);
+      this.running.delete(worker);
+
+      if (this.workers.size === 0) {
+        this.onStartFailed(error);
+        for (const task of this.queue) {
+          task.reject(error);
+        }
+        this.queue.length = 0;
+      }
+    });
+
+    this.workers.add(worker);
+  }
+
+  /**
+   * 将排队的任务分配给空闲线程
+   */
+  private dispatch(): void {
+    while (this.idle.length > 0 && this.queue.length > 0) {
+      const worker = this.idle.pop()!;
+      const task = this.queue.shift()!;
+      this.running.set(worker, task);
+      worker.postMessage(task.input);
+    }
+  }
+
+  /**
+   * 等待至少一个工作线程就绪
+   *
+   * @returns 全部线程在就绪前退出时以最后退出线程的错误拒绝
+   */
+  ready(): Promise<void> {
+    return this.started;
+  }
+
+  /**
+   * 提交任务
+   *
+   * @param input - 任务输入，需要能被结构化克隆
+   * @returns 工作线程返回的结果
+   * @throws H5AnimateError 如果线程池已关闭，错误代码为 ABORTED；工作线程中抛出的错误原样传回
+   */
+  run(input: T): Promise<R> {
+    if (this.closed) {
+      return Promise.reject(createAbortedError("线程池已关闭"));
+    }
+    if (this.workers.size === 0) {
+      return Promise.reject(new Error("没有可用的工作线程"));
+    }
+
+    return new Promise((resolve, reject) => {
+      this.queue.push({ input, resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  /**
+   * 关闭线程池
+   *
+   * 排队和正在执行的任务以 ABORTED 拒绝
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+
+    const error = createAbortedError("线程池已关闭");
+    for (const task of [...this.queue, ...this.running.values()]) {
+      task.reject(error);
+    }
+    this.queue.length = 0;
+    this.running.clear();
+
+    await Promise.all([...this.workers].map((worker) => worker.terminate()));
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * 进度报告与取消
+ *
+ * 长时间运行的 sharp 流水线在各步骤之间检查取消信号并报告进度
+ */
+
+import { createAbortedError } from "./errors.js";
+import type { ProgressOptions, ProgressStage } from "./types.js";
+
+/**
+ * 如果已取消则抛出错误
+ *
+ * @param signal - 取消信号
+ * @throws H5AnimateError 如果信号已触发，错误代码为 ABORTED
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw createAbortedError(signal.reason);
+  }
+}
+
+/**
+ * 检查取消信号后报告进度
+ *
+ * @param options - 进度选项
+ * @param stage - 当前阶段
+ * @param current - 已完成的数量
+ * @param total - 总数量
+ * @throws H5AnimateError 如果已取消
+ */
+export function reportProgress(
+  options: ProgressOptions,
+  stage: ProgressStage,
+  current: number,
+  total: number,
+): void {
+  throwIfAborted(options.signal);
+  options.onProgress?.({ stage, current, total });
+}
+
+/**
+ * 并行处理每一项，每完成一项报告一次进度
+ *
+ * 取消后返回的 Promise 立即拒绝，已开始的处理会继续执行但结果被丢弃
+ *
+ * @param items - 待处理的项
+ * @param stage - 当前阶段
+ * @param options - 进度选项
+ * @param task - 处理函数
+ * @returns 按输入顺序排列的结果
+ * @throws H5AnimateError 如果已取消
+ */
+export async function mapWithProgress<T, R>(
+  items: T[],
+  stage: ProgressStage,
+  options: ProgressOptions,
+  task: (item: T, index: number) => Promise<R> | R,
+): Promise<R[]> {
+  let completed = 0;
+  reportProgress(options, stage, 0, items.length);
+
+  const { signal } = options;
+  const work = Promise.all(items.map(async (item, index) => {
+    const result = await task(item, index);
+    reportProgress(options, stage, ++completed, items.length);
+    return result;
+  }));
+
+  if (!signal) {
+    return work;
+  }
+
+  // 取消时不等待进行中的处理完成
+  let onAbort!: () => void;
+  const aborted = new Promise<never>((_, reject) => {
+    onAbort = () => reject(createAbortedError(signal.reason));
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+
+  try {
+    return await Promise.race([work, aborted]);
+  } finally {
+    signal.removeEventListener("abort", onAbort);
+  }
+}
@@ -0,0 +1,296 @@
+/**
+ * WebP 压缩质量搜索
+ *
+ * 以无损图像为参照，二分查找满足感知质量指标（SSIM 或 PSNR）的最低有损压缩质量，
+ * 有损结果不比无损结果更小时退回无损压缩
+ */
+
+import sharp from "sharp";
+import { H5AnimateError, createValidationError, createWebPProcessingError } from "./errors.js";
+import { throwIfAborted } from "./progress.js";
+import type { ProgressOptions, RawImage, QualityMetric, WebPQualityReport } from "./types.js";
+
+/**
+ * 自动质量搜索的目标
+ */
+export interface WebPQualityTarget {
+  /** 质量指标（默认 ssim） */
+  metric?: QualityMetric;
+  /** 指标需要达到的阈值（默认 SSIM 0.99，PSNR 40 dB） */
+  threshold?: number;
+  /** 搜索的最低质量（默认 1） */
+  minQuality?: number;
+  /** 搜索的最高质量（默认 100） */
+  maxQuality?: number;
+  /** 编码耗时与压缩率的权衡，0-6（默认 6） */
+  effort?: number;
+}
+
+/**
+ * 自动质量搜索的结果
+ */
+export interface WebPQualityResult {
+  /** 选中设置编码的 WebP 数据 */
+  webpData: Buffer;
+  /** 选中的设置与节省的字节数 */
+  report: WebPQualityReport;
+}
+
+/** 各指标的默认阈值 */
+const DEFAULT_THRESHOLDS: Readonly<Record<QualityMetric, number>> = {
+  ssim: 0.99,
+  psnr: 40,
+};
+
+/** SSIM 计算窗口的边长 */
+const SSIM_WINDOW = 8;
+
+/** SSIM 稳定常数，对应 8 位像素 */
+const SSIM_C1 = (0.01 * 255) ** 2;
+const SSIM_C2 = (0.03 * 255) ** 2;
+
+/**
+ * 检查两张图像的尺寸是否一致
+ *
+ * @throws H5AnimateError 如果尺寸不一致
+ */
+function checkSameSize(a: RawImage, b: RawImage): void {
+  if (a.width !== b.width || a.height !== b.height) {
+    throw createValidationError(
+      `图像尺寸不一致: ${a.width}x${a.height} 与 ${b.width}x${b.height}`,
+    );
+  }
+}
+
+/**
+ * 读取预乘 alpha 后的通道值，使完全透明像素的颜色不影响指标
+ */
+function premultiplied(data: Buffer, offset: number, channel: number): number {
+  const alpha = data[offset + 3];
+  return channel === 3 ? alpha : (data[offset + channel] * alpha) / 255;
+}
+
+/**
+ * 计算峰值信噪比（PSNR）
+ *
+ * 在预乘 alpha 的 RGBA 四个通道上计算，图像完全相同时返回 Infinity
+ *
+ * @param a - 参照图像
+ * @param b - 待比较图像
+ * @returns PSNR（dB）
+ * @throws H5AnimateError 如果两张图像尺寸不一致
+ */
+export function computePsnr(a: RawImage, b: RawImage): number {
+  checkSameSize(a, b);
+
+  let sum = 0;
+  const pixels = a.width * a.height;
+  for (let i = 0; i < pixels * 4; i += 4) {
+    for (let channel = 0; channel < 4; channel++) {
+      const diff = premultiplied(a.data, i, channel) - premultiplied(b.data, i, channel);
+      sum += diff * diff;
+    }
+  }
+
+  const mse = sum / Math.max(1, pixels * 4);
+  return mse === 0 ? Infinity : 10 * Math.log10((255 * 255) / mse);
+}
+
+/**
+ * 计算结构相似度（SSIM）
+ *
+ * 在预乘 alpha 的 RGBA 四个通道上以 8x8 不重叠窗口计算后取平均，
+ * 边缘不足 8 像素的部分按实际大小计算
+ *
+ * @param a - 参照图像
+ * @param b - 待比较图像
+ * @returns SSIM，取值不超过 1，图像完全相同时为 1
+ * @throws H5AnimateError 如果两张图像尺寸不一致
+ */
+export function computeSsim(a: RawImage, b: RawImage): number {
+  checkSameSize(a, b);
+
+  let total = 0;
+  let windows = 0;
+
+  for (let top = 0; top < a.height; top += SSIM_WINDOW) {
+    for (let left = 0; left < a.width; left += SSIM_WINDOW) {
+      const bottom = Math.min(top + SSIM_WINDOW, a.height);
+      const right = Math.min(left + SSIM_WINDOW, a.width);
+      const count = (bottom - top) * (right - left);
+
+      for (let channel = 0; channel < 4; channel++) {
+        let sumA = 0;
+        let sumB = 0;
+        let sumAA = 0;
+        let sumBB = 0;
+        let sumAB = 0;
+
+        for (let y = top; y < bottom; y++) {
+          for (let x = left; x < right; x++) {
+            const offset = (y * a.width + x) * 4;
+            const va = premultiplied(a.data, offset, channel);
+            const vb = premultiplied(b.data, offset, channel);
+            sumA += va;
+            sumB += vb;
+            sumAA += va * va;
+            sumBB += vb * vb;
+            sumAB += va * vb;
+          }
+        }
+
+        const meanA = sumA / count;
+        const meanB = sumB / count;
+        const varA = sumAA / count - meanA * meanA;
+        const varB = sumBB / count - meanB * meanB;
+        const covariance = sumAB / count - meanA * meanB;
+
+        total += ((2 * meanA * meanB + SSIM_C1) * (2 * covariance + SSIM_C2))
+          / ((meanA * meanA + meanB * meanB + SSIM_C1) * (varA + varB + SSIM_C2));
+        windows++;
+      }
+    }
+  }
+
+  return windows === 0 ? 1 : total / windows;
+}
+
+/**
+ * 按指标比较两张图像
+ */
+function measure(metric: QualityMetric, reference: RawImage, image: RawImage): number {
+  return metric === "ssim" ? computeSsim(reference, image) : computePsnr(reference, image);
+}
+
+/**
+ * 将 RGBA 图像编码为 WebP
+ */
+function encodeRaw(image: RawImage, options: sharp.WebpOptions): Promise<Buffer> {
+  return sharp(image.data, { raw: { width: image.width, height: image.height, channels: 4 } })
+    .webp(options)
+    .toBuffer();
+}
+
+/**
+ * 解码 WebP 为 RGBA 图像
+ */
+async function decodeWebP(webpData: Buffer): Promise<RawImage> {
+  const { data, info } = await sharp(webpData)
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return { data, width: info.width, height: info.height };
+}
+
+/**
+ * 检查质量搜索的目标
+ *
+ * @throws H5AnimateError 如果指标未知或质量范围无效
+ */
+function resolveTarget(target: WebPQualityTarget): Required<WebPQualityTarget> {
+  const {
+    metric = "ssim",
+    minQuality = 1,
+    maxQuality = 100,
+    effort = 6,
+  } = target;
+
+  if (!Object.hasOwn(DEFAULT_THRESHOLDS, metric)) {
+    throw createValidationError(`未知的质量指标: ${metric}`);
+  }
+  if (
+    !Number.isInteger(minQuality)
+    || !Number.isInteger(maxQuality)
+    || minQuality < 1
+    || maxQuality > 100
+    || minQuality > maxQuality
+  ) {
+    throw createValidationError(`质量范围必须是 1-100 之间的整数区间，实际为 ${minQuality}-${maxQuality}`);
+  }
+
+  return { metric, threshold: target.threshold ?? DEFAULT_THRESHOLDS[metric], minQuality, maxQuality, effort };
+}
+
+/**
+ * 搜索满足质量目标的 WebP 压缩设置
+ *
+ * 在 [minQuality, maxQuality] 中二分查找指标达到阈值的最低有损质量。
+ * 所有质量都不满足，或有损结果不小于无损结果时，使用无损压缩
+ *
+ * @param image - 无损的 RGBA 源图像
+ * @param target - 质量目标
+ * @param progress - 取消选项，每次编码前检查
+ * @returns WebP 数据与选中的设置
+ * @throws H5AnimateError 如果目标无效或图像处理失败；已取消时错误代码为 ABORTED
+ *
+ * @example
+ * ```typescript
+ * const { webpData, report } = await searchWebPQuality(image, { metric: "psnr", threshold: 42 });
+ * console.log(report.lossless ? "无损" : `质量 ${report.quality}`, `节省 ${report.savedBytes} 字节`);
+ * ```
+ */
+export async function searchWebPQuality(
+  image: RawImage,
+  target: WebPQualityTarget = {},
+  progress: ProgressOptions = {},
+): Promise<WebPQualityResult> {
+  const { metric, threshold, minQuality, maxQuality, effort } = resolveTarget(target);
+
+  try {
+    throwIfAborted(progress.signal);
+    const losslessData = await encodeRaw(image, { lossless: true, effort });
+    const lossless: WebPQualityResult = {
+      webpData: losslessData,
+      report: {
+        lossless: true,
+        metric,
+        score: measure(metric, image, image),
+        size: losslessData.length,
+        losslessSize: losslessData.length,
+        savedBytes: 0,
+      },
+    };
+
+    // 二分查找：质量越高指标越好，找到满足阈值的最低质量
+    let best: { quality: number; webpData: Buffer; score: number } | null = null;
+    let low = minQuality;
+    let high = maxQuality;
+
+    while (low <= high) {
+      throwIfAborted(progress.signal);
+      const quality = Math.floor((low + high) / 2);
+      const webpData = await encodeRaw(image, { lossless: false, quality, effort });
+      const score = measure(metric, image, await decodeWebP(webpData));
+
+      if (score >= threshold) {
+        best = { quality, webpData, score };
+        high = quality - 1;
+      } else {
+        low = quality + 1;
+      }
+    }
+
+    if (!best || best.webpData.length >= losslessData.length) {
+      return lossless;
+    }
+
+    return {
+      webpData: best.webpData,
+      report: {
+        lossless: false,
+        quality: best.quality,
+        metric,
+        score: best.score,
+        size: best.webpData.length,
+        losslessSize: losslessData.length,
+        savedBytes: losslessData.length - best.webpData.length,
+      },
+    };
+  } catch (error) {
+    if (error instanceof H5AnimateError) {
+      throw error;
+    }
+    const message = error instanceof Error ? error.message : "未知错误";
+    throw createWebPProcessingError(`搜索 WebP 压缩质量失败: ${message}`);
+  }
+}
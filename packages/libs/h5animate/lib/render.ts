@@ -0,0 +1,417 @@
+/**
+ * 帧渲染模块
+ *
+ * 在服务端将 h5animate 的某一帧合成为完整画面，不依赖浏览器 Canvas
+ *
+ * 渲染规则与 2.x 的动画绘制保持一致：
+ * - 对象中心位于 `锚点 + (x, y)`
+ * - 绘制尺寸为 `精灵尺寸 * ratio * scale / 100`
+ * - `mirror` 非 0 时水平翻转，`rotate` 为角度制，正值为逆时针
+ * - `opacity` 取值 0-255
+ */
+
+import sharp from "sharp";
+import { getSpriteRects } from "./decoder.js";
+import { createFrameExtractionError, createWebPProcessingError } from "./errors.js";
+import type {
+  DecodedH5Animate,
+  H5AnimateMeta,
+  H5AnimateObject,
+  RawImage,
+  SpriteRect,
+} from "./types.js";
+
+/**
+ * 渲染画布
+ */
+export interface RenderCanvas {
+  width: number;
+  height: number;
+  /** 锚点 X 坐标，即对象坐标原点在画布上的位置 */
+  anchorX: number;
+  /** 锚点 Y 坐标 */
+  anchorY: number;
+}
+
+/**
+ * 画布选项
+ */
+export interface RenderCanvasOptions {
+  /** 画布宽度（需与 height 同时指定，否则使用整段动画的包围盒） */
+  width?: number;
+  /** 画布高度 */
+  height?: number;
+  /** 锚点 X 坐标（默认为画布中心或包围盒原点） */
+  anchorX?: number;
+  /** 锚点 Y 坐标 */
+  anchorY?: number;
+  /** 背景色（默认透明） */
+  background?: { r: number; g: number; b: number; alpha: number };
+}
+
+/**
+ * 帧渲染选项
+ */
+export interface RenderFrameOptions extends RenderCanvasOptions {
+  /** 输出格式：png 或未压缩的 RGBA（默认 png） */
+  format?: "png" | "raw";
+}
+
+/**
+ * 矩形包围盒
+ */
+interface Bounds {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+/**
+ * 将 WebP 精灵图解码为 RGBA 像素数据
+ *
+ * @param webpData - WebP 精灵图数据
+ * @returns 解码后的图像
+ * @throws H5AnimateError 如果解码失败
+ */
+export async function decodeSpriteSheet(webpData: Buffer): Promise<RawImage> {
+  try {
+    const { data, info } = await sharp(webpData)
+      .ensureAlpha()
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    return { data, width: info.width, height: info.height };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "未知错误";
+    throw createWebPProcessingError(`解码精灵图失败: ${message}`);
+  }
+}
+
+/**
+ * 计算对象相对于锚点的绘制包围盒
+ *
+ * @param obj - 动画对象
+ * @param rect - 对象引用的精灵区域
+ * @param ratio - 全局缩放比例
+ * @returns 包围盒，如果对象不可见则返回 null
+ */
+function getObjectBounds(
+  obj: H5AnimateObject,
+  rect: SpriteRect,
+  ratio: number,
+): Bounds | null {
+  const scale = (ratio * obj.scale) / 100;
+  if (scale <= 0 || rect.width <= 0 || rect.height <= 0) {
+    return null;
+  }
+
+  const angle = (-(obj.rotate ?? 0) * Math.PI) / 180;
+  const cos = Math.abs(Math.cos(angle));
+  const sin = Math.abs(Math.sin(angle));
+  const halfWidth = ((rect.sourceWidth ?? rect.width) * scale) / 2;
+  const halfHeight = ((rect.sourceHeight ?? rect.height) * scale) / 2;
+  const extentX = halfWidth * cos + halfHeight * sin;
+  const extentY = halfWidth * sin + halfHeight * cos;
+
+  return {
+    left: obj.x - extentX,
+    top: obj.y - extentY,
+    right: obj.x + extentX,
+    bottom: obj.y + extentY,
+  };
+}
+
+/**
+ * 计算能容纳整段动画所有帧的画布
+ *
+ * @param meta - 动画元数据
+ * @param rects - 精灵区域
+ * @returns 画布尺寸和锚点位置
+ */
+export function computeAnimationCanvas(
+  meta: H5AnimateMeta,
+  rects: SpriteRect[],
+): RenderCanvas {
+  let bounds: Bounds | null = null;
+
+  for (const frame of meta.frame) {
+    for (const obj of frame.objects ?? []) {
+      const rect = rects[obj.index];
+      if (!rect) continue;
+
+      const objBounds = getObjectBounds(obj, rect, meta.ratio);
+      if (!objBounds) continue;
+
+      bounds = bounds
+        ? {
+            left: Math.min(bounds.left, objBounds.left),
+            top: Math.min(bounds.top, objBounds.top),
+            right: Math.max(bounds.right, objBounds.right),
+            bottom: Math.max(bounds.bottom, objBounds.bottom),
+          }
+        : objBounds;
+    }
+  }
+
+  if (!bounds) {
+    return { width: 1, height: 1, anchorX: 0, anchorY: 0 };
+  }
+
+  const left = Math.floor(bounds.left);
+  const top = Math.floor(bounds.top);
+
+  return {
+    width: Math.max(1, Math.ceil(bounds.right) - left),
+    height: Math.max(1, Math.ceil(bounds.bottom) - top),
+    anchorX: -left,
+    anchorY: -top,
+  };
+}
+
+/**
+ * 读取精灵区域内某个像素的预乘 RGBA 值，区域外视为透明
+ */
+function readPremultiplied(
+  sheet: RawImage,
+  rect: SpriteRect,
+  u: number,
+  v: number,
+  out: Float64Array,
+  weight: number,
+): void {
+  if (u < 0 || v < 0 || u >= rect.width || v >= rect.height || weight === 0) {
+    return;
+  }
+
+  const px = rect.x + u;
+  const py = rect.y + v;
+  if (px >= sheet.width || py >= sheet.height) {
+    return;
+  }
+
+  const offset = (py * sheet.width + px) * 4;
+  const alpha = (sheet.data[offset + 3] / 255) * weight;
+  out[0] += sheet.data[offset] * alpha;
+  out[1] += sheet.data[offset + 1] * alpha;
+  out[2] += sheet.data[offset + 2] * alpha;
+  out[3] += alpha;
+}
+
+/**
+ * 将单个动画对象绘制到目标图像上
+ *
+ * 对每个目标像素做逆变换，在精灵区域内双线性采样后以 source-over 方式混合
+ *
+ * @param target - 目标图像
+ * @param sheet - 解码后的精灵图
+ * @param rect - 对象引用的精灵区域
+ * @param obj - 动画对象
+ * @param ratio - 全局缩放比例
+ * @param anchorX - 锚点 X 坐标
+ * @param anchorY - 锚点 Y 坐标
+ */
+export function drawObject(
+  target: RawImage,
+  sheet: RawImage,
+  rect: SpriteRect,
+  obj: H5AnimateObject,
+  ratio: number,
+  anchorX: number,
+  anchorY: number,
+): void {
+  const opacity = Math.min(Math.max(obj.opacity, 0), 255) / 255;
+  const bounds = getObjectBounds(obj, rect, ratio);
+  if (!bounds || opacity === 0) {
+    return;
+  }
+
+  const scale = (ratio * obj.scale) / 100;
+  const angle = (-(obj.rotate ?? 0) * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const flip = obj.mirror ? -1 : 1;
+  const centerX = anchorX + obj.x;
+  const centerY = anchorY + obj.y;
+
+  // 裁剪过透明边框的精灵以原始尺寸定位，采样时再换算回裁剪区域
+  const sourceWidth = rect.sourceWidth ?? rect.width;
+  const sourceHeight = rect.sourceHeight ?? rect.height;
+  const offsetX = rect.offsetX ?? 0;
+  const offsetY = rect.offsetY ?? 0;
+
+  const startX = Math.max(0, Math.floor(anchorX + bounds.left));
+  const startY = Math.max(0, Math.floor(anchorY + bounds.top));
+  const endX = Math.min(target.width, Math.ceil(anchorX + bounds.right));
+  const endY = Math.min(target.height, Math.ceil(anchorY + bounds.bottom));
+
+  const sample = new Float64Array(4);
+
+  for (let dy = startY; dy < endY; dy++) {
+    for (let dx = startX; dx < endX; dx++) {
+      // 逆变换：画布坐标 → 精灵局部坐标
+      const px = dx + 0.5 - centerX;
+      const py = dy + 0.5 - centerY;
+      const localX = ((px * cos + py * sin) * flip) / scale;
+      const localY = (-px * sin + py * cos) / scale;
+      const u = localX + sourceWidth / 2 - 0.5 - offsetX;
+      const v = localY + sourceHeight / 2 - 0.5 - offsetY;
+
+      if (u <= -1 || v <= -1 || u >= rect.width || v >= rect.height) {
+        continue;
+      }
+
+      const u0 = Math.floor(u);
+      const v0 = Math.floor(v);
+      const fu = u - u0;
+      const fv = v - v0;
+
+      sample.fill(0);
+      readPremultiplied(sheet, rect, u0, v0, sample, (1 - fu) * (1 - fv));
+      readPremultiplied(sheet, rect, u0 + 1, v0, sample, fu * (1 - fv));
+      readPremultiplied(sheet, rect, u0, v0 + 1, sample, (1 - fu) * fv);
+      readPremultiplied(sheet, rect, u0 + 1, v0 + 1, sample, fu * fv);
+
+      const srcAlpha = sample[3] * opacity;
+      if (srcAlpha <= 0) continue;
+
+      const offset = (dy * target.width + dx) * 4;
+      const dstAlpha = target.data[offset + 3] / 255;
+      const outAlpha = srcAlpha + dstAlpha * (1 - srcAlpha);
+      const dstWeight = dstAlpha * (1 - srcAlpha);
+
+      for (let c = 0; c < 3; c++) {
+        const value = (sample[c] * opacity + target.data[offset + c] * dstWeight) / outAlpha;
+        target.data[offset + c] = Math.round(Math.min(255, value));
+      }
+      target.data[offset + 3] = Math.round(outAlpha * 255);
+    }
+  }
+}
+
+/**
+ * 将指定帧渲染为 RGBA 图像
+ *
+ * 按 `objects` 的顺序依次绘制，后绘制的对象位于上层；引用不存在的精灵的对象会被跳过
+ *
+ * @param sheet - 解码后的精灵图
+ * @param rects - 精灵区域
+ * @param meta - 动画元数据
+ * @param frameIndex - 帧索引（从 0 开始）
+ * @param canvas - 渲染画布
+ * @param background - 背景色（默认透明）
+ * @returns 渲染结果
+ * @throws H5AnimateError 如果帧索引超出范围
+ */
+export function renderFrameToRaw(
+  sheet: RawImage,
+  rects: SpriteRect[],
+  meta: H5AnimateMeta,
+  frameIndex: number,
+  canvas: RenderCanvas,
+  background?: RenderCanvasOptions["background"],
+): RawImage {
+  const frame = meta.frame[frameIndex];
+  if (!frame) {
+    throw createFrameExtractionError(
+      `帧索引超出范围（共 ${meta.frame.length} 帧）`,
+      frameIndex,
+    );
+  }
+
+  const target: RawImage = {
+    data: Buffer.alloc(canvas.width * canvas.height * 4),
+    width: canvas.width,
+    height: canvas.height,
+  };
+
+  if (background) {
+    const alpha = Math.round(background.alpha * 255);
+    for (let i = 0; i < target.data.length; i += 4) {
+      target.data[i] = background.r;
+      target.data[i + 1] = background.g;
+      target.data[i + 2] = background.b;
+      target.data[i + 3] = alpha;
+    }
+  }
+
+  for (const obj of frame.objects ?? []) {
+    const rect = rects[obj.index];
+    if (!rect) continue;
+    drawObject(target, sheet, rect, obj, meta.ratio, canvas.anchorX, canvas.anchorY);
+  }
+
+  return target;
+}
+
+/**
+ * 根据渲染选项确定画布
+ *
+ * @param meta - 动画元数据
+ * @param rects - 精灵区域
+ * @param options - 渲染选项
+ * @returns 渲染画布
+ */
+export function resolveRenderCanvas(
+  meta: H5AnimateMeta,
+  rects: SpriteRect[],
+  options: RenderCanvasOptions = {},
+): RenderCanvas {
+  if (options.width !== undefined && options.height !== undefined) {
+    return {
+      width: options.width,
+      height: options.height,
+      anchorX: options.anchorX ?? options.width / 2,
+      anchorY: options.anchorY ?? options.height / 2,
+    };
+  }
+
+  const canvas = computeAnimationCanvas(meta, rects);
+  return {
+    ...canvas,
+    anchorX: options.anchorX ?? canvas.anchorX,
+    anchorY: options.anchorY ?? canvas.anchorY,
+  };
+}
+
+/**
+ * 渲染 h5animate 的指定帧
+ *
+ * @param animation - 解码后的动画数据
+ * @param frameIndex - 帧索引（从 0 开始）
+ * @param options - 渲染选项
+ * @returns PNG 数据，或 `format: "raw"` 时的 RGBA 像素数据
+ * @throws H5AnimateError 如果帧索引超出范围或图像处理失败
+ */
+export async function renderH5AnimateFrame(
+  animation: DecodedH5Animate,
+  frameIndex: number,
+  options: RenderFrameOptions = {},
+): Promise<Buffer> {
+  const rects = getSpriteRects(animation.spriteInfo);
+  const canvas = resolveRenderCanvas(animation.meta, rects, options);
+  const sheet = await decodeSpriteSheet(animation.webpData);
+  const image = renderFrameToRaw(
+    sheet,
+    rects,
+    animation.meta,
+    frameIndex,
+    canvas,
+    options.background,
+  );
+
+  if (options.format === "raw") {
+    return image.data;
+  }
+
+  try {
+    return await sharp(image.data, {
+      raw: { width: image.width, height: image.height, channels: 4 },
+    })
+      .png()
+      .toBuffer();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "未知错误";
+    throw createWebPProcessingError(`编码帧图像失败: ${message}`);
+  }
+}
@@ -0,0 +1,204 @@
+/**
+ * 嵌入音效
+ *
+ * 将元信息引用的音效文件存放在 `SNDS` 分块中，使动画文件可以独立分发。
+ * `SNDS` 不是编解码器解析的已知分块，解码后位于 `chunks` 中，重新编码时原样写回
+ */
+
+import { BinaryParser, BinaryWriter } from "./binary.js";
+import { createCorruptedHeaderError, createValidationError } from "./errors.js";
+import { FORMAT_VERSION_3, isChunkedVersion } from "./version.js";
+import type { DecodedH5Animate, H5AnimateChunk, H5AnimateMeta } from "./types.js";
+
+/** 嵌入音效的分块标签 */
+export const CHUNK_SOUNDS = "SNDS";
+
+/** 音效名称解码器 */
+const utf8Decoder = new TextDecoder("utf-8", { ignoreBOM: true });
+
+/**
+ * 嵌入的音效
+ *
+ * 字节数据类型与解码输入一致：Node 中为 Buffer，浏览器中为 Uint8Array
+ */
+export interface EmbeddedSound<T extends Uint8Array = Buffer> {
+  /** 音效名称，与 `SoundMeta.name` 对应 */
+  name: string;
+  /** 音效文件的原始数据 */
+  data: T;
+}
+
+/**
+ * 编码 SNDS 分块数据
+ *
+ * 布局：音效数量 UInt32，之后每个音效依次为名称字节数 UInt32、UTF-8 名称、数据字节数 UInt32、数据
+ *
+ * @param sounds - 嵌入的音效
+ * @returns 分块数据
+ * @throws H5AnimateError 如果名称为空或重复
+ */
+export function encodeSoundChunk(sounds: EmbeddedSound[]): Buffer {
+  const names = new Set<string>();
+  const entries = sounds.map((sound) => {
+    if (sound.name.length === 0) {
+      throw createValidationError("嵌入音效的名称不能为空");
+    }
+    if (names.has(sound.name)) {
+      throw createValidationError(`嵌入音效的名称重复: ${sound.name}`);
+    }
+    names.add(sound.name);
+    return { name: Buffer.from(sound.name, "utf8"), data: sound.data };
+  });
+
+  const size = entries.reduce((sum, entry) => sum + 8 + entry.name.length + entry.data.length, 4);
+  const writer = new BinaryWriter(size);
+
+  writer.writeUInt32LE(entries.length);
+  for (const entry of entries) {
+    writer.writeUInt32LE(entry.name.length);
+    writer.writeBuffer(entry.name);
+    writer.writeUInt32LE(entry.data.length);
+    writer.writeBuffer(entry.data);
+  }
+
+  return writer.getBuffer();
+}
+
+/**
+ * 解码 SNDS 分块数据
+ *
+ * @param data - 分块数据
+ * @returns 嵌入的音效，数据为输入的视图
+ * @throws H5AnimateError 如果分块数据不完整或有多余字节
+ */
+export function decodeSoundChunk<T extends Uint8Array = Buffer>(data: T): EmbeddedSound<T>[] {
+  const parser = new BinaryParser(data);
+  const count = parser.readUInt32LE();
+  const sounds: EmbeddedSound<T>[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const name = utf8Decoder.decode(parser.readBytes(parser.readUInt32LE()));
+    sounds.push({ name, data: parser.readBytes(parser.readUInt32LE()) });
+  }
+
+  if (parser.hasMore()) {
+    throw createCorruptedHeaderError(parser.getCurrentOffset(), `${CHUNK_SOUNDS} 分块末尾有多余数据`);
+  }
+
+  return sounds;
+}
+
+/**
+ * 获取动画中嵌入的所有音效
+ *
+ * @param animation - 解码后的动画数据
+ * @returns 嵌入的音效，没有 SNDS 分块时为空数组
+ * @throws H5AnimateError 如果 SNDS 分块损坏
+ */
+export function getEmbeddedSounds<T extends Uint8Array>(
+  animation: DecodedH5Animate<T>,
+): EmbeddedSound<T>[] {
+  const chunk = animation.chunks?.find((item) => item.tag === CHUNK_SOUNDS);
+  return chunk ? decodeSoundChunk(chunk.data) : [];
+}
+
+/**
+ * 列出动画中嵌入的音效名称
+ *
+ * @param animation - 解码后的动画数据
+ * @returns 音效名称
+ * @throws H5AnimateError 如果 SNDS 分块损坏
+ */
+export function listEmbeddedSounds<T extends Uint8Array>(animation: DecodedH5Animate<T>): string[] {
+  return getEmbeddedSounds(animation).map((sound) => sound.name);
+}
+
+/**
+ * 提取指定名称的嵌入音效
+ *
+ * @param animation - 解码后的动画数据
+ * @param name - 音效名称
+ * @returns 音效文件的原始数据，未嵌入时返回 undefined
+ * @throws H5AnimateError 如果 SNDS 分块损坏
+ */
+export function getEmbeddedSound<T extends Uint8Array>(
+  animation: DecodedH5Animate<T>,
+  name: string,
+): T | undefined {
+  return getEmbeddedSounds(animation).find((sound) => sound.name === name)?.data;
+}
+
+/**
+ * 以新的音效列表替换 SNDS 分块，列表为空时移除该分块
+ *
+ * 写入分块时，不支持分块的版本 1、2 升级为版本 3，使结果可以直接编码
+ */
+function withSounds(animation: DecodedH5Animate, sounds: EmbeddedSound[]): DecodedH5Animate {
+  const chunks: H5AnimateChunk[] = (animation.chunks ?? []).filter((chunk) => chunk.tag !== CHUNK_SOUNDS);
+  if (sounds.length === 0) {
+    return { ...animation, chunks };
+  }
+
+  chunks.push({ tag: CHUNK_SOUNDS, data: encodeSoundChunk(sounds) });
+  const { version } = animation;
+  return version !== undefined && !isChunkedVersion(version)
+    ? { ...animation, version: FORMAT_VERSION_3, chunks }
+    : { ...animation, chunks };
+}
+
+/**
+ * 嵌入音效
+ *
+ * 不修改输入，返回新的动画数据，与已嵌入音效同名时替换原有数据。
+ * 由版本 1、2 解码的动画会升级为版本 3
+ *
+ * @param animation - 解码后的动画数据
+ * @param sounds - 要嵌入的音效
+ * @returns 新的动画数据，编码时传入 `chunks` 即可写入文件
+ * @throws H5AnimateError 如果名称为空或 SNDS 分块损坏
+ *
+ * @example
+ * ```typescript
+ * import { decode, encode, addEmbeddedSounds } from "@motajs/h5animate";
+ *
+ * const animation = addEmbeddedSounds(decode(buffer), [
+ *   { name: "attack.mp3", data: readFileSync("sounds/attack.mp3") },
+ * ]);
+ * writeFileSync("animation.h5animate", encode(animation));
+ * ```
+ */
+export function addEmbeddedSounds(animation: DecodedH5Animate, sounds: EmbeddedSound[]): DecodedH5Animate {
+  const merged = new Map(getEmbeddedSounds(animation).map((sound) => [sound.name, sound.data]));
+  for (const sound of sounds) {
+    merged.set(sound.name, sound.data);
+  }
+  return withSounds(animation, Array.from(merged, ([name, data]) => ({ name, data })));
+}
+
+/**
+ * 移除嵌入的音效
+ *
+ * @param animation - 解码后的动画数据
+ * @param names - 要移除的音效名称
+ * @returns 新的动画数据，没有剩余音效时移除 SNDS 分块
+ * @throws H5AnimateError 如果 SNDS 分块损坏
+ */
+export function removeEmbeddedSounds(animation: DecodedH5Animate, names: string[]): DecodedH5Animate {
+  return withSounds(animation, getEmbeddedSounds(animation).filter((sound) => !names.includes(sound.name)));
+}
+
+/**
+ * 获取元信息引用的音效名称
+ *
+ * @param meta - 元数据
+ * @returns 去重后的音效名称，按首次出现的顺序排列
+ */
+export function getReferencedSounds(meta: H5AnimateMeta): string[] {
+  const names = new Set<string>();
+  for (const frame of meta.frame) {
+    for (const sound of frame.sound ?? []) {
+      names.add(sound.name);
+    }
+  }
+  return Array.from(names);
+}
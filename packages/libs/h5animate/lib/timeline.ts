@@ -0,0 +1,309 @@
+/**
+ * 关键帧时间轴
+ *
+ * 以对象轨道和关键帧描述动画，生成逐帧的 `H5AnimateFrame[]`，
+ * 免去手写每一帧每个对象的数据。生成的元数据可直接传给 `encode()`
+ */
+
+import { createValidationError } from "./errors.js";
+import type {
+  H5AnimateFrame,
+  H5AnimateMeta,
+  H5AnimateObject,
+  SoundMeta,
+} from "./types.js";
+
+/**
+ * 内置缓动曲线名称
+ * - linear: 匀速
+ * - easeIn / easeOut / easeInOut: 二次缓入、缓出、缓入缓出
+ * - step: 保持起始关键帧的值，到下一个关键帧时跳变
+ */
+export type EasingName = "linear" | "easeIn" | "easeOut" | "easeInOut" | "step";
+
+/**
+ * 缓动曲线，可为内置名称或将进度 [0, 1] 映射为插值比例的函数
+ */
+export type Easing = EasingName | ((progress: number) => number);
+
+/**
+ * 关键帧
+ *
+ * 未指定的属性沿用上一个关键帧的值，第一个关键帧未指定时使用默认值
+ * （x、y、rotate、mirror 为 0，scale 为 100，opacity 为 255）
+ */
+export interface Keyframe {
+  /** 关键帧所在的帧索引 */
+  frame: number;
+  x?: number;
+  y?: number;
+  scale?: number;
+  opacity?: number;
+  rotate?: number;
+  /** 切换引用的精灵索引，不插值 */
+  index?: number;
+  /** 镜像标志，不插值 */
+  mirror?: number;
+  /** 从该关键帧到下一个关键帧使用的缓动曲线（默认 linear） */
+  easing?: Easing;
+}
+
+/**
+ * 对象轨道
+ *
+ * 对象在第一个关键帧到最后一个关键帧之间（含两端）可见
+ */
+export interface TimelineTrack {
+  /** 引用的精灵索引，可被关键帧的 index 覆盖 */
+  index: number;
+  /** 按帧索引升序排列的关键帧 */
+  keyframes: Keyframe[];
+}
+
+/**
+ * 音效提示
+ */
+export interface SoundCue extends SoundMeta {
+  /** 播放音效的帧索引 */
+  frame: number;
+}
+
+/**
+ * 时间轴定义
+ */
+export interface TimelineDefinition {
+  /** 全局缩放比例 */
+  ratio: number;
+  /** 帧率，关键帧的 frame 按此帧率换算为时间（默认不写入，按 20 帧每秒播放） */
+  fps?: number;
+  /** 总帧数（默认为最后一个关键帧或音效所在帧 + 1） */
+  frameCount?: number;
+  /** 对象轨道，顺序即绘制顺序，后面的轨道位于上层 */
+  tracks: TimelineTrack[];
+  /** 音效提示 */
+  sounds?: SoundCue[];
+}
+
+/**
+ * 补全属性后的关键帧
+ */
+interface ResolvedKeyframe {
+  frame: number;
+  index: number;
+  x: number;
+  y: number;
+  scale: number;
+  opacity: number;
+  rotate: number;
+  mirror: number;
+  easing?: Easing;
+}
+
+/**
+ * 可插值的属性
+ */
+const TWEEN_PROPERTIES = ["x", "y", "scale", "opacity", "rotate"] as const;
+
+/**
+ * 关键帧属性的默认值
+ */
+const DEFAULT_VALUES = { x: 0, y: 0, scale: 100, opacity: 255, rotate: 0, mirror: 0 };
+
+/**
+ * 内置缓动曲线
+ */
+export const easings: Readonly<Record<EasingName, (progress: number) => number>> = {
+  linear: (t) => t,
+  easeIn: (t) => t * t,
+  easeOut: (t) => t * (2 - t),
+  easeInOut: (t) => (t < 0.5 ? 2 * t * t : 1 - 2 * (1 - t) * (1 - t)),
+  step: () => 0,
+};
+
+/**
+ * 获取缓动函数
+ *
+ * @param easing - 缓动曲线（默认 linear）
+ * @returns 缓动函数
+ * @throws H5AnimateError 如果缓动曲线名称未知
+ */
+export function resolveEasing(easing: Easing = "linear"): (progress: number) => number {
+  if (typeof easing === "function") {
+    return easing;
+  }
+  if (!Object.hasOwn(easings, easing)) {
+    throw createValidationError(`未知的缓动曲线: ${easing}`);
+  }
+  return easings[easing];
+}
+
+/**
+ * 补全每个关键帧的属性值
+ *
+ * @throws H5AnimateError 如果关键帧为空、帧索引无效或未按升序排列
+ */
+function resolveKeyframes(track: TimelineTrack, path: string): ResolvedKeyframe[] {
+  if (track.keyframes.length === 0) {
+    throw createValidationError(`${path}.keyframes 至少需要一个关键帧`);
+  }
+
+  let previous: ResolvedKeyframe = { frame: 0, index: track.index, ...DEFAULT_VALUES };
+
+  return track.keyframes.map((keyframe, i) => {
+    if (!Number.isInteger(keyframe.frame) || keyframe.frame < 0) {
+      throw createValidationError(`${path}.keyframes[${i}].frame 必须是非负整数，实际为 ${keyframe.frame}`);
+    }
+    if (i > 0 && keyframe.frame <= track.keyframes[i - 1].frame) {
+      throw createValidationError(`${path}.keyframes[${i}].frame 必须大于上一个关键帧的帧索引`);
+    }
+
+    const resolved: ResolvedKeyframe = {
+      frame: keyframe.frame,
+      index: keyframe.index ?? previous.index,
+      x: keyframe.x ?? previous.x,
+      y: keyframe.y ?? previous.y,
+      scale: keyframe.scale ?? previous.scale,
+      opacity: keyframe.opacity ?? previous.opacity,
+      rotate: keyframe.rotate ?? previous.rotate,
+      mirror: keyframe.mirror ?? previous.mirror,
+      easing: keyframe.easing,
+    };
+    previous = resolved;
+    return resolved;
+  });
+}
+
+/**
+ * 计算轨道在指定帧的对象数据
+ *
+ * 在相邻两个关键帧之间按前一个关键帧的缓动曲线插值 x、y、scale、opacity 与 rotate，
+ * 结果取整；index 与 mirror 保持前一个关键帧的值
+ *
+ * @param track - 对象轨道
+ * @param frame - 帧索引
+ * @returns 对象数据，如果该帧不在轨道的可见范围内则返回 null
+ * @throws H5AnimateError 如果关键帧无效
+ */
+export function interpolateTrack(track: TimelineTrack, frame: number): H5AnimateObject | null {
+  return sampleTrack(resolveKeyframes(track, "track"), frame);
+}
+
+/**
+ * 在补全后的关键帧上采样
+ */
+function sampleTrack(keyframes: ResolvedKeyframe[], frame: number): H5AnimateObject | null {
+  const first = keyframes[0];
+  const last = keyframes[keyframes.length - 1];
+  if (frame < first.frame || frame > last.frame) {
+    return null;
+  }
+
+  let i = 0;
+  while (i < keyframes.length - 1 && keyframes[i + 1].frame <= frame) {
+    i++;
+  }
+
+  const from = keyframes[i];
+  const to = keyframes[i + 1];
+  const ratio = to ? resolveEasing(from.easing)((frame - from.frame) / (to.frame - from.frame)) : 0;
+
+  const object: H5AnimateObject = {
+    index: from.index,
+    x: 0,
+    y: 0,
+    scale: 0,
+    opacity: 0,
+    mirror: from.mirror,
+    rotate: 0,
+  };
+
+  for (const property of TWEEN_PROPERTIES) {
+    const value = to ? from[property] + (to[property] - from[property]) * ratio : from[property];
+    object[property] = Math.round(value);
+  }
+  object.opacity = Math.min(Math.max(object.opacity, 0), 255);
+
+  return object;
+}
+
+/**
+ * 由时间轴生成元数据
+ *
+ * @param definition - 时间轴定义
+ * @returns 逐帧的元数据
+ * @throws H5AnimateError 如果关键帧、音效所在帧或总帧数无效
+ *
+ * @example
+ * ```typescript
+ * import { buildTimeline, encode } from "@motajs/h5animate";
+ *
+ * const meta = buildTimeline({
+ *   ratio: 1,
+ *   tracks: [{
+ *     index: 0,
+ *     keyframes: [
+ *       { frame: 0, scale: 30, opacity: 0, easing: "easeOut" },
+ *       { frame: 5, scale: 100, opacity: 255 },
+ *       { frame: 9, opacity: 0 },
+ *     ],
+ *   }],
+ *   sounds: [{ frame: 0, name: "attack.mp3" }],
+ * });
+ *
+ * const buffer = encode({ meta, spriteInfo, webpData });
+ * ```
+ */
+export function buildTimeline(definition: TimelineDefinition): H5AnimateMeta {
+  const tracks = definition.tracks.map((track, i) => resolveKeyframes(track, `tracks[${i}]`));
+  const sounds = definition.sounds ?? [];
+
+  let lastFrame = -1;
+  for (const keyframes of tracks) {
+    lastFrame = Math.max(lastFrame, keyframes[keyframes.length - 1].frame);
+  }
+  for (const cue of sounds) {
+    lastFrame = Math.max(lastFrame, cue.frame);
+  }
+
+  const frameCount = definition.frameCount ?? lastFrame + 1;
+  if (!Number.isInteger(frameCount) || frameCount < 0) {
+    throw createValidationError(`frameCount 必须是非负整数，实际为 ${frameCount}`);
+  }
+
+  // 音效按出现顺序归入所在帧
+  const soundsByFrame = new Map<number, SoundMeta[]>();
+  sounds.forEach(({ frame, ...sound }, i) => {
+    if (!Number.isInteger(frame) || frame < 0 || frame >= frameCount) {
+      throw createValidationError(`sounds[${i}].frame 必须是 0-${frameCount - 1} 之间的整数，实际为 ${frame}`);
+    }
+    soundsByFrame.set(frame, [...(soundsByFrame.get(frame) ?? []), sound]);
+  });
+
+  const frames: H5AnimateFrame[] = [];
+
+  for (let frameIndex = 0; frameIndex < frameCount; frameIndex++) {
+    const frame: H5AnimateFrame = {};
+
+    const objects = tracks
+      .map((keyframes) => sampleTrack(keyframes, frameIndex))
+      .filter((object): object is H5AnimateObject => object !== null);
+    if (objects.length > 0) {
+      frame.objects = objects;
+    }
+
+    const sound = soundsByFrame.get(frameIndex);
+    if (sound) {
+      frame.sound = sound;
+    }
+
+    frames.push(frame);
+  }
+
+  if (definition.fps !== undefined && !(definition.fps > 0 && Number.isFinite(definition.fps))) {
+    throw createValidationError(`fps 必须是正数，实际为 ${definition.fps}`);
+  }
+
+  return definition.fps === undefined
+    ? { ratio: definition.ratio, frame: frames }
+    : { ratio: definition.ratio, fps: definition.fps, frame: frames };
+}
@@ -0,0 +1,87 @@
+/**
+ * 帧时长
+ *
+ * 每帧的显示时长由该帧的 `duration` 决定，未指定时为 `1000 / fps`；
+ * 文件未记录 `fps` 时按默认的 20 帧每秒播放，与 2.x 的 .animate 一致。
+ * 不依赖 Node 与 sharp，可在浏览器中使用
+ */
+
+import { createFrameExtractionError } from "./errors.js";
+import type { H5AnimateMeta } from "./types.js";
+
+/** 未记录帧率时使用的帧率，即每帧 50 毫秒 */
+export const DEFAULT_FPS = 20;
+
+/**
+ * 判断是否为有限的正数
+ */
+function isPositive(value: number | undefined): value is number {
+  return value !== undefined && Number.isFinite(value) && value > 0;
+}
+
+/**
+ * 获取动画的帧率
+ *
+ * @param meta - 元数据
+ * @returns 文件记录的帧率，未记录或不是有限正数时为默认帧率
+ */
+export function getAnimationFps(meta: H5AnimateMeta): number {
+  return isPositive(meta.fps) ? meta.fps : DEFAULT_FPS;
+}
+
+/**
+ * 获取指定帧的显示时长
+ *
+ * @param meta - 元数据
+ * @param frameIndex - 帧索引（从 0 开始）
+ * @returns 时长（毫秒），帧的 duration 不是有限正数时按帧率计算
+ * @throws H5AnimateError 如果帧索引超出范围
+ */
+export function getFrameDuration(meta: H5AnimateMeta, frameIndex: number): number {
+  const frame = meta.frame[frameIndex];
+  if (!frame) {
+    throw createFrameExtractionError(`帧索引超出范围（共 ${meta.frame.length} 帧）`, frameIndex);
+  }
+  return isPositive(frame.duration) ? frame.duration : 1000 / getAnimationFps(meta);
+}
+
+/**
+ * 获取每一帧的显示时长
+ *
+ * @param meta - 元数据
+ * @returns 按帧排列的时长（毫秒）
+ */
+export function getFrameDurations(meta: H5AnimateMeta): number[] {
+  const interval = 1000 / getAnimationFps(meta);
+  return meta.frame.map((frame) => (isPositive(frame.duration) ? frame.duration : interval));
+}
+
+/**
+ * 获取动画播放一遍的总时长
+ *
+ * @param meta - 元数据
+ * @returns 总时长（毫秒）
+ */
+export function getAnimationDuration(meta: H5AnimateMeta): number {
+  return getFrameDurations(meta).reduce((sum, duration) => sum + duration, 0);
+}
+
+/**
+ * 获取指定时间点显示的帧
+ *
+ * @param meta - 元数据
+ * @param time - 从第一帧开始经过的时间（毫秒），超过总时长时为最后一帧
+ * @returns 帧索引，动画没有帧时为 -1
+ */
+export function getFrameAtTime(meta: H5AnimateMeta, time: number): number {
+  const durations = getFrameDurations(meta);
+  let end = 0;
+
+  for (let i = 0; i < durations.length; i++) {
+    end += durations[i];
+    if (time < end) {
+      return i;
+    }
+  }
+  return durations.length - 1;
+}
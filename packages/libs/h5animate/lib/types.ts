@@ -9,6 +9,8 @@
  */
 export interface H5AnimateMeta {
   ratio: number;
+  /** 帧率，决定未指定 duration 的帧的时长（默认 20） */
+  fps?: number;
   frame: H5AnimateFrame[];
 }
 
@@ -18,6 +20,8 @@ export interface H5AnimateMeta {
 export interface H5AnimateFrame {
   sound?: SoundMeta[];
   objects?: H5AnimateObject[];
+  /** 该帧的显示时长（毫秒），未指定时为 1000 / fps */
+  duration?: number;
 }
 
 /**
@@ -44,20 +48,44 @@ export interface H5AnimateObject {
 
 /**
  * 精灵图信息
+ *
+ * 每个精灵对应一个源图片，索引与 H5AnimateObject.index 一一对应
  */
 export interface SpriteInfo {
   count: number;
   dimensions: SpriteDimension[];
+  /** 每个精灵在精灵图上的区域，缺省时按 dimensions 自上而下垂直排布推导 */
+  rects?: SpriteRect[];
 }
 
 /**
  * 精灵图尺寸
+ *
+ * 宽高均为 0 表示该索引处是空精灵（旧格式中的空图片）
  */
 export interface SpriteDimension {
   width: number;
   height: number;
 }
 
+/**
+ * 精灵在精灵图上的矩形区域
+ */
+export interface SpriteRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** 区域在原始精灵中的 X 偏移（裁剪透明边框后存在） */
+  offsetX?: number;
+  /** 区域在原始精灵中的 Y 偏移 */
+  offsetY?: number;
+  /** 原始精灵宽度（裁剪透明边框后存在） */
+  sourceWidth?: number;
+  /** 原始精灵高度 */
+  sourceHeight?: number;
+}
+
 // ============ 旧格式类型 ============
 
 /**
@@ -82,29 +110,133 @@ export type FrameLayer = [number, number, number, number, number, number?, numbe
 
 /**
  * 解码后的 H5Animate 数据
+ *
+ * 字节数据类型与解码输入一致：Node 中为 Buffer，浏览器中为 Uint8Array
  */
-export interface DecodedH5Animate {
+export interface DecodedH5Animate<T extends Uint8Array = Buffer> {
   meta: H5AnimateMeta;
   spriteInfo: SpriteInfo;
-  webpData: Buffer;
+  webpData: T;
+  /** 源文件的格式版本号，由解码器填写 */
+  version?: number;
+  /** 未识别的分块，重新编码时原样写回 */
+  chunks?: H5AnimateChunk<T>[];
 }
 
+/**
+ * 文件分块
+ */
+export interface H5AnimateChunk<T extends Uint8Array = Buffer> {
+  /** 分块标签，4 个 ASCII 字符 */
+  tag: string;
+  /** 分块数据 */
+  data: T;
+}
+
+/**
+ * 元信息编码
+ * - json: JSON 字符串，对象为数组格式
+ * - binary: 变长整数、坐标差分与音效名称字符串表组成的二进制数据
+ */
+export type MetaEncoding = "json" | "binary";
+
 /**
  * 文件头结构
  */
 export interface FileHeader {
   signature: string;
   version: number;
+  /** 图像数据大小，分块容器中为 0 */
   imageDataSize: number;
+  /** 元信息大小，分块容器中为 0 */
   metaDataSize: number;
+  /** 分块数量，仅分块容器有效 */
+  chunkCount?: number;
+  /** 分块总字节数，仅分块容器有效 */
+  chunkDataSize?: number;
 }
 
 // ============ 转换结果类型 ============
 
+/**
+ * 感知质量指标
+ * - ssim: 结构相似度，取值不超过 1
+ * - psnr: 峰值信噪比（dB）
+ */
+export type QualityMetric = "ssim" | "psnr";
+
+/**
+ * 自动选择 WebP 压缩质量的结果
+ */
+export interface WebPQualityReport {
+  /** 是否使用无损压缩 */
+  lossless: boolean;
+  /** 选中的有损压缩质量，无损时为 undefined */
+  quality?: number;
+  /** 质量指标 */
+  metric: QualityMetric;
+  /** 选中设置相对无损图像的指标值 */
+  score: number;
+  /** 选中设置的 WebP 字节数 */
+  size: number;
+  /** 无损压缩的 WebP 字节数 */
+  losslessSize: number;
+  /** 相比无损压缩节省的字节数 */
+  savedBytes: number;
+}
+
 /**
  * 图像转换结果
  */
 export interface ImageConversionResult {
   webpData: Buffer;
   spriteInfo: SpriteInfo;
+  /** 自动选择压缩质量时的结果 */
+  quality?: WebPQualityReport;
+}
+
+// ============ 进度类型 ============
+
+/**
+ * 长时间任务的阶段
+ * - bitmap: 读取源图像，第 current 张，共 total 张
+ * - encode: 编码 WebP 精灵图，开始时为 0/1，完成时为 1/1
+ * - sound: 读取音效文件
+ * - frame: 提取帧
+ * - file: 批量转换文件
+ */
+export type ProgressStage = "bitmap" | "encode" | "sound" | "frame" | "file";
+
+/**
+ * 进度信息
+ */
+export interface ProgressInfo {
+  /** 当前阶段 */
+  stage: ProgressStage;
+  /** 当前阶段已完成的数量 */
+  current: number;
+  /** 当前阶段的总数量 */
+  total: number;
+}
+
+/**
+ * 进度报告与取消选项
+ */
+export interface ProgressOptions {
+  /** 取消信号，触发后在下一个步骤之前抛出 ABORTED，正在执行的 sharp 调用不会中断 */
+  signal?: AbortSignal;
+  /** 进度回调，每个阶段开始时以 current 为 0 调用一次，之后每完成一项调用一次 */
+  onProgress?: (progress: ProgressInfo) => void;
+}
+
+// ============ 渲染类型 ============
+
+/**
+ * 未压缩的 RGBA 图像
+ */
+export interface RawImage {
+  /** RGBA 像素数据，每像素 4 字节，非预乘 alpha */
+  data: Buffer;
+  width: number;
+  height: number;
 }
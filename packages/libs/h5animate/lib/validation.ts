@@ -5,12 +5,20 @@
  */
 
 import {
+  H5AnimateError,
+  H5AnimateErrorCode,
   createTypeMismatchError,
   createMissingFieldError,
   createValueOutOfRangeError,
   createValidationError,
+  createInvalidArrayLengthError,
+  createInvalidImageDataError,
+  type ValidationIssue,
 } from "./errors.js";
+import { deriveVerticalRects } from "./version.js";
+import { readWebPSize } from "./webpinfo.js";
 import type {
+  DecodedH5Animate,
   H5AnimateMeta,
   H5AnimateFrame,
   H5AnimateObject,
@@ -181,6 +189,17 @@ export function validateH5AnimateFrame(frame: unknown, path: string): asserts fr
       validateH5AnimateObject(data.objects[i], `${path}.objects[${i}]`);
     }
   }
+
+  // 验证可选字段 duration，必须为正数
+  if ("duration" in data && data.duration !== undefined) {
+    if (typeof data.duration !== "number") {
+      throw createTypeMismatchError(`${path}.duration`, "number", getTypeDescription(data.duration));
+    }
+
+    if (!(data.duration > 0) || !Number.isFinite(data.duration)) {
+      throw createValueOutOfRangeError(`${path}.duration`, data.duration, 0);
+    }
+  }
 }
 
 /**
@@ -220,6 +239,17 @@ export function validateH5AnimateMeta(meta: unknown): asserts meta is H5AnimateM
     throw createValueOutOfRangeError("meta.ratio", data.ratio, 0);
   }
 
+  // 验证可选字段 fps，必须为正数
+  if ("fps" in data && data.fps !== undefined) {
+    if (typeof data.fps !== "number") {
+      throw createTypeMismatchError("meta.fps", "number", getTypeDescription(data.fps));
+    }
+
+    if (!(data.fps > 0) || !Number.isFinite(data.fps)) {
+      throw createValueOutOfRangeError("meta.fps", data.fps, 0);
+    }
+  }
+
   // 验证 frame 类型
   if (!Array.isArray(data.frame)) {
     throw createTypeMismatchError("meta.frame", "array", getTypeDescription(data.frame));
@@ -266,6 +296,11 @@ export function validateSpriteDimension(dimension: unknown, path: string): asser
     throw createTypeMismatchError(`${path}.height`, "number", getTypeDescription(data.height));
   }
 
+  // 宽高均为 0 表示空精灵
+  if (data.width === 0 && data.height === 0) {
+    return;
+  }
+
   if (data.width <= 0) {
     throw createValueOutOfRangeError(`${path}.width`, data.width, 1);
   }
@@ -451,3 +486,220 @@ export function validateEncodeInputComplete(
     throw createValidationError("webpData 不能为空");
   }
 }
+
+// ============ 问题收集 ============
+
+/**
+ * 将验证错误转换为结构化的问题
+ *
+ * 缺失多个字段时，每个字段单独成为一个问题
+ *
+ * @param error - 验证错误
+ * @param path - 错误未携带字段路径时使用的路径
+ * @returns 问题列表
+ */
+function toIssues(error: H5AnimateError, path: string): ValidationIssue[] {
+  const fieldPath = error.fieldPath ?? path;
+
+  if (error.code === H5AnimateErrorCode.MISSING_REQUIRED_FIELD && error.missingFields) {
+    return error.missingFields.map((field) => ({
+      code: error.code,
+      path: `${fieldPath}.${field}`,
+      message: `缺少必需字段: ${field}`,
+    }));
+  }
+
+  return [{ code: error.code, path: fieldPath, message: error.message }];
+}
+
+/**
+ * 执行验证函数并收集抛出的问题
+ *
+ * @param issues - 问题列表
+ * @param path - 验证的字段路径
+ * @param validate - 验证函数
+ */
+function collect(issues: ValidationIssue[], path: string, validate: () => void): void {
+  try {
+    validate();
+  } catch (error) {
+    if (!(error instanceof H5AnimateError)) {
+      throw error;
+    }
+    issues.push(...toIssues(error, path));
+  }
+}
+
+/**
+ * 收集单帧的验证问题，逐个检查音效和对象
+ */
+function collectFrameIssues(frame: unknown, path: string, issues: ValidationIssue[]): void {
+  if (frame === null || typeof frame !== "object" || Array.isArray(frame)) {
+    collect(issues, path, () => validateH5AnimateFrame(frame, path));
+    return;
+  }
+
+  const data = frame as Record<string, unknown>;
+
+  if (Array.isArray(data.sound)) {
+    data.sound.forEach((sound, i) => {
+      const soundPath = `${path}.sound[${i}]`;
+      collect(issues, soundPath, () => validateSoundMeta(sound, soundPath));
+    });
+  } else {
+    collect(issues, path, () => validateH5AnimateFrame({ sound: data.sound }, path));
+  }
+
+  if (Array.isArray(data.objects)) {
+    data.objects.forEach((obj, i) => {
+      const objectPath = `${path}.objects[${i}]`;
+      collect(issues, objectPath, () => validateH5AnimateObject(obj, objectPath));
+    });
+  } else {
+    collect(issues, path, () => validateH5AnimateFrame({ objects: data.objects }, path));
+  }
+
+  collect(issues, path, () => validateH5AnimateFrame({ duration: data.duration }, path));
+}
+
+/**
+ * 收集元数据的全部验证问题
+ *
+ * 与 validateH5AnimateMeta 不同，遇到问题后会继续检查其余帧和对象
+ *
+ * @param meta - 待验证的元数据
+ * @returns 问题列表，为空表示验证通过
+ */
+export function collectMetaIssues(meta: unknown): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  if (meta === null || typeof meta !== "object") {
+    collect(issues, "meta", () => validateH5AnimateMeta(meta));
+    return issues;
+  }
+
+  const data = meta as Record<string, unknown>;
+  const frames = Array.isArray(data.frame) ? data.frame : null;
+
+  // 先检查顶层字段，帧单独检查
+  collect(issues, "meta", () => validateH5AnimateMeta({ ...data, frame: frames ? [] : data.frame }));
+
+  frames?.forEach((frame, i) => collectFrameIssues(frame, `meta.frame[${i}]`, issues));
+
+  return issues;
+}
+
+/**
+ * 收集精灵图信息的全部验证问题
+ *
+ * 除逐个检查尺寸外，还会检查 count、dimensions 与 rects 的数量是否一致
+ *
+ * @param spriteInfo - 待验证的精灵图信息
+ * @returns 问题列表，为空表示验证通过
+ */
+export function collectSpriteInfoIssues(spriteInfo: unknown): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  if (spriteInfo === null || typeof spriteInfo !== "object") {
+    collect(issues, "spriteInfo", () => validateSpriteInfo(spriteInfo));
+    return issues;
+  }
+
+  const data = spriteInfo as Record<string, unknown>;
+  const dimensions = Array.isArray(data.dimensions) ? data.dimensions : null;
+
+  collect(issues, "spriteInfo", () => validateSpriteInfo({ ...data, dimensions: dimensions ? [] : data.dimensions }));
+
+  dimensions?.forEach((dimension, i) => {
+    const path = `spriteInfo.dimensions[${i}]`;
+    collect(issues, path, () => validateSpriteDimension(dimension, path));
+  });
+
+  if (dimensions && typeof data.count === "number" && dimensions.length !== data.count) {
+    issues.push(...toIssues(
+      createInvalidArrayLengthError("spriteInfo.dimensions", data.count, dimensions.length),
+      "spriteInfo.dimensions",
+    ));
+  }
+
+  if (Array.isArray(data.rects) && dimensions && data.rects.length !== dimensions.length) {
+    issues.push(...toIssues(
+      createInvalidArrayLengthError("spriteInfo.rects", dimensions.length, data.rects.length),
+      "spriteInfo.rects",
+    ));
+  }
+
+  return issues;
+}
+
+/**
+ * 收集元数据与精灵图之间的引用问题
+ *
+ * 检查对象引用的精灵索引是否存在，以及精灵区域是否超出 WebP 的实际尺寸。
+ * 应在元数据和精灵图信息本身通过验证后调用
+ *
+ * @param animation - 解码后的动画数据
+ * @returns 问题列表，为空表示验证通过
+ */
+export function collectReferenceIssues(animation: DecodedH5Animate<Uint8Array>): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const { meta, spriteInfo, webpData } = animation;
+
+  meta.frame.forEach((frame, frameIndex) => {
+    frame.objects?.forEach((obj, objectIndex) => {
+      if (obj.index >= spriteInfo.count) {
+        const path = `meta.frame[${frameIndex}].objects[${objectIndex}].index`;
+        issues.push(...toIssues(
+          createValueOutOfRangeError(path, obj.index, 0, spriteInfo.count - 1),
+          path,
+        ));
+      }
+    });
+  });
+
+  const size = readWebPSize(webpData);
+  if (!size) {
+    issues.push(...toIssues(createInvalidImageDataError("无法读取 WebP 尺寸"), "webpData"));
+    return issues;
+  }
+
+  const rects = spriteInfo.rects ?? deriveVerticalRects(spriteInfo);
+  rects.forEach((rect, i) => {
+    if (rect.width === 0 || rect.height === 0) return;
+
+    const path = `spriteInfo.rects[${i}]`;
+    if (rect.x + rect.width > size.width || rect.y + rect.height > size.height) {
+      issues.push(...toIssues(
+        createInvalidImageDataError(
+          `精灵 ${i} 的区域 (${rect.x}, ${rect.y}, ${rect.width}x${rect.height}) `
+          + `超出精灵图尺寸 ${size.width}x${size.height}`,
+        ),
+        path,
+      ));
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * 收集解码结果的全部验证问题
+ *
+ * 依次检查元数据、精灵图信息以及二者与 WebP 之间的引用关系。
+ * 元数据或精灵图信息本身存在问题时不再检查引用关系
+ *
+ * @param animation - 解码后的动画数据
+ * @returns 问题列表，为空表示验证通过
+ */
+export function collectDecodedIssues(animation: DecodedH5Animate<Uint8Array>): ValidationIssue[] {
+  const issues = [
+    ...collectMetaIssues(animation.meta),
+    ...collectSpriteInfoIssues(animation.spriteInfo),
+  ];
+
+  if (issues.length > 0) {
+    return issues;
+  }
+
+  return collectReferenceIssues(animation);
+}
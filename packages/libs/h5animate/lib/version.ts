@@ -0,0 +1,365 @@
+/**
+ * H5Animate 格式版本
+ *
+ * 定义各版本精灵图信息的读写方式，以及旧版本数据到最新内存结构的升级。
+ * 版本 1、2 为固定布局（文件头 → 精灵图信息 → WebP → 元信息），版本 3 起为分块容器。
+ * 版本 4 的元信息为二进制编码，其余版本为 JSON
+ */
+
+import type { BinaryParser, BinaryWriter } from "./binary.js";
+import { createInvalidVersionError, createValidationError } from "./errors.js";
+import type { MetaEncoding, SpriteInfo, SpriteRect } from "./types.js";
+
+/** 版本 1：精灵按 dimensions 自上而下垂直排布 */
+export const FORMAT_VERSION_1 = 1;
+
+/** 版本 2：精灵图信息记录每个精灵的区域和裁剪偏移 */
+export const FORMAT_VERSION_2 = 2;
+
+/** 版本 3：分块容器，精灵图信息位于 SPRT 分块中，格式与版本 2 相同 */
+export const FORMAT_VERSION_3 = 3;
+
+/** 版本 4：分块容器，META 分块为二进制编码的元信息 */
+export const FORMAT_VERSION_4 = 4;
+
+/** 分块容器中的精灵图信息分块 */
+export const CHUNK_SPRITE_INFO = "SPRT";
+
+/** 分块容器中的 WebP 精灵图分块 */
+export const CHUNK_WEBP = "WEBP";
+
+/** 分块容器中的元信息分块 */
+export const CHUNK_META = "META";
+
+/** 分块容器中的校验和分块，记录此前所有字节的 CRC32 */
+export const CHUNK_CHECKSUM = "CSUM";
+
+/** 由编解码器解析的分块标签，其余分块原样保留 */
+export const KNOWN_CHUNK_TAGS: readonly string[] = [
+  CHUNK_SPRITE_INFO,
+  CHUNK_WEBP,
+  CHUNK_META,
+  CHUNK_CHECKSUM,
+];
+
+/** 最新的格式版本 */
+export const LATEST_FORMAT_VERSION = FORMAT_VERSION_4;
+
+/** 未指定版本时，各元信息编码默认写入的版本 */
+const DEFAULT_VERSIONS: Readonly<Record<MetaEncoding, number>> = {
+  json: FORMAT_VERSION_3,
+  binary: FORMAT_VERSION_4,
+};
+
+/**
+ * 单个版本的精灵图信息编解码器
+ */
+interface VersionCodec {
+  /** 每个精灵占用的字节数 */
+  spriteEntrySize: number;
+  /** 读取精灵图信息 */
+  readSpriteInfo(parser: BinaryParser<Uint8Array>): SpriteInfo;
+  /** 写入精灵图信息 */
+  writeSpriteInfo(writer: BinaryWriter, spriteInfo: SpriteInfo): void;
+  /** 将该版本读出的数据升级为下一版本的内存结构，没有此项表示与之后版本的内存结构相同 */
+  upgrade?(spriteInfo: SpriteInfo): SpriteInfo;
+}
+
+/**
+ * 按 dimensions 自上而下垂直排布推导精灵区域
+ *
+ * @param spriteInfo - 精灵图信息
+ * @returns 按精灵索引排列的区域
+ */
+export function deriveVerticalRects(spriteInfo: SpriteInfo): SpriteRect[] {
+  const rects: SpriteRect[] = [];
+  let currentY = 0;
+
+  for (const dimension of spriteInfo.dimensions) {
+    rects.push({ x: 0, y: currentY, width: dimension.width, height: dimension.height });
+    currentY += dimension.height;
+  }
+
+  return rects;
+}
+
+/** 记录精灵区域的编解码器，版本 2 起共用 */
+const rectsCodec: VersionCodec = {
+  spriteEntrySize: 32,
+  readSpriteInfo(parser) {
+    const count = parser.readUInt32LE();
+    const dimensions: SpriteInfo["dimensions"] = [];
+    const rects: SpriteRect[] = [];
+
+    for (let i = 0; i < count; i++) {
+      const width = parser.readUInt32LE();
+      const height = parser.readUInt32LE();
+      dimensions.push({ width, height });
+
+      const rect: SpriteRect = {
+        x: parser.readUInt32LE(),
+        y: parser.readUInt32LE(),
+        width: parser.readUInt32LE(),
+        height: parser.readUInt32LE(),
+      };
+      const offsetX = parser.readUInt32LE();
+      const offsetY = parser.readUInt32LE();
+
+      if (offsetX !== 0 || offsetY !== 0 || rect.width !== width || rect.height !== height) {
+        rect.offsetX = offsetX;
+        rect.offsetY = offsetY;
+        rect.sourceWidth = width;
+        rect.sourceHeight = height;
+      }
+
+      rects.push(rect);
+    }
+
+    return { count, dimensions, rects };
+  },
+  writeSpriteInfo(writer, spriteInfo) {
+    const rects = spriteInfo.rects ?? deriveVerticalRects(spriteInfo);
+
+    writer.writeUInt32LE(spriteInfo.count);
+    for (let i = 0; i < spriteInfo.dimensions.length; i++) {
+      const dimension = spriteInfo.dimensions[i];
+      const rect = rects[i];
+      writer.writeUInt32LE(dimension.width);
+      writer.writeUInt32LE(dimension.height);
+      writer.writeUInt32LE(rect.x);
+      writer.writeUInt32LE(rect.y);
+      writer.writeUInt32LE(rect.width);
+      writer.writeUInt32LE(rect.height);
+      writer.writeUInt32LE(rect.offsetX ?? 0);
+      writer.writeUInt32LE(rect.offsetY ?? 0);
+    }
+  },
+};
+
+/** 各版本的编解码器 */
+const codecs: Record<number, VersionCodec> = {
+  [FORMAT_VERSION_1]: {
+    spriteEntrySize: 8,
+    readSpriteInfo(parser) {
+      const count = parser.readUInt32LE();
+      const dimensions: SpriteInfo["dimensions"] = [];
+
+      for (let i = 0; i < count; i++) {
+        const width = parser.readUInt32LE();
+        const height = parser.readUInt32LE();
+        dimensions.push({ width, height });
+      }
+
+      return { count, dimensions };
+    },
+    writeSpriteInfo(writer, spriteInfo) {
+      writer.writeUInt32LE(spriteInfo.count);
+      for (const dimension of spriteInfo.dimensions) {
+        writer.writeUInt32LE(dimension.width);
+        writer.writeUInt32LE(dimension.height);
+      }
+    },
+    upgrade(spriteInfo) {
+      return { ...spriteInfo, rects: deriveVerticalRects(spriteInfo) };
+    },
+  },
+  [FORMAT_VERSION_2]: rectsCodec,
+  [FORMAT_VERSION_3]: rectsCodec,
+  [FORMAT_VERSION_4]: rectsCodec,
+};
+
+/**
+ * 获取所有支持的格式版本
+ *
+ * @returns 从小到大排列的版本号
+ */
+export function getSupportedVersions(): number[] {
+  return Object.keys(codecs).map(Number).sort((a, b) => a - b);
+}
+
+/**
+ * 判断是否支持指定的格式版本
+ *
+ * @param version - 版本号
+ * @returns 是否支持
+ */
+export function isSupportedVersion(version: number): boolean {
+  return version in codecs;
+}
+
+/**
+ * 判断指定版本是否使用分块容器
+ *
+ * @param version - 版本号
+ * @returns 是否为分块容器
+ */
+export function isChunkedVersion(version: number): boolean {
+  return version >= FORMAT_VERSION_3;
+}
+
+/**
+ * 获取指定版本的元信息编码
+ *
+ * @param version - 版本号
+ * @returns 版本 4 起为 binary，其余为 json
+ */
+export function getMetaEncoding(version: number): MetaEncoding {
+  return version >= FORMAT_VERSION_4 ? "binary" : "json";
+}
+
+/**
+ * 获取指定版本的编解码器
+ *
+ * @throws H5AnimateError 如果版本不受支持
+ */
+function getCodec(version: number): VersionCodec {
+  if (!isSupportedVersion(version)) {
+    throw createInvalidVersionError(version, getSupportedVersions());
+  }
+  return codecs[version];
+}
+
+/**
+ * 按指定版本读取精灵图信息
+ *
+ * @param parser - 二进制解析器
+ * @param version - 文件版本号
+ * @returns 该版本原样的精灵图信息，未经升级
+ * @throws H5AnimateError 如果版本不受支持
+ */
+export function readSpriteInfo(parser: BinaryParser<Uint8Array>, version: number): SpriteInfo {
+  return getCodec(version).readSpriteInfo(parser);
+}
+
+/**
+ * 按指定版本写入精灵图信息
+ *
+ * @param writer - 二进制写入器
+ * @param spriteInfo - 精灵图信息
+ * @param version - 文件版本号
+ * @throws H5AnimateError 如果版本不受支持
+ */
+export function writeSpriteInfo(writer: BinaryWriter, spriteInfo: SpriteInfo, version: number): void {
+  getCodec(version).writeSpriteInfo(writer, spriteInfo);
+}
+
+/**
+ * 计算指定版本下精灵图信息占用的字节数
+ *
+ * @param spriteInfo - 精灵图信息
+ * @param version - 文件版本号
+ * @returns 字节数
+ * @throws H5AnimateError 如果版本不受支持
+ */
+export function getVersionedSpriteInfoSize(spriteInfo: SpriteInfo, version: number): number {
+  // 4 字节用于 count，其余为每个精灵的记录
+  return 4 + spriteInfo.count * getCodec(version).spriteEntrySize;
+}
+
+/**
+ * 将旧版本读出的精灵图信息逐版本升级为最新的内存结构
+ *
+ * @param spriteInfo - 精灵图信息
+ * @param fromVersion - 数据来源的版本号
+ * @returns 最新结构的精灵图信息
+ * @throws H5AnimateError 如果版本不受支持
+ */
+export function migrateSpriteInfo(spriteInfo: SpriteInfo, fromVersion: number): SpriteInfo {
+  let result = spriteInfo;
+  let version = fromVersion;
+
+  for (let codec = getCodec(version); codec.upgrade; codec = getCodec(++version)) {
+    result = codec.upgrade(result);
+  }
+
+  return result;
+}
+
+/**
+ * 判断精灵图信息是否需要显式记录精灵区域
+ *
+ * 当 rects 与按 dimensions 垂直排布推导出的区域一致时，无需记录
+ *
+ * @param spriteInfo - 精灵图信息
+ * @returns 是否需要记录精灵区域
+ */
+export function needsSpriteRects(spriteInfo: SpriteInfo): boolean {
+  if (!spriteInfo.rects) {
+    return false;
+  }
+
+  let currentY = 0;
+
+  for (let i = 0; i < spriteInfo.dimensions.length; i++) {
+    const dimension = spriteInfo.dimensions[i];
+    const rect = spriteInfo.rects[i];
+
+    if (
+      !rect
+      || rect.x !== 0
+      || rect.y !== currentY
+      || rect.width !== dimension.width
+      || rect.height !== dimension.height
+      || rect.offsetX
+      || rect.offsetY
+    ) {
+      return true;
+    }
+
+    currentY += dimension.height;
+  }
+
+  return false;
+}
+
+/**
+ * 获取能够完整表示精灵图信息的最低版本
+ *
+ * @param spriteInfo - 精灵图信息
+ * @returns 版本号
+ */
+export function getMinimumVersion(spriteInfo: SpriteInfo): number {
+  return needsSpriteRects(spriteInfo) ? FORMAT_VERSION_2 : FORMAT_VERSION_1;
+}
+
+/**
+ * 确定编码时写入的版本
+ *
+ * 未指定目标版本时使用该元信息编码的默认版本：JSON 为版本 3，二进制为版本 4；
+ * 需要兼容旧播放器时可以指定更低的版本
+ *
+ * @param spriteInfo - 精灵图信息
+ * @param targetVersion - 目标版本号
+ * @param metaEncoding - 元信息编码，未指定时由目标版本决定
+ * @returns 写入的版本号
+ * @throws H5AnimateError 如果目标版本不受支持、无法表示数据或与元信息编码不符
+ */
+export function resolveEncodeVersion(
+  spriteInfo: SpriteInfo,
+  targetVersion?: number,
+  metaEncoding?: MetaEncoding,
+): number {
+  const minimum = getMinimumVersion(spriteInfo);
+
+  if (targetVersion === undefined) {
+    return DEFAULT_VERSIONS[metaEncoding ?? "json"];
+  }
+
+  if (!isSupportedVersion(targetVersion)) {
+    throw createInvalidVersionError(targetVersion, getSupportedVersions());
+  }
+
+  if (targetVersion < minimum) {
+    throw createValidationError(
+      `版本 ${targetVersion} 无法表示打包或裁剪后的精灵区域，至少需要版本 ${minimum}`,
+    );
+  }
+
+  if (metaEncoding !== undefined && metaEncoding !== getMetaEncoding(targetVersion)) {
+    throw createValidationError(
+      `版本 ${targetVersion} 的元信息只能使用 ${getMetaEncoding(targetVersion)} 编码`,
+    );
+  }
+
+  return targetVersion;
+}
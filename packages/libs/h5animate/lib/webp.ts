@@ -5,27 +5,94 @@
  */
 
 import sharp from "sharp";
-import type { SpriteInfo, ImageConversionResult } from "./types.js";
+import type {
+  SpriteInfo,
+  SpriteRect,
+  ImageConversionResult,
+  RawImage,
+  WebPQualityReport,
+  ProgressOptions,
+} from "./types.js";
 import { createWebPProcessingError } from "./errors.js";
+import { packRects, type PackingLayout } from "./packer.js";
+import { mapWithProgress, reportProgress } from "./progress.js";
+import { searchWebPQuality, type WebPQualityTarget } from "./quality.js";
+import { deriveVerticalRects } from "./version.js";
 
 /**
  * WebP 压缩选项
+ *
+ * 指定 `auto` 时忽略 `lossless` 与 `quality`，以无损图像为参照自动搜索满足质量目标的设置
+ */
+export type WebPOptions = sharp.WebpOptions & {
+  /** 自动搜索压缩质量，true 表示使用默认目标（SSIM 0.99） */
+  auto?: boolean | WebPQualityTarget;
+};
+
+/**
+ * 按压缩选项将图像编码为 WebP
+ *
+ * 开始与完成时报告 encode 阶段的进度
+ *
+ * @param image - 待编码的图像
+ * @param options - WebP 压缩选项
+ * @param webpOptions - 未指定 `auto` 时传给 sharp 的编码参数
+ * @param progress - 进度与取消选项
+ * @returns WebP 数据，自动搜索时附带选中的设置
  */
-export type WebPOptions = sharp.WebpOptions;
+async function encodeWebP(
+  image: sharp.Sharp,
+  options: WebPOptions,
+  webpOptions: sharp.WebpOptions,
+  progress: ProgressOptions = {},
+): Promise<{ webpData: Buffer; quality?: WebPQualityReport }> {
+  reportProgress(progress, "encode", 0, 1);
+
+  let result: { webpData: Buffer; quality?: WebPQualityReport };
+  if (!options.auto) {
+    result = { webpData: await image.webp(webpOptions).toBuffer() };
+  } else {
+    const { data, info } = await image.ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+    const target = options.auto === true ? {} : options.auto;
+    const { webpData, report } = await searchWebPQuality(
+      { data, width: info.width, height: info.height },
+      { effort: webpOptions.effort, ...target },
+      progress,
+    );
+    result = { webpData, quality: report };
+  }
+
+  reportProgress(progress, "encode", 1, 1);
+  return result;
+}
+
+/**
+ * 精灵图排布选项
+ */
+export interface SpriteSheetOptions {
+  /** 排布方式（默认 vertical） */
+  layout?: PackingLayout;
+  /** 精灵之间的间距（像素，默认 0），可避免缩放采样时相邻精灵串色 */
+  padding?: number;
+  /** 是否裁剪每个精灵四周的透明边框（默认 false） */
+  trim?: boolean;
+}
 
 /**
  * 将单个图像转换为 WebP 格式
  *
- * 支持无损和有损两种压缩模式
+ * 支持无损、有损以及按质量目标自动选择三种压缩模式
  *
  * @param imageBuffer - 输入图像的 Buffer（支持 PNG、JPEG 等格式）
  * @param options - WebP 压缩选项
+ * @param progress - 进度与取消选项
  * @returns 转换后的 WebP 数据
- * @throws H5AnimateError 如果图像处理失败
+ * @throws H5AnimateError 如果图像处理失败或已取消
  */
 export async function convertToWebP(
   imageBuffer: Buffer,
   options: WebPOptions = {},
+  progress: ProgressOptions = {},
 ): Promise<Buffer> {
   const { lossless = true, quality = 80 } = options;
 
@@ -34,8 +101,12 @@ export async function convertToWebP(
       ? { lossless: true }
       : { lossless: false, quality };
 
-    return await sharp(imageBuffer).webp(webpOptions).toBuffer();
+    const { webpData } = await encodeWebP(sharp(imageBuffer), options, webpOptions, progress);
+    return webpData;
   } catch (error) {
+    if (error instanceof Error && error.name === "H5AnimateError") {
+      throw error;
+    }
     const message = error instanceof Error ? error.message : "未知错误";
     throw createWebPProcessingError(`图像转换为 WebP 失败: ${message}`);
   }
@@ -69,16 +140,23 @@ async function getImageMeta(imageBuffer: Buffer): Promise<ImageMeta> {
  * 所有图像将垂直排列，宽度取最大值，高度为所有图像高度之和
  * 保持透明度信息（alpha 通道）
  *
- * @param imageBuffers - 输入图像的 Buffer 数组
+ * 每个输入图像对应一个精灵，`null` 表示空精灵，会占据索引但不占据像素，
+ * 以保证精灵索引与输入顺序一致
+ *
+ * 读取每个图像时报告 bitmap 阶段的进度，之后报告 encode 阶段的进度
+ *
+ * @param imageBuffers - 输入图像的 Buffer 数组，空精灵用 null 表示
  * @param options - WebP 压缩选项
+ * @param progress - 进度与取消选项
  * @returns 包含 WebP 数据和精灵图信息的结果
- * @throws H5AnimateError 如果图像处理失败
+ * @throws H5AnimateError 如果图像处理失败或已取消
  */
 export async function createVerticalSpriteSheet(
-  imageBuffers: Buffer[],
+  imageBuffers: Array<Buffer | null>,
   options: WebPOptions = {},
+  progress: ProgressOptions = {},
 ): Promise<ImageConversionResult> {
-  if (imageBuffers.length === 0) {
+  if (imageBuffers.every((buffer) => buffer === null)) {
     throw createWebPProcessingError("没有图像可处理");
   }
 
@@ -92,29 +170,34 @@ export async function createVerticalSpriteSheet(
 
   try {
     // 获取所有图像的尺寸信息
-    const imageMetas = await Promise.all(imageBuffers.map(getImageMeta));
+    const imageMetas = await mapWithProgress(imageBuffers, "bitmap", progress, (buffer) =>
+      buffer ? getImageMeta(buffer) : { width: 0, height: 0 },
+    );
 
-    // 单个图像的情况，直接转换
-    if (imageBuffers.length === 1) {
+    // 计算每个精灵的区域
+    const rects: SpriteRect[] = [];
+    let currentY = 0;
 
-      const webpData = await sharp(imageBuffers[0]).webp(webpOptions).toBuffer();
+    for (const meta of imageMetas) {
+      rects.push({ x: 0, y: currentY, width: meta.width, height: meta.height });
+      currentY += meta.height;
+    }
 
-      const spriteInfo: SpriteInfo = {
-        count: 1,
-        dimensions: [
-          {
-            width: imageMetas[0].width,
-            height: imageMetas[0].height,
-          },
-        ],
-      };
+    const spriteInfo: SpriteInfo = {
+      count: imageMetas.length,
+      dimensions: imageMetas.map((meta) => ({ width: meta.width, height: meta.height })),
+      rects,
+    };
 
-      return { webpData, spriteInfo };
+    // 单个图像的情况，直接转换
+    if (imageBuffers.length === 1) {
+      const { webpData, quality } = await encodeWebP(sharp(imageBuffers[0]!), options, webpOptions, progress);
+      return { webpData, spriteInfo, ...(quality ? { quality } : {}) };
     }
 
     // 多个图像的情况，创建垂直排列的精灵图
     const maxWidth = Math.max(...imageMetas.map((meta) => meta.width));
-    const totalHeight = imageMetas.reduce((sum, meta) => sum + meta.height, 0);
+    const totalHeight = currentY;
 
     // 创建透明背景的画布
     const canvas = sharp({
@@ -126,34 +209,224 @@ export async function createVerticalSpriteSheet(
       },
     });
 
-    // 准备合成操作
+    // 准备合成操作，空精灵不参与合成
     const composite: sharp.OverlayOptions[] = [];
-    let currentY = 0;
 
     for (let i = 0; i < imageBuffers.length; i++) {
+      const buffer = imageBuffers[i];
+      if (!buffer) continue;
+
       composite.push({
-        input: imageBuffers[i],
-        top: currentY,
-        left: 0,
+        input: buffer,
+        top: rects[i].y,
+        left: rects[i].x,
       });
-      currentY += imageMetas[i].height;
     }
 
     // 合成并转换为 WebP
-    const webpData = await canvas.composite(composite).webp(webpOptions).toBuffer();
+    const { webpData, quality } = await encodeWebP(canvas.composite(composite), options, webpOptions, progress);
+
+    return { webpData, spriteInfo, ...(quality ? { quality } : {}) };
+  } catch (error) {
+    if (error instanceof Error && error.name === "H5AnimateError") {
+      throw error;
+    }
+    const message = error instanceof Error ? error.message : "未知错误";
+    throw createWebPProcessingError(`创建精灵图失败: ${message}`);
+  }
+}
+
+/**
+ * 解码后的源精灵
+ */
+interface SourceSprite {
+  /** 裁剪后的 RGBA 像素数据 */
+  data: Buffer;
+  /** 原始尺寸 */
+  sourceWidth: number;
+  sourceHeight: number;
+  /** 裁剪区域在原始图像中的位置和尺寸 */
+  offsetX: number;
+  offsetY: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * 计算 RGBA 图像中不透明像素的包围盒
+ *
+ * @returns 包围盒，如果图像完全透明则返回 null
+ */
+export function getOpaqueBounds(
+  data: Buffer,
+  width: number,
+  height: number,
+): { left: number; top: number; right: number; bottom: number } | null {
+  let left = width;
+  let top = height;
+  let right = -1;
+  let bottom = -1;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[(y * width + x) * 4 + 3] === 0) continue;
+      if (x < left) left = x;
+      if (x > right) right = x;
+      if (y < top) top = y;
+      if (y > bottom) bottom = y;
+    }
+  }
+
+  return right < 0 ? null : { left, top, right: right + 1, bottom: bottom + 1 };
+}
+
+/**
+ * 解码源图像，按需裁剪透明边框
+ */
+async function loadSourceSprite(imageBuffer: Buffer, trim: boolean): Promise<SourceSprite> {
+  const { data, info } = await sharp(imageBuffer)
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const sprite: SourceSprite = {
+    data,
+    sourceWidth: info.width,
+    sourceHeight: info.height,
+    offsetX: 0,
+    offsetY: 0,
+    width: info.width,
+    height: info.height,
+  };
+
+  if (!trim) {
+    return sprite;
+  }
+
+  const bounds = getOpaqueBounds(data, info.width, info.height);
+  if (!bounds) {
+    return { ...sprite, data: Buffer.alloc(0), width: 0, height: 0 };
+  }
+
+  const width = bounds.right - bounds.left;
+  const height = bounds.bottom - bounds.top;
+  if (width === info.width && height === info.height) {
+    return sprite;
+  }
+
+  const trimmed = Buffer.alloc(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    const start = ((bounds.top + y) * info.width + bounds.left) * 4;
+    data.copy(trimmed, y * width * 4, start, start + width * 4);
+  }
+
+  return {
+    ...sprite,
+    data: trimmed,
+    offsetX: bounds.left,
+    offsetY: bounds.top,
+    width,
+    height,
+  };
+}
+
+/**
+ * 按指定排布方式将多个图像合并为 WebP 精灵图
+ *
+ * 支持精灵间距和透明边框裁剪，每个精灵的位置记录在 `spriteInfo.rects` 中，
+ * 裁剪后的精灵通过 `offsetX`/`offsetY` 与 `sourceWidth`/`sourceHeight` 还原到原始尺寸。
+ * `null` 表示空精灵，会占据索引但不占据像素
+ *
+ * 进度报告同 `createVerticalSpriteSheet`
+ *
+ * @param imageBuffers - 输入图像的 Buffer 数组，空精灵用 null 表示
+ * @param options - WebP 压缩选项
+ * @param sheetOptions - 排布选项
+ * @param progress - 进度与取消选项
+ * @returns 包含 WebP 数据和精灵图信息的结果
+ * @throws H5AnimateError 如果图像处理失败、超出 WebP 尺寸上限或已取消
+ */
+export async function createPackedSpriteSheet(
+  imageBuffers: Array<Buffer | null>,
+  options: WebPOptions = {},
+  sheetOptions: SpriteSheetOptions = {},
+  progress: ProgressOptions = {},
+): Promise<ImageConversionResult> {
+  if (imageBuffers.every((buffer) => buffer === null)) {
+    throw createWebPProcessingError("没有图像可处理");
+  }
+
+  const { layout = "vertical", padding = 0, trim = false } = sheetOptions;
+  const { lossless = true, quality = 80 } = options;
+
+  const webpOptions: sharp.WebpOptions = {
+    lossless,
+    quality,
+    effort: 6,
+  };
+
+  try {
+    const sprites = await mapWithProgress(imageBuffers, "bitmap", progress, (buffer) =>
+      buffer ? loadSourceSprite(buffer, trim) : null,
+    );
+
+    const packed = packRects(
+      sprites.map((sprite) => ({ width: sprite?.width ?? 0, height: sprite?.height ?? 0 })),
+      { layout, padding },
+    );
+
+    const rects: SpriteRect[] = sprites.map((sprite, i) => {
+      const rect: SpriteRect = {
+        x: packed.positions[i].x,
+        y: packed.positions[i].y,
+        width: sprite?.width ?? 0,
+        height: sprite?.height ?? 0,
+      };
+      if (sprite && (sprite.width !== sprite.sourceWidth || sprite.height !== sprite.sourceHeight)) {
+        rect.offsetX = sprite.offsetX;
+        rect.offsetY = sprite.offsetY;
+        rect.sourceWidth = sprite.sourceWidth;
+        rect.sourceHeight = sprite.sourceHeight;
+      }
+      return rect;
+    });
 
-    // 生成精灵图信息
     const spriteInfo: SpriteInfo = {
-      count: 1,
-      dimensions: [
-        {
-          width: maxWidth,
-          height: totalHeight,
-        },
-      ],
+      count: sprites.length,
+      dimensions: sprites.map((sprite) => ({
+        width: sprite?.sourceWidth ?? 0,
+        height: sprite?.sourceHeight ?? 0,
+      })),
+      rects,
     };
 
-    return { webpData, spriteInfo };
+    // 创建透明背景的画布，所有精灵都被裁剪为空时保留 1x1 的占位画布
+    const canvas = sharp({
+      create: {
+        width: Math.max(1, packed.width),
+        height: Math.max(1, packed.height),
+        channels: 4,
+        background: { r: 0, g: 0, b: 0, alpha: 0 },
+      },
+    });
+
+    const composite: sharp.OverlayOptions[] = [];
+
+    for (let i = 0; i < sprites.length; i++) {
+      const sprite = sprites[i];
+      if (!sprite || sprite.width === 0 || sprite.height === 0) continue;
+
+      composite.push({
+        input: sprite.data,
+        raw: { width: sprite.width, height: sprite.height, channels: 4 },
+        top: rects[i].y,
+        left: rects[i].x,
+      });
+    }
+
+    const { webpData, quality } = await encodeWebP(canvas.composite(composite), options, webpOptions, progress);
+
+    return { webpData, spriteInfo, ...(quality ? { quality } : {}) };
   } catch (error) {
     if (error instanceof Error && error.name === "H5AnimateError") {
       throw error;
@@ -178,23 +451,131 @@ export function base64ToBuffer(base64Data: string): Buffer {
   return Buffer.from(base64Content, "base64");
 }
 
+/**
+ * 将图像 Buffer 编码为 Base64 data URI
+ *
+ * @param imageBuffer - 图像数据
+ * @param mimeType - MIME 类型（默认 image/png）
+ * @returns 带 data URI 前缀的 Base64 字符串
+ */
+export function bufferToBase64(imageBuffer: Buffer, mimeType: string = "image/png"): string {
+  return `data:${mimeType};base64,${imageBuffer.toString("base64")}`;
+}
+
+/**
+ * 将精灵图拆分为每个精灵单独的 RGBA 图像
+ *
+ * 输出尺寸为 `spriteInfo.dimensions` 记录的原始尺寸，裁剪过透明边框的精灵会按偏移还原，
+ * 宽或高为 0 的空精灵返回 null
+ *
+ * @param webpBuffer - WebP 精灵图数据
+ * @param spriteInfo - 精灵图信息
+ * @returns 按精灵索引排列的 RGBA 图像
+ * @throws H5AnimateError 如果解码失败
+ */
+export async function splitSpriteSheetToRaw(
+  webpBuffer: Buffer,
+  spriteInfo: SpriteInfo,
+): Promise<Array<RawImage | null>> {
+  const rects = spriteInfo.rects ?? deriveVerticalRects(spriteInfo);
+
+  try {
+    const { data, info } = await sharp(webpBuffer)
+      .ensureAlpha()
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    return spriteInfo.dimensions.map(({ width, height }, index) => {
+      if (width === 0 || height === 0) {
+        return null;
+      }
+
+      const rect = rects[index];
+      const offsetX = rect.offsetX ?? 0;
+      const offsetY = rect.offsetY ?? 0;
+      const pixels = Buffer.alloc(width * height * 4);
+
+      // 逐行复制精灵区域，超出精灵图或原始尺寸的部分保持透明
+      const copyWidth = Math.min(rect.width, width - offsetX, info.width - rect.x);
+      for (let y = 0; y < rect.height && y + offsetY < height && rect.y + y < info.height; y++) {
+        if (copyWidth <= 0) break;
+        const start = ((rect.y + y) * info.width + rect.x) * 4;
+        data.copy(pixels, ((y + offsetY) * width + offsetX) * 4, start, start + copyWidth * 4);
+      }
+
+      return { data: pixels, width, height };
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "未知错误";
+    throw createWebPProcessingError(`拆分精灵图失败: ${message}`);
+  }
+}
+
+/**
+ * 将精灵图拆分为每个精灵单独的 PNG 图像
+ *
+ * 输出尺寸与空精灵的处理同 `splitSpriteSheetToRaw`
+ *
+ * @param webpBuffer - WebP 精灵图数据
+ * @param spriteInfo - 精灵图信息
+ * @returns 按精灵索引排列的 PNG 数据
+ * @throws H5AnimateError 如果解码或编码失败
+ */
+export async function splitSpriteSheetToPng(
+  webpBuffer: Buffer,
+  spriteInfo: SpriteInfo,
+): Promise<Array<Buffer | null>> {
+  const sprites = await splitSpriteSheetToRaw(webpBuffer, spriteInfo);
+
+  try {
+    return await Promise.all(sprites.map((sprite) => (sprite ? rawToPng(sprite) : null)));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "未知错误";
+    throw createWebPProcessingError(`拆分精灵图失败: ${message}`);
+  }
+}
+
+/**
+ * 将 RGBA 图像编码为 PNG
+ *
+ * @param image - RGBA 图像
+ * @returns PNG 数据
+ */
+export function rawToPng(image: RawImage): Promise<Buffer> {
+  return sharp(image.data, { raw: { width: image.width, height: image.height, channels: 4 } })
+    .png()
+    .toBuffer();
+}
+
 /**
  * 将多个 Base64 编码的图像合并为 WebP 精灵图
  *
+ * 空字符串会作为空精灵保留索引。使用默认的垂直排布且不裁剪、不留间距时，
+ * 生成与旧版本兼容的垂直精灵图
+ *
  * @param base64Images - Base64 编码的图像数组
  * @param options - WebP 压缩选项
+ * @param sheetOptions - 排布选项
+ * @param progress - 进度与取消选项
  * @returns 包含 WebP 数据和精灵图信息的结果
  */
 export async function combineBase64ImagesToWebP(
   base64Images: string[],
   options: WebPOptions = {},
+  sheetOptions: SpriteSheetOptions = {},
+  progress: ProgressOptions = {},
 ): Promise<ImageConversionResult> {
-  // 过滤空字符串并转换为 Buffer
-  const imageBuffers = base64Images
-    .filter((img) => img.length > 0)
-    .map(base64ToBuffer);
+  // 空字符串作为空精灵，其余转换为 Buffer
+  const imageBuffers = base64Images.map((img) =>
+    img.length > 0 ? base64ToBuffer(img) : null,
+  );
+
+  const { layout = "vertical", padding = 0, trim = false } = sheetOptions;
+  if (layout === "vertical" && padding === 0 && !trim) {
+    return createVerticalSpriteSheet(imageBuffers, options, progress);
+  }
 
-  return createVerticalSpriteSheet(imageBuffers, options);
+  return createPackedSpriteSheet(imageBuffers, options, sheetOptions, progress);
 }
 
 /**
@@ -287,16 +668,20 @@ export async function extractFrameByPosition(
 /**
  * 从精灵图中提取所有帧
  *
+ * 每提取一帧报告一次 frame 阶段的进度
+ *
  * @param webpBuffer - WebP 精灵图数据
  * @param frameHeight - 每帧的高度
  * @param frameCount - 帧数量（如果不指定，根据精灵图高度自动计算）
+ * @param progress - 进度与取消选项
  * @returns 所有帧的 Buffer 数组
- * @throws H5AnimateError 如果提取失败
+ * @throws H5AnimateError 如果提取失败或已取消
  */
 export async function extractAllFrames(
   webpBuffer: Buffer,
   frameHeight: number,
   frameCount?: number,
+  progress: ProgressOptions = {},
 ): Promise<Buffer[]> {
   try {
     const metadata = await sharp(webpBuffer).metadata();
@@ -307,6 +692,7 @@ export async function extractAllFrames(
     const count = frameCount ?? Math.floor(spriteHeight / frameHeight);
 
     const frames: Buffer[] = [];
+    reportProgress(progress, "frame", 0, count);
 
     for (let i = 0; i < count; i++) {
       const frame = await sharp(webpBuffer)
@@ -318,6 +704,7 @@ export async function extractAllFrames(
         })
         .toBuffer();
       frames.push(frame);
+      reportProgress(progress, "frame", i + 1, count);
     }
 
     return frames;
@@ -0,0 +1,69 @@
+/**
+ * WebP 文件头解析
+ *
+ * 只读取 RIFF 头中的画布尺寸，不解码像素，可在没有 sharp 的环境（如浏览器）中使用
+ */
+
+import { decodeAscii } from "./binary.js";
+
+/**
+ * WebP 画布尺寸
+ */
+export interface WebPSize {
+  width: number;
+  height: number;
+}
+
+/**
+ * 读取 WebP 的画布尺寸
+ *
+ * 支持有损（VP8）、无损（VP8L）和扩展格式（VP8X）
+ *
+ * @param data - WebP 数据
+ * @returns 画布尺寸，如果不是有效的 WebP 则返回 null
+ */
+export function readWebPSize(data: Uint8Array): WebPSize | null {
+  if (
+    data.length < 30
+    || decodeAscii(data.subarray(0, 4)) !== "RIFF"
+    || decodeAscii(data.subarray(8, 12)) !== "WEBP"
+  ) {
+    return null;
+  }
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const format = decodeAscii(data.subarray(12, 16));
+
+  switch (format) {
+    case "VP8 ": {
+      // 帧标签 3 字节之后为起始码 9d 01 2a，随后是 14 位宽高
+      if (data[23] !== 0x9d || data[24] !== 0x01 || data[25] !== 0x2a) {
+        return null;
+      }
+      return {
+        width: view.getUint16(26, true) & 0x3fff,
+        height: view.getUint16(28, true) & 0x3fff,
+      };
+    }
+    case "VP8L": {
+      // 签名 0x2f 之后为 14 位宽减一、14 位高减一
+      if (data[20] !== 0x2f) {
+        return null;
+      }
+      const bits = view.getUint32(21, true);
+      return {
+        width: (bits & 0x3fff) + 1,
+        height: ((bits >>> 14) & 0x3fff) + 1,
+      };
+    }
+    case "VP8X": {
+      // 4 字节标志之后为 24 位宽减一、24 位高减一
+      return {
+        width: (data[24] | (data[25] << 8) | (data[26] << 16)) + 1,
+        height: (data[27] | (data[28] << 8) | (data[29] << 16)) + 1,
+      };
+    }
+    default:
+      return null;
+  }
+}